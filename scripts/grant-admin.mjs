@@ -0,0 +1,42 @@
+/*
+[概要]
+登録済みのアカウントに管理者 (admin) の権限を付ける・外すコマンド。
+管理者の権限は会員登録では付けず、サーバーを操作できる人がこのコマンドで付ける。
+  npm run admin:grant -- admin@example.com          # 管理者にする
+  npm run admin:grant -- admin@example.com --revoke # 一般のアカウント (customer) に戻す
+data/users.json (環境変数 DATA_DIR で変更できる) を直接書き換える。
+*/
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), 'data');
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+
+const main = async () => {
+    const args = process.argv.slice(2);
+    const email = args.find((arg) => !arg.startsWith('--'))?.trim().toLowerCase();
+    const role = args.includes('--revoke') ? 'customer' : 'admin';
+    if (!email) {
+        console.error('使い方: npm run admin:grant -- <メールアドレス> [--revoke]');
+        process.exit(1);
+    }
+
+    const users = JSON.parse(await fs.readFile(USERS_FILE, 'utf-8'));
+    const user = users.find((candidate) => candidate.email === email);
+    if (!user) {
+        console.error(`アカウントが見つかりません: ${email} (先に会員登録してください)`);
+        process.exit(1);
+    }
+    user.role = role;
+
+    // 書き込み途中のファイルを読まれないよう、一時ファイルに書いてから置き換える
+    const tempPath = `${USERS_FILE}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(users, null, 2), 'utf-8');
+    await fs.rename(tempPath, USERS_FILE);
+    process.stdout.write(`${email} の権限を ${role} にしました\n`);
+};
+
+main().catch((error) => {
+    console.error('権限を変更できませんでした:', error);
+    process.exit(1);
+});
@@ -0,0 +1,121 @@
+/*
+[概要]
+このファイル (page.tsx) は注文詳細ページ (/account/orders/[id]) です。
+注文時点の明細・金額 (スナップショット)・お届け先・ステータスの履歴を表示し、同じ商品をもう一度カートに入れられます。
+他のアカウントの注文は表示しません (404)。
+*/
+
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getProducts, resolveSku } from '../../../../lib/catalog';
+import { formatOptions } from '../../../../lib/catalog/variants';
+import { getI18n } from '../../../../lib/i18n';
+import { getOrder } from '../../../../lib/orders';
+import { lineTotalWithTax } from '../../../../lib/pricing';
+import { getCurrentUser } from '../../../../lib/session';
+import OrderStatusBadge from '../../../../components/orders/OrderStatusBadge';
+import OrderStatusTimeline from '../../../../components/orders/OrderStatusTimeline';
+import ReorderButton from '../../../../components/orders/ReorderButton';
+import PriceSummaryTable from '../../../../components/pricing/PriceSummaryTable';
+
+type OrderDetailPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function OrderDetailPage({ params }: OrderDetailPageProps) {
+  const { id } = await params;
+  const { t, formatPrice, formatDate, localizePath } = await getI18n();
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(localizePath(`/login?next=${encodeURIComponent(localizePath(`/account/orders/${id}`))}`));
+  }
+  const order = await getOrder(id);
+  if (!order || order.userId !== user.id) {
+    notFound();
+  }
+
+  // 再注文のために、各明細の現在の価格をカタログから取得する (販売終了は null)
+  const products = await getProducts();
+  const reorderLines = order.items.map((item) => ({
+    ...item,
+    currentUnitPrice: resolveSku(products, item.sku)?.price ?? null,
+  }));
+  const { shippingAddress } = order;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h1 className="text-2xl font-bold">{t('orders.detailTitle')}</h1>
+        <OrderStatusBadge status={order.status} />
+      </div>
+      <p className="text-gray-700">
+        {t('order.number')} <span className="font-bold">{order.id}</span>
+        <span className="ml-4">
+          {t('order.date', { date: formatDate(order.createdAt, 'datetime') })}
+        </span>
+      </p>
+
+      {/* 注文明細 (注文時点の価格) */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('order.items')}</h2>
+        {order.items.map((item) => (
+          <div key={item.sku} className="flex justify-between py-1">
+            <span>
+              <Link href={localizePath(`/products/${item.productId}`)} className="hover:underline">{item.name}</Link>
+              {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+              {' '}× {item.quantity}
+            </span>
+            <span>{formatPrice(lineTotalWithTax(item))}</span>
+          </div>
+        ))}
+        <div className="border-t mt-2 pt-2">
+          <PriceSummaryTable
+            summary={{
+              subtotal: order.subtotal,
+              discountTotal: order.discountTotal,
+              shipping: order.shippingFee,
+              taxes: order.taxes,
+              totalTax: order.tax,
+              total: order.total,
+            }}
+            discounts={order.discounts}
+          />
+        </div>
+        <div className="mt-4">
+          <ReorderButton lines={reorderLines} />
+        </div>
+      </section>
+
+      {/* 配送先・配送方法 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('order.deliverTo')}</h2>
+        <p>{t('address.recipient', { name: shippingAddress.name })}</p>
+        <p>〒{shippingAddress.postalCode}</p>
+        <p>
+          {shippingAddress.prefecture}{shippingAddress.city}{shippingAddress.addressLine1}
+          {shippingAddress.addressLine2 && ` ${shippingAddress.addressLine2}`}
+        </p>
+        <p className="mt-2">{t('order.deliveryMethod', { method: t(`delivery.${order.deliveryMethod}`) })}</p>
+        <p>
+          {t('order.deliverySchedule', {
+            date: order.deliveryDate ? formatDate(order.deliveryDate, 'day') : t('delivery.earliest'),
+            slot: t(`deliverySlot.${order.deliveryTimeSlot}`),
+          })}
+        </p>
+        {order.trackingNumber && (
+          <p>{t('order.trackingNumber', { trackingNumber: order.trackingNumber })}</p>
+        )}
+      </section>
+
+      {/* ステータスの履歴 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('order.status')}</h2>
+        <OrderStatusTimeline history={order.statusHistory} />
+      </section>
+
+      <Link href={localizePath('/account/orders')} className="inline-block text-blue-500 hover:underline">
+        {t('orders.backToHistory')}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/*
+[概要]
+このファイル (page.tsx) は注文履歴ページ (/account/orders) です。
+ログイン中のアカウントの注文を新しい順に表示します。ページは ?page=2 のように URL で指定します。
+*/
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { formatOptions } from '../../../lib/catalog/variants';
+import { getI18n } from '../../../lib/i18n';
+import { listOrdersByUser } from '../../../lib/orders';
+import { getCurrentUser } from '../../../lib/session';
+import OrderStatusBadge from '../../../components/orders/OrderStatusBadge';
+import Pagination from '../../../components/Pagination';
+
+type OrderHistoryPageProps = {
+  searchParams: Promise<{ page?: string | string[] }>;
+};
+
+export default async function OrderHistoryPage({ searchParams }: OrderHistoryPageProps) {
+  const { t, formatPrice, formatDate, localizePath } = await getI18n();
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(localizePath(`/login?next=${encodeURIComponent(localizePath('/account/orders'))}`));
+  }
+  const { page } = await searchParams;
+  const result = await listOrdersByUser(user.id, Number(page) || 1);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <h1 className="text-2xl font-bold">{t('orders.title')}</h1>
+
+      {result.orders.length === 0 ? (
+        <p className="text-gray-700">
+          {t('orders.empty')}
+          <Link href={localizePath('/products')} className="ml-2 text-blue-500 hover:underline">
+            {t('common.browseProducts')}
+          </Link>
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {result.orders.map((order) => {
+            const [first, ...rest] = order.items;
+            return (
+              <li key={order.id}>
+                <Link
+                  href={localizePath(`/account/orders/${order.id}`)}
+                  className="block border rounded p-4 bg-white hover:shadow-md transition"
+                >
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-sm text-gray-500">
+                      {formatDate(order.createdAt)}
+                      <span className="ml-2">{t('order.number')} {order.id}</span>
+                    </span>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                  <p className="font-bold">
+                    {first.name}
+                    {Object.keys(first.options).length > 0 && ` (${formatOptions(first.options)})`}
+                    {rest.length > 0 && t('orders.andMore', { count: rest.length })}
+                  </p>
+                  <p className="text-gray-700">{t('orders.total', { amount: formatPrice(order.total) })}</p>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Pagination
+        page={result.page}
+        totalPages={result.totalPages}
+        hrefForPage={(number) => localizePath(number > 1 ? `/account/orders?page=${number}` : '/account/orders')}
+      />
+
+      <Link href={localizePath('/account')} className="inline-block text-blue-500 hover:underline">
+        {t('orders.backToAccount')}
+      </Link>
+    </div>
+  );
+}
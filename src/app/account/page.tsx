@@ -0,0 +1,51 @@
+/*
+[概要]
+このファイル (page.tsx) はアカウントページ (/account) です。
+ログイン中のアカウント情報を表示します。未ログインの場合はログインページへ移動します。
+*/
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { isAdmin } from '../../lib/auth';
+import { getI18n } from '../../lib/i18n';
+import { getCurrentUser } from '../../lib/session';
+import LogoutButton from '../../components/auth/LogoutButton';
+
+export default async function AccountPage() {
+  const { t, formatDate, localizePath } = await getI18n();
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(localizePath(`/login?next=${encodeURIComponent(localizePath('/account'))}`));
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">{t('account.title')}</h1>
+
+      <section className="border rounded p-4 bg-white">
+        <dl className="space-y-2">
+          <div className="flex gap-4">
+            <dt className="w-32 text-gray-600">{t('account.name')}</dt>
+            <dd>{user.name || t('account.nameUnset')}</dd>
+          </div>
+          <div className="flex gap-4">
+            <dt className="w-32 text-gray-600">{t('account.email')}</dt>
+            <dd>{user.email}</dd>
+          </div>
+          <div className="flex gap-4">
+            <dt className="w-32 text-gray-600">{t('account.createdAt')}</dt>
+            <dd>{formatDate(user.createdAt)}</dd>
+          </div>
+        </dl>
+      </section>
+
+      <div className="flex gap-4 items-center">
+        <Link href={localizePath('/account/orders')} className="text-blue-500 hover:underline">{t('account.orders')}</Link>
+        <Link href={localizePath('/cart')} className="text-blue-500 hover:underline">{t('common.viewCart')}</Link>
+        {/* 管理画面は日本語のみ (言語の付かない URL) */}
+        {isAdmin(user) && <Link href="/admin" className="text-blue-500 hover:underline">{t('account.admin')}</Link>}
+        <LogoutButton />
+      </div>
+    </div>
+  );
+}
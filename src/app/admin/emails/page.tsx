@@ -0,0 +1,58 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面のメール送信箱 (/admin/emails) です。
+送信方法が送信箱 (EMAIL_TRANSPORT=outbox、開発環境の既定) の場合に、送信したメールを新しい順に表示します。
+本文はテキストと HTML (プレビュー) の両方を確認できます。
+*/
+
+import { readOutbox } from '../../../lib/email';
+import type { EmailTemplateId } from '../../../lib/email';
+import { requireAdmin } from '../../../lib/session';
+
+const TEMPLATE_LABELS: Record<EmailTemplateId, string> = {
+  order_confirmation: '注文確認',
+  payment_received: 'お支払い完了',
+  order_shipped: '発送',
+  order_cancelled: 'キャンセル',
+  order_refunded: '返金',
+  cart_reminder: 'カゴ落ち',
+};
+
+export default async function AdminEmailListPage() {
+  await requireAdmin();
+  const emails = [...(await readOutbox())].reverse();
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">メール送信箱</h1>
+      <p className="text-sm text-gray-600">
+        送信方法が送信箱 (EMAIL_TRANSPORT=outbox) の場合に、送信したメールが保存されます (最新200件)。
+      </p>
+
+      {emails.length === 0 ? (
+        <p className="text-gray-700">送信したメールはありません。</p>
+      ) : (
+        <ul className="space-y-3">
+          {emails.map((email) => (
+            <li key={email.id} className="border rounded p-4 bg-white space-y-2">
+              <div className="flex flex-wrap justify-between gap-2 text-sm text-gray-600">
+                <span>{TEMPLATE_LABELS[email.template]} ・ 宛先: {email.to}</span>
+                <span>{new Date(email.sentAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}</span>
+              </div>
+              <p className="font-bold">{email.subject}</p>
+              <details>
+                <summary className="cursor-pointer text-blue-500">テキスト</summary>
+                <pre className="mt-2 p-2 bg-gray-50 text-sm whitespace-pre-wrap">{email.text}</pre>
+              </details>
+              <details>
+                <summary className="cursor-pointer text-blue-500">HTML</summary>
+                {/* メールの HTML はスクリプトを実行しない iframe で表示する */}
+                <iframe srcDoc={email.html} sandbox="" title={email.subject} className="mt-2 w-full h-96 border" />
+              </details>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/*
+[概要]
+このファイル (layout.tsx) は管理画面 (/admin 以下) の共通レイアウトです。
+未ログインの場合はログインページへ移動し、管理者以外には管理画面の存在を見せないよう 404 を返します (lib/session の requireAdmin)。
+レイアウトはページと並行して描画されるため、各ページでもデータを読み込む前に requireAdmin で確認しています。
+(API 側も lib/session の assertAdmin で同じ確認をしています)
+*/
+
+import Link from 'next/link';
+import { requireAdmin } from '../../lib/session';
+
+type AdminLayoutProps = {
+  children: React.ReactNode;
+};
+
+const ADMIN_NAV = [
+  { href: '/admin', label: 'ダッシュボード' },
+  { href: '/admin/products', label: '商品' },
+  { href: '/admin/orders', label: '注文' },
+  { href: '/admin/reviews', label: 'レビュー' },
+  { href: '/admin/emails', label: 'メール' },
+];
+
+export default async function AdminLayout({ children }: AdminLayoutProps) {
+  await requireAdmin();
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <nav aria-label="管理メニュー" className="flex gap-4 border-b pb-2">
+        <span className="font-bold">管理画面</span>
+        {ADMIN_NAV.map((item) => (
+          <Link key={item.href} href={item.href} className="text-blue-500 hover:underline">{item.label}</Link>
+        ))}
+      </nav>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の注文詳細 (/admin/orders/[id]) です。
+明細・お届け先・ステータスの履歴を表示し、ステータスを変更できます。
+*/
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { listAdminTransitions } from '../../../../lib/admin';
+import { formatOptions } from '../../../../lib/catalog/variants';
+import { findDeliveryMethod } from '../../../../lib/checkout';
+import { getOrder } from '../../../../lib/orders';
+import { findDeliveryTimeSlotLabel } from '../../../../lib/shipping/schedule';
+import { formatYen, lineTotalWithTax } from '../../../../lib/pricing';
+import { requireAdmin } from '../../../../lib/session';
+import OrderStatusActions from '../../../../components/admin/OrderStatusActions';
+import OrderStatusBadge from '../../../../components/orders/OrderStatusBadge';
+import OrderStatusTimeline from '../../../../components/orders/OrderStatusTimeline';
+import PriceSummaryTable from '../../../../components/pricing/PriceSummaryTable';
+
+type AdminOrderDetailPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function AdminOrderDetailPage({ params }: AdminOrderDetailPageProps) {
+  await requireAdmin();
+  const { id } = await params;
+  const order = await getOrder(id);
+  if (!order) {
+    notFound();
+  }
+  const { shippingAddress } = order;
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h1 className="text-2xl font-bold">注文 {order.id}</h1>
+        <OrderStatusBadge status={order.status} />
+      </div>
+      <p className="text-gray-700">
+        注文日時: {new Date(order.createdAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}
+        <span className="ml-4">{order.userId ? `会員 (ID: ${order.userId})` : 'ゲスト購入'}</span>
+        {order.payment && <span className="ml-4">決済ID: {order.payment.paymentId}</span>}
+      </p>
+
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">ステータスの変更</h2>
+        <OrderStatusActions orderId={order.id} transitions={listAdminTransitions(order.status)} />
+      </section>
+
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">注文内容</h2>
+        {order.items.map((item) => (
+          <div key={item.sku} className="flex justify-between py-1">
+            <span>
+              <span className="font-mono text-sm text-gray-500 mr-2">{item.sku}</span>
+              {item.name}
+              {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+              {' '}× {item.quantity}
+            </span>
+            <span>{formatYen(lineTotalWithTax(item))}</span>
+          </div>
+        ))}
+        <div className="border-t mt-2 pt-2">
+          <PriceSummaryTable
+            summary={{
+              subtotal: order.subtotal,
+              discountTotal: order.discountTotal,
+              shipping: order.shippingFee,
+              taxes: order.taxes,
+              totalTax: order.tax,
+              total: order.total,
+            }}
+            discounts={order.discounts}
+          />
+        </div>
+      </section>
+
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">お届け先</h2>
+        <p>{shippingAddress.name} 様</p>
+        <p>〒{shippingAddress.postalCode}</p>
+        <p>
+          {shippingAddress.prefecture}{shippingAddress.city}{shippingAddress.addressLine1}
+          {shippingAddress.addressLine2 && ` ${shippingAddress.addressLine2}`}
+        </p>
+        <p className="mt-2">配送方法: {findDeliveryMethod(order.deliveryMethod)?.label}</p>
+        <p>
+          お届け希望: {order.deliveryDate ?? '最短'} {findDeliveryTimeSlotLabel(order.deliveryTimeSlot)}
+        </p>
+        {order.trackingNumber && <p>お問い合わせ伝票番号: {order.trackingNumber}</p>}
+        <p className="mt-2">連絡先: TEL {shippingAddress.phone} / {shippingAddress.email || '(メールアドレスなし)'}</p>
+      </section>
+
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">ステータスの履歴</h2>
+        <OrderStatusTimeline history={order.statusHistory} />
+      </section>
+
+      <Link href="/admin/orders" className="inline-block text-blue-500 hover:underline">注文一覧に戻る</Link>
+    </div>
+  );
+}
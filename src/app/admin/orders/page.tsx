@@ -0,0 +1,90 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の注文一覧 (/admin/orders) です。
+ステータスでの絞り込みとページは URL で指定します。例: /admin/orders?status=paid&page=2
+*/
+
+import Link from 'next/link';
+import { ORDER_STATUS_LABELS, OrderStatus, isOrderStatus, listOrders } from '../../../lib/orders';
+import { formatYen } from '../../../lib/pricing';
+import { requireAdmin } from '../../../lib/session';
+import OrderStatusBadge from '../../../components/orders/OrderStatusBadge';
+import Pagination from '../../../components/Pagination';
+
+type AdminOrderListPageProps = {
+  searchParams: Promise<{ status?: string | string[]; page?: string | string[] }>;
+};
+
+const toOrdersHref = (status: OrderStatus | undefined, page = 1) => {
+  const params = new URLSearchParams();
+  if (status) {
+    params.set('status', status);
+  }
+  if (page > 1) {
+    params.set('page', String(page));
+  }
+  const query = params.toString();
+  return query ? `/admin/orders?${query}` : '/admin/orders';
+};
+
+export default async function AdminOrderListPage({ searchParams }: AdminOrderListPageProps) {
+  await requireAdmin();
+  const params = await searchParams;
+  const status = isOrderStatus(params.status) ? params.status : undefined;
+  const result = await listOrders({ status, page: Number(params.page) || 1 });
+  const filters: (OrderStatus | undefined)[] = [undefined, ...(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[])];
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">注文</h1>
+
+      <nav aria-label="ステータスで絞り込む" className="flex flex-wrap gap-3 text-sm">
+        {filters.map((filter) => (
+          <Link
+            key={filter ?? 'all'}
+            href={toOrdersHref(filter)}
+            aria-current={filter === status ? 'true' : undefined}
+            className={filter === status ? 'font-bold text-blue-600' : 'text-gray-700 hover:underline'}
+          >
+            {filter ? ORDER_STATUS_LABELS[filter] : 'すべて'}
+          </Link>
+        ))}
+      </nav>
+
+      {result.orders.length === 0 ? (
+        <p className="text-gray-700">該当する注文はありません。</p>
+      ) : (
+        <table className="w-full bg-white border text-sm">
+          <thead>
+            <tr className="text-left border-b bg-gray-50">
+              <th className="p-2">注文番号</th>
+              <th>注文日時</th>
+              <th>お届け先</th>
+              <th className="text-right">合計 (税込)</th>
+              <th className="p-2">ステータス</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.orders.map((order) => (
+              <tr key={order.id} className="border-b">
+                <td className="p-2">
+                  <Link href={`/admin/orders/${order.id}`} className="text-blue-500 hover:underline">{order.id}</Link>
+                </td>
+                <td>{new Date(order.createdAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}</td>
+                <td>{order.shippingAddress.name} 様</td>
+                <td className="text-right">{formatYen(order.total)}</td>
+                <td className="p-2"><OrderStatusBadge status={order.status} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Pagination
+        page={result.page}
+        totalPages={result.totalPages}
+        hrefForPage={(page) => toOrdersHref(status, page)}
+      />
+    </div>
+  );
+}
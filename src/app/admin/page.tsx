@@ -0,0 +1,113 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面のダッシュボード (/admin) です。
+売上 (お支払い済みの注文の税込合計)・日別の売上・よく売れている商品・在庫の少ない SKU・承認待ちのレビューの件数を表示します。
+*/
+
+import Link from 'next/link';
+import { DASHBOARD_DAYS, getSalesSummary } from '../../lib/admin';
+import { ORDER_STATUS_LABELS, OrderStatus } from '../../lib/orders';
+import { formatYen } from '../../lib/pricing';
+import { countPendingReviews } from '../../lib/reviews';
+import { requireAdmin } from '../../lib/session';
+
+export default async function AdminDashboardPage() {
+  await requireAdmin();
+  const summary = await getSalesSummary();
+  const pendingReviews = await countPendingReviews();
+  const stats = [
+    { label: '売上 (税込)', value: formatYen(summary.revenue) },
+    { label: '注文数', value: `${summary.orderCount}件` },
+    { label: '平均注文額', value: formatYen(summary.averageOrderValue) },
+    { label: '返金額', value: formatYen(summary.refundedTotal) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">ダッシュボード</h1>
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="border rounded p-4 bg-white">
+            <p className="text-sm text-gray-600">{stat.label}</p>
+            <p className="text-xl font-bold">{stat.value}</p>
+          </div>
+        ))}
+      </section>
+
+      {/* ステータスごとの件数 (クリックでその注文一覧へ) */}
+      <section className="flex flex-wrap gap-3">
+        {Object.entries(summary.statusCounts).map(([status, count]) => (
+          <Link
+            key={status}
+            href={`/admin/orders?status=${status}`}
+            className="border rounded px-3 py-1 bg-white hover:bg-gray-50"
+          >
+            {ORDER_STATUS_LABELS[status as OrderStatus]}: {count}
+          </Link>
+        ))}
+        <Link href="/admin/reviews" className="border rounded px-3 py-1 bg-white hover:bg-gray-50">
+          承認待ちのレビュー: {pendingReviews}
+        </Link>
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <section className="border rounded p-4 bg-white">
+          <h2 className="text-xl font-bold mb-2">日別の売上 (直近{DASHBOARD_DAYS}日)</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-1">日付</th>
+                <th className="text-right">注文数</th>
+                <th className="text-right">売上 (税込)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.daily.map((day) => (
+                <tr key={day.date} className="border-b">
+                  <td className="py-1">{day.date}</td>
+                  <td className="text-right">{day.orders}</td>
+                  <td className="text-right">{formatYen(day.revenue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <div className="space-y-6">
+          <section className="border rounded p-4 bg-white">
+            <h2 className="text-xl font-bold mb-2">よく売れている商品</h2>
+            {summary.topProducts.length === 0 ? (
+              <p className="text-gray-500">まだ売上がありません</p>
+            ) : (
+              <ol className="list-decimal list-inside space-y-1">
+                {summary.topProducts.map((product) => (
+                  <li key={product.productId}>
+                    <Link href={`/admin/products/${product.productId}`} className="hover:underline">{product.name}</Link>
+                    <span className="ml-2 text-gray-600">{product.quantity}点 / {formatYen(product.revenue)} (税抜)</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          <section className="border rounded p-4 bg-white">
+            <h2 className="text-xl font-bold mb-2">在庫の少ない商品</h2>
+            {summary.lowStock.length === 0 ? (
+              <p className="text-gray-500">在庫の少ない商品はありません</p>
+            ) : (
+              <ul className="space-y-1">
+                {summary.lowStock.map((sku) => (
+                  <li key={sku.sku} className="flex justify-between">
+                    <Link href={`/admin/products/${sku.productId}`} className="hover:underline">{sku.name}</Link>
+                    <span className={sku.stock === 0 ? 'text-red-500' : 'text-orange-500'}>残り{sku.stock}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の商品編集ページ (/admin/products/[id]) です。
+*/
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getProductById } from '../../../../lib/catalog';
+import { requireAdmin } from '../../../../lib/session';
+import DeleteProductButton from '../../../../components/admin/DeleteProductButton';
+import ProductForm from '../../../../components/admin/ProductForm';
+
+type AdminEditProductPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function AdminEditProductPage({ params }: AdminEditProductPageProps) {
+  await requireAdmin();
+  const { id } = await params;
+  const product = await getProductById(id);
+  if (!product) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">商品を編集</h1>
+        <Link href={`/products/${product.id}`} className="text-blue-500 hover:underline">商品ページを見る</Link>
+      </div>
+      <ProductForm product={product} />
+      <DeleteProductButton productId={product.id} productName={product.name} />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の商品 CSV 取り込みページ (/admin/products/import) です。
+書き出した CSV を表計算ソフトで編集して取り込むことを想定しています。
+*/
+
+import Link from 'next/link';
+import { MAX_IMPORT_ROWS, PRODUCT_CSV_COLUMNS } from '../../../../lib/catalog';
+import { requireAdmin } from '../../../../lib/session';
+import ProductCsvImport from '../../../../components/admin/ProductCsvImport';
+
+export default async function AdminProductImportPage() {
+  await requireAdmin();
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">商品 CSV の取り込み</h1>
+      <ul className="list-disc list-inside text-gray-700 text-sm space-y-1">
+        <li>1行目は見出し ({PRODUCT_CSV_COLUMNS.map((column) => column.header).join('・')}) です。</li>
+        <li>商品IDが既存の商品と一致する行は更新、一致しない行は新規登録します (空欄の場合は自動で採番します)。</li>
+        <li>商品IDと価格だけのように、一部の列だけの CSV でも更新できます (見出しにない列は今の値のまま残します)。</li>
+        <li>CSV にない商品は削除しません。バリエーションの価格・在庫は商品の編集画面で変更してください。</li>
+        <li>追加の画像は「|」で区切って入力します。一度に取り込めるのは{MAX_IMPORT_ROWS}行までです。</li>
+        <li>1行でもエラーがある場合は、ファイル全体を取り込みません。</li>
+      </ul>
+      <ProductCsvImport />
+      <Link href="/admin/products" className="inline-block text-blue-500 hover:underline">商品一覧に戻る</Link>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の商品登録ページ (/admin/products/new) です。
+*/
+
+import ProductForm from '../../../../components/admin/ProductForm';
+import { requireAdmin } from '../../../../lib/session';
+
+export default async function AdminNewProductPage() {
+  await requireAdmin();
+  return (
+    <div className="max-w-3xl space-y-4">
+      <h1 className="text-2xl font-bold">商品を登録</h1>
+      <ProductForm />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面の商品一覧 (/admin/products) です。
+在庫はバリエーションがある場合は SKU の合計を表示します。
+CSV での書き出し・取り込み (/admin/products/import) もここから行います。
+*/
+
+import Link from 'next/link';
+import { findCategoryLabel, getProducts, listSkus } from '../../../lib/catalog';
+import { formatYen } from '../../../lib/pricing';
+import { requireAdmin } from '../../../lib/session';
+
+export default async function AdminProductListPage() {
+  await requireAdmin();
+  const products = await getProducts();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">商品</h1>
+        <div className="flex items-center gap-4">
+          {/* CSV の書き出しはファイルのダウンロードなので、ページ遷移ではなく GET フォームで API を開く */}
+          <form action="/api/admin/products/export" method="get" className="flex items-center gap-2">
+            <select name="encoding" aria-label="文字コード" defaultValue="shift_jis" className="border rounded p-1 bg-white">
+              <option value="shift_jis">Shift_JIS</option>
+              <option value="utf-8">UTF-8</option>
+            </select>
+            <button type="submit" className="text-blue-500 hover:underline">CSV 書き出し</button>
+          </form>
+          <Link href="/admin/products/import" className="text-blue-500 hover:underline">CSV 取り込み</Link>
+          <Link href="/admin/products/new" className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+            商品を登録
+          </Link>
+        </div>
+      </div>
+
+      <table className="w-full bg-white border text-sm">
+        <thead>
+          <tr className="text-left border-b bg-gray-50">
+            <th className="p-2">ID</th>
+            <th>商品名</th>
+            <th>カテゴリ</th>
+            <th className="text-right">価格 (税抜)</th>
+            <th className="text-right">在庫</th>
+            <th className="text-right p-2">販売数</th>
+          </tr>
+        </thead>
+        <tbody>
+          {products.map((product) => (
+            <tr key={product.id} className="border-b">
+              <td className="p-2 font-mono">{product.id}</td>
+              <td>
+                <Link href={`/admin/products/${product.id}`} className="text-blue-500 hover:underline">{product.name}</Link>
+                {product.variants && <span className="ml-2 text-gray-500">({product.variants.length} SKU)</span>}
+              </td>
+              <td>{findCategoryLabel(product.category)}</td>
+              <td className="text-right">{formatYen(product.price)}</td>
+              <td className="text-right">{listSkus(product).reduce((total, sku) => total + sku.stock, 0)}</td>
+              <td className="text-right p-2">{product.soldCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
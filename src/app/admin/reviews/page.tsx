@@ -0,0 +1,96 @@
+/*
+[概要]
+このファイル (page.tsx) は管理画面のレビュー管理 (/admin/reviews) です。
+投稿されたレビューを古い順に表示し、承認 (公開)・却下・要確認 (非公開) を切り替えます。
+何も指定しない場合は承認待ちのレビューを表示します。例: /admin/reviews?status=flagged&page=2 (すべて: status=all)
+*/
+
+import Link from 'next/link';
+import { REVIEW_STATUS_LABELS, ReviewStatus, isReviewStatus, listReviewsForModeration } from '../../../lib/reviews';
+import { requireAdmin } from '../../../lib/session';
+import ReviewModerationActions from '../../../components/admin/ReviewModerationActions';
+import RatingStars from '../../../components/reviews/RatingStars';
+import Pagination from '../../../components/Pagination';
+
+type AdminReviewListPageProps = {
+  searchParams: Promise<{ status?: string | string[]; page?: string | string[] }>;
+};
+
+type ReviewFilter = ReviewStatus | 'all';
+
+const toReviewsHref = (filter: ReviewFilter, page = 1) => {
+  const params = new URLSearchParams();
+  if (filter !== 'pending') {
+    params.set('status', filter);
+  }
+  if (page > 1) {
+    params.set('page', String(page));
+  }
+  const query = params.toString();
+  return query ? `/admin/reviews?${query}` : '/admin/reviews';
+};
+
+export default async function AdminReviewListPage({ searchParams }: AdminReviewListPageProps) {
+  await requireAdmin();
+  const params = await searchParams;
+  const filter: ReviewFilter = params.status === 'all' ? 'all' : isReviewStatus(params.status) ? params.status : 'pending';
+  const result = await listReviewsForModeration({
+    status: filter === 'all' ? undefined : filter,
+    page: Number(params.page) || 1,
+  });
+  const filters: ReviewFilter[] = [...(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]), 'all'];
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">レビュー</h1>
+
+      <nav aria-label="状態で絞り込む" className="flex flex-wrap gap-3 text-sm">
+        {filters.map((candidate) => (
+          <Link
+            key={candidate}
+            href={toReviewsHref(candidate)}
+            aria-current={candidate === filter ? 'true' : undefined}
+            className={candidate === filter ? 'font-bold text-blue-600' : 'text-gray-700 hover:underline'}
+          >
+            {candidate === 'all' ? 'すべて' : REVIEW_STATUS_LABELS[candidate]}
+          </Link>
+        ))}
+      </nav>
+
+      {result.reviews.length === 0 ? (
+        <p className="text-gray-700">該当するレビューはありません。</p>
+      ) : (
+        <ul className="space-y-3">
+          {result.reviews.map((review) => (
+            <li key={review.id} className="border rounded p-4 bg-white space-y-2">
+              <div className="flex flex-wrap justify-between gap-2 text-sm">
+                <Link href={`/admin/products/${review.productId}`} className="font-bold hover:underline">
+                  {review.productName}
+                </Link>
+                <span className="text-gray-600">
+                  {REVIEW_STATUS_LABELS[review.status]} ・ {new Date(review.createdAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <RatingStars rating={review.rating} label={`5段階中${review.rating}`} />
+                {review.title && <span className="font-bold">{review.title}</span>}
+              </div>
+              <p className="whitespace-pre-wrap">{review.body}</p>
+              <p className="text-sm text-gray-500">
+                投稿者: {review.authorName || '(名前未設定)'}
+                {review.verifiedPurchase && <span className="ml-2 text-green-600">購入者</span>}
+              </p>
+              <ReviewModerationActions reviewId={review.id} status={review.status} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Pagination
+        page={result.page}
+        totalPages={result.totalPages}
+        hrefForPage={(page) => toReviewsHref(filter, page)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+/*
+[概要]
+GET /api/admin/dashboard → 売上集計 (管理者のみ)。売上・注文数・日別の売上・売れ筋商品・在庫の少ない SKU
+*/
+import { NextResponse } from 'next/server';
+import { getSalesSummary } from '../../../../lib/admin';
+import { AuthError } from '../../../../lib/auth';
+import { assertAdmin } from '../../../../lib/session';
+
+export async function GET() {
+    try {
+        await assertAdmin();
+        return NextResponse.json(await getSalesSummary());
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,58 @@
+/*
+[概要]
+/api/admin/orders/[id] → 管理画面の注文 API (管理者のみ)
+- GET   : 注文と、管理画面から変更できる次のステータスを取得
+- PATCH : ステータスを変更  body: { status: 'shipped' | 'delivered' | 'cancelled' | 'refunded', trackingNumber? }
+          発送 (shipped) にする場合は trackingNumber (お問い合わせ伝票番号) が必要
+          変更できない遷移は 409。返金は決済代行に依頼し、Webhook を受けてから refunded になる
+*/
+import { NextResponse } from 'next/server';
+import { changeOrderStatusByAdmin, listAdminTransitions } from '../../../../../lib/admin';
+import { AuthError } from '../../../../../lib/auth';
+import { OrderError, getOrder, isOrderStatus } from '../../../../../lib/orders';
+import { PaymentError } from '../../../../../lib/payments';
+import { assertAdmin } from '../../../../../lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const handleError = (error: unknown) => {
+    if (error instanceof AuthError || error instanceof OrderError || error instanceof PaymentError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        const order = await getOrder((await params).id);
+        if (!order) {
+            return NextResponse.json({ error: '注文が見つかりません' }, { status: 404 });
+        }
+        // セッションIDはCookieの値そのものなので、管理画面にも返さない
+        return NextResponse.json({
+            order: { ...order, sessionId: undefined },
+            transitions: listAdminTransitions(order.status),
+        });
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        const body = await request.json().catch(() => null);
+        if (!isOrderStatus(body?.status)) {
+            return NextResponse.json({ error: 'ステータスを指定してください' }, { status: 400 });
+        }
+        const result = await changeOrderStatusByAdmin((await params).id, body.status, body.trackingNumber);
+        return NextResponse.json({
+            ...result,
+            order: { ...result.order, sessionId: undefined },
+            transitions: listAdminTransitions(result.order.status),
+        });
+    } catch (error) {
+        return handleError(error);
+    }
+}
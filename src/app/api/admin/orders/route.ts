@@ -0,0 +1,35 @@
+/*
+[概要]
+GET /api/admin/orders → 注文一覧 (管理者のみ)。新しい順
+query: ?status=paid (ステータスで絞り込み) / ?page=2
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../lib/auth';
+import { isOrderStatus, listOrders } from '../../../../lib/orders';
+import { assertAdmin } from '../../../../lib/session';
+
+export async function GET(request: Request) {
+    try {
+        await assertAdmin();
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    if (status !== null && !isOrderStatus(status)) {
+        return NextResponse.json({ error: 'ステータスが正しくありません' }, { status: 400 });
+    }
+    const result = await listOrders({
+        status: status ?? undefined,
+        page: Number(searchParams.get('page')) || 1,
+    });
+    // セッションIDはCookieの値そのものなので、管理画面にも返さない
+    return NextResponse.json({
+        ...result,
+        orders: result.orders.map((order) => ({ ...order, sessionId: undefined })),
+    });
+}
@@ -0,0 +1,53 @@
+/*
+[概要]
+/api/admin/products/[id] → 管理画面の商品 API (管理者のみ)
+- GET    : 商品を取得
+- PUT    : 商品を更新  body は POST /api/admin/products と同じ。バリエーションは variants: { sku, price?, stock }[]
+- DELETE : 商品を削除
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../../lib/auth';
+import { CatalogError, deleteProduct, getProductById, updateProduct } from '../../../../../lib/catalog';
+import { assertAdmin } from '../../../../../lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const handleError = (error: unknown) => {
+    if (error instanceof AuthError || error instanceof CatalogError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+    throw error;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        const product = await getProductById((await params).id);
+        if (!product) {
+            return NextResponse.json({ error: '商品が見つかりません' }, { status: 404 });
+        }
+        return NextResponse.json(product);
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        const body = await request.json().catch(() => null);
+        return NextResponse.json(await updateProduct((await params).id, body ?? {}));
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        await deleteProduct((await params).id);
+        return NextResponse.json({ ok: true });
+    } catch (error) {
+        return handleError(error);
+    }
+}
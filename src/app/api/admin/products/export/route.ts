@@ -0,0 +1,35 @@
+/*
+[概要]
+/api/admin/products/export → 商品を CSV で書き出す (管理者のみ)
+- GET ?encoding=utf-8 (既定・BOM 付き) | shift_jis
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../../lib/auth';
+import { CatalogError, CsvEncoding, exportProductsCsv } from '../../../../../lib/catalog';
+import { assertAdmin } from '../../../../../lib/session';
+
+const CONTENT_TYPES: Record<CsvEncoding, string> = {
+    'utf-8': 'text/csv; charset=utf-8',
+    shift_jis: 'text/csv; charset=Shift_JIS',
+};
+
+export async function GET(request: Request) {
+    try {
+        await assertAdmin();
+        const encoding: CsvEncoding =
+            new URL(request.url).searchParams.get('encoding') === 'shift_jis' ? 'shift_jis' : 'utf-8';
+        const bytes = await exportProductsCsv(encoding);
+        const date = new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' }).replace(/-/g, '');
+        return new NextResponse(bytes, {
+            headers: {
+                'Content-Type': CONTENT_TYPES[encoding],
+                'Content-Disposition': `attachment; filename="products-${date}.csv"`,
+            },
+        });
+    } catch (error) {
+        if (error instanceof AuthError || error instanceof CatalogError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,29 @@
+/*
+[概要]
+/api/admin/products/images → 商品画像のアップロード (管理者のみ)
+- POST (multipart/form-data): file (JPEG・PNG・WebP・GIF・AVIF、5MB まで)
+  WebP に変換してサムネイルと一緒に保存し、201 と画像の URL ({ url, thumbnailUrl, width, height }) を返す。
+  返した URL を商品のメイン画像・追加の画像に登録して使う。
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../../lib/auth';
+import { CatalogError } from '../../../../../lib/catalog';
+import { saveProductImage } from '../../../../../lib/catalog/images';
+import { assertAdmin } from '../../../../../lib/session';
+
+export async function POST(request: Request) {
+    try {
+        await assertAdmin();
+        const form = await request.formData().catch(() => null);
+        const file = form?.get('file');
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: '画像ファイルを選択してください' }, { status: 400 });
+        }
+        return NextResponse.json(await saveProductImage(file), { status: 201 });
+    } catch (error) {
+        if (error instanceof AuthError || error instanceof CatalogError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,41 @@
+/*
+[概要]
+/api/admin/products/import → 商品 CSV の取り込み (管理者のみ)
+- POST (multipart/form-data): file, encoding? (auto | utf-8 | shift_jis), mode? (preview | apply)
+  preview は保存せずに行ごとの結果を返す。apply でエラーのある行がある場合は何も保存せず 422 と結果 (result) を返す。
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../../lib/auth';
+import { CatalogError, CsvEncoding, importProductsCsv } from '../../../../../lib/catalog';
+import { assertAdmin } from '../../../../../lib/session';
+
+const toEncoding = (value: FormDataEntryValue | null): CsvEncoding | 'auto' =>
+    value === 'utf-8' || value === 'shift_jis' ? value : 'auto';
+
+export async function POST(request: Request) {
+    try {
+        await assertAdmin();
+        const form = await request.formData().catch(() => null);
+        const file = form?.get('file');
+        if (!form || !(file instanceof File)) {
+            return NextResponse.json({ error: 'CSV ファイルを選択してください' }, { status: 400 });
+        }
+        const dryRun = form.get('mode') !== 'apply';
+        const result = await importProductsCsv(new Uint8Array(await file.arrayBuffer()), {
+            encoding: toEncoding(form.get('encoding')),
+            dryRun,
+        });
+        if (!dryRun && !result.applied) {
+            return NextResponse.json(
+                { error: 'エラーのある行があるため、取り込みませんでした', result },
+                { status: 422 }
+            );
+        }
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof AuthError || error instanceof CatalogError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
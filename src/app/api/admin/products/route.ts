@@ -0,0 +1,37 @@
+/*
+[概要]
+/api/admin/products → 管理画面の商品 API (管理者のみ)
+- GET  : 商品一覧
+- POST : 商品を登録  body: { name, description, category, price, taxCategory, imageUrl, images?, stock, maxPerOrder? }
+入力に誤りがある場合は 400 と項目ごとのエラー (details) を返す。
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../lib/auth';
+import { CatalogError, createProduct, getProducts } from '../../../../lib/catalog';
+import { assertAdmin } from '../../../../lib/session';
+
+const handleError = (error: unknown) => {
+    if (error instanceof AuthError || error instanceof CatalogError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+    throw error;
+};
+
+export async function GET() {
+    try {
+        await assertAdmin();
+        return NextResponse.json(await getProducts());
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        await assertAdmin();
+        const body = await request.json().catch(() => null);
+        return NextResponse.json(await createProduct(body ?? {}), { status: 201 });
+    } catch (error) {
+        return handleError(error);
+    }
+}
@@ -0,0 +1,27 @@
+/*
+[概要]
+PATCH /api/admin/reviews/[id] → レビューの承認・却下・要確認 (管理者のみ)
+body: { action: 'approve' | 'reject' | 'flag' }。承認したレビューだけが商品ページに公開される
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../../lib/auth';
+import { ReviewError, isReviewModerationAction, moderateReview } from '../../../../../lib/reviews';
+import { assertAdmin } from '../../../../../lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+    try {
+        await assertAdmin();
+        const body = await request.json().catch(() => null);
+        if (!isReviewModerationAction(body?.action)) {
+            return NextResponse.json({ error: '操作を指定してください' }, { status: 400 });
+        }
+        return NextResponse.json({ review: await moderateReview((await params).id, body.action) });
+    } catch (error) {
+        if (error instanceof AuthError || error instanceof ReviewError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
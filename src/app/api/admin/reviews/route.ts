@@ -0,0 +1,30 @@
+/*
+[概要]
+GET /api/admin/reviews → レビューの確認待ち一覧 (管理者のみ)。古い順
+query: ?status=pending (状態で絞り込み) / ?page=2
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../lib/auth';
+import { isReviewStatus, listReviewsForModeration } from '../../../../lib/reviews';
+import { assertAdmin } from '../../../../lib/session';
+
+export async function GET(request: Request) {
+    try {
+        await assertAdmin();
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    if (status !== null && !isReviewStatus(status)) {
+        return NextResponse.json({ error: '状態が正しくありません' }, { status: 400 });
+    }
+    return NextResponse.json(await listReviewsForModeration({
+        status: status ?? undefined,
+        page: Number(searchParams.get('page')) || 1,
+    }));
+}
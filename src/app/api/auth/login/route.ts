@@ -0,0 +1,22 @@
+/*
+[概要]
+POST /api/auth/login → メールアドレスとパスワードでログインする Route Handler
+body: { email, password }
+成功するとログインセッションの Cookie を発行し、ゲストのカートをアカウントのカートにまとめて { user } を返す。
+*/
+import { NextResponse } from 'next/server';
+import { AuthError, authenticate } from '../../../../lib/auth';
+import { signIn } from '../../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    try {
+        const user = await authenticate(body?.email, body?.password);
+        return NextResponse.json({ user: await signIn(user) });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,16 @@
+/*
+[概要]
+POST /api/auth/logout → ログアウトする Route Handler
+ログインセッションを削除する。アカウントのカートはサーバーに残り、次回ログイン時に復元される。
+*/
+import { NextResponse } from 'next/server';
+import { deleteAuthSession } from '../../../../lib/auth';
+import { clearAuthSessionCookie } from '../../../../lib/session';
+
+export async function POST() {
+    const token = await clearAuthSessionCookie();
+    if (token) {
+        await deleteAuthSession(token);
+    }
+    return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,12 @@
+/*
+[概要]
+GET /api/auth/me → ログイン中のアカウント情報を返す Route Handler (未ログインの場合は { user: null })
+*/
+import { NextResponse } from 'next/server';
+import { toPublicUser } from '../../../../lib/auth';
+import { getCurrentUser } from '../../../../lib/session';
+
+export async function GET() {
+    const user = await getCurrentUser();
+    return NextResponse.json({ user: user ? toPublicUser(user) : null });
+}
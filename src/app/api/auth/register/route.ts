@@ -0,0 +1,23 @@
+/*
+[概要]
+POST /api/auth/register → 会員登録する Route Handler
+body: { email, password, name? }
+登録後はそのままログインした状態にし、ゲストのカートをアカウントのカートに引き継いで { user } を返す。
+入力に誤りがある場合は 400 と項目ごとのエラー (details)、登録済みのメールアドレスは 409 を返す。
+*/
+import { NextResponse } from 'next/server';
+import { AuthError, registerUser } from '../../../../lib/auth';
+import { signIn } from '../../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    try {
+        const user = await registerUser(body ?? {});
+        return NextResponse.json({ user: await signIn(user) }, { status: 201 });
+    } catch (error) {
+        if (error instanceof AuthError) {
+            return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        throw error;
+    }
+}
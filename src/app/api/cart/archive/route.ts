@@ -0,0 +1,33 @@
+/*
+[概要]
+/api/cart/archive → 保持期間が過ぎてアーカイブされた「前回のカート」を扱う Route Handler
+
+- GET    : { archivedCart: { savedAt, items } | null } (復元できるカートがなければ null)
+- POST   : 前回のカートを今のカートに戻す。レスポンスは /api/cart と同じ { items, promotion }
+- DELETE : 前回のカートを復元せずに削除する。レスポンスは /api/cart と同じ
+*/
+import { NextResponse } from 'next/server';
+import { CartError, discardArchivedCart, getArchivedCart, restoreArchivedCart } from '../../../../lib/cart';
+import { getCartId } from '../../../../lib/session';
+
+export async function GET() {
+    const cartId = await getCartId();
+    return NextResponse.json({ archivedCart: await getArchivedCart(cartId) });
+}
+
+export async function POST() {
+    try {
+        const cartId = await getCartId();
+        return NextResponse.json(await restoreArchivedCart(cartId));
+    } catch (error) {
+        if (error instanceof CartError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
+
+export async function DELETE() {
+    const cartId = await getCartId();
+    return NextResponse.json(await discardArchivedCart(cartId));
+}
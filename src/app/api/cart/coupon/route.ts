@@ -0,0 +1,32 @@
+/*
+[概要]
+/api/cart/coupon → カートにクーポンを適用・解除する Route Handler
+
+- POST   : クーポンを適用    body: { code: string }
+           適用できない場合は 422 と { error, reason } を返す (reason: expired / minimum_not_met など)
+- DELETE : クーポンを解除
+*/
+import { NextResponse } from 'next/server';
+import { CartError, applyCoupon, removeCoupon } from '../../../../lib/cart';
+import { getCartId } from '../../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    try {
+        const cartId = await getCartId();
+        return NextResponse.json(await applyCoupon(cartId, body?.code));
+    } catch (error) {
+        if (error instanceof CartError) {
+            return NextResponse.json(
+                { error: error.message, reason: error.rejection?.reason },
+                { status: error.status }
+            );
+        }
+        throw error;
+    }
+}
+
+export async function DELETE() {
+    const cartId = await getCartId();
+    return NextResponse.json(await removeCoupon(cartId));
+}
@@ -0,0 +1,28 @@
+/*
+[概要]
+/api/cart/recover → お知らせメール (カゴ落ちメール) の復元リンクを開いたときの Route Handler
+
+- GET : ?token=xxx (lib/cart/recovery の署名付きトークン)
+        リンクを開いたブラウザのカート (ログイン中はアカウント) に明細を戻し、カートページにリダイレクトする。
+        カートページには結果を ?recovered=1 (成功) / ?recovered=invalid (改ざん・期限切れ) で渡す
+*/
+import { NextResponse } from 'next/server';
+import { CartError } from '../../../../lib/cart';
+import { recoverCart } from '../../../../lib/cart/recovery';
+import { getPreferredLocale, localizePath } from '../../../../lib/i18n';
+import { getCartId } from '../../../../lib/session';
+
+export async function GET(request: Request) {
+    const token = new URL(request.url).searchParams.get('token') ?? '';
+    try {
+        const cartId = await getCartId();
+        const { locale } = await recoverCart(cartId, token);
+        return NextResponse.redirect(new URL(`${localizePath(locale, '/cart')}?recovered=1`, request.url));
+    } catch (error) {
+        if (error instanceof CartError) {
+            const locale = await getPreferredLocale();
+            return NextResponse.redirect(new URL(`${localizePath(locale, '/cart')}?recovered=invalid`, request.url));
+        }
+        throw error;
+    }
+}
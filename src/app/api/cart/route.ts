@@ -0,0 +1,74 @@
+/*
+[概要]
+/api/cart → ログイン中はアカウント、未ログインはセッションCookieに紐づくサーバー側カートを操作する Route Handler
+
+- GET    : カートの中身を取得
+- POST   : 商品を追加        body: { id: string, quantity?: number }
+- PATCH  : 数量を変更        body: { id: string, quantity: number } (0 で削除)
+- DELETE : 商品を削除 (?id=xxx) / id 省略時はカートを空にする
+
+レスポンスはいずれも { items: CartItem[], promotion } で、価格・商品名はカタログから取得した値、
+割引はサーバーで計算した値になる。
+*/
+import { NextResponse } from 'next/server';
+import {
+    CartError,
+    addCartItem,
+    clearCart,
+    getCart,
+    removeCartItem,
+    updateCartItem,
+} from '../../../lib/cart';
+import { getCartId } from '../../../lib/session';
+
+type CartLineBody = {
+    id?: unknown;
+    quantity?: unknown;
+};
+
+const readBody = async (request: Request): Promise<{ id: string; quantity?: unknown }> => {
+    const body = (await request.json().catch(() => null)) as CartLineBody | null;
+    if (!body || typeof body.id !== 'string' || body.id === '') {
+        throw new CartError('商品IDを指定してください', 400);
+    }
+    return { id: body.id, quantity: body.quantity };
+};
+
+const handleError = (error: unknown) => {
+    if (error instanceof CartError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+};
+
+export async function GET() {
+    const cartId = await getCartId();
+    return NextResponse.json(await getCart(cartId));
+}
+
+export async function POST(request: Request) {
+    try {
+        const cartId = await getCartId();
+        const { id, quantity } = await readBody(request);
+        return NextResponse.json(await addCartItem(cartId, id, quantity));
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function PATCH(request: Request) {
+    try {
+        const cartId = await getCartId();
+        const { id, quantity } = await readBody(request);
+        return NextResponse.json(await updateCartItem(cartId, id, quantity));
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+export async function DELETE(request: Request) {
+    const cartId = await getCartId();
+    const id = new URL(request.url).searchParams.get('id');
+    const items = id ? await removeCartItem(cartId, id) : await clearCart(cartId);
+    return NextResponse.json(items);
+}
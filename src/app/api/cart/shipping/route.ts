@@ -0,0 +1,38 @@
+/*
+[概要]
+/api/cart/shipping → 現在のカートの送料の目安を返す Route Handler
+
+- GET : ?postalCode=123-4567 (または ?prefecture=東京都) &deliveryMethod=standard
+        配送先は郵便番号から都道府県を推定する (都道府県の指定がある場合はそちらを使う)
+        レスポンスは ShippingQuote (送料・送料無料までの金額・選べるお届け日)
+*/
+import { NextResponse } from 'next/server';
+import { CartError, quoteCartShipping } from '../../../../lib/cart';
+import { isDeliveryMethodId, isPrefecture } from '../../../../lib/checkout';
+import { prefectureFromPostalCode } from '../../../../lib/shipping';
+import { getCartId } from '../../../../lib/session';
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const prefectureParam = searchParams.get('prefecture') ?? '';
+    const prefecture = isPrefecture(prefectureParam)
+        ? prefectureParam
+        : prefectureFromPostalCode(searchParams.get('postalCode') ?? '');
+    if (!prefecture) {
+        return NextResponse.json({ error: '郵便番号は「123-4567」の形式で入力してください' }, { status: 400 });
+    }
+    const deliveryMethod = searchParams.get('deliveryMethod') ?? 'standard';
+    if (!isDeliveryMethodId(deliveryMethod)) {
+        return NextResponse.json({ error: '配送方法を選択してください' }, { status: 400 });
+    }
+
+    try {
+        const cartId = await getCartId();
+        return NextResponse.json(await quoteCartShipping(cartId, prefecture, deliveryMethod));
+    } catch (error) {
+        if (error instanceof CartError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
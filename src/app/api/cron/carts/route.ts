@@ -0,0 +1,31 @@
+/*
+[概要]
+/api/cron/carts → カートの定期処理 (lib/cart/recovery の runCartJobs) を実行する Route Handler。外部のスケジューラーから呼び出す
+
+- POST : 放置されたカートのお知らせメールの送信と、保持期間が過ぎたカートのアーカイブを行う
+         Authorization: Bearer <環境変数 CRON_SECRET> が必要 (管理者としてログインしていれば不要)
+         レスポンスは { reminded, archived, purged } (それぞれの件数)
+*/
+import { NextResponse } from 'next/server';
+import { AuthError } from '../../../../lib/auth';
+import { runCartJobs } from '../../../../lib/cart/recovery';
+import { assertAdmin } from '../../../../lib/session';
+
+const hasCronSecret = (request: Request) => {
+    const secret = process.env.CRON_SECRET;
+    return Boolean(secret) && request.headers.get('authorization') === `Bearer ${secret}`;
+};
+
+export async function POST(request: Request) {
+    if (!hasCronSecret(request)) {
+        try {
+            await assertAdmin();
+        } catch (error) {
+            if (error instanceof AuthError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            throw error;
+        }
+    }
+    return NextResponse.json(await runCartJobs());
+}
@@ -0,0 +1,17 @@
+/*
+[概要]
+PUT /api/currency → 表示通貨を変更する Route Handler
+リクエスト: { currency: "USD" }。選択した通貨は Cookie に保存し、以降のページで金額の表示に使う。
+*/
+import { NextRequest, NextResponse } from 'next/server';
+import { isCurrencyCode, setDisplayCurrency } from '../../../lib/currency';
+
+export async function PUT(request: NextRequest) {
+    const body = await request.json().catch(() => null);
+    const currency = body?.currency;
+    if (!isCurrencyCode(currency)) {
+        return NextResponse.json({ error: '対応していない通貨です' }, { status: 400 });
+    }
+    await setDisplayCurrency(currency);
+    return NextResponse.json({ currency });
+}
@@ -0,0 +1,25 @@
+/*
+[概要]
+GET /api/images/[file] → 管理画面からアップロードした商品画像 (data/images/ の WebP) を返す Route Handler
+ファイル名は保存時に作る UUID で内容が変わらないため、ブラウザに長期間キャッシュさせる。見つからない場合は 404 を返す。
+*/
+import { NextResponse } from 'next/server';
+import { readUploadedImage } from '../../../../lib/catalog/images';
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ file: string }> }
+) {
+    const { file } = await params;
+    const image = await readUploadedImage(file);
+
+    if (!image) {
+        return NextResponse.json({ error: '画像が見つかりません' }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(image), {
+        headers: {
+            'Content-Type': 'image/webp',
+            'Cache-Control': 'public, max-age=31536000, immutable',
+        },
+    });
+}
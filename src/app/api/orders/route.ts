@@ -0,0 +1,35 @@
+/*
+[概要]
+POST /api/orders → チェックアウト内容から注文を作成する Route Handler
+body: { items: { id, quantity }[], shippingAddress, deliveryMethod, deliveryDate, deliveryTimeSlot, couponCode }
+注文確認などのお知らせメールは、最後に表示していた言語で送る
+*/
+import { NextResponse } from 'next/server';
+import { OrderError, createOrder } from '../../../lib/orders';
+import type { CreateOrderInput } from '../../../lib/orders';
+import { getPreferredLocale } from '../../../lib/i18n';
+import { getCartSessionId, getCurrentUser } from '../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = (await request.json().catch(() => null)) as CreateOrderInput | null;
+    if (!body) {
+        return NextResponse.json({ error: 'リクエストの形式が正しくありません' }, { status: 400 });
+    }
+
+    try {
+        const sessionId = await getCartSessionId();
+        // ログイン中の注文はアカウントに紐づけ、注文履歴に表示する
+        const user = await getCurrentUser();
+        const order = await createOrder(sessionId, body, user?.id ?? null, await getPreferredLocale());
+        // セッションIDはCookieの値そのものなので、レスポンスには含めない
+        return NextResponse.json({ ...order, sessionId: undefined }, { status: 201 });
+    } catch (error) {
+        if (error instanceof OrderError) {
+            return NextResponse.json(
+                { error: error.message, details: error.details },
+                { status: error.status }
+            );
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,32 @@
+/*
+[概要]
+POST /api/payments/confirm → 3-D Secure などの追加認証の結果を送り、支払いを完了する Route Handler
+body: { orderId: string, challengeResponse: string }
+注文したセッション (またはアカウント) からのみ送れる。
+*/
+import { NextResponse } from 'next/server';
+import { OrderError, getOrder } from '../../../../lib/orders';
+import { PaymentError, confirmOrderPayment } from '../../../../lib/payments';
+import { isOrderOwner } from '../../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.orderId !== 'string' || typeof body?.challengeResponse !== 'string') {
+        return NextResponse.json({ error: '注文IDと認証結果を指定してください' }, { status: 400 });
+    }
+
+    // 注文したセッション・アカウント以外からの支払いは、注文の有無も含めて明かさない
+    const order = await getOrder(body.orderId);
+    if (!order || !(await isOrderOwner(order))) {
+        return NextResponse.json({ error: '注文が見つかりません' }, { status: 404 });
+    }
+
+    try {
+        return NextResponse.json(await confirmOrderPayment(body.orderId, body.challengeResponse));
+    } catch (error) {
+        if (error instanceof PaymentError || error instanceof OrderError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
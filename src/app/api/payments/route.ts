@@ -0,0 +1,35 @@
+/*
+[概要]
+POST /api/payments → 注文の支払いを開始する Route Handler
+body: { orderId: string, paymentMethodToken: string }
+
+注文したセッション (またはアカウント) からのみ支払える。
+金額はサーバー側の注文から取得する。3-D Secure が必要な場合は
+status: 'requires_action' を返すので、/api/payments/confirm で認証結果を送る。
+*/
+import { NextResponse } from 'next/server';
+import { OrderError, getOrder } from '../../../lib/orders';
+import { PaymentError, payForOrder } from '../../../lib/payments';
+import { isOrderOwner } from '../../../lib/session';
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.orderId !== 'string' || typeof body?.paymentMethodToken !== 'string') {
+        return NextResponse.json({ error: '注文IDと支払い方法を指定してください' }, { status: 400 });
+    }
+
+    // 注文したセッション・アカウント以外からの支払いは、注文の有無も含めて明かさない
+    const order = await getOrder(body.orderId);
+    if (!order || !(await isOrderOwner(order))) {
+        return NextResponse.json({ error: '注文が見つかりません' }, { status: 404 });
+    }
+
+    try {
+        return NextResponse.json(await payForOrder(body.orderId, body.paymentMethodToken));
+    } catch (error) {
+        if (error instanceof PaymentError || error instanceof OrderError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,25 @@
+/*
+[概要]
+POST /api/payments/webhook → 決済プロバイダーからの Webhook を受け取る Route Handler
+署名を検証したうえで、注文を paid / failed / refunded に変更する。
+*/
+import { NextResponse } from 'next/server';
+import { OrderError } from '../../../../lib/orders';
+import { PaymentError, getPaymentProvider } from '../../../../lib/payments';
+import { handlePaymentWebhook } from '../../../../lib/payments/webhook';
+
+export async function POST(request: Request) {
+    // 署名は受信した本文そのものに対して検証するため、JSON として読む前の文字列を使う
+    const rawBody = await request.text();
+    const signature = request.headers.get(getPaymentProvider().signatureHeader);
+
+    try {
+        const order = await handlePaymentWebhook(rawBody, signature);
+        return NextResponse.json({ received: true, orderId: order.id, status: order.status });
+    } catch (error) {
+        if (error instanceof PaymentError || error instanceof OrderError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
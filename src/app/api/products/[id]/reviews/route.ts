@@ -0,0 +1,35 @@
+/*
+[概要]
+/api/products/[id]/reviews → 商品レビューの Route Handler
+- GET  : 公開中のレビュー・評価の集計・閲覧中のアカウントが投稿できるか  query: ?sort=newest|highest|lowest&page=2
+- POST : レビューを投稿する (購入したアカウントのみ)  body: { rating: 1〜5, title?: string, body: string }
+         投稿したレビューは管理者が承認するまで公開されない。入力の誤りは 400 で details に項目ごとのメッセージ
+*/
+import { NextResponse } from 'next/server';
+import { ReviewError, createReview, isReviewSortKey, listProductReviews } from '../../../../../lib/reviews';
+import { getCurrentUser } from '../../../../../lib/session';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+    const { searchParams } = new URL(request.url);
+    const sort = searchParams.get('sort');
+    return NextResponse.json(await listProductReviews((await params).id, {
+        sort: isReviewSortKey(sort) ? sort : undefined,
+        page: Number(searchParams.get('page')) || 1,
+        user: await getCurrentUser(),
+    }));
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+    try {
+        const body = await request.json().catch(() => null);
+        const review = await createReview(await getCurrentUser(), (await params).id, body);
+        return NextResponse.json({ review: { ...review, userId: undefined } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof ReviewError) {
+            return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,22 @@
+/*
+[概要]
+GET /api/products/[id] → 指定IDの商品を在庫状況 (availability) 付きで返す Route Handler
+該当する商品がない場合は 404 を返す。
+*/
+import { NextResponse } from 'next/server';
+import { getProductById } from '../../../../lib/catalog';
+import { withAvailability } from '../../../../lib/inventory';
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const product = await getProductById(id);
+
+    if (!product) {
+        return NextResponse.json({ error: '商品が見つかりません' }, { status: 404 });
+    }
+    const [result] = await withAvailability([product]);
+    return NextResponse.json(result);
+}
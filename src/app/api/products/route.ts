@@ -0,0 +1,12 @@
+/*
+[概要]
+GET /api/products → 商品一覧を在庫状況 (availability) 付きで返す Route Handler
+*/
+import { NextResponse } from 'next/server';
+import { getProducts } from '../../../lib/catalog';
+import { withAvailability } from '../../../lib/inventory';
+
+export async function GET() {
+    const products = await getProducts();
+    return NextResponse.json(await withAvailability(products));
+}
@@ -0,0 +1,49 @@
+/*
+[概要]
+/api/wishlist → ログイン中はアカウント、未ログインはセッションCookieに紐づくお気に入り (あとで買う) を操作する Route Handler
+
+- GET    : お気に入りを取得
+- POST   : 保存する          body: { id: string } (SKU、または組み合わせを選んでいない商品の商品ID)
+- DELETE : 外す (?id=xxx) / ?productId=xxx の場合はその商品の組み合わせをすべて外す
+
+レスポンスはいずれも { items: WishlistItem[] } で、商品名・価格はカタログから取得した値になる。
+*/
+import { NextResponse } from 'next/server';
+import {
+    WishlistError,
+    addWishlistItem,
+    getWishlist,
+    removeWishlistItem,
+    removeWishlistProduct,
+} from '../../../lib/wishlist';
+import { getCartId } from '../../../lib/session';
+
+export async function GET() {
+    return NextResponse.json(await getWishlist(await getCartId()));
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => null);
+        return NextResponse.json(await addWishlistItem(await getCartId(), body?.id));
+    } catch (error) {
+        if (error instanceof WishlistError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
+
+export async function DELETE(request: Request) {
+    const wishlistId = await getCartId();
+    const params = new URL(request.url).searchParams;
+    const productId = params.get('productId');
+    const id = params.get('id');
+    if (productId) {
+        return NextResponse.json(await removeWishlistProduct(wishlistId, productId));
+    }
+    if (!id) {
+        return NextResponse.json({ error: 'id または productId を指定してください' }, { status: 400 });
+    }
+    return NextResponse.json(await removeWishlistItem(wishlistId, id));
+}
@@ -2,7 +2,12 @@
 [概要]
 このファイル (page.tsx) は、ECサイトのカートページです。
 CartContext からカートの状態（追加された商品一覧）を取得し、ユーザーに表示します。
-各商品は、削除ボタンなどで個別に管理できるように実装します。
+各商品は、数量の変更 (− / + と数値の入力、0 で削除) や削除ボタンで個別に管理できます。
+削除した直後は「元に戻す」で同じ数量のままカートに戻せます。
+「あとで買う」ボタンで、商品をカートからお気に入り (/wishlist) に移せます。
+右側の注文内容のまとめ (CartSummaryPanel) で、クーポン・送料の目安・金額の内訳を確認してレジに進みます。
+お知らせメールの復元リンク (/api/cart/recover) から開いた場合は、復元の結果 (?recovered=) を表示します。
+保存されたカートの読み込みが終わるまでは、スケルトン (CartSkeleton) を表示します。
 
 [技術スタック]
 - Next.js 13 (App Router): ページコンポーネントとして機能
@@ -13,30 +18,90 @@ CartContext からカートの状態（追加された商品一覧）を取得
 
 "use client"; // このページはクライアントコンポーネントとして扱います
 
-import { useCart } from '../../context/cart';
+import { useSearchParams } from 'next/navigation';
+import { useCallback, useState } from 'react';
+import { CartItem, useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { useWishlist } from '../../context/wishlist';
+import { priceWithTax } from '../../lib/pricing';
+import CartSkeleton from '../../components/cart/CartSkeleton';
+import ProductImage from '../../components/catalog/ProductImage';
+import CartSummaryPanel from '../../components/cart/CartSummaryPanel';
+import QuantityStepper from '../../components/cart/QuantityStepper';
+import UndoSnackbar from '../../components/cart/UndoSnackbar';
+import { formatOptions } from '../../lib/catalog/variants';
 // 上記は、以前作成した CartContext からカート状態と操作関数を取得するためのフック
 
+// 「元に戻す」でカートに戻すための、削除した明細の内容
+type RemovedLine = Pick<CartItem, 'id' | 'name' | 'quantity'>;
+
 export default function CartPage() {
-  // useCart フックを使って、カートの中身（items）と削除関数（removeFromCart）を取得
-  const { items, removeFromCart, isLoading } = useCart();
-  
-  console.log('CartPage: 現在のカートの中身:', items);
+  // useCart フックを使って、カートの中身（items）と操作関数を取得
+  const { items, lineTotals, addToCart, removeFromCart, updateQuantity, isLoading } = useCart();
+  // 「あとで買う」でお気に入りに移す (失敗した場合はメッセージを表示する)
+  const { saveForLater } = useWishlist();
+  const [error, setError] = useState<string | null>(null);
+  // 直前に削除した明細 (スナックバーが消えるまで元に戻せる)
+  const [removedLine, setRemovedLine] = useState<RemovedLine | null>(null);
+  const { t, formatPrice } = useI18n();
+  const recovered = useSearchParams().get('recovered');
+  const recoveryMessage = recovered === '1' ? (
+    <p className="mb-4 text-green-600">{t('cart.recovered')}</p>
+  ) : recovered === 'invalid' ? (
+    <p className="mb-4 text-red-500">{t('cart.recoveryInvalid')}</p>
+  ) : null;
+
+  const handleSaveForLater = async (id: string) => {
+    const result = await saveForLater(id);
+    setError(result.ok ? null : result.message);
+  };
+
+  const handleRemove = async (item: CartItem) => {
+    const result = await removeFromCart(item.id);
+    setError(result.ok ? null : result.message);
+    if (result.ok) {
+      setRemovedLine({ id: item.id, name: item.name, quantity: item.quantity });
+    }
+    return result;
+  };
+
+  // 数量 0 は削除として扱う (削除したときは「元に戻す」を表示する)
+  const handleQuantityChange = (item: CartItem) => (quantity: number) =>
+    quantity === 0 ? handleRemove(item) : updateQuantity(item.id, quantity);
+
+  const handleUndo = async () => {
+    if (!removedLine) {
+      return;
+    }
+    setRemovedLine(null);
+    const result = await addToCart(removedLine.id, removedLine.quantity);
+    setError(result.ok ? null : result.message);
+  };
+
+  const dismissSnackbar = useCallback(() => setRemovedLine(null), []);
 
-  // ローディング中の表示
+  const snackbar = (
+    <UndoSnackbar
+      message={removedLine && t('cart.removed', { name: removedLine.name })}
+      onUndo={handleUndo}
+      onDismiss={dismissSnackbar}
+    />
+  );
+
+  // 保存されたカートの読み込み中は、空のカートが一瞬表示されないようにスケルトンを表示する
   if (isLoading) {
-    return (
-      <div className="p-4 text-center">
-        <h1 className="text-2xl font-bold text-gray-700">読み込み中...</h1>
-      </div>
-    );
+    return <CartSkeleton />;
   }
 
   // カートが空の場合のメッセージ表示
   if (items.length === 0) {
     return (
       <div className="p-4 text-center">
-        <h1 className="text-2xl font-bold text-gray-700">カートは空です</h1>
-        <p className="mt-2 text-gray-500">商品を追加してください</p>
+        {recoveryMessage}
+        {error && <p className="mb-4 text-red-500">{error}</p>}
+        <h1 className="text-2xl font-bold text-gray-700">{t('cart.empty')}</h1>
+        <p className="mt-2 text-gray-500">{t('cart.emptyHint')}</p>
+        {snackbar}
       </div>
     );
   }
@@ -45,58 +110,79 @@ export default function CartPage() {
     /* 
       全体のコンテナ
       "p-4": 全方向に1remのパディング
-      "max-w-4xl mx-auto": 最大幅を設定し、中央揃え
+      "max-w-5xl mx-auto": 最大幅を設定し、中央揃え
+      明細 (左の2列分) と注文内容のまとめ (右の1列分) を並べる。狭い画面では縦に並べる
     */
-    <div className="p-4 max-w-4xl mx-auto">
-      <h1 className="text-3xl font-bold mb-4">カートの中身</h1>
-      {/*
-        カート内の各アイテムをリスト表示。
-        items.map(...) を使って、各商品に対してカード形式で表示します。
-      */}
-      {items.map((item) => (
-        <div key={item.id} className="border rounded shadow p-4 bg-white mb-4 flex justify-between items-center">
-          {/* 商品情報の表示 */}
-          <div className="flex items-center space-x-4">
-            {item.imageUrl && (
-              <img 
-                src={item.imageUrl} 
-                alt={item.name} 
-                className="w-20 h-20 object-contain"
-              />
-            )}
-            <div>
-              <h2 className="text-xl font-bold">{item.name}</h2>
-              <p className="text-gray-700">数量: {item.quantity}</p>
-              <p className="text-gray-700">価格: {item.price}円</p>
-            </div>
-          </div>
-          {/*
-            削除ボタン
-            "px-4 py-2": パディング設定
-            "bg-red-500": 赤背景
-            "text-white": 文字色を白に
-            "rounded": 角を丸める
-            "hover:bg-red-600": ホバー時に背景色を濃くする
-            "transition": アニメーションを滑らかに
-          */}
-          <button
-            onClick={() => removeFromCart(item.id)}
-            className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition"
-          >
-            削除
-          </button>
-        </div>
-      ))}
-      {/*
-        カート内の商品の合計金額の計算（仮の実装例）
-        ここでは単純に各アイテムの数量と仮の価格を掛けた値の合計を表示します。
-        ※ 実際の価格情報は、商品データと連携させる必要があります。
-      */}
-      <div className="mt-4 text-right">
-        <span className="text-xl font-bold">
-          合計金額: {items.reduce((total, item) => total + item.price * item.quantity, 0)}円
-        </span>
+    <div className="p-4 max-w-5xl mx-auto">
+      <h1 className="text-3xl font-bold mb-4">{t('cart.title')}</h1>
+      {recoveryMessage}
+      {error && <p className="mb-4 text-red-500">{error}</p>}
+      <div className="grid gap-4 md:grid-cols-3 md:items-start">
+        {/*
+          カート内の各アイテムをリスト表示。
+          items.map(...) を使って、各商品に対してカード形式で表示します。
+        */}
+        <ul className="space-y-4 md:col-span-2">
+          {items.map((item) => (
+            <li key={item.id} className="border rounded shadow p-4 bg-white flex gap-4">
+              <div className="relative w-20 h-20 shrink-0">
+                <ProductImage src={item.imageUrl} alt={item.name} sizes="80px" />
+              </div>
+              {/* 商品情報と数量の変更 */}
+              <div className="flex-1 space-y-2">
+                <h2 className="text-xl font-bold">{item.name}</h2>
+                {/* サイズ・カラーなどのバリエーション (同じ商品でも組み合わせごとに別の明細) */}
+                {Object.keys(item.options).length > 0 && (
+                  <p className="text-sm text-gray-500">{formatOptions(item.options)}</p>
+                )}
+                <p className="text-gray-700">
+                  {t('cart.unitPrice', { price: formatPrice(priceWithTax(item.price, item.taxCategory)) })}
+                </p>
+                <QuantityStepper
+                  name={item.name}
+                  quantity={item.quantity}
+                  max={item.maxQuantity}
+                  onChange={handleQuantityChange(item)}
+                />
+                {/* 在庫が減って購入できる数を超えた場合の注意書き */}
+                {item.quantity > item.maxQuantity && (
+                  <p className="text-red-500">
+                    {item.maxQuantity === 0 ? t('cart.outOfStock') : t('cart.maxQuantity', { count: item.maxQuantity })}
+                  </p>
+                )}
+              </div>
+              {/*
+                明細の小計と、あとで買うボタン (お気に入りに移す)・削除ボタン
+                "text-red-500": 削除は文字色を赤にして、ほかの操作と区別する
+              */}
+              <div className="flex flex-col items-end justify-between gap-2">
+                <p className="text-lg font-bold">
+                  {t('cart.lineTotal', { price: formatPrice(lineTotals[item.id]) })}
+                </p>
+                <div className="flex gap-4 text-sm">
+                  <button onClick={() => handleSaveForLater(item.id)} className="hover:underline">
+                    {t('cart.saveForLater')}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(item)}
+                    aria-label={t('cart.removeItem', { name: item.name })}
+                    className="text-red-500 hover:underline"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {/*
+          注文内容のまとめ (商品の点数・クーポン・送料の目安・金額の内訳・レジに進むボタン)
+          各アイテムの価格は、サーバー (/api/cart) がカタログから取得した値 (日本円) です。
+          割引 (promotion) と送料の目安もサーバーが計算した結果をそのまま表示します。
+        */}
+        <CartSummaryPanel />
       </div>
+      {snackbar}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+/* 
+[概要]
+このファイル (page.tsx) は、注文完了 (確認) ページです。
+URL の注文ID から保存済みの注文を読み込み、注文番号・明細・配送先を表示します。
+注文したブラウザ・アカウント以外からは表示しません (404)。注文番号は推測できるため、番号だけでは見られないようにします。
+*/
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { formatOptions } from '../../../../lib/catalog/variants';
+import { getI18n } from '../../../../lib/i18n';
+import { getOrder } from '../../../../lib/orders';
+import { lineTotalWithTax } from '../../../../lib/pricing';
+import { isOrderOwner } from '../../../../lib/session';
+import PriceSummaryTable from '../../../../components/pricing/PriceSummaryTable';
+
+type OrderCompletePageProps = {
+  params: Promise<{ orderId: string }>;
+};
+
+export default async function OrderCompletePage({ params }: OrderCompletePageProps) {
+  const { orderId } = await params;
+  const order = await getOrder(orderId);
+
+  if (!order || !(await isOrderOwner(order))) {
+    notFound();
+  }
+
+  const { shippingAddress } = order;
+  const { t, formatPrice, formatDate, localizePath } = await getI18n();
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto space-y-4">
+      <h1 className="text-3xl font-bold">{t('complete.title')}</h1>
+      <p className="text-gray-700">
+        {t('order.number')} <span className="font-bold">{order.id}</span>
+      </p>
+      {/*
+        お支払い状況
+        決済の Webhook は少し遅れて届くため、直後は「確認中」と表示される
+      */}
+      <p className="text-gray-700">
+        {t('complete.paymentStatus')} {order.status === 'paid' ? t('complete.paid') : t('complete.confirming')}
+      </p>
+
+      {/* 注文明細 (注文時点の価格) */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('order.items')}</h2>
+        {order.items.map((item) => (
+          <div key={item.sku} className="flex justify-between py-1">
+            <span>
+              {item.name}
+              {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+              {' '}× {item.quantity}
+            </span>
+            <span>{formatPrice(lineTotalWithTax(item))}</span>
+          </div>
+        ))}
+        <div className="border-t mt-2 pt-2">
+          <PriceSummaryTable
+            summary={{
+              subtotal: order.subtotal,
+              discountTotal: order.discountTotal,
+              shipping: order.shippingFee,
+              taxes: order.taxes,
+              totalTax: order.tax,
+              total: order.total,
+            }}
+            discounts={order.discounts}
+          />
+        </div>
+      </section>
+
+      {/* 配送先・配送方法 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('order.deliverTo')}</h2>
+        <p>{t('address.recipient', { name: shippingAddress.name })}</p>
+        <p>〒{shippingAddress.postalCode}</p>
+        <p>
+          {shippingAddress.prefecture}{shippingAddress.city}{shippingAddress.addressLine1}
+          {shippingAddress.addressLine2 && ` ${shippingAddress.addressLine2}`}
+        </p>
+        <p className="mt-2">{t('order.deliveryMethod', { method: t(`delivery.${order.deliveryMethod}`) })}</p>
+        <p>
+          {t('order.deliverySchedule', {
+            date: order.deliveryDate ? formatDate(order.deliveryDate, 'day') : t('delivery.earliest'),
+            slot: t(`deliverySlot.${order.deliveryTimeSlot}`),
+          })}
+        </p>
+      </section>
+
+      <Link href={localizePath('/')} className="inline-block text-blue-500 hover:underline">
+        {t('complete.backToTop')}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+/* 
+[概要]
+このファイル (page.tsx) は、ECサイトのチェックアウト (購入手続き) ページです。
+「配送先住所」→「配送方法」→「お支払い方法」→「注文内容の確認」の4ステップで入力を進め、
+(配送方法のステップでは、配送先の送料の確認とお届け希望日・時間帯の指定を行う)
+確定するとカートの中身 (CartItem[]) から注文を作成して支払いを行い、
+支払いが完了したらカートを空にして注文完了ページへ移動します。
+
+[技術スタック]
+- Next.js 13 (App Router): ページコンポーネントとして機能
+- TypeScript: 型安全なコードを記述
+- Tailwind CSS: スタイリングのためのユーティリティクラスを使用
+- React Context API: カートの状態を取得
+*/
+
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { DeliveryMethodId, ShippingAddress } from '../../lib/checkout';
+import { confirmPayment, startPayment, submitOrder } from '../../lib/checkout/api';
+import type { PaymentResult } from '../../lib/payments/types';
+import { DEFAULT_DELIVERY_SCHEDULE } from '../../lib/shipping/schedule';
+import type { DeliverySchedule, ShippingQuote } from '../../lib/shipping/types';
+import AddressForm from '../../components/checkout/AddressForm';
+import DeliveryMethodForm from '../../components/checkout/DeliveryMethodForm';
+import PaymentMethodForm from '../../components/checkout/PaymentMethodForm';
+import OrderReview from '../../components/checkout/OrderReview';
+import ThreeDSecureChallenge from '../../components/checkout/ThreeDSecureChallenge';
+
+/* 
+[ステップの定義]
+address  : 配送先住所の入力
+delivery : 配送方法の選択
+payment  : お支払い方法の選択
+review   : 注文内容の確認
+*/
+type CheckoutStep = 'address' | 'delivery' | 'payment' | 'review';
+
+const STEPS: CheckoutStep[] = ['address', 'delivery', 'payment', 'review'];
+
+export default function CheckoutPage() {
+  const router = useRouter();
+  const { items, promotion, clearCart, isLoading } = useCart();
+  const { t, localizePath } = useI18n();
+
+  const [step, setStep] = useState<CheckoutStep>('address');
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>();
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethodId>();
+  const [deliverySchedule, setDeliverySchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE);
+  // 確認画面に表示する送料。注文の送料はサーバーが計算し直す
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote>();
+  const [paymentMethodToken, setPaymentMethodToken] = useState<string>();
+  // 作成済みの注文ID。支払いに失敗した場合は、同じ注文に対して別のカードで再決済する
+  const [orderId, setOrderId] = useState<string>();
+  const [isChallengeOpen, setIsChallengeOpen] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 支払い結果に応じて、完了ページへの移動・本人認証・エラー表示を行う
+  const handlePaymentResult = async (id: string, result: PaymentResult) => {
+    if (result.status === 'requires_action') {
+      setIsChallengeOpen(true);
+      return;
+    }
+    setIsChallengeOpen(false);
+    if (result.status === 'declined') {
+      // 支払いが拒否された理由ごとのメッセージ
+      setError(t(`decline.${result.declineCode ?? 'card_declined'}`));
+      setIsSubmitting(false);
+      return;
+    }
+    await clearCart();
+    router.push(localizePath(`/checkout/complete/${id}`));
+  };
+
+  // 注文を作成 (未作成の場合) して支払いを開始する
+  const handleSubmitOrder = async () => {
+    if (!shippingAddress || !deliveryMethod || !paymentMethodToken) {
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // 現在のカートに適用できないクーポンは送らない (カートページで理由を表示済み)
+      const couponCode = promotion?.couponRejection ? null : promotion?.couponCode ?? null;
+      const id = orderId ?? (await submitOrder(items, shippingAddress, deliveryMethod, deliverySchedule, couponCode)).id;
+      setOrderId(id);
+      await handlePaymentResult(id, await startPayment(id, paymentMethodToken));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('checkout.orderFailed'));
+      setIsSubmitting(false);
+    }
+  };
+
+  // 3-D Secure の認証結果を送る
+  const handleChallengeResponse = async (challengeResponse: string) => {
+    if (!orderId) {
+      return;
+    }
+    setIsConfirming(true);
+    try {
+      await handlePaymentResult(orderId, await confirmPayment(orderId, challengeResponse));
+    } catch (e) {
+      setIsChallengeOpen(false);
+      setError(e instanceof Error ? e.message : t('checkout.paymentFailed'));
+      setIsSubmitting(false);
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  // ローディング中の表示
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center">
+        <h1 className="text-2xl font-bold text-gray-700">{t('common.loading')}</h1>
+      </div>
+    );
+  }
+
+  // 送信中にカートが空になった場合は、完了ページへの遷移を待つ
+  if (items.length === 0 && !isSubmitting) {
+    return (
+      <div className="p-4 text-center">
+        <h1 className="text-2xl font-bold text-gray-700">{t('cart.empty')}</h1>
+        <Link href={localizePath('/')} className="mt-2 inline-block text-blue-500 hover:underline">
+          {t('checkout.backToProducts')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 max-w-2xl mx-auto">
+      <h1 className="text-3xl font-bold mb-4">{t('checkout.title')}</h1>
+
+      {/*
+        [ステップ表示]
+        現在のステップを青色、それ以外をグレーで表示
+      */}
+      <ol className="flex mb-6 space-x-4">
+        {STEPS.map((id, index) => (
+          <li
+            key={id}
+            className={id === step ? 'font-bold text-blue-500' : 'text-gray-500'}
+          >
+            {index + 1}. {t(`checkout.step.${id}`)}
+          </li>
+        ))}
+      </ol>
+
+      {step === 'address' && (
+        <AddressForm
+          initialValue={shippingAddress}
+          onSubmit={(address) => {
+            // 配送先を変更したら、次の確定時に注文を作り直す
+            setShippingAddress(address);
+            setOrderId(undefined);
+            setStep('delivery');
+          }}
+        />
+      )}
+
+      {step === 'delivery' && shippingAddress && (
+        <DeliveryMethodForm
+          prefecture={shippingAddress.prefecture}
+          initialValue={deliveryMethod}
+          initialSchedule={deliverySchedule}
+          onBack={() => setStep('address')}
+          onSubmit={(method, schedule, quote) => {
+            setDeliveryMethod(method);
+            setDeliverySchedule(schedule);
+            setShippingQuote(quote);
+            setOrderId(undefined);
+            setStep('payment');
+          }}
+        />
+      )}
+
+      {step === 'payment' && (
+        <PaymentMethodForm
+          initialValue={paymentMethodToken}
+          onBack={() => setStep('delivery')}
+          onSubmit={(token) => {
+            setPaymentMethodToken(token);
+            setError(null);
+            setStep('review');
+          }}
+        />
+      )}
+
+      {step === 'review' && shippingAddress && deliveryMethod && shippingQuote && paymentMethodToken && (
+        <OrderReview
+          items={items}
+          promotion={promotion}
+          shippingAddress={shippingAddress}
+          deliveryMethod={deliveryMethod}
+          deliverySchedule={deliverySchedule}
+          shippingQuote={shippingQuote}
+          paymentMethodToken={paymentMethodToken}
+          isSubmitting={isSubmitting}
+          error={error}
+          onBack={() => setStep('payment')}
+          onSubmit={handleSubmitOrder}
+        />
+      )}
+
+      {isChallengeOpen && (
+        <ThreeDSecureChallenge isSubmitting={isConfirming} onRespond={handleChallengeResponse} />
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,15 @@
 すべてのページに共通するヘッダー、フッター、<html>構造などを定義し、children で各ページのコンテンツを表示する。
 */
 
+import type { Metadata } from 'next';
+import Link from 'next/link';
 import './globals.css';  // グローバルCSSをインポート
 import ClientCartProvider from '../components/ClientCartProvider'; // クライアントコンポーネントとして分離したCartProvider
+import PreferenceSwitcher from '../components/i18n/PreferenceSwitcher'; // 言語・表示通貨の切り替え
+import MiniCart from '../components/cart/MiniCart'; // ヘッダーのカートボタンとミニカート
+import RestoreCartPrompt from '../components/cart/RestoreCartPrompt'; // 「前回のカートを復元しますか?」
+import { getI18n, getRequestLocale } from '../lib/i18n';
+import { OG_LOCALES, getSiteUrl } from '../lib/seo';
 
 /* 
 [技術スタック]
@@ -17,7 +24,7 @@ import ClientCartProvider from '../components/ClientCartProvider'; // クライ
 /* 
 [レイアウト全体の構造]
 <html>
-  <head>  ...  </head>
+  <head>  ... (generateMetadata の内容から Next.js が作る) </head>
   <body className="...">
     <header> ... </header>
     <main> {children} </main>
@@ -31,22 +38,36 @@ type RootLayoutProps = {
   children: React.ReactNode;
 };
 
+/*
+【エクスポート】全ページ共通のメタデータ
+<title> は各ページの generateMetadata のタイトル (商品名など) に "| サイト名" を付けたもの。指定のないページはサイト名のみ。
+metadataBase (環境変数 SITE_URL) を基準に、canonical・Open Graph の画像などの URL を絶対 URL にする。
+*/
+export async function generateMetadata(): Promise<Metadata> {
+  const { locale, t } = await getI18n();
+  return {
+    metadataBase: new URL(getSiteUrl()),
+    title: { default: t('site.name'), template: `%s | ${t('site.name')}` },
+    openGraph: { siteName: t('site.name'), locale: OG_LOCALES[locale] },
+  };
+}
+
 /* 
 【エクスポート】ルートレイアウトコンポーネント
 Next.js 13 の App Router では、src/app/layout.tsx に定義したデフォルトエクスポートが
 全ページに共通するレイアウトとして使われる。
 */
-export default function RootLayout({ children }: RootLayoutProps) {
+export default async function RootLayout({ children }: RootLayoutProps) {
+  // 表示言語は URL の先頭 (/ja, /en) で決まる。管理画面は言語の指定がなく、切り替えも表示しない
+  const { locale, currency, rates, t, localizePath } = await getI18n();
+  const isLocalized = (await getRequestLocale()) !== null;
+
   return (
     // <html> タグ: ドキュメントのルート要素
-    <html lang="ja">
-      <head>
-        {/* <title>タグは App Router の場合、ここで設定してもOK。metaタグなども同様 */}
-        <title>ECサイト</title>
-      </head>
+    <html lang={locale}>
       {/* <body> タグ: Tailwind CSS のクラスで背景色や文字色を設定 */}
       <body className="bg-gray-100 text-gray-900">
-        <ClientCartProvider>
+        <ClientCartProvider locale={locale} currency={currency} rates={rates}>
           {/*
             [ヘッダー] 
             p-4         : パディング(16px)を適用
@@ -58,8 +79,21 @@ export default function RootLayout({ children }: RootLayoutProps) {
               text-2xl : 文字サイズを 2XL (約1.5rem)
               font-bold: 太字
             */}
-            <h1 className="text-2xl font-bold">ECサイトヘッダー</h1>
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-bold">{t('site.header')}</h1>
+              {/* ログイン済みならアカウント情報、未ログインならログインページが表示される */}
+              <nav className="flex gap-4 items-center">
+                <Link href={localizePath('/products')} className="hover:underline">{t('nav.products')}</Link>
+                <Link href={localizePath('/wishlist')} className="hover:underline">{t('nav.wishlist')}</Link>
+                {/* カートの点数のバッジ。押すとミニカートが開く */}
+                <MiniCart />
+                <Link href={localizePath('/account')} className="hover:underline">{t('nav.account')}</Link>
+                {isLocalized && <PreferenceSwitcher />}
+              </nav>
+            </div>
           </header>
+          {/* 保持期間が過ぎてアーカイブされたカートがあるときだけ表示される (管理画面では表示しない) */}
+          {isLocalized && <RestoreCartPrompt />}
 
           {/*
             [メインコンテンツ]
@@ -82,7 +116,7 @@ export default function RootLayout({ children }: RootLayoutProps) {
               &copy; : ©(コピーライト)マーク
               new Date().getFullYear() : 現在の年を取得
             */}
-            &copy; {new Date().getFullYear()} ECサイト. All rights reserved.
+            &copy; {new Date().getFullYear()} {t('site.name')}. All rights reserved.
           </footer>
         </ClientCartProvider>
       </body>
@@ -0,0 +1,43 @@
+/*
+[概要]
+このファイル (page.tsx) はログインページ (/login) です。
+ログイン済みの場合はアカウントページへ移動します。?next=/cart のように戻り先を指定できます。
+*/
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { toSafeRedirectPath } from '../../lib/auth/api';
+import { getI18n } from '../../lib/i18n';
+import { getCurrentUser } from '../../lib/session';
+import CredentialsForm from '../../components/auth/CredentialsForm';
+
+type LoginPageProps = {
+  searchParams: Promise<{ next?: string | string[] }>;
+};
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { t, localizePath } = await getI18n();
+  const redirectTo = toSafeRedirectPath((await searchParams).next, localizePath('/account'));
+  if (await getCurrentUser()) {
+    redirect(redirectTo);
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-4">
+      <h1 className="text-2xl font-bold">{t('auth.login')}</h1>
+      <p className="text-sm text-gray-600">
+        {t('auth.loginHint')}
+      </p>
+      <CredentialsForm mode="login" redirectTo={redirectTo} />
+      <p className="text-sm">
+        {t('auth.newHere')}
+        <Link
+          href={localizePath(`/register?next=${encodeURIComponent(redirectTo)}`)}
+          className="ml-1 text-blue-500 hover:underline"
+        >
+          {t('auth.register')}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 /* 
 [概要]
 このファイル (page.tsx) は ECサイトのトップページを定義。
-仮データ (mockProducts) を使って商品一覧を表示し、Tailwind CSS でカード風のレイアウトを作る。
+商品カタログ (lib/catalog) から取得した商品一覧を表示し、Tailwind CSS でカード風のレイアウトを作る。
+検索・絞り込みは商品一覧ページ (/products) で行うため、ここには検索フォームと一覧へのリンクを置く。
 
 [技術スタック]
 - 【React】(JSX): UIコンポーネントを作成
@@ -10,89 +11,108 @@
 */
 
 /* 
-[モックデータ - 仮の商品情報]
-本来はAPIやデータベースから取得するところを、まずは手動で配列を定義してテスト。
+[インポート]
+商品データは lib/catalog (data/products.json) から取得する。
 */
-const mockProducts = [
-  {
-    id: 1, // 商品ID（数値）
-    name: '商品A', // 商品名（文字列）
-    price: 1000, // 価格（数値）
-    imageUrl: '/images/product-a.jpg', // 商品画像のパス（public/images/内）
-  },
-  {
-    id: 2,
-    name: '商品B',
-    price: 2000,
-    imageUrl: '/images/product-b.jpg',
-  },
-  {
-    id: 3,
-    name: '商品C',
-    price: 3000,
-    imageUrl: '/images/product-c.jpg',
-  },
-];
+import Link from 'next/link';
+import { getProducts, parseProductSearchParams } from '../lib/catalog';
+import { getImageMetas } from '../lib/catalog/images';
+import { getI18n } from '../lib/i18n';
+import { priceWithTax } from '../lib/pricing';
+import { getReviewSummaries } from '../lib/reviews';
+import ProductSearchForm from '../components/catalog/ProductSearchForm';
+import ProductImage from '../components/catalog/ProductImage';
+import RatingBadge from '../components/reviews/RatingBadge';
+import WishlistButton from '../components/wishlist/WishlistButton';
 
 /* 
 [コンポーネント定義]
 Next.js 13 の App Router では、page.tsx のデフォルトエクスポートが "/" (ルート) に対応。
+サーバーコンポーネントとして、描画時にカタログから商品を読み込む。
 */
-export default function Home() {
+export default async function Home() {
+  const products = await getProducts();
+  const ratings = await getReviewSummaries();
+  // 画像のサイズ・ぼかし画像 (見つからない画像は代わりの画像)
+  const images = await getImageMetas(products.map((product) => product.imageUrl));
+  const { t, formatPrice, localizePath } = await getI18n();
+
   return (
-    /* 
-      [グリッドレイアウト用のラッパーdiv]
-      p-4           : 全方向に1rem(16px)の余白
-      grid          : display: grid を適用
-      grid-cols-1   : 1列のグリッド (狭い画面用)
-      md:grid-cols-3: 768px以上の画面幅では3列に
-      gap-4         : グリッドアイテム間の隙間を1remに
-    */
-    <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-      {/*
-        [商品カードのループ表示]
-        mockProducts.map(...) : 配列内の各商品をカードにして表示
-        key={product.id}      : React が要素を一意に識別するために必須
+    <>
+      {/* 検索フォーム (送信すると /products の検索結果に移動する) */}
+      <div className="p-4 space-y-2">
+        <ProductSearchForm query={parseProductSearchParams({})} />
+        <Link href={localizePath('/products')} className="inline-block text-blue-500 hover:underline">
+          {t('home.viewAll')}
+        </Link>
+      </div>
+      {/* 
+        [グリッドレイアウト用のラッパーdiv]
+        p-4           : 全方向に1rem(16px)の余白
+        grid          : display: grid を適用
+        grid-cols-1   : 1列のグリッド (狭い画面用)
+        md:grid-cols-3: 768px以上の画面幅では3列に
+        gap-4         : グリッドアイテム間の隙間を1remに
       */}
-      {mockProducts.map((product) => (
-        /* 
-          [カードコンテナ]
-          border : 枠線を表示
-          rounded: 角を丸くする
-          shadow : 影を付ける
-          p-4    : パディング(16px)
-          bg-white : 背景を白に
-        */
-        <div key={product.id} className="border rounded shadow p-4 bg-white">
-          {/*
-            [商品画像]
-            w-full       : 幅を100%に
-            h-40         : 高さを10rem(160px)に固定
-            object-cover : 画像の縦横比を維持しつつ要素を埋める
-            mb-2         : 下方向に8pxの余白
-          */}
-          <img
-            src={product.imageUrl}
-            alt={product.name}
-            className="w-full h-auto object-auto mb-2"
-          />
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/*
+          [商品カードのループ表示]
+          products.map(...)     : 配列内の各商品をカードにして表示
+          key={product.id}      : React が要素を一意に識別するために必須
+        */}
+        {products.map((product) => (
+          /* 
+            [カードコンテナ]
+            border : 枠線を表示
+            rounded: 角を丸くする
+            shadow : 影を付ける
+            p-4    : パディング(16px)
+            bg-white : 背景を白に
+            relative : お気に入りのハートを右上に重ねるための基準
+          */
+          <div key={product.id} className="relative border rounded shadow p-4 bg-white">
+            {/*
+              [商品画像]
+              w-full        : 幅を100%に
+              aspect-square : 高さを幅と同じにする (画像の縦横比が違っても、カードの大きさをそろえる)
+              mb-2          : 下方向に8pxの余白
+              画像は枠の中に縦横比を維持して収める (ProductImage の object-contain)
+            */}
+            <div className="relative w-full aspect-square mb-2">
+              <ProductImage
+                src={images[product.imageUrl].src}
+                alt={product.name}
+                blurDataURL={images[product.imageUrl].blurDataURL}
+                sizes="(min-width: 768px) 33vw, 100vw"
+              />
+            </div>
+
+            {/*
+              [商品名]
+              text-xl   : 文字サイズをXL (約1.25rem)
+              font-bold : 太字
+              mb-1      : 下に4pxの余白
+            */}
+            <h2 className="text-xl font-bold mb-1">{product.name}</h2>
+
+            {/* [評価] 公開中のレビューの平均と件数 (レビューがなければ表示しない) */}
+            <RatingBadge summary={ratings[product.id]} />
 
-          {/*
-            [商品名]
-            text-xl   : 文字サイズをXL (約1.25rem)
-            font-bold : 太字
-            mb-1      : 下に4pxの余白
-          */}
-          <h2 className="text-xl font-bold mb-1">{product.name}</h2>
+            {/*
+              [商品価格]
+              text-gray-700 : 文字色を少し薄いグレーに
+              formatPrice(...) : 税込価格を表示通貨で表示 (例: "￥1,100"。計算は lib/pricing)
+            */}
+            <p className="text-gray-700">
+              {formatPrice(priceWithTax(product.price, product.taxCategory))}
+              <span className="ml-1 text-sm">{t('common.taxIncluded')}</span>
+            </p>
 
-          {/*
-            [商品価格]
-            text-gray-700 : 文字色を少し薄いグレーに
-            {product.price}円 : 価格を表示し、日本円の単位を付ける
-          */}
-          <p className="text-gray-700">{product.price}円</p>
-        </div>
-      ))}
-    </div>
+            {/* [お気に入り] ハートを押すと保存・解除する (/wishlist で一覧できる) */}
+            <WishlistButton productId={product.id} productName={product.name} className="absolute top-2 right-2" />
+          </div>
+        ))}
+      </div>
+    </>
   );
 }
\ No newline at end of file
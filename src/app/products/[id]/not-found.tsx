@@ -0,0 +1,19 @@
+/*
+[概要]
+商品詳細ページで商品が見つからない場合の表示 (notFound() で 404 を返したとき)。
+*/
+import Link from 'next/link';
+import { getI18n } from '../../../lib/i18n';
+
+export default async function ProductNotFound() {
+  const { t, localizePath } = await getI18n();
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto">
+      <h1 className="text-2xl font-bold text-red-500">{t('product.notFound')}</h1>
+      <Link href={localizePath('/products')} className="mt-4 inline-block text-blue-600 hover:underline">
+        {t('common.browseProducts')}
+      </Link>
+    </div>
+  );
+}
@@ -1,97 +1,119 @@
 /* 
 [概要]
 このファイル (page.tsx) は、動的ルーティングを利用した商品詳細ページです。
-URL から商品IDを取得し、モックデータを使って該当商品の詳細情報を表示します。
+URL の商品IDを元に商品カタログ (lib/catalog) から在庫状況付きの商品を読み込み、サーバー側で表示します。
+該当する商品がない場合は notFound() で 404 を返します (not-found.tsx を表示)。
+検索エンジン・SNS 向けに、商品ごとのタイトル・説明・Open Graph (generateMetadata) と、
+構造化データ (JSON-LD の Product / Offer) を出力します。
+画像のギャラリー (ProductGallery) と、バリエーションの選択・カートへの追加 (ProductPurchasePanel) はブラウザで動きます。
+ページの下部には、購入者のレビュー (管理者が承認したもの) と評価の集計を表示します。
 
 [技術スタック]
-- Next.js 13 (App Router): 動的ルーティング機能を利用
+- Next.js 13 (App Router): 動的ルーティング・generateMetadata・generateStaticParams を利用
 - TypeScript: 型安全なコードを記述
 - Tailwind CSS: ユーティリティクラスを使用してスタイリング
 */
 
-'use client';
-
 /* 
 [インポート]
-Next.js の useParams フックを使って、URL の動的パラメータ (ここでは "id") を取得します。
+商品データはリクエストのたびに lib/catalog (data/products.json) から取得します。
 */
-import { useParams } from 'next/navigation';
-import { useCart } from '../../../context/cart'; // カートコンテキストをインポート
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { getProductById, getProducts, listSkus } from '../../../lib/catalog'; // 商品カタログ
+import { getImageMetas } from '../../../lib/catalog/images'; // 画像のサイズ・ぼかし画像
+import type { ImageMeta } from '../../../lib/catalog/types';
+import { getI18n } from '../../../lib/i18n'; // 表示言語・表示通貨
+import { withAvailability } from '../../../lib/inventory'; // 在庫状況
+import type { ProductWithAvailability } from '../../../lib/inventory/types'; // 在庫状況付きの商品の型
+import { getReviewSummaries } from '../../../lib/reviews'; // 評価の集計 (構造化データに使う)
+import { OG_LOCALES, buildAlternates, serializeJsonLd, toAbsoluteUrl, toProductJsonLd } from '../../../lib/seo';
+import ProductGallery from '../../../components/catalog/ProductGallery'; // 画像のギャラリー
+import ProductPurchasePanel from '../../../components/catalog/ProductPurchasePanel'; // バリエーションの選択・カートに追加
+import ProductReviews from '../../../components/reviews/ProductReviews'; // レビュー欄
 
+type ProductDetailProps = {
+    params: Promise<{ id: string }>;
+};
 
-/* 
-[モックデータ]
-仮の商品の情報を定義します。通常はバックエンド API からデータを取得しますが、
-ここではデモ用に固定の配列を使用します。
-*/
-const mockProducts = [
-    {
-        id: '1',            /* 商品ID (文字列) */
-        name: '商品A',       /* 商品名 */
-        description: 'これは商品Aの詳細な説明です。',  /* 商品の説明 */
-        price: 1000,        /* 価格 */
-        imageUrl: '/images/product-a.jpg', /* 商品画像のパス（public/images/ 内に配置） */
-    },
-    {
-        id: '2',
-        name: '商品B',
-        description: 'これは商品Bの詳細な説明です。',
-        price: 2000,
-        imageUrl: '/images/product-b.jpg',
-    },
-    {
-        id: '3',
-        name: '商品C',
-        description: 'これは商品Cの詳細な説明です。',
-        price: 3000,
-        imageUrl: '/images/product-c.jpg',
-    },
-];
+// 検索結果・SNS のカードに表示する説明文の長さ
+const DESCRIPTION_MAX_LENGTH = 120;
 
-/* 
-[コンポーネント定義]
-このコンポーネントは URL から取得した商品IDを元に、該当する商品の詳細情報を表示します。
-*/
-export default function ProductDetail() {
-    // useParams を利用して URL パラメータを取得
-    const params = useParams();
-    const { id } = params as { id: string };
+// generateMetadata とページ本体で同じ商品を読み込むため、1回の描画の中では1回にする
+const loadProduct = cache(async (id: string) => {
+    const product = await getProductById(id);
+    return product ? (await withAvailability([product]))[0] : null;
+});
 
-    // モックデータから、指定されたIDの商品を検索
-    const product = mockProducts.find((p) => p.id === id);
+// ギャラリーの画像 (メイン画像・追加の画像・バリエーションの画像の順。重複は除く)。
+// 見つからない追加の画像は表示しない (メイン画像が見つからない場合は代わりの画像を表示する)
+const loadGallery = async (product: ProductWithAvailability): Promise<ImageMeta[]> => {
+    const sources = [product.imageUrl, ...(product.images ?? []), ...listSkus(product).map((sku) => sku.imageUrl)];
+    const metas = await getImageMetas(sources);
+    const [main, ...rest] = [...new Set(sources)].map((src) => metas[src]);
+    return [main, ...rest.filter((meta) => !meta.isMissing)];
+};
 
-    // カートコンテキストから addToCart 関数を取得
-    const { addToCart } = useCart();
+// ビルド時に既存の商品のページを用意する (後から追加した商品は、最初のアクセス時に表示する)
+export async function generateStaticParams() {
+    return (await getProducts()).map((product) => ({ id: product.id }));
+}
 
-    // 商品が見つからなかった場合のエラーハンドリング
+export async function generateMetadata({ params }: ProductDetailProps): Promise<Metadata> {
+    const { id } = await params;
+    const product = await loadProduct(id);
     if (!product) {
-        return (
-            <div className="p-4">
-                <h1 className="text-2xl font-bold text-red-500">
-                    商品が見つかりません
-                </h1>
-            </div>
-        );
+        notFound();
     }
+    const { locale } = await getI18n();
+    const alternates = buildAlternates(locale, `/products/${product.id}`);
+    const description = product.description.length > DESCRIPTION_MAX_LENGTH
+        ? `${product.description.slice(0, DESCRIPTION_MAX_LENGTH - 1)}…`
+        : product.description;
 
-    // カートに追加するボタンがクリックされたときのハンドラ
-    const handleAddToCart = () => {
-        console.log('商品をカートに追加:', { 
-            id: product.id,
-            name: product.name,
-            price: product.price,
-            quantity: 1,
-            imageUrl: product.imageUrl
-        });
-        // 商品をカートに追加 (商品の全情報を含める)
-        addToCart({ 
-            id: product.id,
-            name: product.name,
-            price: product.price,
-            quantity: 1,
-            imageUrl: product.imageUrl
-        });
+    return {
+        title: product.name,
+        description,
+        alternates,
+        openGraph: {
+            type: 'website',
+            title: product.name,
+            description,
+            url: alternates.canonical,
+            locale: OG_LOCALES[locale],
+            images: [{ url: product.imageUrl, alt: product.name }],
+        },
+        twitter: {
+            card: 'summary_large_image',
+            title: product.name,
+            description,
+            images: [product.imageUrl],
+        },
     };
+}
+
+/* 
+[コンポーネント定義]
+このコンポーネントは URL の商品IDを元に、該当する商品の詳細情報を表示します。
+*/
+export default async function ProductDetail({ params }: ProductDetailProps) {
+    const { id } = await params;
+    const product = await loadProduct(id);
+
+    // 商品が見つからなかった場合は 404 (not-found.tsx)
+    if (!product) {
+        notFound();
+    }
+
+    const { locale } = await getI18n();
+    const ratings = await getReviewSummaries();
+    const gallery = await loadGallery(product);
+    const jsonLd = toProductJsonLd(product, {
+        url: toAbsoluteUrl(buildAlternates(locale, `/products/${product.id}`).canonical),
+        rating: ratings[product.id],
+        toAbsolute: toAbsoluteUrl,
+    });
 
     return (
         /* 
@@ -101,18 +123,17 @@ export default function ProductDetail() {
           mx-auto: 水平方向のマージンを自動にして中央に配置
         */
         <div className="p-4 max-w-4xl mx-auto">
+            {/* [構造化データ] 検索エンジン向けの商品・価格・在庫・評価 */}
+            <script
+                type="application/ld+json"
+                dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+            />
+
             {/*
-        [商品画像の表示]
-        w-full: 横幅100%に
-        h-80: 高さを固定 (例: 20rem)
-        object-contain: 画像のアスペクト比を維持して全体表示
-        mb-4: 下方向の余白
+        [商品画像のギャラリー]
+        メイン画像と追加の画像を切り替え・拡大して表示する (ブラウザで動く部分)
       */}
-            <img
-                src={product.imageUrl}
-                alt={product.name}
-                className="w-full h-80 object-contain mb-4"
-            />
+            <ProductGallery images={gallery} alt={product.name} />
 
             {/*
         [商品名の表示]
@@ -122,27 +143,18 @@ export default function ProductDetail() {
       */}
             <h1 className="text-3xl font-bold mb-2">{product.name}</h1>
 
-            {/*
-        [商品価格の表示]
-        text-xl: 文字サイズをXLに
-        text-gray-700: 文字色をグレーに
-        mb-4: 下方向の余白
-      */}
-            <p className="text-xl text-gray-700 mb-4">{product.price}円</p>
-
             {/*
         [商品説明の表示]
         text-base: 基本の文字サイズ
         text-gray-600: やや薄いグレーの文字色
       */}
             <p className="text-base text-gray-600">{product.description}</p>
-            {/* カートに追加するボタン */}
-            <button
-                onClick={handleAddToCart}
-                className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition"
-            >
-                カートに追加
-            </button>
+
+            {/* [購入欄] 価格・バリエーションの選択・在庫状況・カートに追加 (ブラウザで動く部分) */}
+            <ProductPurchasePanel product={product} />
+
+            {/* [レビュー] 平均評価・レビューの一覧・投稿フォーム */}
+            <ProductReviews productId={product.id} />
         </div>
     );
-}
\ No newline at end of file
+}
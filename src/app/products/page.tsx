@@ -0,0 +1,92 @@
+/*
+[概要]
+このファイル (page.tsx) は商品一覧ページ (/products) です。
+キーワード検索・カテゴリ / 価格帯の絞り込み・並び替え・ページ送りの条件をすべて URL のクエリ文字列で受け取り、
+サーバー側で絞り込んだ結果を表示します。条件を変える操作はすべてリンク (または GET フォーム) なので、
+検索結果の URL をそのまま共有できます。
+
+例: /ja/products?q=てぃーしゃつ&category=fashion&maxPrice=3000&sort=price_asc&page=2
+*/
+
+import Link from 'next/link';
+import {
+  PRODUCT_SORT_OPTIONS,
+  SearchParams,
+  getProducts,
+  parseProductSearchParams,
+  searchProducts,
+  toProductSearchParams,
+} from '../../lib/catalog';
+import { getI18n } from '../../lib/i18n';
+import { getReviewSummaries } from '../../lib/reviews';
+import ProductCard from '../../components/catalog/ProductCard';
+import ProductFacets from '../../components/catalog/ProductFacets';
+import ProductSearchForm from '../../components/catalog/ProductSearchForm';
+import Pagination from '../../components/Pagination';
+
+type ProductListPageProps = {
+  searchParams: Promise<SearchParams>;
+};
+
+export default async function ProductListPage({ searchParams }: ProductListPageProps) {
+  const query = parseProductSearchParams(await searchParams);
+  const result = searchProducts(await getProducts(), query);
+  const ratings = await getReviewSummaries();
+  const { t, localizePath } = await getI18n();
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <h1 className="text-2xl font-bold">{t('products.title')}</h1>
+      <ProductSearchForm query={query} />
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <aside className="md:w-56 shrink-0">
+          <ProductFacets query={query} facets={result.facets} />
+        </aside>
+
+        <section className="flex-1">
+          {/* 件数と並び替え (並び替えたらページは1に戻す) */}
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <p className="text-gray-700">
+              {query.keyword && <>{t('products.resultsFor', { keyword: query.keyword })} </>}
+              {t('products.count', { count: result.total })}
+            </p>
+            <nav aria-label={t('sort.label')} className="flex gap-3 text-sm">
+              {PRODUCT_SORT_OPTIONS.map((option) => (
+                <Link
+                  key={option.value}
+                  href={localizePath(`/products?${toProductSearchParams({ ...query, sort: option.value, page: 1 })}`)}
+                  aria-current={option.value === query.sort ? 'true' : undefined}
+                  className={option.value === query.sort ? 'font-bold text-blue-600' : 'text-gray-700 hover:underline'}
+                >
+                  {t(`sort.${option.value}`)}
+                </Link>
+              ))}
+            </nav>
+          </div>
+
+          {result.products.length === 0 ? (
+            <p className="text-gray-700">
+              {t('products.empty')}
+              <Link href={localizePath('/products')} className="ml-2 text-blue-500 hover:underline">
+                {t('products.clearFilters')}
+              </Link>
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {result.products.map((product) => (
+                <ProductCard key={product.id} product={product} rating={ratings[product.id]} />
+              ))}
+            </div>
+          )}
+
+          <Pagination
+            page={result.page}
+            totalPages={result.totalPages}
+            hrefForPage={(page) => localizePath(`/products?${toProductSearchParams({ ...query, page })}`)}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
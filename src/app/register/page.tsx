@@ -0,0 +1,40 @@
+/*
+[概要]
+このファイル (page.tsx) は会員登録ページ (/register) です。
+登録するとそのままログインし、それまでのカートはアカウントに引き継がれます。
+*/
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { toSafeRedirectPath } from '../../lib/auth/api';
+import { getI18n } from '../../lib/i18n';
+import { getCurrentUser } from '../../lib/session';
+import CredentialsForm from '../../components/auth/CredentialsForm';
+
+type RegisterPageProps = {
+  searchParams: Promise<{ next?: string | string[] }>;
+};
+
+export default async function RegisterPage({ searchParams }: RegisterPageProps) {
+  const { t, localizePath } = await getI18n();
+  const redirectTo = toSafeRedirectPath((await searchParams).next, localizePath('/account'));
+  if (await getCurrentUser()) {
+    redirect(redirectTo);
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-4">
+      <h1 className="text-2xl font-bold">{t('auth.register')}</h1>
+      <CredentialsForm mode="register" redirectTo={redirectTo} />
+      <p className="text-sm">
+        {t('auth.registered')}
+        <Link
+          href={localizePath(`/login?next=${encodeURIComponent(redirectTo)}`)}
+          className="ml-1 text-blue-500 hover:underline"
+        >
+          {t('auth.login')}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/*
+[概要]
+GET /robots.txt → 検索エンジンのクローラー向けの設定。
+API・管理画面と、お客様ごとに内容が変わるページ (カート・レジ・アカウントなど) は巡回の対象外にし、サイトマップの場所を伝える。
+*/
+import type { MetadataRoute } from 'next';
+import { LOCALES, localizePath } from '../lib/i18n/config';
+import { toAbsoluteUrl } from '../lib/seo';
+
+const PRIVATE_PATHS = ['/cart', '/checkout', '/account', '/login', '/register', '/wishlist'];
+
+export default function robots(): MetadataRoute.Robots {
+    return {
+        rules: {
+            userAgent: '*',
+            allow: '/',
+            disallow: [
+                '/api/',
+                '/admin',
+                ...LOCALES.flatMap((locale) => PRIVATE_PATHS.map((path) => localizePath(locale, path))),
+            ],
+        },
+        sitemap: toAbsoluteUrl('/sitemap.xml'),
+    };
+}
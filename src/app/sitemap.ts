@@ -0,0 +1,39 @@
+/*
+[概要]
+GET /sitemap.xml → 検索エンジン向けのサイトマップ。
+トップページ・商品一覧・商品詳細ページを言語ごとに並べ、同じページの言語違いを alternates で関連付ける。
+カート・アカウントなど、お客様ごとに内容が変わるページは含めない。
+*/
+import type { MetadataRoute } from 'next';
+import { getProducts } from '../lib/catalog';
+import { LOCALES, localizePath } from '../lib/i18n/config';
+import { toAbsoluteUrl, toLanguageAlternates } from '../lib/seo';
+
+// 管理画面で追加・削除した商品がすぐに反映されるよう、ビルド時に固定せずリクエストのたびに作る
+export const dynamic = 'force-dynamic';
+
+// 言語ごとの URL を、サイトの絶対 URL にする
+const toAbsoluteAlternates = (path: string): Record<string, string> =>
+    Object.fromEntries(Object.entries(toLanguageAlternates(path)).map(([lang, url]) => [lang, toAbsoluteUrl(url)]));
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+    const products = await getProducts();
+    const pages: { path: string; lastModified?: string; changeFrequency: 'daily' | 'weekly'; priority: number }[] = [
+        { path: '/', changeFrequency: 'daily', priority: 1 },
+        { path: '/products', changeFrequency: 'daily', priority: 0.8 },
+        ...products.map((product) => ({
+            path: `/products/${product.id}`,
+            lastModified: product.createdAt,
+            changeFrequency: 'weekly' as const,
+            priority: 0.6,
+        })),
+    ];
+
+    return pages.flatMap(({ path, ...entry }) =>
+        LOCALES.map((locale) => ({
+            url: toAbsoluteUrl(localizePath(locale, path)),
+            ...entry,
+            alternates: { languages: toAbsoluteAlternates(path) },
+        }))
+    );
+}
@@ -0,0 +1,106 @@
+/*
+[概要]
+このファイル (page.tsx) はお気に入り (あとで買う) のページ (/wishlist) です。
+保存した商品を新しい順に表示し、カートに移したり、お気に入りから外したりできます。
+サイズ・カラーなどを選ばずに保存した商品は、商品ページで組み合わせを選んでからカートに入れます。
+*/
+
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import { useWishlist } from '../../context/wishlist';
+import { formatOptions } from '../../lib/catalog/variants';
+import { priceWithTax } from '../../lib/pricing';
+import ProductImage from '../../components/catalog/ProductImage';
+
+export default function WishlistPage() {
+  const { items, moveToCart, removeFromWishlist, isLoading } = useWishlist();
+  const { t, formatPrice, localizePath } = useI18n();
+  // 操作に失敗したときのメッセージ (在庫切れでカートに入れられないなど)。明細の id ごとに表示する
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleResult = (id: string, result: { ok: true } | { ok: false; message: string }) => {
+    setErrors((current) => ({ ...current, [id]: result.ok ? '' : result.message }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center">
+        <h1 className="text-2xl font-bold text-gray-700">{t('common.loading')}</h1>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="p-4 text-center">
+        <h1 className="text-2xl font-bold text-gray-700">{t('wishlist.empty')}</h1>
+        <p className="mt-2 text-gray-500">{t('wishlist.emptyHint')}</p>
+        <Link href={localizePath('/products')} className="inline-block mt-4 text-blue-500 hover:underline">
+          {t('common.browseProducts')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto">
+      <h1 className="text-3xl font-bold mb-4">{t('wishlist.title')}</h1>
+      {items.map((item) => (
+        <div key={item.id} className="border rounded shadow p-4 bg-white mb-4 flex justify-between items-center gap-4">
+          <div className="flex items-center space-x-4">
+            <div className="relative w-20 h-20 shrink-0">
+              <ProductImage src={item.imageUrl} alt={item.name} sizes="80px" />
+            </div>
+            <div>
+              <Link href={localizePath(`/products/${item.productId}`)} className="text-xl font-bold hover:underline">
+                {item.name}
+              </Link>
+              {Object.keys(item.options).length > 0 && (
+                <p className="text-sm text-gray-500">{formatOptions(item.options)}</p>
+              )}
+              <p className="text-gray-700">
+                {item.sku
+                  ? formatPrice(priceWithTax(item.price, item.taxCategory))
+                  : t('common.priceFrom', { price: formatPrice(priceWithTax(item.price, item.taxCategory)) })}
+                <span className="ml-1 text-sm">{t('common.taxIncluded')}</span>
+              </p>
+              {item.stockStatus !== 'in_stock' && (
+                <p className={item.stockStatus === 'out_of_stock' ? 'text-red-500' : 'text-orange-500'}>
+                  {t(`stock.${item.stockStatus}`)}
+                </p>
+              )}
+              {errors[item.id] && <p className="text-red-500">{errors[item.id]}</p>}
+            </div>
+          </div>
+          <div className="flex flex-col gap-2 shrink-0">
+            {item.sku ? (
+              <button
+                onClick={async () => handleResult(item.id, await moveToCart(item.id))}
+                disabled={item.stockStatus === 'out_of_stock'}
+                className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition disabled:bg-gray-400"
+              >
+                {t('wishlist.moveToCart')}
+              </button>
+            ) : (
+              <Link
+                href={localizePath(`/products/${item.productId}`)}
+                className="px-4 py-2 border border-green-500 text-green-600 rounded text-center hover:bg-green-50"
+              >
+                {t('wishlist.chooseOptions')}
+              </Link>
+            )}
+            <button
+              onClick={async () => handleResult(item.id, await removeFromWishlist(item.id))}
+              className="px-4 py-2 border rounded bg-white hover:bg-gray-50"
+            >
+              {t('common.delete')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
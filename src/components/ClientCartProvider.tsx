@@ -1,12 +1,27 @@
 "use client";
 
 import { CartProvider } from '../context/cart';
+import { I18nProvider } from '../context/i18n';
+import { WishlistProvider } from '../context/wishlist';
+import type { CurrencyCode, ExchangeRates } from '../lib/currency/types';
+import type { Locale } from '../lib/i18n/config';
 import { ReactNode } from 'react';
 
 type ClientCartProviderProps = {
+  locale: Locale;
+  currency: CurrencyCode;
+  rates: ExchangeRates;
   children: ReactNode;
 };
 
-export default function ClientCartProvider({ children }: ClientCartProviderProps) {
-  return <CartProvider>{children}</CartProvider>;
-} 
\ No newline at end of file
+// お気に入りはカートとの間で商品を移すため、CartProvider の内側に置く
+// 表示言語・表示通貨はルートレイアウト (サーバー) で決めた値をそのまま使う
+export default function ClientCartProvider({ locale, currency, rates, children }: ClientCartProviderProps) {
+  return (
+    <I18nProvider locale={locale} currency={currency} rates={rates}>
+      <CartProvider>
+        <WishlistProvider>{children}</WishlistProvider>
+      </CartProvider>
+    </I18nProvider>
+  );
+}
@@ -0,0 +1,55 @@
+/*
+[概要]
+一覧ページ共通のページ送り (商品一覧・注文履歴)。各ページへのリンク先は hrefForPage で呼び出し元が決める。
+サーバーコンポーネントから使用する。
+*/
+
+import Link from 'next/link';
+import { Fragment } from 'react';
+import { getI18n } from '../lib/i18n';
+
+const PAGE_WINDOW = 2;
+
+type PaginationProps = {
+  page: number;
+  totalPages: number;
+  hrefForPage: (page: number) => string;
+};
+
+export default async function Pagination({ page, totalPages, hrefForPage }: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+  const { t } = await getI18n();
+  // 先頭・末尾と現在のページの前後だけを表示し、間は「…」で省略する
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1).filter(
+    (number) => number === 1 || number === totalPages || Math.abs(number - page) <= PAGE_WINDOW
+  );
+
+  return (
+    <nav aria-label={t('pagination.label')} className="flex justify-center gap-2 mt-6">
+      {page > 1 && (
+        <Link href={hrefForPage(page - 1)} rel="prev" className="px-3 py-1 border rounded bg-white">
+          {t('pagination.prev')}
+        </Link>
+      )}
+      {pages.map((number, index) => (
+        <Fragment key={number}>
+          {index > 0 && number - pages[index - 1] > 1 && <span className="px-1 py-1">…</span>}
+          <Link
+            href={hrefForPage(number)}
+            aria-current={number === page ? 'page' : undefined}
+            className={`px-3 py-1 border rounded ${number === page ? 'bg-blue-500 text-white' : 'bg-white'}`}
+          >
+            {number}
+          </Link>
+        </Fragment>
+      ))}
+      {page < totalPages && (
+        <Link href={hrefForPage(page + 1)} rel="next" className="px-3 py-1 border rounded bg-white">
+          {t('pagination.next')}
+        </Link>
+      )}
+    </nav>
+  );
+}
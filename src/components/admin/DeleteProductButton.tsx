@@ -0,0 +1,41 @@
+/*
+[概要]
+管理画面の商品削除ボタン。確認ダイアログを出してから削除し、商品一覧に戻る。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { removeProduct } from '../../lib/admin/api';
+
+type DeleteProductButtonProps = {
+  productId: string;
+  productName: string;
+};
+
+export default function DeleteProductButton({ productId, productName }: DeleteProductButtonProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async () => {
+    if (!window.confirm(`「${productName}」を削除します。よろしいですか?`)) {
+      return;
+    }
+    try {
+      await removeProduct(productId);
+      router.push('/admin/products');
+      router.refresh();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : '削除に失敗しました');
+    }
+  };
+
+  return (
+    <div>
+      <button onClick={handleDelete} className="px-4 py-2 border border-red-500 text-red-500 rounded hover:bg-red-50">
+        この商品を削除
+      </button>
+      {error && <p className="mt-1 text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/*
+[概要]
+管理画面の注文ステータス変更ボタン。変更できる次のステータス (transitions) だけをボタンとして表示する。
+「発送済み」にする場合は、お問い合わせ伝票番号を入力してから変更する (発送のお知らせメールに記載される)。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { patchOrderStatus } from '../../lib/admin/api';
+import { ORDER_STATUS_LABELS } from '../../lib/orders/status';
+import type { OrderStatus } from '../../lib/orders/types';
+
+type OrderStatusActionsProps = {
+  orderId: string;
+  transitions: OrderStatus[];
+};
+
+// 取り消せない操作は確認してから実行する
+const CONFIRM_STATUSES: OrderStatus[] = ['cancelled', 'refunded'];
+
+export default function OrderStatusActions({ orderId, transitions }: OrderStatusActionsProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleChange = async (status: OrderStatus) => {
+    if (CONFIRM_STATUSES.includes(status)
+      && !window.confirm(`注文を「${ORDER_STATUS_LABELS[status]}」にします。よろしいですか?`)) {
+      return;
+    }
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      const result = await patchOrderStatus(orderId, status, status === 'shipped' ? trackingNumber : undefined);
+      setMessage({ text: result.notice ?? 'ステータスを変更しました', isError: false });
+      router.refresh();
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : '変更に失敗しました', isError: true });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (transitions.length === 0) {
+    return <p className="text-gray-500">これ以上ステータスを変更できません</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {transitions.includes('shipped') && (
+        <div>
+          <label htmlFor="tracking-number" className="block text-sm font-bold text-gray-700 mb-1">
+            お問い合わせ伝票番号 (発送済みにする場合)
+          </label>
+          <input
+            id="tracking-number"
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            placeholder="1234-5678-9012"
+            className="w-64 border rounded p-2"
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {transitions.map((status) => (
+          <button
+            key={status}
+            onClick={() => handleChange(status)}
+            disabled={isSubmitting || (status === 'shipped' && trackingNumber.trim() === '')}
+            className="px-3 py-1 border rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+          >
+            {ORDER_STATUS_LABELS[status]}にする
+          </button>
+        ))}
+      </div>
+      {message && <p className={message.isError ? 'text-red-500' : 'text-green-600'}>{message.text}</p>}
+    </div>
+  );
+}
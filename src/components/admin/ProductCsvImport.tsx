@@ -0,0 +1,150 @@
+/*
+[概要]
+商品 CSV の取り込みフォーム。まずプレビュー (保存しない) で行ごとの結果とエラーを確認し、
+エラーがなければ同じファイルを取り込む。取り込むときもサーバー側で最初から検証し直す。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AdminApiError, uploadProductsCsv } from '../../lib/admin/api';
+import type { CsvEncoding, ProductImportAction, ProductImportResult } from '../../lib/catalog/types';
+
+const ACTION_LABELS: Record<ProductImportAction, string> = {
+  create: '新規',
+  update: '更新',
+  unchanged: '変更なし',
+};
+
+const ENCODING_OPTIONS: { value: CsvEncoding | 'auto'; label: string }[] = [
+  { value: 'auto', label: '自動判定' },
+  { value: 'shift_jis', label: 'Shift_JIS' },
+  { value: 'utf-8', label: 'UTF-8' },
+];
+
+export default function ProductCsvImport() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding | 'auto'>('auto');
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // ファイルや文字コードを変えたら、前のプレビューは使えない
+  const resetPreview = () => {
+    setResult(null);
+    setMessage(null);
+  };
+
+  const submit = async (mode: 'preview' | 'apply') => {
+    if (!file) {
+      return;
+    }
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      const imported = await uploadProductsCsv(file, encoding, mode);
+      setResult(imported);
+      if (imported.applied) {
+        const { create, update } = imported.counts;
+        setMessage({ text: `取り込みました (新規 ${create}件・更新 ${update}件)`, isError: false });
+        router.refresh();
+      }
+    } catch (error) {
+      setResult(error instanceof AdminApiError ? error.importResult ?? null : null);
+      setMessage({ text: error instanceof Error ? error.message : '取り込みに失敗しました', isError: true });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canApply = result !== null && !result.applied && result.errorCount === 0
+    && result.counts.create + result.counts.update > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="csv-file" className="block font-bold mb-1">CSV ファイル</label>
+          <input
+            id="csv-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              resetPreview();
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor="csv-encoding" className="block font-bold mb-1">文字コード</label>
+          <select
+            id="csv-encoding"
+            value={encoding}
+            onChange={(e) => {
+              setEncoding(e.target.value as CsvEncoding | 'auto');
+              resetPreview();
+            }}
+            className="border rounded p-2 bg-white"
+          >
+            {ENCODING_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => submit('preview')}
+          disabled={!file || isSubmitting}
+          className="px-4 py-2 border rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+        >
+          プレビュー
+        </button>
+        <button
+          onClick={() => submit('apply')}
+          disabled={!canApply || isSubmitting}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:bg-gray-400"
+        >
+          取り込む
+        </button>
+      </div>
+
+      {message && <p className={message.isError ? 'text-red-500' : 'text-green-600'}>{message.text}</p>}
+
+      {result && (
+        <section className="space-y-2">
+          <p className="text-gray-700">
+            文字コード: {result.encoding === 'shift_jis' ? 'Shift_JIS' : 'UTF-8'}
+            <span className="ml-4">
+              新規 {result.counts.create}件・更新 {result.counts.update}件・変更なし {result.counts.unchanged}件
+            </span>
+            {result.errorCount > 0 && <span className="ml-4 text-red-500">エラー {result.errorCount}行</span>}
+          </p>
+          <table className="w-full bg-white border text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="p-2">行</th>
+                <th>商品ID</th>
+                <th>商品名</th>
+                <th>処理</th>
+                <th className="p-2">エラー</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row) => (
+                <tr key={row.line} className={`border-b ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                  <td className="p-2">{row.line}</td>
+                  <td className="font-mono">{row.id}</td>
+                  <td>{row.name}</td>
+                  <td>{ACTION_LABELS[row.action]}</td>
+                  <td className="p-2 text-red-500">
+                    {row.errors.map((error) => <p key={error}>{error}</p>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/*
+[概要]
+管理画面の商品登録・編集フォーム。入力値は文字列で保持し、送信時に数値へ変換して Route Handler に送る。
+検証はサーバー側 (lib/catalog/validation.ts) で行い、項目ごとのエラーを表示する。
+バリエーションのある商品は、既存の SKU ごとの価格・在庫だけを編集できる。
+画像はファイルをアップロードする (ProductImageUploader) か、URL を直接入力する。
+*/
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AdminApiError, saveProduct } from '../../lib/admin/api';
+import { CATEGORIES } from '../../lib/catalog/categories';
+import type { Product, ProductErrors } from '../../lib/catalog/types';
+import { formatOptions } from '../../lib/catalog/variants';
+import { TAX_CATEGORY_LABELS } from '../../lib/pricing';
+import ProductImageUploader from './ProductImageUploader';
+
+type ProductFormProps = {
+  product?: Product; // 省略時は新規登録
+};
+
+type VariantValues = { sku: string; label: string; price: string; stock: string };
+
+// 空欄は undefined (購入上限なし・基本価格を使う) として送る
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export default function ProductForm({ product }: ProductFormProps) {
+  const router = useRouter();
+  const [values, setValues] = useState({
+    name: product?.name ?? '',
+    description: product?.description ?? '',
+    category: product?.category ?? '',
+    price: product ? String(product.price) : '',
+    taxCategory: product?.taxCategory ?? 'standard',
+    imageUrl: product?.imageUrl ?? '',
+    images: (product?.images ?? []).join('\n'),
+    stock: product ? String(product.stock) : '0',
+    maxPerOrder: product?.maxPerOrder ? String(product.maxPerOrder) : '',
+    weight: product?.weight ? String(product.weight) : '',
+    packageSize: product?.packageSize ? String(product.packageSize) : '',
+  });
+  const [variants, setVariants] = useState<VariantValues[]>(
+    (product?.variants ?? []).map((variant) => ({
+      sku: variant.sku,
+      label: formatOptions(variant.options),
+      price: variant.price === undefined ? '' : String(variant.price),
+      stock: String(variant.stock),
+    }))
+  );
+  const [errors, setErrors] = useState<ProductErrors>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = (key: keyof typeof values, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // アップロードした画像は、メイン画像が空欄ならメイン画像に、そうでなければ追加の画像の最後に入れる
+  const handleImageUploaded = (url: string) => {
+    setValues((prev) => prev.imageUrl.trim() === ''
+      ? { ...prev, imageUrl: url }
+      : { ...prev, images: prev.images.trim() === '' ? url : `${prev.images.trimEnd()}\n${url}` });
+  };
+
+  const imageUrls = [values.imageUrl, ...values.images.split('\n')].map((line) => line.trim()).filter((line) => line !== '');
+
+  const handleVariantChange = (sku: string, key: 'price' | 'stock', value: string) => {
+    setVariants((prev) => prev.map((variant) => (variant.sku === sku ? { ...variant, [key]: value } : variant)));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setErrors({});
+    setMessage(null);
+    try {
+      await saveProduct(product?.id ?? null, {
+        ...values,
+        price: toNumber(values.price),
+        stock: toNumber(values.stock),
+        maxPerOrder: toNumber(values.maxPerOrder),
+        weight: toNumber(values.weight),
+        packageSize: toNumber(values.packageSize),
+        images: values.images.split('\n').map((line) => line.trim()).filter((line) => line !== ''),
+        variants: variants.length > 0
+          ? variants.map((variant) => ({
+            sku: variant.sku,
+            price: toNumber(variant.price),
+            stock: toNumber(variant.stock),
+          }))
+          : undefined,
+      });
+      router.push('/admin/products');
+      router.refresh();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : '保存に失敗しました');
+      if (error instanceof AdminApiError) {
+        setErrors(error.details ?? {});
+      }
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderError = (key: keyof ProductErrors) =>
+    errors[key] && <p className="mt-1 text-sm text-red-500">{errors[key]}</p>;
+
+  const renderInput = (key: keyof typeof values, label: string, type = 'text') => (
+    <div>
+      <label htmlFor={key} className="block font-bold mb-1">{label}</label>
+      <input
+        id={key}
+        type={type}
+        value={values[key]}
+        onChange={(e) => handleChange(key, e.target.value)}
+        className="w-full border rounded p-2"
+      />
+      {renderError(key)}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {renderInput('name', '商品名')}
+      <div>
+        <label htmlFor="description" className="block font-bold mb-1">商品説明</label>
+        <textarea
+          id="description"
+          value={values.description}
+          rows={4}
+          onChange={(e) => handleChange('description', e.target.value)}
+          className="w-full border rounded p-2"
+        />
+        {renderError('description')}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="category" className="block font-bold mb-1">カテゴリ</label>
+          <select
+            id="category"
+            value={values.category}
+            onChange={(e) => handleChange('category', e.target.value)}
+            className="w-full border rounded p-2 bg-white"
+          >
+            <option value="">選択してください</option>
+            {CATEGORIES.map((category) => (
+              <option key={category.id} value={category.id}>{category.label}</option>
+            ))}
+          </select>
+          {renderError('category')}
+        </div>
+        <div>
+          <label htmlFor="taxCategory" className="block font-bold mb-1">税区分</label>
+          <select
+            id="taxCategory"
+            value={values.taxCategory}
+            onChange={(e) => handleChange('taxCategory', e.target.value)}
+            className="w-full border rounded p-2 bg-white"
+          >
+            {Object.entries(TAX_CATEGORY_LABELS).map(([id, label]) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+          {renderError('taxCategory')}
+        </div>
+        {renderInput('price', '価格 (税抜・円)', 'number')}
+        {renderInput('maxPerOrder', '1回の購入上限数 (空欄で上限なし)', 'number')}
+        {renderInput('weight', '重量 (g・送料の計算に使用)', 'number')}
+        {renderInput('packageSize', '梱包サイズ (三辺合計 cm・送料の計算に使用)', 'number')}
+        {variants.length === 0 && renderInput('stock', '在庫数', 'number')}
+      </div>
+      {renderInput('imageUrl', 'メイン画像の URL')}
+      <div>
+        <label htmlFor="images" className="block font-bold mb-1">追加の画像の URL (1行に1つ)</label>
+        <textarea
+          id="images"
+          value={values.images}
+          rows={3}
+          onChange={(e) => handleChange('images', e.target.value)}
+          className="w-full border rounded p-2 font-mono text-sm"
+        />
+        {renderError('images')}
+      </div>
+      <ProductImageUploader images={imageUrls} onUploaded={handleImageUploaded} />
+
+      {variants.length > 0 && (
+        <fieldset>
+          <legend className="font-bold mb-1">バリエーション (価格は空欄で基本価格)</legend>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-1">SKU</th>
+                <th>組み合わせ</th>
+                <th>価格 (税抜)</th>
+                <th>在庫数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant) => (
+                <tr key={variant.sku} className="border-b">
+                  <td className="py-1 font-mono">{variant.sku}</td>
+                  <td>{variant.label}</td>
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${variant.sku} の価格`}
+                      value={variant.price}
+                      onChange={(e) => handleVariantChange(variant.sku, 'price', e.target.value)}
+                      className="w-28 border rounded p-1"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${variant.sku} の在庫数`}
+                      value={variant.stock}
+                      onChange={(e) => handleVariantChange(variant.sku, 'stock', e.target.value)}
+                      className="w-20 border rounded p-1"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {renderError('variants')}
+        </fieldset>
+      )}
+
+      {message && <p className="text-red-500">{message}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:bg-gray-400"
+      >
+        {product ? '更新する' : '登録する'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,64 @@
+/*
+[概要]
+管理画面の商品画像のアップロード欄。選んだ画像を1枚ずつサーバーに送り (WebP への変換とサムネイルの作成はサーバーで行う)、
+保存した画像の URL を onUploaded で商品フォームに渡す。登録済みの画像はサムネイルで確認できる。
+*/
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { uploadProductImage } from '../../lib/admin/api';
+import { toThumbnailUrl } from '../../lib/catalog/imageSources';
+import ProductImage from '../catalog/ProductImage';
+
+type ProductImageUploaderProps = {
+  images: string[]; // 登録済みの画像 (メイン画像・追加の画像)
+  onUploaded: (url: string) => void;
+};
+
+export default function ProductImageUploader({ images, onUploaded }: ProductImageUploaderProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // 同じファイルをもう一度選べるように、選択を空に戻す
+    event.target.value = '';
+    setError(null);
+    setIsUploading(true);
+    for (const file of files) {
+      try {
+        onUploaded((await uploadProductImage(file)).url);
+      } catch (uploadError) {
+        setError(`${file.name}: ${uploadError instanceof Error ? uploadError.message : 'アップロードに失敗しました'}`);
+        break;
+      }
+    }
+    setIsUploading(false);
+  };
+
+  return (
+    <div>
+      <label htmlFor="imageFiles" className="block font-bold mb-1">画像をアップロード (メイン画像が空欄なら最初の画像をメイン画像にします)</label>
+      <input
+        id="imageFiles"
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/gif,image/avif"
+        multiple
+        onChange={handleChange}
+        disabled={isUploading}
+        className="block text-sm"
+      />
+      {isUploading && <p className="mt-1 text-sm text-gray-500">アップロード中...</p>}
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+      {images.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mt-2">
+          {images.map((url, index) => (
+            <li key={`${index}-${url}`} className="relative w-20 h-20 border rounded bg-white">
+              <ProductImage src={toThumbnailUrl(url)} alt="" sizes="80px" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/*
+[概要]
+管理画面のレビューの承認・却下・要確認ボタン。現在の状態と同じになる操作は表示しない。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { patchReviewModeration } from '../../lib/admin/api';
+import { REVIEW_MODERATION_ACTIONS } from '../../lib/reviews/rules';
+import type { ReviewModerationAction, ReviewStatus } from '../../lib/reviews/types';
+
+type ReviewModerationActionsProps = {
+  reviewId: string;
+  status: ReviewStatus;
+};
+
+export default function ReviewModerationActions({ reviewId, status }: ReviewModerationActionsProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const actions = (Object.keys(REVIEW_MODERATION_ACTIONS) as ReviewModerationAction[])
+    .filter((action) => REVIEW_MODERATION_ACTIONS[action].status !== status);
+
+  const handleModerate = async (action: ReviewModerationAction) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await patchReviewModeration(reviewId, action);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '変更に失敗しました');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2">
+        {actions.map((action) => (
+          <button
+            key={action}
+            onClick={() => handleModerate(action)}
+            disabled={isSubmitting}
+            className="px-3 py-1 border rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+          >
+            {REVIEW_MODERATION_ACTIONS[action].label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+/*
+[概要]
+ログイン・会員登録で共通のフォーム。送信が成功したらカートとお気に入りをサーバーから取り直し
+(ゲストのものはアカウントのものにまとめられている)、redirectTo に移動する。
+*/
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { useWishlist } from '../../context/wishlist';
+import { AuthApiError, login, register } from '../../lib/auth/api';
+import type { CredentialErrors } from '../../lib/auth/types';
+
+type CredentialsFormProps = {
+  mode: 'login' | 'register';
+  redirectTo: string;
+};
+
+export default function CredentialsForm({ mode, redirectTo }: CredentialsFormProps) {
+  const router = useRouter();
+  const { refreshCart } = useCart();
+  const { refreshWishlist } = useWishlist();
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<CredentialErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      if (mode === 'login') {
+        await login(email, password);
+      } else {
+        await register(email, password, name);
+      }
+      await Promise.all([refreshCart(), refreshWishlist()]);
+      router.push(redirectTo);
+      router.refresh();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : t('common.failed'));
+      if (caught instanceof AuthApiError) {
+        setFieldErrors(caught.details ?? {});
+      }
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderError = (key: keyof CredentialErrors) =>
+    fieldErrors[key] && <p className="mt-1 text-sm text-red-500">{fieldErrors[key]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {mode === 'register' && (
+        <div>
+          <label htmlFor="name" className="block font-bold mb-1">{t('auth.name')}</label>
+          <input
+            id="name"
+            value={name}
+            autoComplete="name"
+            onChange={(e) => setName(e.target.value)}
+            className="w-full border rounded p-2"
+          />
+          {renderError('name')}
+        </div>
+      )}
+      <div>
+        <label htmlFor="email" className="block font-bold mb-1">{t('auth.email')}</label>
+        <input
+          id="email"
+          type="email"
+          value={email}
+          required
+          autoComplete="email"
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full border rounded p-2"
+        />
+        {renderError('email')}
+      </div>
+      <div>
+        <label htmlFor="password" className="block font-bold mb-1">{t('auth.password')}</label>
+        <input
+          id="password"
+          type="password"
+          value={password}
+          required
+          minLength={mode === 'register' ? 8 : undefined}
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full border rounded p-2"
+        />
+        {mode === 'register' && <p className="mt-1 text-sm text-gray-500">{t('auth.passwordHint')}</p>}
+        {renderError('password')}
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:bg-gray-400"
+      >
+        {mode === 'login' ? t('auth.login') : t('auth.submitRegister')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,50 @@
+/*
+[概要]
+ログアウトボタン。ログアウト後はゲストのカート・お気に入り (空) に切り替わるため、どちらも取り直してトップページに戻る。
+失敗した場合はエラーを表示し、もう一度押せるようにする。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { useWishlist } from '../../context/wishlist';
+import { logout } from '../../lib/auth/api';
+
+export default function LogoutButton() {
+  const router = useRouter();
+  const { refreshCart } = useCart();
+  const { refreshWishlist } = useWishlist();
+  const { t, localizePath } = useI18n();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogout = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await logout();
+      await Promise.all([refreshCart(), refreshWishlist()]);
+      router.push(localizePath('/'));
+      router.refresh();
+    } catch {
+      setError(t('account.logoutFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleLogout}
+        disabled={isSubmitting}
+        className="px-4 py-2 border rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+      >
+        {t('account.logout')}
+      </button>
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/*
+[概要]
+商品をカートに追加したときの通知 (トースト)。画面の右下に表示し、数秒で自動的に消える。
+「カートを見る」でヘッダーのミニカートを開く。
+*/
+'use client';
+
+import { useEffect } from 'react';
+import { useI18n } from '../../context/i18n';
+
+type AddedToCartToastProps = {
+  itemName: string | null; // null の場合は表示しない
+  onViewCart: () => void;
+  onDismiss: () => void;
+};
+
+// 表示しておく時間
+const TOAST_DURATION_MS = 4000;
+
+export default function AddedToCartToast({ itemName, onViewCart, onDismiss }: AddedToCartToastProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!itemName) {
+      return;
+    }
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [itemName, onDismiss]);
+
+  // 読み上げソフトにも通知するため、表示していないときも領域 (aria-live) は残しておく
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-4 right-4 z-40 text-gray-900">
+      {itemName && (
+        <div className="flex items-center gap-4 rounded border bg-white p-4 shadow-lg">
+          <span>{t('miniCart.added', { name: itemName })}</span>
+          <button onClick={onViewCart} className="text-blue-500 hover:underline">
+            {t('common.viewCart')}
+          </button>
+          <button onClick={onDismiss} aria-label={t('common.dismiss')} className="px-1 text-gray-500">
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
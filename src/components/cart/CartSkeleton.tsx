@@ -0,0 +1,39 @@
+/*
+[概要]
+カートページの読み込み中の表示 (スケルトン)。
+保存されたカートの読み込みとサーバーとの同期が終わるまで、明細と金額の内訳の形だけを表示し、
+「カートは空です」などが一瞬表示されるのを防ぐ。
+*/
+
+type CartSkeletonProps = {
+  lines?: number; // 表示する明細の数
+};
+
+export default function CartSkeleton({ lines = 2 }: CartSkeletonProps) {
+  return (
+    <div className="p-4 max-w-5xl mx-auto animate-pulse" aria-busy="true">
+      <div className="mb-4 h-8 w-48 rounded bg-gray-300" />
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-4 md:col-span-2">
+          {Array.from({ length: lines }, (_, index) => (
+            <div key={index} className="flex gap-4 rounded border bg-white p-4">
+              <div className="h-20 w-20 rounded bg-gray-200" />
+              <div className="flex-1 space-y-2">
+                <div className="h-5 w-1/2 rounded bg-gray-200" />
+                <div className="h-4 w-1/3 rounded bg-gray-200" />
+                <div className="h-9 w-32 rounded bg-gray-200" />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="h-64 rounded border bg-white p-4">
+          <div className="space-y-2">
+            <div className="h-4 rounded bg-gray-200" />
+            <div className="h-4 rounded bg-gray-200" />
+            <div className="h-6 rounded bg-gray-200" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
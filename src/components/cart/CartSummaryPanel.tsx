@@ -0,0 +1,50 @@
+/*
+[概要]
+カートページの注文内容のまとめ (画面の右側に固定して表示する)。
+商品の点数、クーポン、送料の目安、金額の内訳と、レジに進むボタンをまとめて表示する。
+金額はサーバーが評価した割引 (promotion) と送料の目安をもとに lib/pricing で計算する。
+*/
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { summarizeCart, useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import type { ShippingQuote } from '../../lib/shipping/types';
+import PriceSummaryTable from '../pricing/PriceSummaryTable';
+import CouponForm from './CouponForm';
+import ShippingEstimator from './ShippingEstimator';
+
+export default function CartSummaryPanel() {
+  const { items, promotion, itemCount } = useCart();
+  const { t, localizePath } = useI18n();
+  // 送料の目安 (郵便番号の入力前は未計算)
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+
+  return (
+    <aside aria-labelledby="cart-summary-title" className="space-y-4 md:sticky md:top-4">
+      <div className="border rounded p-4 bg-white">
+        <h2 id="cart-summary-title" className="text-xl font-bold">{t('cart.summary.title')}</h2>
+        <p className="text-sm text-gray-500">{t('cart.summary.itemCount', { count: itemCount })}</p>
+        <div className="mt-4">
+          <PriceSummaryTable
+            summary={summarizeCart(items, promotion, shippingQuote?.fee ?? null)}
+            discounts={promotion?.discounts}
+          />
+        </div>
+        {promotion?.freeShipping && (
+          <p className="mt-2 text-sm text-green-600">{t('cart.freeShipping')}</p>
+        )}
+        {/* 購入手続き (チェックアウト) へ進むボタン */}
+        <Link
+          href={localizePath('/checkout')}
+          className="mt-4 block px-6 py-2 bg-green-500 text-center text-white rounded hover:bg-green-600 transition"
+        >
+          {t('cart.checkout')}
+        </Link>
+      </div>
+      <CouponForm />
+      <ShippingEstimator onQuoteChange={setShippingQuote} />
+    </aside>
+  );
+}
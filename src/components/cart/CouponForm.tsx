@@ -0,0 +1,71 @@
+/*
+[概要]
+カートページのクーポン入力欄。
+適用できない場合は、期限切れ・最低金額未満などの理由をその場で表示する。
+*/
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+
+export default function CouponForm() {
+  const { promotion, applyCoupon, removeCoupon } = useCart();
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    const result = await applyCoupon(code);
+    setError(result.ok ? null : result.rejection.message);
+    if (result.ok) {
+      setCode('');
+    }
+    setIsSubmitting(false);
+  };
+
+  // 適用済みのクーポン
+  if (promotion?.couponCode) {
+    return (
+      <div className="border rounded p-4 bg-white">
+        <div className="flex justify-between items-center">
+          <span>
+            {t('coupon.applied')} <span className="font-bold">{promotion.couponCode}</span>
+          </span>
+          <button onClick={removeCoupon} className="text-sm text-blue-500 hover:underline">
+            {t('coupon.remove')}
+          </button>
+        </div>
+        {/* カートの変更で適用条件を満たさなくなった場合の理由 */}
+        {promotion.couponRejection && (
+          <p className="mt-1 text-sm text-red-500">{promotion.couponRejection.message}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded p-4 bg-white">
+      <label htmlFor="coupon-code" className="block font-bold mb-1">{t('coupon.label')}</label>
+      <div className="flex space-x-2">
+        <input
+          id="coupon-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="flex-1 border rounded p-2"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || code.trim() === ''}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:opacity-50"
+        >
+          {t('coupon.apply')}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,62 @@
+/*
+[概要]
+ヘッダーのカートボタン。カートの商品の点数をバッジで表示し、押すとミニカート (MiniCartDrawer) を開く。
+カートに追加する操作 (addToCart) が成功したら、通知 (AddedToCartToast) を表示する。
+カートページでは明細の変更がその場で表示されるため、通知しない。
+*/
+'use client';
+
+import { usePathname } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { splitLocale } from '../../lib/i18n/config';
+import AddedToCartToast from './AddedToCartToast';
+import MiniCartDrawer from './MiniCartDrawer';
+
+export default function MiniCart() {
+  const { itemCount, onItemAdded } = useCart();
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [addedItemName, setAddedItemName] = useState<string | null>(null);
+  const isCartPage = splitLocale(usePathname() ?? '').path === '/cart';
+
+  // ミニカートを開いている間の追加は、パネルに表示されるので通知しない
+  useEffect(() => {
+    if (isOpen || isCartPage) {
+      return;
+    }
+    return onItemAdded((item) => setAddedItemName(item.name));
+  }, [isOpen, isCartPage, onItemAdded]);
+
+  const dismissToast = useCallback(() => setAddedItemName(null), []);
+
+  const openDrawer = () => {
+    setAddedItemName(null);
+    setIsOpen(true);
+  };
+
+  return (
+    <>
+      <button
+        onClick={openDrawer}
+        aria-label={t('miniCart.open', { count: itemCount })}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        className="relative hover:underline"
+      >
+        {t('nav.cart')}
+        {itemCount > 0 && (
+          <span
+            aria-hidden="true"
+            className="absolute -right-4 -top-2 min-w-5 rounded-full bg-red-500 px-1 text-center text-xs font-bold leading-5 text-white"
+          >
+            {itemCount > 99 ? '99+' : itemCount}
+          </span>
+        )}
+      </button>
+      <MiniCartDrawer isOpen={isOpen} onClose={() => setIsOpen(false)} />
+      <AddedToCartToast itemName={addedItemName} onViewCart={openDrawer} onDismiss={dismissToast} />
+    </>
+  );
+}
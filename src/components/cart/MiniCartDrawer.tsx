@@ -0,0 +1,170 @@
+/*
+[概要]
+ヘッダーのミニカート (右からスライドして開くパネル)。
+数量の変更 (QuantityStepper)・削除、小計 (税抜) の確認、カートページ・レジへの移動ができる。
+開いている間はパネルの中だけを Tab で移動でき (フォーカストラップ)、Esc キーか背景のクリックで閉じる。
+*/
+'use client';
+
+import Link from 'next/link';
+import { KeyboardEvent, RefObject, useEffect, useRef, useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { formatOptions } from '../../lib/catalog/variants';
+import ProductImage from '../catalog/ProductImage';
+import QuantityStepper from './QuantityStepper';
+
+type MiniCartDrawerProps = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// 開いたらパネルの最初の要素にフォーカスし、閉じたら開く前の要素 (ヘッダーのボタン) に戻す
+const useInitialFocus = (panelRef: RefObject<HTMLDivElement | null>, isOpen: boolean) => {
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const previous = document.activeElement as HTMLElement | null;
+    panelRef.current?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR)?.focus();
+    // 背景のページがスクロールしないようにする
+    const { overflow } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+      previous?.focus();
+    };
+  }, [panelRef, isOpen]);
+};
+
+export default function MiniCartDrawer({ isOpen, onClose }: MiniCartDrawerProps) {
+  const { items, subtotal, lineTotals, updateQuantity, removeFromCart } = useCart();
+  const { t, formatPrice, localizePath } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useInitialFocus(panelRef, isOpen);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Tab / Shift+Tab がパネルの端に来たら反対側の端に戻す
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+    if (event.key !== 'Tab' || !panelRef.current) {
+      return;
+    }
+    const focusable = Array.from(panelRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  // 数量 0 は削除として扱う (入力欄の 0 と削除ボタン)
+  const changeQuantity = async (id: string, quantity: number) => {
+    const result = quantity === 0 ? await removeFromCart(id) : await updateQuantity(id, quantity);
+    setError(result.ok ? null : result.message);
+    return result;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end text-gray-900">
+      {/* 背景 (クリックで閉じる) */}
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mini-cart-title"
+        onKeyDown={handleKeyDown}
+        className="relative flex h-full w-full max-w-sm flex-col bg-white shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b p-4">
+          <h2 id="mini-cart-title" className="text-xl font-bold">{t('miniCart.title')}</h2>
+          <button onClick={onClose} aria-label={t('miniCart.close')} className="px-2 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="p-4 text-gray-500">{t('cart.empty')}</p>
+        ) : (
+          <ul className="flex-1 divide-y overflow-y-auto">
+            {items.map((item) => (
+              <li key={item.id} className="flex gap-3 p-4">
+                <div className="relative h-16 w-16 shrink-0">
+                  <ProductImage src={item.imageUrl} alt="" sizes="64px" />
+                </div>
+                <div className="flex-1">
+                  <p className="font-bold">{item.name}</p>
+                  {Object.keys(item.options).length > 0 && (
+                    <p className="text-sm text-gray-500">{formatOptions(item.options)}</p>
+                  )}
+                  <p className="text-sm">{formatPrice(lineTotals[item.id])} {t('common.taxIncluded')}</p>
+                  <div className="mt-1 flex items-start gap-2">
+                    <QuantityStepper
+                      name={item.name}
+                      quantity={item.quantity}
+                      max={item.maxQuantity}
+                      onChange={(quantity) => changeQuantity(item.id, quantity)}
+                      size="sm"
+                    />
+                    <button
+                      onClick={() => changeQuantity(item.id, 0)}
+                      aria-label={t('cart.removeItem', { name: item.name })}
+                      className="ml-auto text-sm text-red-500 hover:underline"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2 border-t p-4">
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-between font-bold">
+            <span>{t('summary.subtotal')}</span>
+            <span>{formatPrice(subtotal)}</span>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href={localizePath('/cart')}
+              onClick={onClose}
+              className="flex-1 rounded border px-4 py-2 text-center hover:bg-gray-50"
+            >
+              {t('common.viewCart')}
+            </Link>
+            {items.length > 0 && (
+              <Link
+                href={localizePath('/checkout')}
+                onClick={onClose}
+                className="flex-1 rounded bg-green-500 px-4 py-2 text-center text-white hover:bg-green-600"
+              >
+                {t('cart.checkout')}
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
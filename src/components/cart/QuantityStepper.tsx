@@ -0,0 +1,106 @@
+/*
+[概要]
+カートの明細の数量を変更する入力欄 (− / 数値の入力 / +)。カートページとヘッダーのミニカートで使う。
+数量は 1〜購入できる最大数 (在庫・購入上限) の整数で、0 を入力すると明細を削除する。
+入力欄の値は Enter キーかフォーカスが外れたときに確定し、正しくない値は元の数量に戻してメッセージを表示する。
+*/
+'use client';
+
+import { KeyboardEvent, useEffect, useId, useState } from 'react';
+import type { CartOperationResult } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+
+type QuantityStepperProps = {
+  name: string; // 読み上げ用の商品名
+  quantity: number;
+  max: number; // 購入できる最大数 (CartItem.maxQuantity)
+  onChange: (quantity: number) => Promise<CartOperationResult>; // 0 は削除
+  size?: 'sm' | 'md';
+};
+
+// 数字だけの入力を数量にする (空欄・小数・負の数は NaN)
+const parseQuantity = (value: string) => (/^\d+$/.test(value.trim()) ? Number(value.trim()) : NaN);
+
+export default function QuantityStepper({ name, quantity, max, onChange, size = 'md' }: QuantityStepperProps) {
+  const { t } = useI18n();
+  const errorId = useId();
+  const [draft, setDraft] = useState(String(quantity));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  // サーバーの応答などで数量が変わったら入力欄にも反映する
+  useEffect(() => {
+    setDraft(String(quantity));
+  }, [quantity]);
+
+  const commit = async (next: number) => {
+    // 在庫が減って今の数量が最大数を超えている場合も、最大数以下への変更と削除はできる
+    if (!Number.isInteger(next) || next < 0 || next > max) {
+      setError(max === 0 ? t('cart.outOfStock') : t('quantity.invalid', { max }));
+      setDraft(String(quantity));
+      return;
+    }
+    if (next === quantity) {
+      setError(null);
+      return;
+    }
+    setIsPending(true);
+    const result = await onChange(next);
+    setError(result.ok ? null : result.message);
+    if (!result.ok) {
+      setDraft(String(quantity));
+    }
+    setIsPending(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commit(parseQuantity(draft));
+    }
+  };
+
+  const buttonClass = size === 'sm' ? 'h-7 w-7' : 'h-9 w-9';
+  const inputClass = size === 'sm' ? 'h-7 w-10' : 'h-9 w-14';
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => commit(Math.min(quantity - 1, max))}
+          disabled={isPending || quantity <= 0}
+          aria-label={t('quantity.decrease', { name })}
+          className={`${buttonClass} rounded border bg-white disabled:opacity-50`}
+        >
+          −
+        </button>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={max}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => commit(parseQuantity(draft))}
+          onKeyDown={handleKeyDown}
+          disabled={isPending}
+          aria-label={t('quantity.label', { name })}
+          aria-invalid={error !== null}
+          aria-describedby={error ? errorId : undefined}
+          className={`${inputClass} rounded border text-center disabled:opacity-50`}
+        />
+        <button
+          type="button"
+          onClick={() => commit(quantity + 1)}
+          disabled={isPending || quantity >= max}
+          aria-label={t('quantity.increase', { name })}
+          className={`${buttonClass} rounded border bg-white disabled:opacity-50`}
+        >
+          +
+        </button>
+      </div>
+      {error && <p id={errorId} className="mt-1 text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/*
+[概要]
+「前回のカートを復元しますか?」の案内。保持期間が過ぎてアーカイブされたカートがあるときだけ、ヘッダーの下に表示する。
+復元すると今のカートにまとめ、破棄するとアーカイブを削除する。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { formatOptions } from '../../lib/catalog/variants';
+
+// 案内に並べる商品の数 (残りは「ほか n 点」)
+const PREVIEW_COUNT = 3;
+
+export default function RestoreCartPrompt() {
+  const { archivedCart, restoreArchivedCart, dismissArchivedCart } = useCart();
+  const { t, formatDate } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!archivedCart) {
+    return null;
+  }
+
+  const count = archivedCart.items.reduce((total, item) => total + item.quantity, 0);
+  const preview = archivedCart.items.slice(0, PREVIEW_COUNT);
+  const rest = archivedCart.items.length - preview.length;
+
+  const handleRestore = async () => {
+    setIsSubmitting(true);
+    const result = await restoreArchivedCart();
+    setError(result.ok ? null : result.message);
+    setIsSubmitting(false);
+  };
+
+  const handleDismiss = async () => {
+    setIsSubmitting(true);
+    await dismissArchivedCart();
+    setError(null);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div role="status" className="border-b bg-yellow-50 p-4">
+      <div className="max-w-4xl mx-auto flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="font-bold">{t('cart.restore.title')}</p>
+          <p className="text-sm text-gray-700">
+            {t('cart.restore.description', { date: formatDate(archivedCart.savedAt, 'datetime'), count })}
+          </p>
+          <ul className="text-sm text-gray-600">
+            {preview.map((item) => (
+              <li key={item.id}>
+                {item.name}
+                {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`} × {item.quantity}
+              </li>
+            ))}
+            {rest > 0 && <li>{t('cart.restore.more', { count: rest })}</li>}
+          </ul>
+          {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRestore}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            {t('cart.restore.accept')}
+          </button>
+          <button
+            onClick={handleDismiss}
+            disabled={isSubmitting}
+            className="px-4 py-2 border rounded bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t('cart.restore.dismiss')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/*
+[概要]
+カートページの送料の目安。郵便番号を入力すると配送先の都道府県を推定し、現在のカートの送料を表示する。
+カートの中身やクーポンが変わると送料無料の判定が変わるため、その都度計算し直す。
+計算結果 (ShippingQuote) は onQuoteChange で親 (カートページ) に渡し、金額の内訳に反映する。
+*/
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { fetchShippingQuote } from '../../lib/shipping/api';
+import type { ShippingQuote } from '../../lib/shipping/types';
+
+type ShippingEstimatorProps = {
+  onQuoteChange: (quote: ShippingQuote | null) => void;
+};
+
+export default function ShippingEstimator({ onQuoteChange }: ShippingEstimatorProps) {
+  const { items, promotion } = useCart();
+  const { t, formatPrice } = useI18n();
+  const [postalCode, setPostalCode] = useState('');
+  // 送料を計算した郵便番号 (入力中の値とは別に持つ)
+  const [destination, setDestination] = useState<string | null>(null);
+  const [quote, setQuote] = useState<ShippingQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!destination) {
+      return;
+    }
+    // 古いリクエストの結果で上書きしないよう、後から始めた計算の結果だけを使う
+    let isCurrent = true;
+    fetchShippingQuote({ postalCode: destination })
+      .then((result) => {
+        if (isCurrent) {
+          setQuote(result);
+          setError(null);
+          onQuoteChange(result);
+        }
+      })
+      .catch((e) => {
+        if (isCurrent) {
+          setQuote(null);
+          setError(e instanceof Error ? e.message : t('common.failed'));
+          onQuoteChange(null);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [destination, items, promotion, onQuoteChange, t]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setDestination(postalCode.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded p-4 bg-white">
+      <label htmlFor="shipping-postal-code" className="block font-bold mb-1">{t('shipping.estimate')}</label>
+      <div className="flex space-x-2">
+        <input
+          id="shipping-postal-code"
+          value={postalCode}
+          onChange={(e) => setPostalCode(e.target.value)}
+          placeholder={t('address.postalCode.placeholder')}
+          inputMode="numeric"
+          autoComplete="postal-code"
+          className="flex-1 border rounded p-2"
+        />
+        <button
+          type="submit"
+          disabled={postalCode.trim() === ''}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:opacity-50"
+        >
+          {t('shipping.calculate')}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+      {quote && (
+        <div className="mt-2 text-sm space-y-1">
+          <p className="flex justify-between">
+            <span>{t('shipping.destination', { prefecture: quote.prefecture })}</span>
+            <span className="font-bold">{quote.fee === 0 ? t('summary.free') : formatPrice(quote.fee)}</span>
+          </p>
+          {quote.freeShipping ? (
+            <p className="text-green-600">{t('shipping.freeApplied')}</p>
+          ) : (
+            quote.amountToFreeShipping !== null && (
+              <p className="text-gray-600">
+                {t('shipping.untilFree', { amount: formatPrice(quote.amountToFreeShipping) })}
+              </p>
+            )
+          )}
+          {quote.remoteSurcharge > 0 && (
+            <p className="text-gray-600">
+              {t('shipping.remoteSurcharge', { amount: formatPrice(quote.remoteSurcharge) })}
+            </p>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,46 @@
+/*
+[概要]
+操作の結果と「元に戻す」ボタンを画面の下部に表示する通知 (スナックバー)。数秒で自動的に消える。
+カートページで明細を削除したときに使う。
+*/
+'use client';
+
+import { useEffect } from 'react';
+import { useI18n } from '../../context/i18n';
+
+type UndoSnackbarProps = {
+  message: string | null; // null の場合は表示しない
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+// 元に戻せる時間
+const SNACKBAR_DURATION_MS = 6000;
+
+export default function UndoSnackbar({ message, onUndo, onDismiss }: UndoSnackbarProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!message) {
+      return;
+    }
+    const timer = setTimeout(onDismiss, SNACKBAR_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-4 left-1/2 z-40 -translate-x-1/2">
+      {message && (
+        <div className="flex items-center gap-4 rounded bg-gray-800 px-4 py-3 text-white shadow-lg">
+          <span>{message}</span>
+          <button onClick={onUndo} className="font-bold text-yellow-300 hover:underline">
+            {t('cart.undo')}
+          </button>
+          <button onClick={onDismiss} aria-label={t('common.dismiss')} className="px-1 text-gray-300">
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
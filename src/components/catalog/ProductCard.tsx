@@ -0,0 +1,56 @@
+/*
+[概要]
+商品一覧の1商品分のカード。トップページと商品一覧ページ (/products) で使用する。
+価格は税込・表示通貨で表示し、バリエーションによって価格が異なる場合は最安値に「〜」を付ける。
+お気に入りのハートはリンクの中に置けないため、カードの右上に重ねて表示する。
+公開中のレビューがある商品は、平均評価と件数も表示する。
+画像は正方形の枠に収めて表示し、見つからない場合は代わりの画像を表示する (ProductImage)。
+*/
+
+import Link from 'next/link';
+import { Product, displayPrice, listSkus } from '../../lib/catalog';
+import { getImageMeta } from '../../lib/catalog/images';
+import { getI18n } from '../../lib/i18n';
+import type { ReviewSummary } from '../../lib/reviews/types';
+import RatingBadge from '../reviews/RatingBadge';
+import WishlistButton from '../wishlist/WishlistButton';
+import ProductImage from './ProductImage';
+
+type ProductCardProps = {
+  product: Product;
+  rating?: ReviewSummary;
+};
+
+export default async function ProductCard({ product, rating }: ProductCardProps) {
+  const { t, formatPrice, localizePath } = await getI18n();
+  const prices = new Set(listSkus(product).map((sku) => sku.price));
+  const image = await getImageMeta(product.imageUrl);
+
+  return (
+    <div className="relative">
+      <Link
+        href={localizePath(`/products/${product.id}`)}
+        className="block border rounded shadow p-4 bg-white hover:shadow-md transition"
+      >
+        <div className="relative w-full aspect-square mb-2">
+          <ProductImage
+            src={image.src}
+            alt={product.name}
+            blurDataURL={image.blurDataURL}
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+          />
+        </div>
+        <p className="text-xs text-gray-500">{t(`category.${product.category}`)}</p>
+        <h2 className="text-xl font-bold mb-1">{product.name}</h2>
+        <RatingBadge summary={rating} />
+        <p className="text-gray-700">
+          {prices.size > 1
+            ? t('common.priceFrom', { price: formatPrice(displayPrice(product)) })
+            : formatPrice(displayPrice(product))}
+          <span className="ml-1 text-sm">{t('common.taxIncluded')}</span>
+        </p>
+      </Link>
+      <WishlistButton productId={product.id} productName={product.name} className="absolute top-2 right-2" />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/*
+[概要]
+商品一覧の絞り込み (カテゴリ・価格帯)。各候補は条件を切り替えた URL へのリンクで、件数を併記する。
+カテゴリは複数選択でき、価格帯は1つだけ選択できる。絞り込みを変えたらページは1に戻す。
+価格帯の境界は日本円で決まっているため、表示通貨が日本円以外の場合は換算した目安の金額を表示する。
+*/
+
+import Link from 'next/link';
+import { ProductSearchQuery, ProductSearchResult, toProductSearchParams } from '../../lib/catalog';
+import type { CategoryId, PriceRange } from '../../lib/catalog';
+import { I18n, getI18n } from '../../lib/i18n';
+
+type ProductFacetsProps = {
+  query: ProductSearchQuery;
+  facets: ProductSearchResult['facets'];
+};
+
+const toHref = (query: ProductSearchQuery, localizePath: I18n['localizePath']) => {
+  const search = toProductSearchParams({ ...query, page: 1 });
+  return localizePath(search ? `/products?${search}` : '/products');
+};
+
+const formatRange = ({ min, max }: PriceRange, { t, formatPrice }: I18n) => {
+  if (min === null) {
+    return t('facets.priceUnder', { max: formatPrice(max ?? 0) });
+  }
+  return max === null
+    ? t('facets.priceOver', { min: formatPrice(min) })
+    : t('facets.priceBetween', { min: formatPrice(min), max: formatPrice(max) });
+};
+
+const toggleCategory = (categories: CategoryId[], category: CategoryId) =>
+  categories.includes(category)
+    ? categories.filter((c) => c !== category)
+    : [...categories, category];
+
+export default async function ProductFacets({ query, facets }: ProductFacetsProps) {
+  const i18n = await getI18n();
+  const { t, localizePath } = i18n;
+
+  return (
+    <nav aria-label={t('facets.label')} className="space-y-4">
+      <section>
+        <h2 className="font-bold mb-1">{t('facets.category')}</h2>
+        <ul className="space-y-1">
+          {facets.categories.map((facet) => {
+            const isSelected = query.categories.includes(facet.value);
+            return (
+              <li key={facet.value}>
+                <Link
+                  href={toHref({ ...query, categories: toggleCategory(query.categories, facet.value) }, localizePath)}
+                  aria-current={isSelected ? 'true' : undefined}
+                  className={isSelected ? 'font-bold text-blue-600' : 'text-gray-700 hover:underline'}
+                >
+                  {isSelected ? '✓ ' : ''}{t(`category.${facet.value}`)} ({facet.count})
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section>
+        <h2 className="font-bold mb-1">{t('facets.price')}</h2>
+        <ul className="space-y-1">
+          {facets.priceRanges.map((range) => {
+            const isSelected = query.minPrice === range.min && query.maxPrice === range.max;
+            return (
+              <li key={range.label}>
+                <Link
+                  href={toHref(isSelected
+                    ? { ...query, minPrice: null, maxPrice: null }
+                    : { ...query, minPrice: range.min, maxPrice: range.max }, localizePath)}
+                  aria-current={isSelected ? 'true' : undefined}
+                  className={isSelected ? 'font-bold text-blue-600' : 'text-gray-700 hover:underline'}
+                >
+                  {isSelected ? '✓ ' : ''}{formatRange(range, i18n)} ({range.count})
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </nav>
+  );
+}
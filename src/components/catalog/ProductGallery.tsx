@@ -0,0 +1,110 @@
+/*
+[概要]
+商品詳細ページの画像ギャラリー。メイン画像と、サムネイルの一覧 (追加の画像・バリエーションの画像) を表示する。
+- サムネイルを押すとメイン画像を切り替える。メイン画像にフォーカスがあるときは ← / → キーでも切り替えられる
+- メイン画像を押すと拡大し、マウスの位置に合わせて拡大する場所を動かす。もう一度押すか Esc キーで元に戻す
+画像の情報 (ぼかし画像など) はサーバーで作ったもの (lib/catalog/images の getImageMeta) を受け取る。
+*/
+'use client';
+
+import { KeyboardEvent, MouseEvent, useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import type { ImageMeta } from '../../lib/catalog/types';
+import ProductImage from './ProductImage';
+
+type ProductGalleryProps = {
+  images: ImageMeta[]; // 先頭がメイン画像
+  alt: string;
+};
+
+// 拡大の倍率
+const ZOOM_SCALE = 2.5;
+
+export default function ProductGallery({ images, alt }: ProductGalleryProps) {
+  const { t } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isZoomed, setIsZoomed] = useState(false);
+  // 拡大の中心 (画像の左上を 0%、右下を 100% とした位置)
+  const [origin, setOrigin] = useState({ x: 50, y: 50 });
+  const selected = images[selectedIndex] ?? images[0];
+
+  const select = (index: number) => {
+    setSelectedIndex((index + images.length) % images.length);
+    setIsZoomed(false);
+  };
+
+  const handleMouseMove = (event: MouseEvent<HTMLButtonElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setOrigin({
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100,
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === 'Escape' && isZoomed) {
+      event.preventDefault();
+      setIsZoomed(false);
+    } else if (event.key === 'ArrowLeft' && images.length > 1) {
+      event.preventDefault();
+      select(selectedIndex - 1);
+    } else if (event.key === 'ArrowRight' && images.length > 1) {
+      event.preventDefault();
+      select(selectedIndex + 1);
+    }
+  };
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4">
+      <button
+        type="button"
+        onClick={() => setIsZoomed((current) => !current)}
+        onMouseMove={handleMouseMove}
+        onKeyDown={handleKeyDown}
+        aria-label={t(isZoomed ? 'gallery.zoomOut' : 'gallery.zoomIn')}
+        aria-pressed={isZoomed}
+        className={`relative block w-full h-80 overflow-hidden rounded bg-white ${isZoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'}`}
+      >
+        <div
+          className="absolute inset-0 transition-transform duration-200"
+          style={{
+            transform: isZoomed ? `scale(${ZOOM_SCALE})` : undefined,
+            transformOrigin: `${origin.x}% ${origin.y}%`,
+          }}
+        >
+          <ProductImage
+            src={selected.src}
+            alt={alt}
+            blurDataURL={selected.blurDataURL}
+            sizes="(min-width: 896px) 896px, 100vw"
+            priority={selectedIndex === 0}
+          />
+        </div>
+      </button>
+
+      {images.length > 1 && (
+        <ul className="flex gap-2 mt-2 overflow-x-auto" aria-label={t('gallery.thumbnails')}>
+          {images.map((image, index) => (
+            <li key={image.src}>
+              <button
+                type="button"
+                onClick={() => select(index)}
+                aria-label={t('gallery.show', { index: index + 1, count: images.length })}
+                aria-current={index === selectedIndex}
+                className={`relative block w-20 h-20 overflow-hidden rounded border-2 bg-white ${index === selectedIndex
+                  ? 'border-green-600'
+                  : 'border-transparent'}`}
+              >
+                <ProductImage src={image.thumbnailUrl} alt="" blurDataURL={image.blurDataURL} sizes="80px" className="object-cover" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
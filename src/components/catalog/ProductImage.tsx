@@ -0,0 +1,42 @@
+/*
+[概要]
+商品画像の表示 (next/image)。画面の幅に合わせた大きさの画像を読み込み、読み込み中はぼかし画像 (blurDataURL) を表示する。
+画像が未登録・読み込めない場合は、代わりの画像 (PLACEHOLDER_IMAGE) に切り替える (壊れた画像のアイコンを表示しない)。
+親要素の大きさいっぱいに表示する (fill) ため、親要素には relative と幅・高さを指定する。
+*/
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+import { PLACEHOLDER_IMAGE, isOptimizableImage } from '../../lib/catalog/imageSources';
+
+type ProductImageProps = {
+  src?: string;
+  alt: string;
+  sizes: string; // 表示する幅 (例: "(min-width: 768px) 33vw, 100vw")
+  blurDataURL?: string; // サーバーで作ったぼかし画像 (lib/catalog/images の getImageMeta)
+  className?: string;
+  priority?: boolean; // ページの最初に見える画像 (LCP) は先に読み込む
+};
+
+export default function ProductImage({ src, alt, sizes, blurDataURL, className = 'object-contain', priority }: ProductImageProps) {
+  // 読み込めなかった画像 (src が変わったら、新しい画像をもう一度読み込む)
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const source = !src || failedSrc === src ? PLACEHOLDER_IMAGE : src;
+  const isPlaceholder = source === PLACEHOLDER_IMAGE;
+
+  return (
+    <Image
+      src={source}
+      alt={alt}
+      fill
+      sizes={sizes}
+      priority={priority}
+      unoptimized={!isOptimizableImage(source)}
+      placeholder={blurDataURL && !isPlaceholder ? 'blur' : 'empty'}
+      blurDataURL={isPlaceholder ? undefined : blurDataURL}
+      onError={() => setFailedSrc(source)}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,126 @@
+/*
+[概要]
+商品詳細ページの購入欄 (ページの中でブラウザで動く部分)。
+サイズ・カラーなどのバリエーションを選び、選択した組み合わせ (SKU) の価格・在庫を表示して、その SKU をカートに追加する。
+お気に入りのハートボタンも選択中の SKU を保存するため、ここに置く。
+商品の情報 (在庫状況付き) はサーバーで読み込んだものを受け取る。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { findVariantByOptions, hasVariants } from '../../lib/catalog/variants';
+import type { ProductWithAvailability } from '../../lib/inventory/types';
+import { priceWithTax } from '../../lib/pricing';
+import WishlistButton from '../wishlist/WishlistButton';
+
+type ProductPurchasePanelProps = {
+  product: ProductWithAvailability;
+};
+
+// 初期選択は在庫のある最初のバリエーション (すべて在庫切れなら先頭)
+const initialOptions = (product: ProductWithAvailability): Record<string, string> => {
+  const variant = product.variants?.find(
+    (candidate) => product.skuAvailability[candidate.sku]?.status !== 'out_of_stock'
+  ) ?? product.variants?.[0];
+  return variant?.options ?? {};
+};
+
+export default function ProductPurchasePanel({ product }: ProductPurchasePanelProps) {
+  const { addToCart } = useCart();
+  const { t, formatPrice } = useI18n();
+  // 選択中のバリエーション (例: { サイズ: 'M', カラー: 'ホワイト' })
+  const [selectedOptions, setSelectedOptions] = useState(() => initialOptions(product));
+  // カート追加の結果メッセージ (在庫不足などのエラーを含む)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // 選択中の組み合わせに対応する SKU (組み合わせが存在しない場合は null)
+  const variant = findVariantByOptions(product, selectedOptions);
+  const sku = hasVariants(product) ? variant?.sku ?? null : product.id;
+  const price = variant?.price ?? product.price;
+  const availability = sku ? product.skuAvailability[sku] : undefined;
+
+  // オプションの選択を切り替えたら、前回の追加結果のメッセージは消す
+  const handleSelectOption = (name: string, value: string) => {
+    setSelectedOptions((current) => ({ ...current, [name]: value }));
+    setMessage(null);
+  };
+
+  // SKU と数量だけを送り、価格や商品名はサーバー側でカタログから取得する
+  const handleAddToCart = async () => {
+    if (!sku) {
+      return;
+    }
+    const result = await addToCart(sku, 1);
+    setMessage(result.ok
+      ? { text: t('product.added'), isError: false }
+      : { text: result.message, isError: true });
+  };
+
+  return (
+    <div className="mt-4">
+      <p className="text-xl text-gray-700">
+        {formatPrice(priceWithTax(price, product.taxCategory))}
+        <span className="ml-1 text-sm">{t('common.taxIncluded')}</span>
+      </p>
+      <p className="text-sm text-gray-500">{t('product.taxExcluded', { price: formatPrice(price) })}</p>
+
+      {/* 軸 (サイズ・カラーなど) ごとにボタンを並べ、選択中の値を強調表示する */}
+      {product.options?.map((option) => (
+        <fieldset key={option.name} className="mt-4">
+          <legend className="text-sm font-bold text-gray-700 mb-1">{option.name}</legend>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleSelectOption(option.name, value)}
+                aria-pressed={selectedOptions[option.name] === value}
+                className={`px-3 py-1 border rounded ${selectedOptions[option.name] === value
+                  ? 'border-green-600 bg-green-50 font-bold'
+                  : 'border-gray-300'}`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+      {hasVariants(product) && !sku && (
+        <p className="mt-4 text-red-500">{t('product.unavailableCombination')}</p>
+      )}
+
+      {/*
+        在庫切れ: 赤字で表示し、カートに追加できないようにする
+        残りわずか: オレンジ色で残り数を表示
+      */}
+      {availability?.status === 'out_of_stock' && (
+        <p className="mt-4 font-bold text-red-500">{t('stock.out_of_stock')}</p>
+      )}
+      {availability?.status === 'low_stock' && (
+        <p className="mt-4 font-bold text-orange-500">
+          {t('stock.low_stock')} {t('product.remaining', { count: availability.available })}
+        </p>
+      )}
+
+      {/* カートに追加するボタン (組み合わせが未選択・在庫切れのときは押せない) と、お気に入りのボタン */}
+      <div className="mt-4 flex items-center gap-4">
+        <button
+          onClick={handleAddToCart}
+          disabled={!availability || availability.status === 'out_of_stock'}
+          className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition disabled:bg-gray-400"
+        >
+          {t('product.addToCart')}
+        </button>
+        {/* 選択中の組み合わせ (未選択・取り扱いのない組み合わせの場合は商品) をお気に入りに保存する */}
+        <WishlistButton productId={product.id} productName={product.name} itemId={sku ?? product.id} />
+      </div>
+      {message && (
+        <p className={`mt-2 ${message.isError ? 'text-red-500' : 'text-green-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
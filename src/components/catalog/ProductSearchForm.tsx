@@ -0,0 +1,38 @@
+/*
+[概要]
+商品一覧のキーワード検索フォーム。GET で /products に送信するため、JavaScript なしでも動作し、
+検索結果の URL をそのまま共有できる。カテゴリ・価格帯・並び順は hidden で引き継ぎ、ページは1に戻す。
+*/
+
+import { ProductSearchQuery } from '../../lib/catalog';
+import { getI18n } from '../../lib/i18n';
+
+type ProductSearchFormProps = {
+  query: ProductSearchQuery;
+};
+
+export default async function ProductSearchForm({ query }: ProductSearchFormProps) {
+  const { t, localizePath } = await getI18n();
+
+  return (
+    <form action={localizePath('/products')} method="get" role="search" className="flex gap-2">
+      <input
+        type="search"
+        name="q"
+        defaultValue={query.keyword}
+        placeholder={t('search.placeholder')}
+        aria-label={t('search.keyword')}
+        className="flex-1 border rounded px-3 py-2"
+      />
+      {query.categories.map((category) => (
+        <input key={category} type="hidden" name="category" value={category} />
+      ))}
+      {query.minPrice !== null && <input type="hidden" name="minPrice" value={query.minPrice} />}
+      {query.maxPrice !== null && <input type="hidden" name="maxPrice" value={query.maxPrice} />}
+      {query.sort !== 'newest' && <input type="hidden" name="sort" value={query.sort} />}
+      <button type="submit" className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+        {t('search.submit')}
+      </button>
+    </form>
+  );
+}
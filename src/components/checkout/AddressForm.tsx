@@ -0,0 +1,120 @@
+/*
+[概要]
+チェックアウトの「配送先住所」ステップ。
+入力値は親 (checkout/page.tsx) が保持し、「次へ」押下時にバリデーションを行う。
+*/
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import {
+  AddressErrors,
+  PREFECTURES,
+  ShippingAddress,
+  hasAddressErrors,
+  normalizeShippingAddress,
+  validateShippingAddress,
+} from '../../lib/checkout';
+
+type AddressFormProps = {
+  initialValue?: ShippingAddress;
+  onSubmit: (address: ShippingAddress) => void;
+};
+
+type AddressFormValues = Record<keyof ShippingAddress, string>;
+
+const EMPTY_VALUES: AddressFormValues = {
+  name: '',
+  postalCode: '',
+  prefecture: '',
+  city: '',
+  addressLine1: '',
+  addressLine2: '',
+  phone: '',
+  email: '',
+};
+
+/* 
+  [テキスト入力欄]
+  表示名は address.<項目>、入力例は address.<項目>.placeholder の文言を使う
+*/
+type TextFieldKey = Exclude<keyof ShippingAddress, 'prefecture'>;
+
+export default function AddressForm({ initialValue, onSubmit }: AddressFormProps) {
+  const [values, setValues] = useState<AddressFormValues>(
+    initialValue
+      ? { ...initialValue, addressLine2: initialValue.addressLine2 ?? '' }
+      : EMPTY_VALUES
+  );
+  const [errors, setErrors] = useState<AddressErrors>({});
+  const { t } = useI18n();
+
+  const handleChange = (key: keyof ShippingAddress, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const nextErrors = validateShippingAddress(values);
+    setErrors(nextErrors);
+    if (!hasAddressErrors(nextErrors)) {
+      onSubmit(normalizeShippingAddress(values as ShippingAddress));
+    }
+  };
+
+  const renderError = (key: keyof ShippingAddress) =>
+    errors[key] && <p className="mt-1 text-sm text-red-500">{errors[key]}</p>;
+
+  const renderTextField = (key: TextFieldKey) => (
+    <div>
+      <label htmlFor={key} className="block font-bold mb-1">{t(`address.${key}`)}</label>
+      <input
+        id={key}
+        value={values[key]}
+        placeholder={t(`address.${key}.placeholder`)}
+        onChange={(e) => handleChange(key, e.target.value)}
+        className="w-full border rounded p-2"
+      />
+      {renderError(key)}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {renderTextField('name')}
+      {renderTextField('postalCode')}
+
+      {/* 都道府県はリストから選択 */}
+      <div>
+        <label htmlFor="prefecture" className="block font-bold mb-1">{t('address.prefecture')}</label>
+        <select
+          id="prefecture"
+          value={values.prefecture}
+          onChange={(e) => handleChange('prefecture', e.target.value)}
+          className="w-full border rounded p-2 bg-white"
+        >
+          <option value="">{t('address.prefecture.placeholder')}</option>
+          {PREFECTURES.map((prefecture) => (
+            <option key={prefecture} value={prefecture}>{prefecture}</option>
+          ))}
+        </select>
+        {renderError('prefecture')}
+      </div>
+
+      {renderTextField('city')}
+      {renderTextField('addressLine1')}
+      {renderTextField('addressLine2')}
+      {renderTextField('phone')}
+      {renderTextField('email')}
+
+      <div className="text-right">
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
+        >
+          {t('checkout.toDelivery')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,179 @@
+/*
+[概要]
+チェックアウトの「配送方法」ステップ。
+配送先の都道府県で配送方法ごとの送料を計算して表示し、お届け希望日・時間帯を選べるようにする。
+配送先によってはお急ぎ便を選べない (沖縄県など)。
+*/
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import { DELIVERY_METHODS, DeliveryMethodId, Prefecture } from '../../lib/checkout';
+import { DEFAULT_DELIVERY_SCHEDULE, DELIVERY_TIME_SLOTS, isDeliveryTimeSlot } from '../../lib/shipping/schedule';
+import { fetchShippingQuote } from '../../lib/shipping/api';
+import type { DeliverySchedule, ShippingQuote } from '../../lib/shipping/types';
+
+type ShippingQuotes = Partial<Record<DeliveryMethodId, ShippingQuote>>;
+
+type DeliveryMethodFormProps = {
+  prefecture: Prefecture;
+  initialValue?: DeliveryMethodId;
+  initialSchedule?: DeliverySchedule;
+  onBack: () => void;
+  onSubmit: (method: DeliveryMethodId, schedule: DeliverySchedule, quote: ShippingQuote) => void;
+};
+
+export default function DeliveryMethodForm({
+  prefecture,
+  initialValue,
+  initialSchedule = DEFAULT_DELIVERY_SCHEDULE,
+  onBack,
+  onSubmit,
+}: DeliveryMethodFormProps) {
+  const [selected, setSelected] = useState<DeliveryMethodId>(initialValue ?? 'standard');
+  const [schedule, setSchedule] = useState<DeliverySchedule>(initialSchedule);
+  const [quotes, setQuotes] = useState<ShippingQuotes | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatPrice, formatDate } = useI18n();
+
+  // 配送方法ごとの送料とお届け日の候補
+  useEffect(() => {
+    let isCurrent = true;
+    Promise.all(DELIVERY_METHODS.map(({ id }) => fetchShippingQuote({ prefecture }, id)))
+      .then((results) => {
+        if (!isCurrent) {
+          return;
+        }
+        setQuotes(Object.fromEntries(results.map((quote) => [quote.deliveryMethod, quote])));
+        setError(null);
+        // お急ぎ便を選べない配送先では通常配送に戻す
+        if (results.some((quote) => !quote.expressAvailable)) {
+          setSelected('standard');
+        }
+      })
+      .catch((e) => {
+        if (isCurrent) {
+          setError(e instanceof Error ? e.message : t('common.failed'));
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [prefecture, t]);
+
+  const quote = quotes?.[selected];
+  const expressAvailable = quotes?.express?.expressAvailable ?? true;
+  // 配送方法・配送先を変えると最短のお届け日が変わるため、候補にない日は「最短」として扱う
+  const deliveryDate = schedule.deliveryDate && quote?.deliveryDates.includes(schedule.deliveryDate)
+    ? schedule.deliveryDate
+    : null;
+
+  return (
+    <div className="space-y-4">
+      {DELIVERY_METHODS.map((method) => {
+        const disabled = method.id === 'express' && !expressAvailable;
+        const methodQuote = quotes?.[method.id];
+        return (
+          <label
+            key={method.id}
+            className={`flex items-start space-x-3 border rounded p-4 bg-white ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+          >
+            <input
+              type="radio"
+              name="deliveryMethod"
+              value={method.id}
+              checked={selected === method.id}
+              disabled={disabled}
+              onChange={() => setSelected(method.id)}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-bold">{t(`delivery.${method.id}`)}</span>
+              <span className="block text-gray-600">{t(`delivery.${method.id}.description`)}</span>
+              {disabled ? (
+                <span className="block text-sm text-red-500">{t('shipping.expressUnavailable')}</span>
+              ) : (
+                methodQuote && (
+                  <span className="block text-sm">
+                    {methodQuote.fee === 0
+                      ? t('summary.free')
+                      : t('shipping.fee', { amount: formatPrice(methodQuote.fee) })}
+                  </span>
+                )
+              )}
+            </span>
+          </label>
+        );
+      })}
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      {/* お届け希望日・時間帯 */}
+      {quote ? (
+        <div className="border rounded p-4 bg-white space-y-3">
+          <p className="text-sm text-gray-600">{t('shipping.destination', { prefecture })}</p>
+          {quote.remoteSurcharge > 0 && (
+            <p className="text-sm text-gray-600">
+              {t('shipping.remoteSurcharge', { amount: formatPrice(quote.remoteSurcharge) })}
+            </p>
+          )}
+          {quote.expressFee > 0 && (
+            <p className="text-sm text-gray-600">
+              {t('shipping.expressFee', { amount: formatPrice(quote.expressFee) })}
+            </p>
+          )}
+          <div>
+            <label htmlFor="delivery-date" className="block text-sm font-bold text-gray-700 mb-1">
+              {t('delivery.date')}
+            </label>
+            <select
+              id="delivery-date"
+              value={deliveryDate ?? ''}
+              onChange={(e) => setSchedule({ ...schedule, deliveryDate: e.target.value || null })}
+              className="w-full border rounded p-2"
+            >
+              <option value="">{t('delivery.earliest')}</option>
+              {quote.deliveryDates.map((date) => (
+                <option key={date} value={date}>{formatDate(date, 'day')}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="delivery-time-slot" className="block text-sm font-bold text-gray-700 mb-1">
+              {t('delivery.timeSlot')}
+            </label>
+            <select
+              id="delivery-time-slot"
+              value={schedule.deliveryTimeSlot}
+              onChange={(e) => {
+                if (isDeliveryTimeSlot(e.target.value)) {
+                  setSchedule({ ...schedule, deliveryTimeSlot: e.target.value });
+                }
+              }}
+              className="w-full border rounded p-2"
+            >
+              {DELIVERY_TIME_SLOTS.map((slot) => (
+                <option key={slot.id} value={slot.id}>{t(`deliverySlot.${slot.id}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ) : (
+        !error && <p className="text-gray-500">{t('common.loading')}</p>
+      )}
+
+      <div className="flex justify-between">
+        <button onClick={onBack} className="px-4 py-2 border rounded hover:bg-gray-200 transition">
+          {t('common.back')}
+        </button>
+        <button
+          onClick={() => quote && onSubmit(selected, { ...schedule, deliveryDate }, quote)}
+          disabled={!quote}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:opacity-50"
+        >
+          {t('checkout.toReview')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/*
+[概要]
+チェックアウトの「注文内容の確認」ステップ。
+カートの明細・配送先・配送方法 (送料・お届け希望日時) ・お支払い方法を表示し、「注文を確定する」で注文を送信する。
+*/
+'use client';
+
+import { CartItem, summarizeCart, toPricedLine } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { formatOptions } from '../../lib/catalog/variants';
+import { DeliveryMethodId, ShippingAddress } from '../../lib/checkout';
+import { MOCK_TEST_CARDS } from '../../lib/payments/testCards';
+import { lineTotalWithTax } from '../../lib/pricing';
+import type { PromotionEvaluation } from '../../lib/promotions/types';
+import type { DeliverySchedule, ShippingQuote } from '../../lib/shipping/types';
+import PriceSummaryTable from '../pricing/PriceSummaryTable';
+
+type OrderReviewProps = {
+  items: CartItem[];
+  promotion: PromotionEvaluation | null;
+  shippingAddress: ShippingAddress;
+  deliveryMethod: DeliveryMethodId;
+  deliverySchedule: DeliverySchedule;
+  shippingQuote: ShippingQuote;
+  paymentMethodToken: string;
+  isSubmitting: boolean;
+  error: string | null;
+  onBack: () => void;
+  onSubmit: () => void;
+};
+
+export default function OrderReview({
+  items,
+  promotion,
+  shippingAddress,
+  deliveryMethod,
+  deliverySchedule,
+  shippingQuote,
+  paymentMethodToken,
+  isSubmitting,
+  error,
+  onBack,
+  onSubmit,
+}: OrderReviewProps) {
+  const { t, formatPrice, formatDate } = useI18n();
+  const card = MOCK_TEST_CARDS.find(({ token }) => token === paymentMethodToken);
+
+  return (
+    <div className="space-y-4">
+      {/* 注文商品 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('checkout.orderedItems')}</h2>
+        {items.map((item) => (
+          <div key={item.id} className="flex justify-between py-1">
+            <span>
+              {item.name}
+              {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+              {' '}× {item.quantity}
+            </span>
+            <span>{formatPrice(lineTotalWithTax(toPricedLine(item)))}</span>
+          </div>
+        ))}
+        <div className="border-t mt-2 pt-2">
+          <PriceSummaryTable summary={summarizeCart(items, promotion, shippingQuote.fee)} discounts={promotion?.discounts} />
+        </div>
+      </section>
+
+      {/* 配送先 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('checkout.shippingAddress')}</h2>
+        <p>{t('address.recipient', { name: shippingAddress.name })}</p>
+        <p>〒{shippingAddress.postalCode}</p>
+        <p>
+          {shippingAddress.prefecture}{shippingAddress.city}{shippingAddress.addressLine1}
+          {shippingAddress.addressLine2 && ` ${shippingAddress.addressLine2}`}
+        </p>
+        <p>TEL: {shippingAddress.phone}</p>
+        <p>{shippingAddress.email}</p>
+      </section>
+
+      {/* 配送方法 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('checkout.deliveryMethod')}</h2>
+        <p>{t(`delivery.${deliveryMethod}`)}</p>
+        <p>
+          {t('order.deliverySchedule', {
+            date: deliverySchedule.deliveryDate
+              ? formatDate(deliverySchedule.deliveryDate, 'day')
+              : t('delivery.earliest'),
+            slot: t(`deliverySlot.${deliverySchedule.deliveryTimeSlot}`),
+          })}
+        </p>
+      </section>
+
+      {/* お支払い方法 */}
+      <section className="border rounded p-4 bg-white">
+        <h2 className="text-xl font-bold mb-2">{t('checkout.paymentMethod')}</h2>
+        <p>{card ? t(`paymentCard.${card.token}`) : paymentMethodToken}</p>
+      </section>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <div className="flex justify-between">
+        <button
+          onClick={onBack}
+          disabled={isSubmitting}
+          className="px-4 py-2 border rounded hover:bg-gray-200 transition"
+        >
+          {t('common.back')}
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition disabled:opacity-50"
+        >
+          {isSubmitting ? t('checkout.submitting') : t('checkout.placeOrder')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/*
+[概要]
+チェックアウトの「お支払い方法」ステップ。
+現在はモック決済のみのため、テスト用カードから選択する。
+*/
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import { MOCK_TEST_CARDS } from '../../lib/payments/testCards';
+
+type PaymentMethodFormProps = {
+  initialValue?: string;
+  onBack: () => void;
+  onSubmit: (paymentMethodToken: string) => void;
+};
+
+export default function PaymentMethodForm({ initialValue, onBack, onSubmit }: PaymentMethodFormProps) {
+  const [selected, setSelected] = useState<string>(initialValue ?? MOCK_TEST_CARDS[0].token);
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      {MOCK_TEST_CARDS.map((card) => (
+        <label
+          key={card.token}
+          className="flex items-center space-x-3 border rounded p-4 bg-white cursor-pointer"
+        >
+          <input
+            type="radio"
+            name="paymentMethod"
+            value={card.token}
+            checked={selected === card.token}
+            onChange={() => setSelected(card.token)}
+          />
+          <span>{t(`paymentCard.${card.token}`)}</span>
+        </label>
+      ))}
+
+      <div className="flex justify-between">
+        <button onClick={onBack} className="px-4 py-2 border rounded hover:bg-gray-200 transition">
+          {t('common.back')}
+        </button>
+        <button
+          onClick={() => onSubmit(selected)}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
+        >
+          {t('checkout.toReview')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/*
+[概要]
+3-D Secure (本人認証) のテスト用ダイアログ。
+実際のカード会社の認証画面の代わりに、「認証する」「認証に失敗する」を選んで結果を送る。
+*/
+'use client';
+
+import { useI18n } from '../../context/i18n';
+import { MOCK_3DS_PASS } from '../../lib/payments/testCards';
+
+type ThreeDSecureChallengeProps = {
+  isSubmitting: boolean;
+  onRespond: (challengeResponse: string) => void;
+};
+
+export default function ThreeDSecureChallenge({ isSubmitting, onRespond }: ThreeDSecureChallengeProps) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="three-d-secure-title"
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center"
+    >
+      <div className="bg-white rounded shadow p-6 max-w-sm w-full space-y-4">
+        <h2 id="three-d-secure-title" className="text-xl font-bold">{t('threeDSecure.title')}</h2>
+        <p className="text-gray-700">{t('threeDSecure.description')}</p>
+        <div className="flex justify-between">
+          <button
+            onClick={() => onRespond('fail')}
+            disabled={isSubmitting}
+            className="px-4 py-2 border rounded hover:bg-gray-200 transition"
+          >
+            {t('threeDSecure.fail')}
+          </button>
+          <button
+            onClick={() => onRespond(MOCK_3DS_PASS)}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
+          >
+            {t('threeDSecure.pass')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
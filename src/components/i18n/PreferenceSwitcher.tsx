@@ -0,0 +1,39 @@
+/*
+[概要]
+ヘッダーの言語・表示通貨の切り替え。
+言語は URL (/ja, /en) を切り替え、表示通貨は Cookie に保存してページを再描画する。
+*/
+'use client';
+
+import { useI18n } from '../../context/i18n';
+import { CURRENCIES, isCurrencyCode } from '../../lib/currency/format';
+import { LOCALES, LOCALE_LABELS, isLocale } from '../../lib/i18n/config';
+
+export default function PreferenceSwitcher() {
+  const { locale, currency, setCurrency, switchLocale, t } = useI18n();
+
+  return (
+    <div className="flex gap-2 text-sm text-gray-900">
+      <select
+        value={locale}
+        aria-label={t('preferences.language')}
+        onChange={(e) => isLocale(e.target.value) && switchLocale(e.target.value)}
+        className="border rounded px-1 py-0.5 bg-white"
+      >
+        {LOCALES.map((value) => (
+          <option key={value} value={value}>{LOCALE_LABELS[value]}</option>
+        ))}
+      </select>
+      <select
+        value={currency}
+        aria-label={t('preferences.currency')}
+        onChange={(e) => isCurrencyCode(e.target.value) && setCurrency(e.target.value)}
+        className="border rounded px-1 py-0.5 bg-white"
+      >
+        {CURRENCIES.map(({ code, label }) => (
+          <option key={code} value={code}>{label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+/*
+[概要]
+注文ステータスのバッジ。注文履歴の一覧と注文詳細で使用する。
+*/
+
+import { getI18n } from '../../lib/i18n';
+import type { OrderStatus } from '../../lib/orders/types';
+
+const BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+  refunded: 'bg-gray-200 text-gray-700',
+};
+
+type OrderStatusBadgeProps = {
+  status: OrderStatus;
+};
+
+export default async function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
+  const { t } = await getI18n();
+
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded text-sm font-bold ${BADGE_CLASSES[status]}`}>
+      {t(`orderStatus.${status}`)}
+    </span>
+  );
+}
@@ -0,0 +1,34 @@
+/*
+[概要]
+注文ステータスの履歴 (statusHistory) を時系列で表示する。最新のステータスを強調する。
+*/
+
+import { getI18n } from '../../lib/i18n';
+import type { OrderStatusChange } from '../../lib/orders/types';
+
+type OrderStatusTimelineProps = {
+  history: OrderStatusChange[];
+};
+
+export default async function OrderStatusTimeline({ history }: OrderStatusTimelineProps) {
+  const { t, formatDate } = await getI18n();
+
+  return (
+    <ol className="border-l-2 border-gray-300 ml-2 space-y-3">
+      {history.map((change, index) => {
+        const isLatest = index === history.length - 1;
+        return (
+          <li key={`${change.status}-${change.at}`} className="relative pl-4">
+            <span
+              className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${isLatest ? 'bg-blue-500' : 'bg-gray-300'}`}
+            />
+            <p className={isLatest ? 'font-bold' : 'text-gray-700'}>{t(`orderStatus.${change.status}`)}</p>
+            <p className="text-sm text-gray-500">
+              <time dateTime={change.at}>{formatDate(change.at, 'datetime')}</time>
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
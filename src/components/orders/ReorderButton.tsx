@@ -0,0 +1,111 @@
+/*
+[概要]
+注文詳細の「もう一度購入する」ボタン。注文の各明細を addToCart でカートに追加し、
+販売終了・在庫不足で追加できなかった商品と、注文時から価格が変わった商品を表示する。
+現在の価格 (currentUnitPrice) はサーバー側でカタログから取得して渡す。
+*/
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useCart } from '../../context/cart';
+import { useI18n } from '../../context/i18n';
+import { formatOptions } from '../../lib/catalog/variants';
+import { priceWithTax } from '../../lib/pricing';
+import type { OrderLineItem } from '../../lib/orders/types';
+
+export type ReorderLine = OrderLineItem & {
+  currentUnitPrice: number | null; // 販売終了した商品は null
+};
+
+type ReorderReport = {
+  added: number;
+  unavailable: { name: string; reason: string }[];
+  repriced: { name: string; before: number; after: number }[];
+};
+
+type ReorderButtonProps = {
+  lines: ReorderLine[];
+};
+
+const toLabel = (line: OrderLineItem) =>
+  Object.keys(line.options).length > 0 ? `${line.name} (${formatOptions(line.options)})` : line.name;
+
+export default function ReorderButton({ lines }: ReorderButtonProps) {
+  const { addToCart } = useCart();
+  const { t, formatPrice, localizePath } = useI18n();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [report, setReport] = useState<ReorderReport | null>(null);
+
+  const handleReorder = async () => {
+    setIsSubmitting(true);
+    const next: ReorderReport = { added: 0, unavailable: [], repriced: [] };
+    // カートの更新はサーバー側で順に行うため、1行ずつ追加する
+    for (const line of lines) {
+      if (line.currentUnitPrice === null) {
+        next.unavailable.push({ name: toLabel(line), reason: t('reorder.discontinued') });
+        continue;
+      }
+      const result = await addToCart(line.sku, line.quantity);
+      if (!result.ok) {
+        next.unavailable.push({ name: toLabel(line), reason: result.message });
+        continue;
+      }
+      next.added += 1;
+      if (line.currentUnitPrice !== line.unitPrice) {
+        next.repriced.push({
+          name: toLabel(line),
+          before: priceWithTax(line.unitPrice, line.taxCategory),
+          after: priceWithTax(line.currentUnitPrice, line.taxCategory),
+        });
+      }
+    }
+    setReport(next);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleReorder}
+        disabled={isSubmitting}
+        className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition disabled:bg-gray-400"
+      >
+        {t('reorder.button')}
+      </button>
+
+      {report && (
+        <div className="border rounded p-3 bg-white space-y-2" role="status">
+          {report.added > 0 && (
+            <p className="text-green-600">
+              {t('reorder.added', { count: report.added })}
+              <Link href={localizePath('/cart')} className="ml-2 text-blue-500 hover:underline">
+                {t('common.viewCart')}
+              </Link>
+            </p>
+          )}
+          {report.unavailable.length > 0 && (
+            <div>
+              <p className="font-bold text-red-500">{t('reorder.unavailable')}</p>
+              <ul className="list-disc ml-5 text-sm">
+                {report.unavailable.map((item) => (
+                  <li key={item.name}>{item.name}: {item.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.repriced.length > 0 && (
+            <div>
+              <p className="font-bold text-orange-500">{t('reorder.repriced')}</p>
+              <ul className="list-disc ml-5 text-sm">
+                {report.repriced.map((item) => (
+                  <li key={item.name}>{item.name}: {formatPrice(item.before)} → {formatPrice(item.after)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
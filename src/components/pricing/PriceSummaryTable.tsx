@@ -0,0 +1,63 @@
+/*
+[概要]
+金額の内訳 (税抜小計・割引・送料・税率ごとの消費税・税込合計) を表示する共通コンポーネント。
+カートページ・チェックアウトの確認画面・注文完了ページで使用する。
+表示通貨が日本円以外の場合は換算した目安の金額を表示し、請求額 (日本円) を併記する。
+*/
+'use client';
+
+import { useI18n } from '../../context/i18n';
+import { PriceSummary } from '../../lib/pricing';
+import type { AppliedDiscount } from '../../lib/promotions/types';
+
+type PriceSummaryTableProps = {
+  summary: PriceSummary;
+  discounts?: AppliedDiscount[];
+};
+
+export default function PriceSummaryTable({ summary, discounts = [] }: PriceSummaryTableProps) {
+  const { t, formatPrice, formatJpy, isConverted, currency } = useI18n();
+
+  return (
+    <div>
+      <dl className="space-y-1">
+        <div className="flex justify-between">
+          <dt>{t('summary.subtotal')}</dt>
+          <dd>{formatPrice(summary.subtotal)}</dd>
+        </div>
+        {/* 割引の内訳 (クーポン・キャンペーンごと) */}
+        {discounts.map((discount) => (
+          <div key={discount.promotionId} className="flex justify-between text-red-600">
+            <dt>{discount.label}</dt>
+            <dd>-{formatPrice(discount.amount)}</dd>
+          </div>
+        ))}
+        {/* 送料は配送先が決まるまで未計算 (null) */}
+        <div className="flex justify-between">
+          <dt>{t('summary.shipping')}</dt>
+          <dd>
+            {summary.shipping === null
+              ? <span className="text-sm text-gray-500">{t('summary.shippingPending')}</span>
+              : summary.shipping === 0 ? t('summary.free') : formatPrice(summary.shipping)}
+          </dd>
+        </div>
+        {/* インボイス制度に合わせ、税率ごとの対象額と消費税額を表示 */}
+        {summary.taxes.map((breakdown) => (
+          <div key={breakdown.taxCategory} className="flex justify-between text-gray-600 text-sm">
+            <dt>{t(`taxCategory.${breakdown.taxCategory}`)} {formatPrice(breakdown.taxableAmount)}</dt>
+            <dd>{t('summary.tax', { amount: formatPrice(breakdown.tax) })}</dd>
+          </div>
+        ))}
+        <div className="flex justify-between border-t mt-2 pt-2 text-xl font-bold">
+          <dt>{t('summary.total')}</dt>
+          <dd>{formatPrice(summary.total)}</dd>
+        </div>
+      </dl>
+      {isConverted && (
+        <p className="mt-1 text-sm text-gray-600">
+          {t('currency.chargeNote', { amount: formatJpy(summary.total), currency })}
+        </p>
+      )}
+    </div>
+  );
+}
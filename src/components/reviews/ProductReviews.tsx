@@ -0,0 +1,174 @@
+/*
+[概要]
+商品ページのレビュー欄。公開中のレビューの平均評価・星ごとの件数と、レビューの一覧を表示する。
+一覧は並び替え (新しい順・評価の高い順・低い順) とページ送りができる。
+投稿できるアカウントには投稿フォームを、投稿できない場合はその理由を表示する。
+*/
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useI18n } from '../../context/i18n';
+import { fetchProductReviews } from '../../lib/reviews/api';
+import { REVIEW_RATINGS, REVIEW_SORT_KEYS } from '../../lib/reviews/rules';
+import type { ProductReviewPage, ReviewSortKey } from '../../lib/reviews/types';
+import RatingStars from './RatingStars';
+import ReviewForm from './ReviewForm';
+
+type ProductReviewsProps = {
+  productId: string;
+};
+
+export default function ProductReviews({ productId }: ProductReviewsProps) {
+  const { t, formatDate, localizePath } = useI18n();
+  const [sort, setSort] = useState<ReviewSortKey>('newest');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ProductReviewPage | null>(null);
+  const [error, setError] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setData(await fetchProductReviews(productId, sort, page));
+      setError(false);
+    } catch {
+      setError(true);
+    }
+  }, [productId, sort, page]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleSort = (key: ReviewSortKey) => {
+    setSort(key);
+    setPage(1);
+  };
+
+  // 投稿したレビューは承認待ちで一覧には出ないが、「投稿済み」の状態を反映するため取り直す
+  const handleSubmitted = () => {
+    setIsSubmitted(true);
+    loadReviews();
+  };
+
+  if (error) {
+    return <p className="mt-8 text-red-500">{t('reviews.loadFailed')}</p>;
+  }
+  if (!data) {
+    return <p className="mt-8 text-gray-500">{t('common.loading')}</p>;
+  }
+
+  const { summary, eligibility } = data;
+
+  return (
+    <section className="mt-8 border-t pt-6">
+      <h2 className="text-2xl font-bold mb-4">{t('reviews.title')}</h2>
+
+      {/* 平均評価と星ごとの件数 */}
+      {summary.count > 0 && (
+        <div className="flex flex-wrap gap-6 mb-6">
+          <div>
+            <p className="text-4xl font-bold">{summary.average.toFixed(1)}</p>
+            <RatingStars rating={summary.average} label={t('reviews.ratingLabel', { rating: summary.average })} />
+            <p className="text-sm text-gray-500">{t('reviews.count', { count: summary.count })}</p>
+          </div>
+          <ul className="flex-1 min-w-[12rem] space-y-1">
+            {REVIEW_RATINGS.map((stars) => (
+              <li key={stars} className="flex items-center gap-2 text-sm">
+                <span className="w-12">{t('reviews.stars', { stars })}</span>
+                <span className="flex-1 h-2 bg-gray-200 rounded">
+                  <span
+                    className="block h-2 bg-yellow-500 rounded"
+                    style={{ width: `${(summary.distribution[stars] / summary.count) * 100}%` }}
+                  />
+                </span>
+                <span className="w-8 text-right text-gray-500">{summary.distribution[stars]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* 投稿フォーム (投稿できない場合は理由) */}
+      <div className="mb-6">
+        {isSubmitted ? (
+          <p className="text-green-600">{t('reviews.thanks')}</p>
+        ) : eligibility.canReview ? (
+          <ReviewForm productId={productId} onSubmitted={handleSubmitted} />
+        ) : eligibility.reason === 'login' ? (
+          <p className="text-gray-600">
+            <Link
+              href={localizePath(`/login?next=${encodeURIComponent(localizePath(`/products/${productId}`))}`)}
+              className="text-blue-500 hover:underline"
+            >
+              {t('reviews.ineligible.login')}
+            </Link>
+          </p>
+        ) : (
+          <p className="text-gray-600">{t(`reviews.ineligible.${eligibility.reason}`)}</p>
+        )}
+      </div>
+
+      {summary.count === 0 ? (
+        <p className="text-gray-500">{t('reviews.empty')}</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-4 text-sm" role="group" aria-label={t('sort.label')}>
+            <span className="text-gray-600">{t('sort.label')}:</span>
+            {REVIEW_SORT_KEYS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => handleSort(key)}
+                aria-pressed={sort === key}
+                className={`px-2 py-1 border rounded ${sort === key ? 'border-green-600 bg-green-50 font-bold' : 'border-gray-300'}`}
+              >
+                {t(`reviews.sort.${key}`)}
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-4">
+            {data.reviews.map((review) => (
+              <li key={review.id} className="border-b pb-4">
+                <div className="flex items-center gap-2">
+                  <RatingStars rating={review.rating} label={t('reviews.ratingLabel', { rating: review.rating })} />
+                  {review.title && <span className="font-bold">{review.title}</span>}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {review.authorName || t('reviews.anonymous')} ・ {formatDate(review.createdAt, 'date')}
+                  {review.verifiedPurchase && (
+                    <span className="ml-2 text-green-600">{t('reviews.verified')}</span>
+                  )}
+                </p>
+                <p className="mt-1 whitespace-pre-wrap">{review.body}</p>
+              </li>
+            ))}
+          </ul>
+
+          {data.totalPages > 1 && (
+            <nav aria-label={t('pagination.label')} className="flex justify-center items-center gap-4 mt-4">
+              <button
+                type="button"
+                onClick={() => setPage(data.page - 1)}
+                disabled={data.page <= 1}
+                className="text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                {t('pagination.prev')}
+              </button>
+              <span className="text-sm text-gray-600">{data.page} / {data.totalPages}</span>
+              <button
+                type="button"
+                onClick={() => setPage(data.page + 1)}
+                disabled={data.page >= data.totalPages}
+                className="text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                {t('pagination.next')}
+              </button>
+            </nav>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
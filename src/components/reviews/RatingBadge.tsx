@@ -0,0 +1,27 @@
+/*
+[概要]
+商品カードに表示する評価の集計 (例: ★★★★☆ 4.3 (12))。公開中のレビューがない商品には何も表示しない。
+*/
+
+import { getI18n } from '../../lib/i18n';
+import type { ReviewSummary } from '../../lib/reviews/types';
+import RatingStars from './RatingStars';
+
+type RatingBadgeProps = {
+  summary?: ReviewSummary;
+};
+
+export default async function RatingBadge({ summary }: RatingBadgeProps) {
+  const { t } = await getI18n();
+  if (!summary || summary.count === 0) {
+    return null;
+  }
+
+  return (
+    <p className="flex items-center gap-1 text-sm">
+      <RatingStars rating={summary.average} label={t('reviews.ratingLabel', { rating: summary.average })} />
+      <span className="text-gray-700">{summary.average.toFixed(1)}</span>
+      <span className="text-gray-500">({summary.count})</span>
+    </p>
+  );
+}
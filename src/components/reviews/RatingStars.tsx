@@ -0,0 +1,22 @@
+/*
+[概要]
+星の数で評価を表示する (例: ★★★★☆)。平均点は四捨五入した数の星を塗る。
+読み上げ用の文言 (label) は呼び出し側で翻訳して渡す。
+*/
+
+type RatingStarsProps = {
+  rating: number;
+  label: string;
+  className?: string;
+};
+
+export default function RatingStars({ rating, label, className = '' }: RatingStarsProps) {
+  const filled = Math.round(rating);
+
+  return (
+    <span role="img" aria-label={label} className={`text-yellow-500 ${className}`}>
+      {'★'.repeat(filled)}
+      <span className="text-gray-300">{'★'.repeat(5 - filled)}</span>
+    </span>
+  );
+}
@@ -0,0 +1,107 @@
+/*
+[概要]
+商品ページのレビュー投稿フォーム。星 (1〜5) ・タイトル・本文を入力する。星を選ぶまでは送信できない。
+入力内容の誤りはサーバーから項目ごとに返されるので、各項目の下に表示する。
+*/
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import { ReviewApiError, postReview } from '../../lib/reviews/api';
+import { REVIEW_RATINGS } from '../../lib/reviews/rules';
+import type { ReviewErrors, ReviewRating } from '../../lib/reviews/types';
+import { REVIEW_BODY_MAX_LENGTH, REVIEW_TITLE_MAX_LENGTH } from '../../lib/reviews/validation';
+
+type ReviewFormProps = {
+  productId: string;
+  onSubmitted: () => void;
+};
+
+export default function ReviewForm({ productId, onSubmitted }: ReviewFormProps) {
+  const { t } = useI18n();
+  const [rating, setRating] = useState<ReviewRating | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<ReviewErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (rating === null) {
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      await postReview(productId, { rating, title, body });
+      onSubmitted();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('common.failed'));
+      if (e instanceof ReviewApiError && e.details) {
+        setFieldErrors(e.details);
+      }
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded p-4 bg-white space-y-3">
+      <h3 className="font-bold">{t('reviews.write')}</h3>
+      <fieldset>
+        <legend className="text-sm font-bold text-gray-700 mb-1">{t('reviews.rating')}</legend>
+        <div className="flex gap-1">
+          {[...REVIEW_RATINGS].reverse().map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setRating(value)}
+              aria-pressed={rating === value}
+              aria-label={t('reviews.stars', { stars: value })}
+              className={`text-2xl ${rating !== null && value <= rating ? 'text-yellow-500' : 'text-gray-300'}`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        {fieldErrors.rating && <p className="mt-1 text-sm text-red-500">{fieldErrors.rating}</p>}
+      </fieldset>
+      <div>
+        <label htmlFor="review-title" className="block text-sm font-bold text-gray-700 mb-1">
+          {t('reviews.reviewTitle')}
+        </label>
+        <input
+          id="review-title"
+          value={title}
+          maxLength={REVIEW_TITLE_MAX_LENGTH}
+          onChange={(e) => setTitle(e.target.value)}
+          className="w-full border rounded p-2"
+        />
+        {fieldErrors.title && <p className="mt-1 text-sm text-red-500">{fieldErrors.title}</p>}
+      </div>
+      <div>
+        <label htmlFor="review-body" className="block text-sm font-bold text-gray-700 mb-1">
+          {t('reviews.body')}
+        </label>
+        <textarea
+          id="review-body"
+          value={body}
+          rows={4}
+          maxLength={REVIEW_BODY_MAX_LENGTH}
+          onChange={(e) => setBody(e.target.value)}
+          className="w-full border rounded p-2"
+        />
+        {fieldErrors.body && <p className="mt-1 text-sm text-red-500">{fieldErrors.body}</p>}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || rating === null}
+        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition disabled:opacity-50"
+      >
+        {isSubmitting ? t('checkout.submitting') : t('reviews.submit')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+/*
+[概要]
+お気に入りのハートボタン。
+- 商品カード: itemId を省略する。商品のいずれかの組み合わせが保存されていれば塗りつぶし、押すとすべて外す
+- 商品詳細ページ: itemId に選択中の SKU (未選択の場合は商品ID) を渡し、その組み合わせだけを保存・解除する
+*/
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from '../../context/i18n';
+import { useWishlist } from '../../context/wishlist';
+
+type WishlistButtonProps = {
+  productId: string;
+  productName: string;
+  itemId?: string;
+  className?: string;
+};
+
+export default function WishlistButton({ productId, productName, itemId, className = '' }: WishlistButtonProps) {
+  const { isWishlisted, hasProduct, addToWishlist, removeFromWishlist, removeProduct, isLoading } = useWishlist();
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isSaved = itemId ? isWishlisted(itemId) : hasProduct(productId);
+
+  const handleToggle = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = isSaved
+      ? await (itemId ? removeFromWishlist(itemId) : removeProduct(productId))
+      : await addToWishlist(itemId ?? productId);
+    if (!result.ok) {
+      setError(result.message);
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <span className={`inline-flex items-center gap-2 ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isLoading || isSubmitting}
+        aria-pressed={isSaved}
+        aria-label={t(isSaved ? 'wishlist.removeNamed' : 'wishlist.addNamed', { name: productName })}
+        title={t(isSaved ? 'wishlist.remove' : 'wishlist.add')}
+        className={`w-9 h-9 rounded-full border bg-white text-xl leading-none hover:bg-pink-50 disabled:opacity-50 ${
+          isSaved ? 'text-pink-500 border-pink-300' : 'text-gray-400 border-gray-300'}`}
+      >
+        {isSaved ? '♥' : '♡'}
+      </button>
+      {error && <span className="text-sm text-red-500">{error}</span>}
+    </span>
+  );
+}
@@ -1,28 +1,125 @@
-import { ReactNode } from 'react';
+import { ReactNode, useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import {
+    CartEventHooks,
+    createCartStore,
+    selectIsLoading,
+    selectItemCount,
+    selectLineTotals,
+    selectSubtotal,
+} from '../../lib/cart/engine';
+import { fetchCart } from './api';
 import { CartContext } from './CartContext';
+import { useArchivedCart } from './hooks/useArchivedCart';
 import { useCartStorage } from './hooks/useCartStorage';
+import { useCartSync } from './hooks/useCartSync';
 import { useCartOperations } from './hooks/useCartOperations';
+import { CartStorageBackend, createLocalStorageBackend } from './storage';
+import { AddedToCartListener } from './types';
 
-export const CartProvider = ({ children }: { children: ReactNode }) => {
-    const { items, setItems, isLoading } = useCartStorage();
-    const { addToCart, removeFromCart, updateQuantity } = useCartOperations(items, setItems);
+type CartProviderProps = {
+    children: ReactNode;
+    storage?: CartStorageBackend; // 省略時は localStorage
+    hooks?: CartEventHooks; // 商品の追加・削除・数量の変更のイベント (アクセス解析など)
+};
 
-    const clearCart = () => {
-        setItems([]);
-        localStorage.removeItem('ec-cart-items');
-        localStorage.removeItem('ec-cart-timestamp');
-    };
+/*
+カートエンジン (lib/cart/engine) のストアを React から使えるようにする。
+状態の変化はストアの reducer に任せ、ここではブラウザの保存先・サーバーとの同期と、集計値の受け渡しだけを行う。
+*/
+export const CartProvider = ({ children, storage, hooks }: CartProviderProps) => {
+    const [backend] = useState(() => storage ?? createLocalStorageBackend());
+    const [store] = useState(() => createCartStore(hooks));
+    const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+    const { dispatch } = store;
+
+    useEffect(() => {
+        store.setHooks(hooks ?? {});
+    }, [store, hooks]);
+
+    // 他のタブでカートが変わったら、割引の評価結果も合わせてサーバーから取り直す
+    const refreshFromServer = useCallback(async () => {
+        try {
+            const view = await fetchCart();
+            dispatch({ type: 'promotionReceived', promotion: view.promotion });
+        } catch (error) {
+            console.error('カートの再取得に失敗しました:', error);
+        }
+    }, [dispatch]);
+
+    const { archived: localArchive, clearArchived: clearLocalArchive } = useCartStorage(
+        backend,
+        state,
+        dispatch,
+        refreshFromServer
+    );
+    useCartSync(state, dispatch);
+
+    // addToCart の成功を受け取る listener (カートに追加したときの通知)
+    const [addedListeners] = useState(() => new Set<AddedToCartListener>());
+    const notifyItemAdded = useCallback<AddedToCartListener>((item, quantity) => {
+        addedListeners.forEach((listener) => listener(item, quantity));
+    }, [addedListeners]);
+    const onItemAdded = useCallback((listener: AddedToCartListener) => {
+        addedListeners.add(listener);
+        return () => {
+            addedListeners.delete(listener);
+        };
+    }, [addedListeners]);
+
+    const {
+        applyCartView,
+        addToCart,
+        removeFromCart,
+        updateQuantity,
+        clearCart,
+        applyCoupon,
+        removeCoupon,
+    } = useCartOperations(store, notifyItemAdded);
+
+    const isLoading = selectIsLoading(state);
+    const {
+        archivedCart,
+        restoreArchivedCart,
+        dismissArchivedCart,
+        reloadArchivedCart,
+    } = useArchivedCart(state.items, localArchive, clearLocalArchive, applyCartView, isLoading);
+
+    // ログイン・ログアウトでカートが切り替わると、前回のカートも切り替わる
+    const refreshCart = useCallback(async () => {
+        try {
+            applyCartView(await fetchCart());
+        } catch (error) {
+            console.error('カートの再取得に失敗しました:', error);
+        }
+        await reloadArchivedCart();
+    }, [applyCartView, reloadArchivedCart]);
+
+    const totals = useMemo(() => ({
+        itemCount: selectItemCount(state),
+        subtotal: selectSubtotal(state),
+        lineTotals: selectLineTotals(state),
+    }), [state]);
 
     return (
         <CartContext.Provider value={{
-            items,
+            items: state.items,
+            promotion: state.promotion,
+            ...totals,
             addToCart,
             removeFromCart,
             updateQuantity,
             clearCart,
+            applyCoupon,
+            removeCoupon,
+            refreshCart,
+            archivedCart,
+            restoreArchivedCart,
+            dismissArchivedCart,
+            onCartEvent: store.onEvent,
+            onItemAdded,
             isLoading
         }}>
             {children}
         </CartContext.Provider>
     );
-}; 
\ No newline at end of file
+};
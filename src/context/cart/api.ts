@@ -0,0 +1,60 @@
+import type { PromotionRejectionReason } from '../../lib/promotions/types';
+import { ArchivedCartView, CartView } from './types';
+
+const CART_API = '/api/cart';
+
+// API がエラーを返したときの例外。クーポンの場合は適用できない理由 (reason) を持つ
+export class CartApiError extends Error {
+    constructor(message: string, public readonly reason?: PromotionRejectionReason) {
+        super(message);
+        this.name = 'CartApiError';
+    }
+}
+
+const request = async (init?: RequestInit, path = ''): Promise<CartView> => {
+    const response = await fetch(`${CART_API}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new CartApiError(
+            body?.error ?? `カートAPIの呼び出しに失敗しました (${response.status})`,
+            body?.reason
+        );
+    }
+    return response.json();
+};
+
+// クライアントからは商品IDと数量だけを送り、価格や商品名はサーバーの返す値を使う
+export const fetchCart = () => request();
+
+export const postCartItem = (id: string, quantity: number) =>
+    request({ method: 'POST', body: JSON.stringify({ id, quantity }) });
+
+export const patchCartItem = (id: string, quantity: number) =>
+    request({ method: 'PATCH', body: JSON.stringify({ id, quantity }) });
+
+export const deleteCartItem = (id: string) =>
+    request({ method: 'DELETE' }, `?id=${encodeURIComponent(id)}`);
+
+export const deleteCart = () => request({ method: 'DELETE' });
+
+export const postCoupon = (code: string) =>
+    request({ method: 'POST', body: JSON.stringify({ code }) }, '/coupon');
+
+export const deleteCoupon = () => request({ method: 'DELETE' }, '/coupon');
+
+// 保持期間が過ぎてアーカイブされた「前回のカート」(なければ null)
+export const fetchArchivedCart = async (): Promise<ArchivedCartView | null> => {
+    const response = await fetch(`${CART_API}/archive`);
+    if (!response.ok) {
+        throw new CartApiError(`カートAPIの呼び出しに失敗しました (${response.status})`);
+    }
+    const body: { archivedCart: ArchivedCartView | null } = await response.json();
+    return body.archivedCart;
+};
+
+export const restoreArchivedCart = () => request({ method: 'POST' }, '/archive');
+
+export const deleteArchivedCart = () => request({ method: 'DELETE' }, '/archive');
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CartApiError, deleteArchivedCart, fetchArchivedCart, fetchCart, postCartItem, restoreArchivedCart } from '../api';
+import { StoredCartPayload } from '../storage';
+import { ArchivedCartView, CartItem, CartOperationResult, CartView } from '../types';
+
+/*
+保持期間が過ぎてアーカイブされた「前回のカート」を復元・破棄する。
+- サーバーのアーカイブ (/api/cart/archive) を優先し、なければこのブラウザに残っていたカート (localArchive) を使う
+- ブラウザに残っていたカートを復元するときは、今のカートにない商品だけを追加する (在庫切れなどで追加できない商品は飛ばす)
+*/
+export const useArchivedCart = (
+    items: CartItem[],
+    localArchive: StoredCartPayload | null,
+    clearLocalArchive: () => Promise<void>,
+    applyCartView: (view: CartView) => void,
+    isSyncing: boolean
+) => {
+    const [serverArchive, setServerArchive] = useState<ArchivedCartView | null>(null);
+
+    const reloadArchivedCart = useCallback(async () => {
+        try {
+            setServerArchive(await fetchArchivedCart());
+        } catch (error) {
+            console.error('前回のカートを取得できませんでした:', error);
+        }
+    }, []);
+
+    // サーバーのカートとの同期が終わってから取得する (期限切れのカートは同期の際にアーカイブされる)
+    useEffect(() => {
+        if (!isSyncing) {
+            reloadArchivedCart();
+        }
+    }, [isSyncing, reloadArchivedCart]);
+
+    const archivedCart: ArchivedCartView | null = serverArchive
+        ?? (localArchive ? { savedAt: localArchive.savedAt, items: localArchive.items } : null);
+
+    const restoreLocalArchive = useCallback(async (archive: StoredCartPayload): Promise<CartView> => {
+        for (const item of archive.items.filter((archived) => !items.some((current) => current.id === archived.id))) {
+            try {
+                await postCartItem(item.id, item.quantity);
+            } catch (error) {
+                if (!(error instanceof CartApiError)) {
+                    throw error;
+                }
+                console.error(`前回のカートの商品を追加できませんでした (${item.id}):`, error);
+            }
+        }
+        return fetchCart();
+    }, [items]);
+
+    const restore = useCallback(async (): Promise<CartOperationResult> => {
+        try {
+            if (serverArchive) {
+                applyCartView(await restoreArchivedCart());
+            } else if (localArchive) {
+                applyCartView(await restoreLocalArchive(localArchive));
+            }
+            setServerArchive(null);
+            await clearLocalArchive();
+            return { ok: true };
+        } catch (error) {
+            console.error('前回のカートを復元できませんでした:', error);
+            return {
+                ok: false,
+                message: error instanceof Error ? error.message : '前回のカートを復元できませんでした',
+            };
+        }
+    }, [serverArchive, localArchive, applyCartView, restoreLocalArchive, clearLocalArchive]);
+
+    const dismiss = useCallback(async () => {
+        try {
+            if (serverArchive) {
+                await deleteArchivedCart();
+            }
+        } catch (error) {
+            console.error('前回のカートを削除できませんでした:', error);
+        }
+        setServerArchive(null);
+        await clearLocalArchive();
+    }, [serverArchive, clearLocalArchive]);
+
+    return { archivedCart, restoreArchivedCart: restore, dismissArchivedCart: dismiss, reloadArchivedCart };
+};
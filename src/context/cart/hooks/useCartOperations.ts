@@ -1,40 +1,114 @@
 import { useCallback } from 'react';
-import { CartItem } from '../types';
+import type { CartAction, CartStore } from '../../../lib/cart/engine';
+import {
+    CartApiError,
+    deleteCart,
+    deleteCartItem,
+    deleteCoupon,
+    fetchCart,
+    patchCartItem,
+    postCartItem,
+    postCoupon,
+} from '../api';
+import { AddedToCartListener, CartOperationResult, CartView, CouponResult } from '../types';
 
+// サーバーの応答を待たずに表示を変える操作 (楽観的更新)
+type OptimisticAction = Extract<CartAction, { type: 'quantityChanged' | 'itemRemoved' | 'cleared' }>;
+
+// onAdded: addToCart が成功したときに、追加後の明細を渡して呼ぶ
 export const useCartOperations = (
-    items: CartItem[],
-    setItems: React.Dispatch<React.SetStateAction<CartItem[]>>
+    { dispatch, getState }: Pick<CartStore, 'dispatch' | 'getState'>,
+    onAdded?: AddedToCartListener
 ) => {
-    const addToCart = useCallback((item: CartItem) => {
-        setItems((prevItems) => {
-            const existingItem = prevItems.find((i) => i.id === item.id);
-            if (existingItem) {
-                return prevItems.map((i) =>
-                    i.id === item.id ? { ...i, quantity: i.quantity + item.quantity } : i
-                );
+    const applyCartView = useCallback((view: CartView) => {
+        dispatch({ type: 'serverViewReceived', view });
+    }, [dispatch]);
+
+    // 先に表示を変えた (楽観的更新) 後で失敗した場合は、サーバーのカートを取り直して元に戻す
+    const revert = useCallback(async () => {
+        try {
+            applyCartView(await fetchCart());
+        } catch (error) {
+            console.error('カートの再取得に失敗しました:', error);
+        }
+    }, [applyCartView]);
+
+    // 各操作はサーバーに反映し、返ってきたカートでローカルの状態を置き換える。
+    // どちらもお客様の操作として dispatch し、追加・削除などのイベントを通知する (失敗時の取り直しは通知しない)
+    const applyServerCart = useCallback(async (
+        operation: () => Promise<CartView>,
+        optimistic?: OptimisticAction
+    ): Promise<CartOperationResult> => {
+        if (optimistic) {
+            dispatch({ ...optimistic, origin: 'user' });
+        }
+        try {
+            dispatch({ type: 'serverViewReceived', view: await operation(), origin: 'user' });
+            return { ok: true };
+        } catch (error) {
+            console.error('カートの更新に失敗しました:', error);
+            if (optimistic) {
+                await revert();
             }
-            return [...prevItems, item];
-        });
-    }, []);
+            return {
+                ok: false,
+                message: error instanceof Error ? error.message : 'カートの更新に失敗しました',
+            };
+        }
+    }, [dispatch, revert]);
+
+    // カートにある商品は数量を先に増やす。新しい商品は商品名・価格が分からないため、サーバーの応答を待って表示する
+    const addToCart = useCallback(async (id: string, quantity = 1): Promise<CartOperationResult> => {
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            return { ok: false, message: '数量は1以上の整数で指定してください' };
+        }
+        const existing = getState().items.find((item) => item.id === id);
+        const result = await applyServerCart(
+            () => postCartItem(id, quantity),
+            existing ? { type: 'quantityChanged', id, quantity: existing.quantity + quantity } : undefined
+        );
+        const added = result.ok ? getState().items.find((item) => item.id === id) : undefined;
+        if (added) {
+            onAdded?.(added, quantity);
+        }
+        return result;
+    }, [getState, applyServerCart, onAdded]);
 
     const removeFromCart = useCallback((id: string) => {
-        setItems((prevItems) => {
-            const newItems = prevItems.filter((item) => item.id !== id);
-            if (newItems.length === 0) {
-                localStorage.removeItem('ec-cart-items');
-                localStorage.removeItem('ec-cart-timestamp');
+        return applyServerCart(() => deleteCartItem(id), { type: 'itemRemoved', id });
+    }, [applyServerCart]);
+
+    // 0 は削除として扱う。負の数や小数はサーバーに送らずにエラーにする
+    const updateQuantity = useCallback(async (itemId: string, quantity: number): Promise<CartOperationResult> => {
+        if (!Number.isInteger(quantity) || quantity < 0) {
+            return { ok: false, message: '数量は0以上の整数で指定してください' };
+        }
+        return applyServerCart(() => patchCartItem(itemId, quantity), { type: 'quantityChanged', id: itemId, quantity });
+    }, [applyServerCart]);
+
+    const clearCart = useCallback(() => {
+        return applyServerCart(deleteCart, { type: 'cleared' });
+    }, [applyServerCart]);
+
+    // クーポンが使えない場合は、理由 (期限切れ・最低金額未満など) を呼び出し元に返す
+    const applyCoupon = useCallback(async (code: string): Promise<CouponResult> => {
+        try {
+            applyCartView(await postCoupon(code));
+            return { ok: true };
+        } catch (error) {
+            if (error instanceof CartApiError) {
+                return {
+                    ok: false,
+                    rejection: { reason: error.reason ?? 'not_applicable', message: error.message },
+                };
             }
-            return newItems;
-        });
-    }, []);
-
-    const updateQuantity = useCallback((itemId: string, quantity: number) => {
-        setItems((prevItems) =>
-            prevItems.map((item) =>
-                item.id === itemId ? { ...item, quantity } : item
-            )
-        );
-    }, []);
+            throw error;
+        }
+    }, [applyCartView]);
+
+    const removeCoupon = useCallback(() => {
+        return applyServerCart(deleteCoupon);
+    }, [applyServerCart]);
 
-    return { addToCart, removeFromCart, updateQuantity };
-}; 
\ No newline at end of file
+    return { applyCartView, addToCart, removeFromCart, updateQuantity, clearCart, applyCoupon, removeCoupon };
+};
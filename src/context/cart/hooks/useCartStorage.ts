@@ -1,48 +1,134 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CartAction, CartState } from '../../../lib/cart/engine';
+import { isArchiveExpired, isCartExpired } from '../../../lib/cart/retention';
+import { CartStorageBackend, StoredCartPayload, decodeCartPayload, encodeCartPayload } from '../storage';
 import { CartItem } from '../types';
 
 const CART_STORAGE_KEY = 'ec-cart-items';
-const CART_TIMESTAMP_KEY = 'ec-cart-timestamp';
-const CART_EXPIRY_HOURS = 24;
+const LEGACY_TIMESTAMP_KEY = 'ec-cart-timestamp'; // 保存形式バージョン1で使っていた保存日時のキー
+// 保持期間 (lib/cart/retention) が過ぎたカートの移し先。「前回のカートを復元しますか?」で使う
+const CART_ARCHIVE_KEY = 'ec-cart-archive';
 
-export const useCartStorage = () => {
-    const [items, setItems] = useState<CartItem[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+/*
+カートの明細をブラウザ側の保存先 (既定は localStorage) に保存・復元する。状態はカートエンジンのストアが持ち、
+読み込んだ明細は storageLoaded / itemsReplaced としてストアに渡し、ストアの明細が変わったら保存する。
+- 保存形式はバージョン付きで、古い形式は読み込み時に変換し、壊れたデータは破棄する
+- 保持期間が過ぎたカートは削除せずにアーカイブ (archived) に移す。アーカイブは復元できる期間が過ぎたら削除する
+- 他のタブでカートが変わったら明細を読み込み直し、onExternalChange を呼ぶ
+*/
+export const useCartStorage = (
+    backend: CartStorageBackend,
+    { items, status }: Pick<CartState, 'items' | 'status'>,
+    dispatch: (action: CartAction) => void,
+    onExternalChange?: (items: CartItem[]) => void
+) => {
+    const [archived, setArchived] = useState<StoredCartPayload | null>(null);
+    // 直近に読み書きした明細 (JSON)。同じ内容を書き戻してタブ間で通知し合わないようにする
+    const lastSavedRef = useRef<string | null>(null);
+    const onExternalChangeRef = useRef(onExternalChange);
+    onExternalChangeRef.current = onExternalChange;
 
-    useEffect(() => {
-        const loadCartData = () => {
-            const savedItems = localStorage.getItem(CART_STORAGE_KEY);
-            const timestamp = localStorage.getItem(CART_TIMESTAMP_KEY);
-            
-            if (timestamp) {
-                const savedTime = new Date(timestamp).getTime();
-                const currentTime = new Date().getTime();
-                const hoursPassed = (currentTime - savedTime) / (1000 * 60 * 60);
-                
-                if (hoursPassed > CART_EXPIRY_HOURS) {
-                    localStorage.removeItem(CART_STORAGE_KEY);
-                    localStorage.removeItem(CART_TIMESTAMP_KEY);
-                    setItems([]);
-                    setIsLoading(false);
-                    return;
+    const loadItems = useCallback(async (): Promise<CartItem[]> => {
+        try {
+            const [raw, legacySavedAt] = await Promise.all([
+                backend.getItem(CART_STORAGE_KEY),
+                backend.getItem(LEGACY_TIMESTAMP_KEY),
+            ]);
+            const { payload, needsRewrite } = decodeCartPayload(raw, legacySavedAt);
+
+            if (!payload || isCartExpired(payload.savedAt)) {
+                if (payload && payload.items.length > 0) {
+                    await backend.setItem(CART_ARCHIVE_KEY, encodeCartPayload(payload.items, new Date(payload.savedAt)));
                 }
+                if (raw !== null) {
+                    await Promise.all([
+                        backend.removeItem(CART_STORAGE_KEY),
+                        backend.removeItem(LEGACY_TIMESTAMP_KEY),
+                    ]);
+                }
+                return [];
+            }
+            if (needsRewrite) {
+                await backend.setItem(CART_STORAGE_KEY, encodeCartPayload(payload.items, new Date(payload.savedAt)));
+                await backend.removeItem(LEGACY_TIMESTAMP_KEY);
             }
-            
-            if (savedItems) {
-                setItems(JSON.parse(savedItems));
+            return payload.items;
+        } catch (error) {
+            // 保存先が使えない場合も、サーバー側のカートで表示は続けられる
+            console.error('保存されたカートを読み込めませんでした:', error);
+            return [];
+        }
+    }, [backend]);
+
+    // アーカイブは最後に変更した日時 (savedAt) から数えて、復元できる期間を過ぎたら削除する
+    const loadArchived = useCallback(async (): Promise<StoredCartPayload | null> => {
+        try {
+            const { payload } = decodeCartPayload(await backend.getItem(CART_ARCHIVE_KEY));
+            if (payload && payload.items.length > 0 && !isArchiveExpired(payload.savedAt)) {
+                return payload;
             }
-            setIsLoading(false);
+            await backend.removeItem(CART_ARCHIVE_KEY);
+        } catch (error) {
+            console.error('アーカイブしたカートを読み込めませんでした:', error);
+        }
+        return null;
+    }, [backend]);
+
+    const clearArchived = useCallback(async () => {
+        setArchived(null);
+        await backend.removeItem(CART_ARCHIVE_KEY).catch((error) => {
+            console.error('アーカイブしたカートを削除できませんでした:', error);
+        });
+    }, [backend]);
+
+    useEffect(() => {
+        let isCancelled = false;
+        const load = async () => {
+            const loaded = await loadItems();
+            return { loaded, archivedPayload: await loadArchived() };
+        };
+        load().then(({ loaded, archivedPayload }) => {
+            if (isCancelled) {
+                return;
+            }
+            lastSavedRef.current = JSON.stringify(loaded);
+            setArchived(archivedPayload);
+            dispatch({ type: 'storageLoaded', items: loaded });
+        });
+        return () => {
+            isCancelled = true;
         };
+    }, [loadItems, loadArchived, dispatch]);
 
-        loadCartData();
-    }, []);
+    // 他のタブでの変更を反映する
+    useEffect(() => {
+        return backend.subscribe(CART_STORAGE_KEY, async () => {
+            const loaded = await loadItems();
+            const serialized = JSON.stringify(loaded);
+            if (serialized === lastSavedRef.current) {
+                return;
+            }
+            lastSavedRef.current = serialized;
+            dispatch({ type: 'itemsReplaced', items: loaded });
+            onExternalChangeRef.current?.(loaded);
+        });
+    }, [backend, loadItems, dispatch]);
 
+    // 明細が変わったら保存する (空になったら削除する)
     useEffect(() => {
-        if (!isLoading && items.length > 0) {
-            localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
-            localStorage.setItem(CART_TIMESTAMP_KEY, new Date().toISOString());
+        if (status === 'loading') {
+            return;
+        }
+        const serialized = JSON.stringify(items);
+        if (serialized === lastSavedRef.current) {
+            return;
         }
-    }, [items, isLoading]);
+        lastSavedRef.current = serialized;
+        const save = items.length > 0
+            ? backend.setItem(CART_STORAGE_KEY, encodeCartPayload(items))
+            : backend.removeItem(CART_STORAGE_KEY);
+        save.catch((error) => console.error('カートを保存できませんでした:', error));
+    }, [items, status, backend]);
 
-    return { items, setItems, isLoading };
-}; 
\ No newline at end of file
+    return { archived, clearArchived };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import type { CartAction, CartState } from '../../../lib/cart/engine';
+import { fetchCart, postCartItem } from '../api';
+
+// localStorage から復元したカート (status: syncing) を、サーバー側カートの内容で置き換える
+export const useCartSync = (
+    { items, status }: Pick<CartState, 'items' | 'status'>,
+    dispatch: (action: CartAction) => void
+) => {
+    // 同期はストレージの読み込み完了時 (syncing になったとき) に一度だけ行う。
+    // 明細の変化では同期し直さないよう、最新の明細は ref から読む (同期の effect より先に更新する)
+    const itemsRef = useRef(items);
+    useEffect(() => {
+        itemsRef.current = items;
+    }, [items]);
+
+    useEffect(() => {
+        if (status !== 'syncing') {
+            return;
+        }
+
+        const syncCart = async () => {
+            try {
+                let view = await fetchCart();
+                const localItems = itemsRef.current;
+                // サーバー側が空でローカルにカートが残っている場合は、ID と数量だけを引き継ぐ
+                if (view.items.length === 0 && localItems.length > 0) {
+                    for (const item of localItems) {
+                        view = await postCartItem(item.id, item.quantity);
+                    }
+                }
+                dispatch({ type: 'serverViewReceived', view });
+            } catch (error) {
+                console.error('カートの同期に失敗しました:', error);
+                dispatch({ type: 'syncFailed' });
+            }
+        };
+
+        syncCart();
+    }, [status, dispatch]);
+};
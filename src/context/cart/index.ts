@@ -1,3 +1,15 @@
 export { CartProvider } from './CartProvider';
 export { useCart } from './hooks/useCart';
-export type { CartItem, CartContextType } from './types'; 
\ No newline at end of file
+export { summarizeCart, toPricedLine } from '../../lib/cart/engine';
+export { createIndexedDbBackend, createLocalStorageBackend, createMemoryStorageBackend } from './storage';
+export type { CartStorageBackend } from './storage';
+export type { CartEvent, CartEventHooks } from '../../lib/cart/engine';
+export type {
+    AddedToCartListener,
+    ArchivedCartView,
+    CartItem,
+    CartContextType,
+    CartOperationResult,
+    CartView,
+    CouponResult,
+} from './types';
@@ -0,0 +1,5 @@
+export { createIndexedDbBackend } from './indexedDbBackend';
+export { createLocalStorageBackend } from './localStorageBackend';
+export { createMemoryStorageBackend } from './memoryBackend';
+export { CART_STORAGE_VERSION, decodeCartPayload, encodeCartPayload } from './schema';
+export type { CartStorageBackend, StoredCartPayload } from './types';
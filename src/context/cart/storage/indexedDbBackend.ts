@@ -0,0 +1,75 @@
+import { CartStorageBackend } from './types';
+
+const DB_NAME = 'ec-cart';
+const STORE_NAME = 'kv';
+const CHANNEL_NAME = 'ec-cart-storage';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/*
+IndexedDB を使う保存先。IndexedDB には storage イベントがないため、
+他のタブへの変更通知は BroadcastChannel で行う。
+*/
+export const createIndexedDbBackend = (): CartStorageBackend => {
+    let db: Promise<IDBDatabase> | undefined;
+    let channel: BroadcastChannel | undefined;
+
+    const openDb = () => {
+        db ??= new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return db;
+    };
+
+    const getChannel = () => {
+        if (typeof BroadcastChannel === 'undefined') {
+            return undefined;
+        }
+        channel ??= new BroadcastChannel(CHANNEL_NAME);
+        return channel;
+    };
+
+    const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+        if (typeof indexedDB === 'undefined') {
+            return undefined;
+        }
+        const store = (await openDb()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+        return toPromise(run(store));
+    };
+
+    return {
+        getItem: async (key) => {
+            const value = await withStore('readonly', (store) => store.get(key));
+            return typeof value === 'string' ? value : null;
+        },
+        setItem: async (key, value) => {
+            await withStore('readwrite', (store) => store.put(value, key));
+            getChannel()?.postMessage({ key });
+        },
+        removeItem: async (key) => {
+            await withStore('readwrite', (store) => store.delete(key));
+            getChannel()?.postMessage({ key });
+        },
+        subscribe: (key, listener) => {
+            // 送信と同じ BroadcastChannel で受信するため、自分のタブでの変更は通知されない
+            const subscriber = getChannel();
+            if (!subscriber) {
+                return () => {};
+            }
+            const handleMessage = (event: MessageEvent<{ key?: string }>) => {
+                if (event.data?.key === key) {
+                    listener();
+                }
+            };
+            subscriber.addEventListener('message', handleMessage);
+            return () => subscriber.removeEventListener('message', handleMessage);
+        },
+    };
+};
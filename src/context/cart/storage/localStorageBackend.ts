@@ -0,0 +1,41 @@
+import { CartStorageBackend } from './types';
+
+// localStorage を使う保存先 (既定)。他のタブでの変更は storage イベントで受け取る
+export const createLocalStorageBackend = (): CartStorageBackend => {
+    // サーバーでの描画時やプライベートブラウズなどで使えない場合は、保存しないだけにする
+    const getStorage = (): Storage | null => {
+        try {
+            return typeof window === 'undefined' ? null : window.localStorage;
+        } catch {
+            return null;
+        }
+    };
+
+    return {
+        getItem: async (key) => getStorage()?.getItem(key) ?? null,
+        setItem: async (key, value) => {
+            try {
+                getStorage()?.setItem(key, value);
+            } catch (error) {
+                // 容量超過など。カートはサーバーにもあるため、保存できなくても処理は続ける
+                console.warn('カートを localStorage に保存できませんでした:', error);
+            }
+        },
+        removeItem: async (key) => {
+            getStorage()?.removeItem(key);
+        },
+        subscribe: (key, listener) => {
+            if (typeof window === 'undefined') {
+                return () => {};
+            }
+            // key が null のイベントは localStorage.clear() によるもの
+            const handleStorage = (event: StorageEvent) => {
+                if (event.key === key || event.key === null) {
+                    listener();
+                }
+            };
+            window.addEventListener('storage', handleStorage);
+            return () => window.removeEventListener('storage', handleStorage);
+        },
+    };
+};
@@ -0,0 +1,32 @@
+import { CartStorageBackend } from './types';
+
+/*
+メモリ上に保存する保存先 (テスト・ストーリーなど localStorage を汚したくない場合に使う)。
+同じインスタンスを複数の CartProvider に渡すと、タブ間の同期と同じように変更が通知される。
+*/
+export const createMemoryStorageBackend = (initial: Record<string, string> = {}): CartStorageBackend => {
+    const values = new Map(Object.entries(initial));
+    const listeners = new Map<string, Set<() => void>>();
+
+    const notify = (key: string) => {
+        listeners.get(key)?.forEach((listener) => listener());
+    };
+
+    return {
+        getItem: async (key) => values.get(key) ?? null,
+        setItem: async (key, value) => {
+            values.set(key, value);
+            notify(key);
+        },
+        removeItem: async (key) => {
+            values.delete(key);
+            notify(key);
+        },
+        subscribe: (key, listener) => {
+            const keyListeners = listeners.get(key) ?? new Set();
+            keyListeners.add(listener);
+            listeners.set(key, keyListeners);
+            return () => keyListeners.delete(listener);
+        },
+    };
+};
@@ -0,0 +1,119 @@
+import { STOCK_STATUS_LABELS } from '../../../lib/inventory/rules';
+import { TAX_RATES } from '../../../lib/pricing/tax';
+import { CartItem } from '../types';
+import { StoredCartPayload } from './types';
+
+/*
+保存形式のバージョン
+- 1: 明細の配列をそのまま保存し、保存日時は別のキー (ec-cart-timestamp) に保存していた。
+     古いデータは productId / options / taxCategory / maxQuantity / stockStatus を持たない
+- 2: { version, savedAt, items } の形式で1つのキーに保存する
+*/
+export const CART_STORAGE_VERSION = 2;
+
+type Migration = (payload: StoredCartPayload) => StoredCartPayload;
+
+// MIGRATIONS[n] はバージョン n のデータを n + 1 に変換する
+const MIGRATIONS: Record<number, Migration> = {
+    1: (payload) => ({
+        version: 2,
+        savedAt: payload.savedAt,
+        items: payload.items.map((item) => ({
+            ...item,
+            productId: item.productId ?? item.id,
+            options: item.options ?? {},
+            // 在庫表示の追加前に保存されたデータ。サーバーと同期したときに正しい値に置き換わる
+            taxCategory: item.taxCategory ?? 'standard',
+            maxQuantity: item.maxQuantity ?? item.quantity,
+            stockStatus: item.stockStatus ?? 'in_stock',
+        })),
+    }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+    isRecord(value) && Object.values(value).every((v) => typeof v === 'string');
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// 表示にだけ使う値なので、サーバーと同期するまでの間に画面が壊れない程度に確認する
+const isCartItem = (value: unknown): value is CartItem =>
+    isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.productId === 'string'
+    && typeof value.name === 'string'
+    && isStringRecord(value.options)
+    && isNonNegativeInteger(value.price)
+    && typeof value.taxCategory === 'string' && value.taxCategory in TAX_RATES
+    && isNonNegativeInteger(value.quantity) && value.quantity > 0
+    && (value.imageUrl === undefined || typeof value.imageUrl === 'string')
+    && isNonNegativeInteger(value.maxQuantity)
+    && typeof value.stockStatus === 'string' && value.stockStatus in STOCK_STATUS_LABELS;
+
+// バージョン1 (配列をそのまま保存) のデータを共通の形にそろえる
+const toPayload = (data: unknown, legacySavedAt: string | null): StoredCartPayload | null => {
+    if (Array.isArray(data)) {
+        return { version: 1, savedAt: legacySavedAt ?? new Date().toISOString(), items: data };
+    }
+    if (
+        isRecord(data)
+        && isNonNegativeInteger(data.version)
+        && typeof data.savedAt === 'string'
+        && Array.isArray(data.items)
+    ) {
+        return { version: data.version, savedAt: data.savedAt, items: data.items };
+    }
+    return null;
+};
+
+export type DecodedCart = {
+    payload: StoredCartPayload | null;
+    // 古い形式や壊れたデータだった場合は true (呼び出し元で保存し直す・削除する)
+    needsRewrite: boolean;
+};
+
+/*
+保存されている文字列を読み込み、最新の形式に変換する。例外は投げない。
+- JSON として読めない・形式が分からない・未来のバージョン → payload: null
+- 明細のうち形式が正しくないものだけを取り除く
+*/
+export const decodeCartPayload = (raw: string | null, legacySavedAt: string | null = null): DecodedCart => {
+    if (raw === null) {
+        return { payload: null, needsRewrite: false };
+    }
+
+    let parsed: StoredCartPayload | null;
+    try {
+        parsed = toPayload(JSON.parse(raw), legacySavedAt);
+    } catch {
+        parsed = null;
+    }
+    if (!parsed || parsed.version > CART_STORAGE_VERSION) {
+        return { payload: null, needsRewrite: true };
+    }
+
+    let payload: StoredCartPayload = parsed;
+    while (payload.version < CART_STORAGE_VERSION) {
+        const migrate: Migration | undefined = MIGRATIONS[payload.version];
+        if (!migrate) {
+            return { payload: null, needsRewrite: true };
+        }
+        payload = migrate(payload);
+    }
+
+    const items = payload.items.filter(isCartItem);
+    return {
+        payload: { ...payload, items },
+        needsRewrite: parsed.version !== CART_STORAGE_VERSION || items.length !== payload.items.length,
+    };
+};
+
+export const encodeCartPayload = (items: CartItem[], savedAt = new Date()): string =>
+    JSON.stringify({
+        version: CART_STORAGE_VERSION,
+        savedAt: savedAt.toISOString(),
+        items,
+    } satisfies StoredCartPayload);
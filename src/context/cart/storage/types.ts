@@ -0,0 +1,20 @@
+import { CartItem } from '../types';
+
+/*
+カートの保存先。localStorage・IndexedDB・メモリ (テスト用) などを差し替えられるように、
+文字列の読み書きと「他のタブでの変更」の購読だけを定義する。
+*/
+export type CartStorageBackend = {
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+    removeItem: (key: string) => Promise<void>;
+    // 他のタブ (別インスタンス) で key が変更されたときに listener を呼ぶ。戻り値で購読を解除する
+    subscribe: (key: string, listener: () => void) => () => void;
+};
+
+// 保存するデータの形式。形式を変えるときは version を上げ、schema.ts にマイグレーションを追加する
+export type StoredCartPayload = {
+    version: number;
+    savedAt: string;
+    items: CartItem[];
+};
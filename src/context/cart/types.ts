@@ -1,16 +1,45 @@
-export type CartItem = {
-    id: string;
-    name: string;
-    price: number;
-    quantity: number;
-    imageUrl?: string;
-};
+import type { PromotionEvaluation, PromotionRejection } from '../../lib/promotions/types';
+import type { CartEventListener } from '../../lib/cart/engine';
+import type { ArchivedCartView, CartItem } from '../../lib/cart/engine/types';
+
+// 明細・カートの型はカートエンジン (lib/cart/engine) で定義し、サーバーと共有する
+export type { ArchivedCartView, CartItem, CartView } from '../../lib/cart/engine/types';
+
+// カート操作の結果。在庫不足などで失敗した場合はメッセージを返す
+export type CartOperationResult =
+    | { ok: true }
+    | { ok: false; message: string };
+
+// addToCart で商品を追加できたときの listener。item は追加後の明細、quantity は今回追加した数量
+export type AddedToCartListener = (item: CartItem, quantity: number) => void;
+
+// applyCoupon の結果。適用できなかった場合は理由を返す
+export type CouponResult =
+    | { ok: true }
+    | { ok: false; rejection: PromotionRejection };
 
 export type CartContextType = {
     items: CartItem[];
-    addToCart: (item: CartItem) => void;
-    removeFromCart: (id: string) => void;
-    updateQuantity: (itemId: string, quantity: number) => void;
-    clearCart: () => void;
+    promotion: PromotionEvaluation | null;
+    // カートエンジン (lib/cart/engine) の selectors による集計
+    itemCount: number; // 商品の点数 (数量の合計)
+    subtotal: number; // 商品の合計 (税抜、割引・送料を除く)
+    lineTotals: Record<string, number>; // 明細ごとの小計 (税込)。キーは明細の id
+    addToCart: (id: string, quantity?: number) => Promise<CartOperationResult>;
+    removeFromCart: (id: string) => Promise<CartOperationResult>;
+    updateQuantity: (itemId: string, quantity: number) => Promise<CartOperationResult>;
+    clearCart: () => Promise<CartOperationResult>;
+    applyCoupon: (code: string) => Promise<CouponResult>;
+    removeCoupon: () => Promise<CartOperationResult>;
+    // サーバーのカートを取り直す (ログイン・ログアウトでカートが切り替わったときに使う)
+    refreshCart: () => Promise<void>;
+    // 「前回のカートを復元しますか?」で表示する、期限切れでアーカイブしたカート (なければ null)
+    archivedCart: ArchivedCartView | null;
+    restoreArchivedCart: () => Promise<CartOperationResult>;
+    dismissArchivedCart: () => Promise<void>;
+    // 商品の追加・削除・数量の変更を受け取る (アクセス解析など)。戻り値で解除する
+    onCartEvent: (listener: CartEventListener) => () => void;
+    // addToCart が成功したときに呼ばれる (カートに追加したときの通知など)。戻り値で解除する
+    onItemAdded: (listener: AddedToCartListener) => () => void;
     isLoading: boolean;
-}; 
\ No newline at end of file
+};
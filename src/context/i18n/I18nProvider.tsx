@@ -0,0 +1,40 @@
+import { ReactNode, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { saveDisplayCurrency } from '../../lib/currency/api';
+import type { CurrencyCode, ExchangeRates } from '../../lib/currency/types';
+import { Locale, localizePath } from '../../lib/i18n/config';
+import { createI18n } from '../../lib/i18n/translator';
+import { I18nContext } from './I18nContext';
+
+type I18nProviderProps = {
+    locale: Locale;
+    currency: CurrencyCode;
+    rates: ExchangeRates;
+    children: ReactNode;
+};
+
+/*
+表示言語と表示通貨。どちらもサーバー (ルートレイアウト) で決めた値を受け取り、
+クライアントコンポーネントでもサーバーと同じ表示になるようにする。
+*/
+export const I18nProvider = ({ locale, currency, rates, children }: I18nProviderProps) => {
+    const router = useRouter();
+
+    const setCurrency = useCallback(async (next: CurrencyCode) => {
+        await saveDisplayCurrency(next);
+        router.refresh();
+    }, [router]);
+
+    // 言語は URL の先頭で決まるため、今のページの言語部分だけを差し替えて移動する
+    const switchLocale = useCallback((next: Locale) => {
+        const { pathname, search } = window.location;
+        router.push(localizePath(next, `${pathname}${search}`));
+    }, [router]);
+
+    const value = useMemo(
+        () => ({ ...createI18n(locale, currency, rates), setCurrency, switchLocale }),
+        [locale, currency, rates, setCurrency, switchLocale]
+    );
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,3 @@
+export { I18nProvider } from './I18nProvider';
+export { useI18n } from './hooks/useI18n';
+export type { I18nContextType } from './types';
@@ -0,0 +1,9 @@
+import type { CurrencyCode } from '../../lib/currency/types';
+import type { I18n } from '../../lib/i18n/translator';
+
+export type I18nContextType = I18n & {
+    // 表示通貨を変更して、サーバーで描画した金額も含めて表示し直す
+    setCurrency: (currency: CurrencyCode) => Promise<void>;
+    // 同じページを別の言語で開く
+    switchLocale: (locale: I18n['locale']) => void;
+};
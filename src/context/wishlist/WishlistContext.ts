@@ -0,0 +1,4 @@
+import { createContext } from 'react';
+import { WishlistContextType } from './types';
+
+export const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
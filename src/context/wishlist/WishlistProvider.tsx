@@ -0,0 +1,113 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { useCart } from '../cart';
+import type { CartOperationResult } from '../cart/types';
+import {
+    deleteWishlistItem,
+    deleteWishlistProduct,
+    fetchWishlist,
+    postWishlistItem,
+} from './api';
+import { WishlistContext } from './WishlistContext';
+import { WishlistItem, WishlistView } from './types';
+
+type WishlistProviderProps = {
+    children: ReactNode;
+};
+
+/*
+お気に入り (あとで買う) の状態。保存先はサーバー (/api/wishlist) で、カートと同じくゲストはセッション、
+ログイン中はアカウントごとに保存される。カートとの間で移す操作があるため、CartProvider の内側に置く。
+*/
+export const WishlistProvider = ({ children }: WishlistProviderProps) => {
+    const { addToCart, removeFromCart, items: cartItems } = useCart();
+    const [items, setItems] = useState<WishlistItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refreshWishlist = useCallback(async () => {
+        try {
+            setItems((await fetchWishlist()).items);
+        } catch (error) {
+            console.error('お気に入りの取得に失敗しました:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshWishlist();
+    }, [refreshWishlist]);
+
+    // 各操作はサーバーに反映し、返ってきたお気に入りでローカルの状態を置き換える
+    const applyServerWishlist = useCallback(async (
+        operation: () => Promise<WishlistView>
+    ): Promise<CartOperationResult> => {
+        try {
+            setItems((await operation()).items);
+            return { ok: true };
+        } catch (error) {
+            console.error('お気に入りの更新に失敗しました:', error);
+            return {
+                ok: false,
+                message: error instanceof Error ? error.message : 'お気に入りの更新に失敗しました',
+            };
+        }
+    }, []);
+
+    const isWishlisted = useCallback((id: string) => items.some((item) => item.id === id), [items]);
+
+    const hasProduct = useCallback(
+        (productId: string) => items.some((item) => item.productId === productId),
+        [items]
+    );
+
+    const addToWishlist = useCallback(
+        (id: string) => applyServerWishlist(() => postWishlistItem(id)),
+        [applyServerWishlist]
+    );
+
+    const removeFromWishlist = useCallback(
+        (id: string) => applyServerWishlist(() => deleteWishlistItem(id)),
+        [applyServerWishlist]
+    );
+
+    const removeProduct = useCallback(
+        (productId: string) => applyServerWishlist(() => deleteWishlistProduct(productId)),
+        [applyServerWishlist]
+    );
+
+    // 組み合わせを選んでいないものはカートに入れられない (商品ページで選んでもらう)
+    const moveToCart = useCallback(async (id: string): Promise<CartOperationResult> => {
+        const item = items.find((candidate) => candidate.id === id);
+        if (!item?.sku) {
+            return { ok: false, message: 'サイズ・カラーなどを選んでからカートに入れてください' };
+        }
+        const added = await addToCart(item.sku, 1);
+        return added.ok ? removeFromWishlist(id) : added;
+    }, [items, addToCart, removeFromWishlist]);
+
+    // 先にお気に入りに保存してからカートから外す (途中で失敗しても商品が消えないように)
+    const saveForLater = useCallback(async (cartItemId: string): Promise<CartOperationResult> => {
+        if (!cartItems.some((item) => item.id === cartItemId)) {
+            return { ok: false, message: 'カートに該当する商品がありません' };
+        }
+        const saved = await addToWishlist(cartItemId);
+        return saved.ok ? removeFromCart(cartItemId) : saved;
+    }, [cartItems, addToWishlist, removeFromCart]);
+
+    return (
+        <WishlistContext.Provider value={{
+            items,
+            isWishlisted,
+            hasProduct,
+            addToWishlist,
+            removeFromWishlist,
+            removeProduct,
+            moveToCart,
+            saveForLater,
+            refreshWishlist,
+            isLoading,
+        }}>
+            {children}
+        </WishlistContext.Provider>
+    );
+};
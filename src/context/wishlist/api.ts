@@ -0,0 +1,26 @@
+import { WishlistView } from './types';
+
+const WISHLIST_API = '/api/wishlist';
+
+const request = async (init?: RequestInit, query = ''): Promise<WishlistView> => {
+    const response = await fetch(`${WISHLIST_API}${query}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `お気に入りAPIの呼び出しに失敗しました (${response.status})`);
+    }
+    return response.json();
+};
+
+export const fetchWishlist = () => request();
+
+export const postWishlistItem = (id: string) =>
+    request({ method: 'POST', body: JSON.stringify({ id }) });
+
+export const deleteWishlistItem = (id: string) =>
+    request({ method: 'DELETE' }, `?id=${encodeURIComponent(id)}`);
+
+export const deleteWishlistProduct = (productId: string) =>
+    request({ method: 'DELETE' }, `?productId=${encodeURIComponent(productId)}`);
@@ -0,0 +1,3 @@
+export { WishlistProvider } from './WishlistProvider';
+export { useWishlist } from './hooks/useWishlist';
+export type { WishlistContextType, WishlistItem, WishlistView } from './types';
@@ -0,0 +1,23 @@
+import type { WishlistItem } from '../../lib/wishlist/types';
+import type { CartOperationResult } from '../cart/types';
+
+// 表示用のお気に入りの型はサーバー (lib/wishlist) で定義し、共有する
+export type { WishlistItem, WishlistView } from '../../lib/wishlist/types';
+
+export type WishlistContextType = {
+    items: WishlistItem[];
+    isWishlisted: (id: string) => boolean;
+    // 商品のいずれかの組み合わせがお気に入りにあるか (商品カードのハートに使う)
+    hasProduct: (productId: string) => boolean;
+    addToWishlist: (id: string) => Promise<CartOperationResult>;
+    removeFromWishlist: (id: string) => Promise<CartOperationResult>;
+    // 商品のすべての組み合わせをお気に入りから外す
+    removeProduct: (productId: string) => Promise<CartOperationResult>;
+    // お気に入りからカートに移す (カートに入れられたらお気に入りから外す)
+    moveToCart: (id: string) => Promise<CartOperationResult>;
+    // カートの明細をお気に入りに移す (お気に入りに保存できたらカートから外す)
+    saveForLater: (cartItemId: string) => Promise<CartOperationResult>;
+    // サーバーのお気に入りを取り直す (ログイン・ログアウトで切り替わったときに使う)
+    refreshWishlist: () => Promise<void>;
+    isLoading: boolean;
+};
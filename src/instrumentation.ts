@@ -0,0 +1,16 @@
+/*
+[概要]
+サーバーの起動時に1回だけ呼ばれる (Next.js の instrumentation)。
+環境変数 CART_JOBS_INTERVAL_MINUTES を指定した場合は、カートの定期処理 (お知らせメール・アーカイブ) をサーバー内で定期実行する。
+外部のスケジューラーを使う場合は指定せず、/api/cron/carts を呼び出す。
+*/
+export async function register() {
+    // Edge ランタイム向けのビルドにサーバー専用のモジュールが含まれないよう、この条件の中で読み込む
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const intervalMinutes = Number(process.env.CART_JOBS_INTERVAL_MINUTES ?? 0);
+        if (intervalMinutes > 0) {
+            const { startCartJobScheduler } = await import('./lib/cart/recovery');
+            startCartJobScheduler(intervalMinutes);
+        }
+    }
+}
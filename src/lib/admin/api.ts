@@ -0,0 +1,77 @@
+import type { CsvEncoding, Product, ProductErrors, ProductImportResult, UploadedImage } from '../catalog/types';
+import type { Order, OrderStatus } from '../orders/types';
+import type { Review, ReviewModerationAction } from '../reviews/types';
+
+// 管理APIのエラー。商品の入力内容の誤りは details に、CSV の取り込みの誤りは importResult に行ごとの結果が入る
+export class AdminApiError extends Error {
+    constructor(
+        message: string,
+        public readonly details?: ProductErrors,
+        public readonly importResult?: ProductImportResult
+    ) {
+        super(message);
+        this.name = 'AdminApiError';
+    }
+}
+
+const request = async <T>(path: string, method: string, body?: unknown): Promise<T> => {
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new AdminApiError(result?.error ?? '処理に失敗しました', result?.details);
+    }
+    return result;
+};
+
+export const saveProduct = (id: string | null, input: Record<string, unknown>): Promise<Product> =>
+    id
+        ? request(`/api/admin/products/${id}`, 'PUT', input)
+        : request('/api/admin/products', 'POST', input);
+
+export const removeProduct = (id: string): Promise<{ ok: true }> =>
+    request(`/api/admin/products/${id}`, 'DELETE');
+
+// 発送 (shipped) にする場合は伝票番号も送る
+export const patchOrderStatus = (id: string, status: OrderStatus, trackingNumber?: string) =>
+    request<{ order: Order; notice?: string; transitions: OrderStatus[] }>(
+        `/api/admin/orders/${id}`,
+        'PATCH',
+        { status, trackingNumber }
+    );
+
+export const patchReviewModeration = (id: string, action: ReviewModerationAction) =>
+    request<{ review: Review }>(`/api/admin/reviews/${id}`, 'PATCH', { action });
+
+// mode が preview の場合は保存せずに結果だけを受け取る
+export const uploadProductsCsv = async (
+    file: File,
+    encoding: CsvEncoding | 'auto',
+    mode: 'preview' | 'apply'
+): Promise<ProductImportResult> => {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('encoding', encoding);
+    form.append('mode', mode);
+    const response = await fetch('/api/admin/products/import', { method: 'POST', body: form });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new AdminApiError(result?.error ?? '取り込みに失敗しました', undefined, result?.result);
+    }
+    return result;
+};
+
+// 商品画像をアップロードし、保存した画像の URL を受け取る
+export const uploadProductImage = async (file: File): Promise<UploadedImage> => {
+    const form = new FormData();
+    form.append('file', file);
+    const response = await fetch('/api/admin/products/images', { method: 'POST', body: form });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new AdminApiError(result?.error ?? 'アップロードに失敗しました');
+    }
+    return result;
+};
@@ -0,0 +1,80 @@
+/*
+[概要]
+管理画面ダッシュボードの売上集計。注文とカタログから計算する (保存はしない)。
+売上はお支払いが完了した注文 (paid / shipped / delivered) の税込合計で、キャンセル・返金された注文は含めない。
+*/
+import { Product, formatOptions, listSkus } from '../catalog';
+import { LOW_STOCK_THRESHOLD } from '../inventory/rules';
+import { ORDER_STATUS_LABELS, Order, OrderStatus } from '../orders';
+import { DailySales, ProductSales, SalesSummary } from './types';
+
+export const DASHBOARD_DAYS = 14;
+const TOP_PRODUCTS_LIMIT = 5;
+const REVENUE_STATUSES: OrderStatus[] = ['paid', 'shipped', 'delivered'];
+
+// 日本時間の日付 (YYYY-MM-DD)
+const toJstDate = (date: Date) => date.toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' });
+
+const dailySales = (orders: Order[], now: Date): DailySales[] =>
+    Array.from({ length: DASHBOARD_DAYS }, (_, index) => {
+        const date = toJstDate(new Date(now.getTime() - (DASHBOARD_DAYS - 1 - index) * 24 * 60 * 60 * 1000));
+        const ofDay = orders.filter((order) => toJstDate(new Date(order.createdAt)) === date);
+        return {
+            date,
+            revenue: ofDay.reduce((total, order) => total + order.total, 0),
+            orders: ofDay.length,
+        };
+    });
+
+const topProducts = (orders: Order[]): ProductSales[] => {
+    const byProduct = new Map<string, ProductSales>();
+    for (const item of orders.flatMap((order) => order.items)) {
+        const current = byProduct.get(item.productId) ?? {
+            productId: item.productId,
+            name: item.name,
+            quantity: 0,
+            revenue: 0,
+        };
+        byProduct.set(item.productId, {
+            ...current,
+            quantity: current.quantity + item.quantity,
+            revenue: current.revenue + item.lineTotal,
+        });
+    }
+    return [...byProduct.values()]
+        .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+        .slice(0, TOP_PRODUCTS_LIMIT);
+};
+
+export const summarizeSales = (orders: Order[], products: Product[], now = new Date()): SalesSummary => {
+    const sold = orders.filter((order) => REVENUE_STATUSES.includes(order.status));
+    const revenue = sold.reduce((total, order) => total + order.total, 0);
+    const statusCounts = Object.fromEntries(
+        Object.keys(ORDER_STATUS_LABELS).map((status) => [
+            status,
+            orders.filter((order) => order.status === status).length,
+        ])
+    ) as Record<OrderStatus, number>;
+
+    return {
+        revenue,
+        orderCount: sold.length,
+        averageOrderValue: sold.length > 0 ? Math.round(revenue / sold.length) : 0,
+        refundedTotal: orders
+            .filter((order) => order.status === 'refunded')
+            .reduce((total, order) => total + order.total, 0),
+        statusCounts,
+        daily: dailySales(sold, now),
+        topProducts: topProducts(sold),
+        lowStock: products.flatMap((product) =>
+            listSkus(product)
+                .filter((sku) => sku.stock <= LOW_STOCK_THRESHOLD)
+                .map((sku) => ({
+                    sku: sku.sku,
+                    productId: product.id,
+                    name: sku.variant ? `${product.name} (${formatOptions(sku.options)})` : product.name,
+                    stock: sku.stock,
+                }))
+        ),
+    };
+};
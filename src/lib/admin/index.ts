@@ -0,0 +1,18 @@
+/*
+[概要]
+管理画面 (/admin) のサーバー側の処理。権限の確認は lib/session の assertAdmin で行う。
+*/
+import { getProducts } from '../catalog';
+import { getAllOrders } from '../orders';
+import { summarizeSales } from './dashboard';
+import { SalesSummary } from './types';
+
+export const getSalesSummary = async (now = new Date()): Promise<SalesSummary> => {
+    const [orders, products] = await Promise.all([getAllOrders(), getProducts()]);
+    return summarizeSales(orders, products, now);
+};
+
+export { DASHBOARD_DAYS, summarizeSales } from './dashboard';
+export { changeOrderStatusByAdmin, listAdminTransitions } from './orders';
+export type { AdminStatusChangeResult } from './orders';
+export type { DailySales, LowStockSku, ProductSales, SalesSummary } from './types';
@@ -0,0 +1,51 @@
+/*
+[概要]
+管理画面からの注文ステータスの変更。
+支払いに関するステータス (paid / failed) は決済の Webhook だけが変更し、管理画面からは変更できない。
+返金 (refunded) は決済代行に返金を依頼し、返金完了の Webhook を受けてからステータスが変わる。
+支払い済みの注文はキャンセルできないので、発送前に取り消すときも返金にする (発送前の返金は在庫に戻る)。
+発送 (shipped) にするときは、お問い合わせ伝票番号の入力が必要 (発送のお知らせメールに記載する)。
+*/
+import { ORDER_STATUS_TRANSITIONS, Order, OrderError, OrderStatus, getOrder, updateOrderStatus } from '../orders';
+import { refundOrderPayment } from '../payments';
+
+const PAYMENT_DRIVEN_STATUSES: OrderStatus[] = ['paid', 'failed'];
+
+// 伝票番号は半角英数字とハイフン
+const TRACKING_NUMBER_PATTERN = /^[0-9A-Za-z-]{6,30}$/;
+
+// 管理画面から変更できる次のステータス (例: paid → shipped / refunded)
+export const listAdminTransitions = (status: OrderStatus): OrderStatus[] =>
+    ORDER_STATUS_TRANSITIONS[status].filter((next) => !PAYMENT_DRIVEN_STATUSES.includes(next));
+
+export type AdminStatusChangeResult = {
+    order: Order;
+    // 返金のように、ステータスの変更が後から反映される場合の案内
+    notice?: string;
+};
+
+export const changeOrderStatusByAdmin = async (
+    orderId: string,
+    status: OrderStatus,
+    trackingNumber?: unknown
+): Promise<AdminStatusChangeResult> => {
+    const order = await getOrder(orderId);
+    if (!order) {
+        throw new OrderError('注文が見つかりません', 404);
+    }
+    if (!listAdminTransitions(order.status).includes(status)) {
+        throw new OrderError(`注文ステータスを ${order.status} から ${status} に変更できません`, 409);
+    }
+    if (status === 'refunded') {
+        await refundOrderPayment(order.id);
+        return { order, notice: '返金を依頼しました。決済代行からの通知を受けて「返金済み」に変わります' };
+    }
+    if (status === 'shipped') {
+        const normalized = typeof trackingNumber === 'string' ? trackingNumber.trim() : '';
+        if (!TRACKING_NUMBER_PATTERN.test(normalized)) {
+            throw new OrderError('お問い合わせ伝票番号を半角英数字・ハイフンで入力してください', 400);
+        }
+        return { order: await updateOrderStatus(order.id, status, { trackingNumber: normalized }) };
+    }
+    return { order: await updateOrderStatus(order.id, status) };
+};
@@ -0,0 +1,33 @@
+import type { OrderStatus } from '../orders/types';
+
+export type DailySales = {
+    date: string; // YYYY-MM-DD (日本時間)
+    revenue: number;
+    orders: number;
+};
+
+export type ProductSales = {
+    productId: string;
+    name: string;
+    quantity: number;
+    revenue: number; // 税抜
+};
+
+export type LowStockSku = {
+    sku: string;
+    productId: string;
+    name: string;
+    stock: number;
+};
+
+// 管理画面ダッシュボードの売上集計
+export type SalesSummary = {
+    revenue: number; // 税込 (お支払い済み・発送済み・お届け済みの注文)
+    orderCount: number;
+    averageOrderValue: number;
+    refundedTotal: number;
+    statusCounts: Record<OrderStatus, number>;
+    daily: DailySales[];
+    topProducts: ProductSales[];
+    lowStock: LowStockSku[];
+};
@@ -0,0 +1,39 @@
+import type { CredentialErrors, PublicUser } from './types';
+
+// 認証APIのエラー。入力内容の誤りは details に項目ごとのメッセージが入る
+export class AuthApiError extends Error {
+    constructor(message: string, public readonly details?: CredentialErrors) {
+        super(message);
+        this.name = 'AuthApiError';
+    }
+}
+
+const postAuth = async (path: string, body?: Record<string, string>): Promise<PublicUser> => {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new AuthApiError(result?.error ?? '処理に失敗しました', result?.details);
+    }
+    return result.user;
+};
+
+export const login = (email: string, password: string) =>
+    postAuth('/api/auth/login', { email, password });
+
+export const register = (email: string, password: string, name: string) =>
+    postAuth('/api/auth/register', { email, password, name });
+
+export const logout = async (): Promise<void> => {
+    const response = await fetch('/api/auth/logout', { method: 'POST' });
+    if (!response.ok) {
+        throw new AuthApiError('ログアウトに失敗しました');
+    }
+};
+
+// ログイン後の遷移先。外部サイトへのリダイレクトに使われないよう、サイト内のパスだけを許可する ("//" や "/\" で始まるものは除く)
+export const toSafeRedirectPath = (next: string | string[] | undefined, fallback = '/account'): string =>
+    typeof next === 'string' && /^\/(?![/\\])/.test(next) ? next : fallback;
@@ -0,0 +1,145 @@
+/*
+[概要]
+メールアドレスとパスワードによるアカウント管理とログインセッション。
+アカウントは data/users.json、セッションは data/auth-sessions.json に保存する。
+Cookie の読み書きは lib/session で行い、このモジュールはトークンを受け取って処理する。
+*/
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { hashPassword, verifyPassword } from './password';
+import { AuthSession, CredentialErrors, PublicUser, RegisterInput, User } from './types';
+
+const USERS_FILE = 'users.json';
+const SESSIONS_FILE = 'auth-sessions.json';
+export const AUTH_SESSION_TTL_DAYS = 30;
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_NAME_LENGTH = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class AuthError extends Error {
+    constructor(message: string, public readonly status: number, public readonly details?: CredentialErrors) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+const readUsers = () => readJsonFile<User[]>(USERS_FILE, []);
+
+// 期限切れのセッションは読み込み時に取り除く
+const withoutExpired = (sessions: AuthSession[]) => {
+    const now = Date.now();
+    return sessions.filter((session) => new Date(session.expiresAt).getTime() > now);
+};
+
+const readSessions = async (): Promise<AuthSession[]> =>
+    withoutExpired(await readJsonFile<AuthSession[]>(SESSIONS_FILE, []));
+
+// セッションの一覧を書き換えて保存する (読み込みから保存までファイルのロック中に行う)
+const updateSessions = (update: (sessions: AuthSession[]) => AuthSession[]) =>
+    updateJsonFile<AuthSession[]>(SESSIONS_FILE, [], (sessions) => update(withoutExpired(sessions)));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const isAdmin = (user: User): boolean => user.role === 'admin';
+
+export const toPublicUser = (user: User): PublicUser => ({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role ?? 'customer',
+    createdAt: user.createdAt,
+});
+
+export const validateRegistration = (input: RegisterInput): CredentialErrors => {
+    const errors: CredentialErrors = {};
+    if (typeof input.email !== 'string' || !EMAIL_PATTERN.test(input.email.trim())) {
+        errors.email = 'メールアドレスの形式が正しくありません';
+    }
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+        errors.password = `パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください`;
+    }
+    if (input.name !== undefined && (typeof input.name !== 'string' || input.name.trim().length > MAX_NAME_LENGTH)) {
+        errors.name = `お名前は${MAX_NAME_LENGTH}文字以内で入力してください`;
+    }
+    return errors;
+};
+
+export const registerUser = async (input: RegisterInput): Promise<User> => {
+    const errors = validateRegistration(input);
+    if (Object.keys(errors).length > 0) {
+        throw new AuthError('入力内容に誤りがあります', 400, errors);
+    }
+    const email = normalizeEmail(input.email as string);
+    const isRegistered = (users: User[]) => users.some((user) => user.email === email);
+    const alreadyRegistered = () =>
+        new AuthError('このメールアドレスはすでに登録されています', 409, {
+            email: 'このメールアドレスはすでに登録されています',
+        });
+    if (isRegistered(await readUsers())) {
+        throw alreadyRegistered();
+    }
+
+    // パスワードのハッシュ化は時間がかかるため、ファイルのロックの外で行う
+    const user: User = {
+        id: randomUUID(),
+        email,
+        name: typeof input.name === 'string' ? input.name.trim() : '',
+        // 管理者の権限は会員登録では付けない (scripts/grant-admin.mjs で付ける)
+        role: 'customer',
+        passwordHash: await hashPassword(input.password as string),
+        createdAt: new Date().toISOString(),
+    };
+    // ハッシュ化の間に同じメールアドレスで登録されていないか、ロック中にもう一度確かめる
+    await updateJsonFile<User[]>(USERS_FILE, [], (users) => {
+        if (isRegistered(users)) {
+            throw alreadyRegistered();
+        }
+        return [...users, user];
+    });
+    return user;
+};
+
+// メールアドレスが存在しない場合も同じメッセージにし、登録の有無を推測されないようにする
+export const authenticate = async (email: unknown, password: unknown): Promise<User> => {
+    if (typeof email !== 'string' || typeof password !== 'string') {
+        throw new AuthError('メールアドレスとパスワードを入力してください', 400);
+    }
+    const user = (await readUsers()).find((u) => u.email === normalizeEmail(email));
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        throw new AuthError('メールアドレスまたはパスワードが正しくありません', 401);
+    }
+    return user;
+};
+
+export const getUserById = async (id: string): Promise<User | undefined> => {
+    const users = await readUsers();
+    return users.find((user) => user.id === id);
+};
+
+// 新しいセッションを作成し、Cookie に保存するトークンと有効期限を返す
+export const createAuthSession = async (userId: string): Promise<{ token: string; expiresAt: Date }> => {
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + AUTH_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    await updateSessions((sessions) => [
+        ...sessions,
+        { tokenHash: hashToken(token), userId, createdAt: now.toISOString(), expiresAt: expiresAt.toISOString() },
+    ]);
+    return { token, expiresAt };
+};
+
+export const getUserBySessionToken = async (token: string): Promise<User | undefined> => {
+    const tokenHash = hashToken(token);
+    const session = (await readSessions()).find((s) => s.tokenHash === tokenHash);
+    return session ? getUserById(session.userId) : undefined;
+};
+
+export const deleteAuthSession = async (token: string): Promise<void> => {
+    const tokenHash = hashToken(token);
+    await updateSessions((sessions) => sessions.filter((session) => session.tokenHash !== tokenHash));
+};
+
+export type { AuthSession, CredentialErrors, PublicUser, RegisterInput, User, UserRole } from './types';
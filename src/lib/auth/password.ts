@@ -0,0 +1,29 @@
+/*
+[概要]
+パスワードのハッシュ化と照合。Node.js 標準の scrypt を使い、ユーザーごとにランダムなソルトを付ける。
+保存形式: "scrypt:<ソルト (hex)>:<ハッシュ (hex)>"
+*/
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(SALT_BYTES);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [algorithm, saltHex, hashHex] = stored.split(':');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+        return false;
+    }
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    // 比較にかかる時間からハッシュを推測されないよう、一定時間で比較する
+    return timingSafeEqual(actual, expected);
+};
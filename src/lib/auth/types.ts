@@ -0,0 +1,31 @@
+// admin は管理画面 (/admin) を利用できる。登録時はすべて customer で、admin は scripts/grant-admin.mjs で付ける
+export type UserRole = 'customer' | 'admin';
+
+// data/users.json に保存するアカウント。passwordHash は password.ts の形式
+export type User = {
+    id: string;
+    email: string; // 小文字に正規化して保存する
+    name: string;
+    role?: UserRole; // 省略時は customer
+    passwordHash: string;
+    createdAt: string;
+};
+
+// クライアントに返してよい項目だけを持つアカウント情報
+export type PublicUser = Pick<User, 'id' | 'email' | 'name' | 'createdAt'> & { role: UserRole };
+
+// data/auth-sessions.json に保存するログインセッション。Cookie のトークンそのものは保存せず、ハッシュだけを持つ
+export type AuthSession = {
+    tokenHash: string;
+    userId: string;
+    createdAt: string;
+    expiresAt: string;
+};
+
+export type RegisterInput = {
+    email?: unknown;
+    password?: unknown;
+    name?: unknown;
+};
+
+export type CredentialErrors = Partial<Record<'email' | 'password' | 'name', string>>;
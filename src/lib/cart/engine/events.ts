@@ -0,0 +1,25 @@
+import { CartAction, CartEvent, CartItem, CartState } from './types';
+
+// 変更前後の明細を比べて、追加・削除・数量の変更をイベントにする
+export const diffCartItems = (previous: CartItem[], next: CartItem[]): CartEvent[] => {
+    const removed: CartEvent[] = previous
+        .filter((item) => !next.some((n) => n.id === item.id))
+        .map((item) => ({ type: 'itemRemoved', item }));
+    const changed: CartEvent[] = next.flatMap((item): CartEvent[] => {
+        const before = previous.find((p) => p.id === item.id);
+        if (!before) {
+            return [{ type: 'itemAdded', item }];
+        }
+        return before.quantity !== item.quantity
+            ? [{ type: 'quantityChanged', item, previousQuantity: before.quantity }]
+            : [];
+    });
+    return [...removed, ...changed];
+};
+
+// お客様の操作による変化だけを通知する。読み込み・同期・失敗時の取り直し・アーカイブからの復元・
+// 他のタブでの変更による明細の変化は、お客様がこの画面で行った操作ではないため通知しない
+export const toCartEvents = (previous: CartState, next: CartState, action: CartAction): CartEvent[] =>
+    'origin' in action && action.origin === 'user' && previous.status === 'ready' && previous.items !== next.items
+        ? diffCartItems(previous.items, next.items)
+        : [];
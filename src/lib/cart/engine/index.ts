@@ -0,0 +1,30 @@
+/*
+[概要]
+カートエンジン。カートの状態遷移 (reducer)・集計 (selectors)・変更の通知 (events) を、React に依存しない純粋な関数としてまとめる。
+- ブラウザの React の Provider (context/cart) はこのストアを包むだけにし、保存先・API との同期は Provider 側で行う
+- サーバー (lib/cart) とも CartItem などの型を共有する
+*/
+export { diffCartItems, toCartEvents } from './events';
+export { cartReducer, initialCartState } from './reducer';
+export {
+    selectIsLoading,
+    selectItemCount,
+    selectLineTotals,
+    selectSubtotal,
+    summarizeCart,
+    toPricedLine,
+} from './selectors';
+export { createCartStore } from './store';
+export type { CartEventListener, CartStore } from './store';
+export type {
+    ArchivedCartView,
+    CartAction,
+    CartActionOrigin,
+    CartEvent,
+    CartEventHooks,
+    CartEventType,
+    CartItem,
+    CartState,
+    CartStatus,
+    CartView,
+} from './types';
@@ -0,0 +1,45 @@
+import { CartAction, CartItem, CartState } from './types';
+
+export const initialCartState: CartState = {
+    items: [],
+    promotion: null,
+    status: 'loading',
+};
+
+const setQuantity = (items: CartItem[], id: string, quantity: number): CartItem[] =>
+    quantity === 0
+        ? items.filter((item) => item.id !== id)
+        : items.map((item) => (item.id === id ? { ...item, quantity } : item));
+
+// カートの状態遷移。副作用 (保存・API の呼び出し) は持たず、同じ入力には同じ状態を返す
+export const cartReducer = (state: CartState, action: CartAction): CartState => {
+    switch (action.type) {
+        case 'storageLoaded':
+            return { ...state, items: action.items, status: 'syncing' };
+        case 'serverViewReceived':
+            return { items: action.view.items, promotion: action.view.promotion, status: 'ready' };
+        case 'syncFailed':
+            // サーバーに接続できなくても、保存されていた明細で表示を続ける
+            return { ...state, status: 'ready' };
+        case 'itemsReplaced':
+            return { ...state, items: action.items };
+        case 'promotionReceived':
+            return { ...state, promotion: action.promotion };
+        case 'quantityChanged':
+            // 負の数・小数は受け付けない (サーバーに送る前に操作側で確認する)
+            if (!Number.isInteger(action.quantity) || action.quantity < 0) {
+                return state;
+            }
+            if (!state.items.some((item) => item.id === action.id)) {
+                return state;
+            }
+            return { ...state, items: setQuantity(state.items, action.id, action.quantity) };
+        case 'itemRemoved':
+            if (!state.items.some((item) => item.id === action.id)) {
+                return state;
+            }
+            return { ...state, items: setQuantity(state.items, action.id, 0) };
+        case 'cleared':
+            return state.items.length === 0 ? state : { ...state, items: [] };
+    }
+};
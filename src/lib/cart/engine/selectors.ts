@@ -0,0 +1,34 @@
+import { PricedLine, PriceSummary, calculateInvoice, lineSubtotal, lineTotalWithTax } from '../../pricing';
+import type { PromotionEvaluation } from '../../promotions/types';
+import { CartItem, CartState } from './types';
+
+export const toPricedLine = ({ price, quantity, taxCategory }: CartItem): PricedLine => ({
+    unitPrice: price,
+    quantity,
+    taxCategory,
+});
+
+// カートの商品の点数 (数量の合計)
+export const selectItemCount = ({ items }: Pick<CartState, 'items'>): number =>
+    items.reduce((total, item) => total + item.quantity, 0);
+
+// 割引・送料を含まない商品の合計 (税抜)
+export const selectSubtotal = ({ items }: Pick<CartState, 'items'>): number =>
+    items.reduce((total, item) => total + lineSubtotal(toPricedLine(item)), 0);
+
+// 明細ごとの小計 (税込)。キーは明細の id (SKU)
+export const selectLineTotals = ({ items }: Pick<CartState, 'items'>): Record<string, number> =>
+    Object.fromEntries(items.map((item) => [item.id, lineTotalWithTax(toPricedLine(item))]));
+
+export const selectIsLoading = ({ status }: Pick<CartState, 'status'>): boolean => status !== 'ready';
+
+// 割引はサーバーが計算した結果 (promotion) の税率別の内訳を使う。送料も見積もり (ShippingQuote.fee) を渡す
+export const summarizeCart = (
+    items: CartItem[],
+    promotion?: PromotionEvaluation | null,
+    shipping: number | null = null
+): PriceSummary =>
+    calculateInvoice(items.map(toPricedLine), {
+        discounts: promotion?.discounts.map((discount) => discount.allocations),
+        shipping,
+    });
@@ -0,0 +1,67 @@
+import { toCartEvents } from './events';
+import { cartReducer, initialCartState } from './reducer';
+import { CartAction, CartEvent, CartEventHooks, CartState } from './types';
+
+export type CartStore = {
+    getState: () => CartState;
+    dispatch: (action: CartAction) => void;
+    // 状態が変わったときに listener を呼ぶ。戻り値で購読を解除する (React の useSyncExternalStore にそのまま渡せる)
+    subscribe: (listener: () => void) => () => void;
+    setHooks: (hooks: CartEventHooks) => void;
+    // すべてのイベントを受け取る listener を追加する (ヘッダーのミニカートの通知など)。戻り値で解除する
+    onEvent: (listener: CartEventListener) => () => void;
+};
+
+export type CartEventListener = (event: CartEvent, state: CartState) => void;
+
+// フック・listener の失敗でカートの操作を止めない
+const runSafely = (listener: CartEventListener | undefined, event: CartEvent, state: CartState) => {
+    try {
+        listener?.(event, state);
+    } catch (error) {
+        console.error(`カートのイベントの処理に失敗しました (${event.type}):`, error);
+    }
+};
+
+/*
+カートの状態を持つストア。React などの画面の仕組みには依存しない。
+dispatch した操作を cartReducer で反映し、購読者への通知とイベントのフック・listener の呼び出しを行う。
+*/
+export const createCartStore = (hooks: CartEventHooks = {}, initialState: CartState = initialCartState): CartStore => {
+    let state = initialState;
+    let currentHooks = hooks;
+    const listeners = new Set<() => void>();
+    const eventListeners = new Set<CartEventListener>();
+
+    return {
+        getState: () => state,
+        dispatch: (action) => {
+            const previous = state;
+            const next = cartReducer(previous, action);
+            if (next === previous) {
+                return;
+            }
+            state = next;
+            listeners.forEach((listener) => listener());
+            toCartEvents(previous, next, action).forEach((event) => {
+                runSafely(currentHooks[event.type] as CartEventListener | undefined, event, next);
+                eventListeners.forEach((listener) => runSafely(listener, event, next));
+            });
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        setHooks: (next) => {
+            currentHooks = next;
+        },
+        onEvent: (listener) => {
+            eventListeners.add(listener);
+            return () => {
+                eventListeners.delete(listener);
+            };
+        },
+    };
+};
@@ -0,0 +1,77 @@
+import type { StockStatus } from '../../inventory/types';
+import type { TaxCategory } from '../../pricing/types';
+import type { PromotionEvaluation } from '../../promotions/types';
+
+// 表示用のカート明細。name / price / imageUrl はサーバーがカタログから解決した値
+// id は SKU (バリエーションのない商品は商品IDと同じ)。同じ商品でもサイズ違いは別の明細になる
+export type CartItem = {
+    id: string;
+    productId: string;
+    name: string;
+    options: Record<string, string>; // 選択したバリエーション (例: { サイズ: 'M' })
+    price: number; // 税抜の本体価格
+    taxCategory: TaxCategory;
+    quantity: number;
+    imageUrl?: string;
+    maxQuantity: number; // 在庫数と購入上限から決まる、購入できる最大数
+    stockStatus: StockStatus;
+};
+
+// カートAPI (/api/cart) のレスポンス。割引はサーバーが計算した結果
+export type CartView = {
+    items: CartItem[];
+    promotion: PromotionEvaluation;
+};
+
+// 保持期間が過ぎてアーカイブされた「前回のカート」(/api/cart/archive)。savedAt は最後にカートを変更した日時
+export type ArchivedCartView = {
+    savedAt: string;
+    items: CartItem[];
+};
+
+/*
+カートの読み込み状況
+- loading: ブラウザの保存先から明細を読み込んでいる
+- syncing: 読み込んだ明細をサーバーのカートと同期している
+- ready  : サーバーのカートの内容を表示している
+*/
+export type CartStatus = 'loading' | 'syncing' | 'ready';
+
+export type CartState = {
+    items: CartItem[];
+    promotion: PromotionEvaluation | null;
+    status: CartStatus;
+};
+
+/*
+カートの状態を変える操作 (reducer.ts)。
+quantityChanged / itemRemoved / cleared はサーバーの応答を待たずに表示を変える (楽観的更新) ためのもので、
+最終的な内容は serverViewReceived で受け取ったサーバーのカートに置き換える。
+お客様の操作 (追加・数量の変更・削除) による変化には origin: 'user' を付ける。
+*/
+export type CartAction =
+    | { type: 'storageLoaded'; items: CartItem[] }
+    | { type: 'serverViewReceived'; view: CartView; origin?: CartActionOrigin }
+    | { type: 'syncFailed' }
+    | { type: 'itemsReplaced'; items: CartItem[] } // 他のタブでの変更
+    | { type: 'promotionReceived'; promotion: PromotionEvaluation }
+    | { type: 'quantityChanged'; id: string; quantity: number; origin?: CartActionOrigin } // 0 は削除
+    | { type: 'itemRemoved'; id: string; origin?: CartActionOrigin }
+    | { type: 'cleared'; origin?: CartActionOrigin };
+
+// 操作のきっかけ。省略した場合は system (読み込み・同期・失敗時の取り直し・復元・他のタブでの変更など)
+export type CartActionOrigin = 'user' | 'system';
+
+// カートの明細が変わったときに通知するイベント (events.ts)。
+// 表示が確定した後 (status: ready) の、お客様の操作 (origin: 'user') による変更だけを通知する
+export type CartEvent =
+    | { type: 'itemAdded'; item: CartItem }
+    | { type: 'itemRemoved'; item: CartItem }
+    | { type: 'quantityChanged'; item: CartItem; previousQuantity: number };
+
+export type CartEventType = CartEvent['type'];
+
+// イベントごとのフック (アクセス解析への送信など)。state は変更後の状態
+export type CartEventHooks = {
+    [K in CartEventType]?: (event: Extract<CartEvent, { type: K }>, state: CartState) => void;
+};
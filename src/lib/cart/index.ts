@@ -0,0 +1,429 @@
+/*
+[概要]
+サーバー側のカートストア。カートID (ゲストはカートセッションID、ログイン中はアカウント。lib/session の getCartId) ごとに
+「SKU と数量」とクーポンコードだけを data/carts.json に保存し、
+商品名・価格・画像・割引額は常にカタログとプロモーション定義から取り直す。
+クライアントが送ってきた価格は一切信用しない。
+保持期間 (retention.ts) が過ぎたカートは削除せず data/cart-archive.json にアーカイブし、「前回のカート」として復元できるようにする。
+*/
+import type { ArchivedCartView, CartItem, CartView } from './engine';
+import { Sku, getProducts, getSku, resolveSku } from '../catalog';
+import type { DeliveryMethodId, Prefecture } from '../checkout';
+import { Availability, InventoryError, assertPurchasable, withAvailability } from '../inventory';
+import {
+    PromotionLine,
+    PromotionRejection,
+    evaluateCart,
+    normalizeCouponCode,
+    toPromotionLine,
+    validateCoupon,
+} from '../promotions';
+import { ShippingError, ShippingQuote, quoteShipping } from '../shipping';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { getCartRetentionPolicy, isArchiveExpired, isCartExpired, isReminderDue } from './retention';
+import { ArchivedCart, CartLine, StoredCart } from './types';
+
+const CARTS_FILE = 'carts.json';
+const ARCHIVE_FILE = 'cart-archive.json';
+
+export class CartError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly rejection?: PromotionRejection
+    ) {
+        super(message);
+        this.name = 'CartError';
+    }
+}
+
+const readCarts = () => readJsonFile<Record<string, StoredCart>>(CARTS_FILE, {});
+
+const readArchive = () => readJsonFile<Record<string, ArchivedCart>>(ARCHIVE_FILE, {});
+
+// カート・アーカイブを書き換えて保存する。読み込みから保存までファイルのロック中に行い、同時の更新を上書きしない
+// 両方を書き換える場合は、カート → アーカイブの順にロックする
+type StoredCarts = Record<string, StoredCart>;
+type CartArchive = Record<string, ArchivedCart>;
+
+const updateCarts = (update: (carts: StoredCarts) => StoredCarts | Promise<StoredCarts>) =>
+    updateJsonFile<StoredCarts>(CARTS_FILE, {}, update);
+
+const updateArchive = (update: (archive: CartArchive) => CartArchive) =>
+    updateJsonFile<CartArchive>(ARCHIVE_FILE, {}, update);
+
+// 以前の形式 ({ productId, quantity }) で保存された明細は、商品ID を SKU として読み込む
+type LegacyCartLine = { productId: string; quantity: number };
+
+// 指定したキーを除いたコピー
+const omitKey = <T>(record: Record<string, T>, key: string): Record<string, T> =>
+    Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+
+const migrateLine = (line: CartLine | LegacyCartLine): CartLine =>
+    'sku' in line ? line : { sku: line.productId, quantity: line.quantity };
+
+// shouldArchive に当てはまるカートをアーカイブに移し、移した件数を返す。
+// 同じカートIDの以前のアーカイブは置き換える (商品のないカートはそのまま削除する)
+const archiveCarts = async (shouldArchive: (cartId: string, cart: StoredCart) => boolean, now = new Date()) => {
+    let count = 0;
+    await updateCarts(async (carts) => {
+        const targets = Object.keys(carts).filter((cartId) => shouldArchive(cartId, carts[cartId]));
+        count = targets.length;
+        if (targets.length === 0) {
+            return carts;
+        }
+        const archived = Object.fromEntries(targets
+            .filter((cartId) => carts[cartId].lines.length > 0)
+            .map((cartId) => [
+                cartId,
+                { ...carts[cartId], lines: carts[cartId].lines.map(migrateLine), archivedAt: now.toISOString() },
+            ]));
+        await updateArchive((archive) => ({ ...archive, ...archived }));
+        return Object.fromEntries(Object.entries(carts).filter(([cartId]) => !targets.includes(cartId)));
+    });
+    return count;
+};
+
+const readCart = async (cartId: string): Promise<StoredCart> => {
+    const carts = await readCarts();
+    const cart = carts[cartId];
+    if (!cart) {
+        return { lines: [], updatedAt: new Date().toISOString() };
+    }
+    // 保持期間が過ぎたカートは、読み込んだときにアーカイブへ移して空のカートから始める
+    if (isCartExpired(cart.updatedAt)) {
+        await archiveCarts((id, stored) => id === cartId && isCartExpired(stored.updatedAt));
+        return { lines: [], updatedAt: new Date().toISOString() };
+    }
+    return { ...cart, lines: cart.lines.map(migrateLine) };
+};
+
+// 変更したカートは、お知らせメールの送信済みの記録 (remindedAt) を消して、また放置されたら送るようにする
+const writeCart = async (cartId: string, { lines, couponCode }: Pick<StoredCart, 'lines' | 'couponCode'>) => {
+    await updateCarts((carts) => {
+        const others = omitKey(carts, cartId);
+        return lines.length === 0 && !couponCode
+            ? others
+            : { ...others, [cartId]: { lines, couponCode, updatedAt: new Date().toISOString() } };
+    });
+};
+
+// 保存済みの明細をカタログの SKU と在庫状況に対応付ける (販売終了した商品は除外)
+const matchSkus = async (lines: CartLine[]) => {
+    const products = await getProducts();
+    const withStock = await withAvailability(products);
+    return lines.flatMap((line) => {
+        const sku = resolveSku(products, line.sku);
+        const availability = withStock.find((p) => p.id === sku?.product.id)?.skuAvailability[line.sku];
+        return sku && availability ? [{ sku, availability, quantity: line.quantity }] : [];
+    });
+};
+
+const toCartItem = (sku: Sku, availability: Availability, quantity: number): CartItem => ({
+    id: sku.sku,
+    productId: sku.product.id,
+    name: sku.product.name,
+    options: sku.options,
+    price: sku.price,
+    taxCategory: sku.product.taxCategory,
+    quantity,
+    imageUrl: sku.imageUrl,
+    maxQuantity: availability.maxQuantity,
+    stockStatus: availability.status,
+});
+
+const toPromotionLines = async (lines: CartLine[]): Promise<PromotionLine[]> =>
+    (await matchSkus(lines)).map(({ sku, quantity }) => toPromotionLine(sku, quantity));
+
+// カタログの最新情報とプロモーションの評価結果から、クライアントに返すカートを組み立てる
+const buildView = async (cart: Pick<StoredCart, 'lines' | 'couponCode'>): Promise<CartView> => {
+    const matched = await matchSkus(cart.lines);
+    const promotion = await evaluateCart(
+        matched.map(({ sku, quantity }) => toPromotionLine(sku, quantity)),
+        cart.couponCode ?? null
+    );
+    return {
+        items: matched.map(({ sku, availability, quantity }) => toCartItem(sku, availability, quantity)),
+        promotion,
+    };
+};
+
+const saveLines = async (cartId: string, lines: CartLine[]): Promise<CartView> => {
+    const { couponCode } = await readCart(cartId);
+    await writeCart(cartId, { lines, couponCode });
+    return buildView({ lines, couponCode });
+};
+
+const assertQuantity = (quantity: unknown, min: number): number => {
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < min) {
+        throw new CartError(`数量は${min}以上の整数で指定してください`, 400);
+    }
+    return quantity;
+};
+
+// 在庫数と購入上限を超える数量はカートに入れられない
+const assertInStock = async (sku: Sku, quantity: number) => {
+    try {
+        await assertPurchasable(sku, quantity);
+    } catch (error) {
+        if (error instanceof InventoryError) {
+            throw new CartError(error.message, 409);
+        }
+        throw error;
+    }
+};
+
+export const getCart = async (cartId: string): Promise<CartView> => {
+    return buildView(await readCart(cartId));
+};
+
+// 同じ SKU はまとめて1行にする (サイズ違いなどは別の行になる)
+export const addCartItem = async (
+    cartId: string,
+    skuId: string,
+    quantity: unknown = 1
+): Promise<CartView> => {
+    const amount = assertQuantity(quantity, 1);
+    const sku = await getSku(skuId);
+    if (!sku) {
+        throw new CartError('商品が見つかりません', 404);
+    }
+
+    const { lines } = await readCart(cartId);
+    const existing = lines.find((line) => line.sku === skuId);
+    await assertInStock(sku, (existing?.quantity ?? 0) + amount);
+    const nextLines = existing
+        ? lines.map((line) =>
+            line.sku === skuId ? { ...line, quantity: line.quantity + amount } : line
+        )
+        : [...lines, { sku: skuId, quantity: amount }];
+
+    return saveLines(cartId, nextLines);
+};
+
+// 数量を上書きする。0 を指定した場合は明細を削除する
+export const updateCartItem = async (
+    cartId: string,
+    skuId: string,
+    quantity: unknown
+): Promise<CartView> => {
+    const amount = assertQuantity(quantity, 0);
+    const { lines } = await readCart(cartId);
+    if (!lines.some((line) => line.sku === skuId)) {
+        throw new CartError('カートに該当する商品がありません', 404);
+    }
+    const sku = await getSku(skuId);
+    if (sku && amount > 0) {
+        await assertInStock(sku, amount);
+    }
+
+    const nextLines = amount === 0
+        ? lines.filter((line) => line.sku !== skuId)
+        : lines.map((line) => (line.sku === skuId ? { ...line, quantity: amount } : line));
+
+    return saveLines(cartId, nextLines);
+};
+
+export const removeCartItem = async (cartId: string, skuId: string): Promise<CartView> => {
+    const { lines } = await readCart(cartId);
+    return saveLines(cartId, lines.filter((line) => line.sku !== skuId));
+};
+
+export const clearCart = async (cartId: string): Promise<CartView> => {
+    await writeCart(cartId, { lines: [] });
+    return buildView({ lines: [] });
+};
+
+// 現在のカートに適用できるクーポンだけを登録する
+export const applyCoupon = async (cartId: string, code: unknown): Promise<CartView> => {
+    if (typeof code !== 'string' || code.trim() === '') {
+        throw new CartError('クーポンコードを入力してください', 400);
+    }
+    const { lines } = await readCart(cartId);
+    const rejection = await validateCoupon(await toPromotionLines(lines), code);
+    if (rejection) {
+        throw new CartError(rejection.message, 422, rejection);
+    }
+
+    const couponCode = normalizeCouponCode(code);
+    await writeCart(cartId, { lines, couponCode });
+    return buildView({ lines, couponCode });
+};
+
+export const removeCoupon = async (cartId: string): Promise<CartView> => {
+    const { lines } = await readCart(cartId);
+    await writeCart(cartId, { lines });
+    return buildView({ lines });
+};
+
+// 現在のカートの送料の目安 (配送先の都道府県・配送方法ごと)。割引後の金額で送料無料かどうかを判定する
+export const quoteCartShipping = async (
+    cartId: string,
+    prefecture: Prefecture,
+    deliveryMethod: DeliveryMethodId
+): Promise<ShippingQuote> => {
+    const { lines, couponCode } = await readCart(cartId);
+    const matched = await matchSkus(lines);
+    const promotion = await evaluateCart(
+        matched.map(({ sku, quantity }) => toPromotionLine(sku, quantity)),
+        couponCode ?? null
+    );
+    try {
+        return await quoteShipping(matched, prefecture, deliveryMethod, promotion);
+    } catch (error) {
+        if (error instanceof ShippingError) {
+            throw new CartError(error.message, error.status);
+        }
+        throw error;
+    }
+};
+
+export { getCartRetentionPolicy, isArchiveExpired, isCartExpired, isReminderDue } from './retention';
+export type { CartRetentionPolicy } from './retention';
+export type { ArchivedCart, CartLine, StoredCart } from './types';
+
+// 同じ SKU がどちらにもある場合は多い方の数量を使い、現在の購入可能数 (在庫・購入上限) までに抑える
+const mergeLines = async (base: CartLine[], incoming: CartLine[]): Promise<CartLine[]> => {
+    const merged = [...base];
+    for (const line of incoming) {
+        const index = merged.findIndex((existing) => existing.sku === line.sku);
+        if (index === -1) {
+            merged.push(line);
+        } else {
+            merged[index] = { ...line, quantity: Math.max(line.quantity, merged[index].quantity) };
+        }
+    }
+    const matched = await matchSkus(merged);
+    return merged.map((line) => {
+        const maxQuantity = matched.find((m) => m.sku.sku === line.sku)?.availability.maxQuantity ?? 0;
+        return maxQuantity > 0 ? { ...line, quantity: Math.min(line.quantity, maxQuantity) } : line;
+    });
+};
+
+/*
+ログイン時に、ゲストのカートをアカウントのカートにまとめる。
+- 同じ SKU がどちらにもある場合は、多い方の数量を使う (同じ商品を両方の端末で入れていても倍にならない)
+- 数量は現在の購入可能数 (在庫・購入上限) までに抑える
+- クーポンはゲストのカートで入力したものを優先する
+- ゲストのカートのアーカイブは、アカウントにアーカイブがなければ引き継ぐ
+まとめた後、ゲストのカートは削除する。
+*/
+export const mergeCarts = async (guestCartId: string, userCartId: string): Promise<CartView> => {
+    // 期限切れのカートは読み込み時にアーカイブへ移すため、アーカイブの引き継ぎは読み込んだ後に行う
+    const guest = await readCart(guestCartId);
+    const user = await readCart(userCartId);
+    if (guestCartId !== userCartId) {
+        await moveArchive(guestCartId, userCartId);
+    }
+    if (guestCartId === userCartId || guest.lines.length === 0) {
+        return buildView(user);
+    }
+
+    const lines = await mergeLines(user.lines, guest.lines);
+    const couponCode = guest.couponCode ?? user.couponCode;
+    await writeCart(userCartId, { lines, couponCode });
+    await writeCart(guestCartId, { lines: [] });
+    return buildView({ lines, couponCode });
+};
+
+// 復元できる期間内のアーカイブ
+const findArchive = async (cartId: string): Promise<ArchivedCart | undefined> => {
+    const archived = (await readArchive())[cartId];
+    return archived && !isArchiveExpired(archived.archivedAt) ? archived : undefined;
+};
+
+const deleteArchive = async (cartId: string) => {
+    await updateArchive((archive) => omitKey(archive, cartId));
+};
+
+const moveArchive = async (fromCartId: string, toCartId: string) => {
+    await updateArchive((archive) => {
+        const moved = archive[fromCartId];
+        const others = omitKey(archive, fromCartId);
+        return moved ? { ...others, [toCartId]: others[toCartId] ?? moved } : archive;
+    });
+};
+
+// 「前回のカート」。復元できるアーカイブがない (販売終了などで商品が残っていない場合も含む) ときは null
+export const getArchivedCart = async (cartId: string): Promise<ArchivedCartView | null> => {
+    const archived = await findArchive(cartId);
+    if (!archived) {
+        return null;
+    }
+    const { items } = await buildView(archived);
+    return items.length > 0 ? { savedAt: archived.updatedAt, items } : null;
+};
+
+// 明細を今のカートにまとめる (ログイン時のカートの統合と同じ規則)。クーポンは今のカートのものを優先する
+const restoreLines = async (cartId: string, lines: CartLine[], couponCode?: string): Promise<CartView> => {
+    const current = await readCart(cartId);
+    const merged = await mergeLines(current.lines, lines);
+    const nextCouponCode = current.couponCode ?? couponCode;
+    await writeCart(cartId, { lines: merged, couponCode: nextCouponCode });
+    return buildView({ lines: merged, couponCode: nextCouponCode });
+};
+
+// 「前回のカート」を今のカートに戻し、アーカイブを削除する
+export const restoreArchivedCart = async (cartId: string): Promise<CartView> => {
+    const archived = await findArchive(cartId);
+    if (!archived) {
+        throw new CartError('復元できるカートがありません', 404);
+    }
+    const view = await restoreLines(cartId, archived.lines, archived.couponCode);
+    await deleteArchive(cartId);
+    return view;
+};
+
+// 「前回のカート」を復元せずに削除する
+export const discardArchivedCart = async (cartId: string): Promise<CartView> => {
+    await deleteArchive(cartId);
+    return getCart(cartId);
+};
+
+// お知らせメールの復元リンク (recovery.ts) の明細を今のカートにまとめる
+export const restoreCartLines = (cartId: string, lines: CartLine[]): Promise<CartView> =>
+    restoreLines(cartId, lines);
+
+/*
+定期実行のジョブ用。保持期間が過ぎたカートをまとめてアーカイブに移し、
+復元できる期間が過ぎたアーカイブを削除する (読み込み時にも個別にアーカイブするが、開かれないカートもあるため)。
+*/
+export const archiveExpiredCarts = async (now = new Date()): Promise<{ archived: number; purged: number }> => {
+    const policy = getCartRetentionPolicy();
+    const archived = await archiveCarts((_cartId, cart) => isCartExpired(cart.updatedAt, policy, now.getTime()), now);
+
+    let purged = 0;
+    await updateArchive((archive) => {
+        const kept = Object.entries(archive).filter(([, cart]) => !isArchiveExpired(cart.archivedAt, policy, now.getTime()));
+        purged = Object.keys(archive).length - kept.length;
+        return Object.fromEntries(kept);
+    });
+    return { archived, purged };
+};
+
+// お知らせメールを送る頃合いになったカート (しばらく変更がなく、保持期間内で、まだ送っていないもの)
+export const listRemindableCarts = async (
+    filter: (cartId: string) => boolean,
+    now = new Date()
+): Promise<{ cartId: string; lines: CartLine[]; items: CartItem[] }[]> => {
+    const policy = getCartRetentionPolicy();
+    const carts = await readCarts();
+    const due = Object.entries(carts).filter(([cartId, cart]) =>
+        filter(cartId)
+        && cart.lines.length > 0
+        && !cart.remindedAt
+        && isReminderDue(cart.updatedAt, policy, now.getTime())
+        && !isCartExpired(cart.updatedAt, policy, now.getTime())
+    );
+    return Promise.all(due.map(async ([cartId, cart]) => {
+        const lines = cart.lines.map(migrateLine);
+        return { cartId, lines, items: (await buildView({ lines })).items };
+    }));
+};
+
+// お知らせメールを送ったことを記録する (カートの最終変更日時は変えない)
+export const markCartReminded = async (cartId: string, now = new Date()): Promise<void> => {
+    await updateCarts((carts) =>
+        carts[cartId] ? { ...carts, [cartId]: { ...carts[cartId], remindedAt: now.toISOString() } } : carts
+    );
+};
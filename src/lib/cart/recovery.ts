@@ -0,0 +1,178 @@
+/*
+[概要]
+放置されたカートの回復。
+- ログイン中のお客様のカートが放置されたら、お知らせメール (カゴ落ちメール) を1回送る
+- メールのリンクには、カートの明細を署名付きで埋め込む (復元リンク)。
+  /api/cart/recover で署名と有効期限を確かめ、開いたブラウザのカートに明細を戻す (カートが期限切れでアーカイブされた後でも使える)
+- 定期実行のジョブ (runCartJobs) でお知らせメールの送信とカートのアーカイブをまとめて行う。
+  /api/cron/carts から呼び出すか、環境変数 CART_JOBS_INTERVAL_MINUTES を指定してサーバー内で定期実行する (instrumentation.ts)
+署名の鍵は環境変数 CART_RECOVERY_SECRET で指定する。本番環境で未設定の場合は復元リンクを無効にし、
+お知らせメールにはカートページへのリンクだけを載せる (開発環境では固定の鍵を使う)。
+*/
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getUserById } from '../auth';
+import { sendCartReminderEmail, toAbsoluteUrl } from '../email';
+import { DEFAULT_LOCALE, Locale, isLocale } from '../i18n/config';
+import { listOrdersByUser } from '../orders';
+import { fromUserCartId } from '../session';
+import {
+    CartError,
+    archiveExpiredCarts,
+    getCartRetentionPolicy,
+    listRemindableCarts,
+    markCartReminded,
+    restoreCartLines,
+} from './index';
+import type { CartView } from './engine';
+import type { CartLine } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 復元リンクに埋め込む内容。locale は復元後に開くカートページの言語
+type RecoveryPayload = {
+    lines: CartLine[];
+    locale: Locale;
+    expiresAt: string;
+};
+
+export type CartRecovery = {
+    view: CartView;
+    locale: Locale;
+};
+
+export type CartJobResult = {
+    reminded: number;
+    archived: number;
+    purged: number;
+};
+
+const DEV_SECRET = 'cart_recovery_dev_secret';
+
+// 署名の鍵 (復元リンクが無効の場合は undefined)
+const getSecret = (): string | undefined =>
+    process.env.CART_RECOVERY_SECRET || (process.env.NODE_ENV === 'production' ? undefined : DEV_SECRET);
+
+const isCartRecoveryEnabled = (): boolean => getSecret() !== undefined;
+
+const sign = (encodedPayload: string) => {
+    const secret = getSecret();
+    if (!secret) {
+        throw new CartError('カートの復元リンクは利用できません', 503);
+    }
+    return createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+};
+
+const isCartLine = (value: unknown): value is CartLine =>
+    typeof value === 'object' && value !== null
+    && typeof (value as CartLine).sku === 'string'
+    && Number.isInteger((value as CartLine).quantity) && (value as CartLine).quantity > 0;
+
+// "本文 (base64url の JSON).署名" の形式のトークンを作る
+export const createRecoveryToken = (lines: CartLine[], locale: Locale, expiresAt: Date): string => {
+    const payload: RecoveryPayload = {
+        lines: lines.map(({ sku, quantity }) => ({ sku, quantity })),
+        locale,
+        expiresAt: expiresAt.toISOString(),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+};
+
+// 署名が正しく、有効期限内のトークンだけを受け付ける
+export const readRecoveryToken = (token: string, now = new Date()): RecoveryPayload => {
+    const [encoded, signature] = token.split('.');
+    const expected = encoded ? sign(encoded) : '';
+    if (
+        !encoded || !signature
+        || signature.length !== expected.length
+        || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+        throw new CartError('カートの復元リンクが正しくありません', 400);
+    }
+
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as Partial<RecoveryPayload>;
+    if (!Array.isArray(payload.lines) || !payload.lines.every(isCartLine) || typeof payload.expiresAt !== 'string') {
+        throw new CartError('カートの復元リンクが正しくありません', 400);
+    }
+    if (!(new Date(payload.expiresAt).getTime() > now.getTime())) {
+        throw new CartError('カートの復元リンクの有効期限が切れています', 410);
+    }
+    return {
+        lines: payload.lines,
+        locale: isLocale(payload.locale) ? payload.locale : DEFAULT_LOCALE,
+        expiresAt: payload.expiresAt,
+    };
+};
+
+// お知らせメールに載せる復元リンク。無効の場合は undefined (メールはカートページへのリンクにする)
+const toRecoveryUrl = (lines: CartLine[], locale: Locale, expiresAt: Date): string | undefined =>
+    isCartRecoveryEnabled()
+        ? toAbsoluteUrl(`/api/cart/recover?token=${encodeURIComponent(createRecoveryToken(lines, locale, expiresAt))}`)
+        : undefined;
+
+// 復元リンクの明細を、リンクを開いたブラウザのカートにまとめる
+export const recoverCart = async (cartId: string, token: string): Promise<CartRecovery> => {
+    const { lines, locale } = readRecoveryToken(token);
+    return { view: await restoreCartLines(cartId, lines), locale };
+};
+
+// お知らせメールの言語。アカウントには言語の設定がないため、最後の注文の言語を使う
+const findUserLocale = async (userId: string): Promise<Locale> =>
+    (await listOrdersByUser(userId)).orders[0]?.locale ?? DEFAULT_LOCALE;
+
+// 放置されたカート (ログイン中のお客様のもの) にお知らせメールを送り、送った件数を返す
+export const sendCartReminders = async (now = new Date()): Promise<number> => {
+    const policy = getCartRetentionPolicy();
+    // ゲストのカートはメールアドレスが分からないため対象外
+    const carts = await listRemindableCarts((cartId) => fromUserCartId(cartId) !== null, now);
+    let sent = 0;
+    for (const { cartId, lines, items } of carts) {
+        const user = await getUserById(fromUserCartId(cartId) ?? '');
+        if (!user || items.length === 0) {
+            continue;
+        }
+        try {
+            const locale = await findUserLocale(user.id);
+            const expiresAt = new Date(now.getTime() + policy.recoveryLinkDays * DAY_MS);
+            await sendCartReminderEmail(user.email, locale, {
+                recipientName: user.name,
+                items: items.map(({ id, name, options, quantity, price, taxCategory }) => ({
+                    sku: id,
+                    name,
+                    options,
+                    quantity,
+                    price,
+                    taxCategory,
+                })),
+                cartUrl: toRecoveryUrl(lines, locale, expiresAt),
+            });
+            await markCartReminded(cartId, now);
+            sent += 1;
+        } catch (error) {
+            // 1件の送信に失敗しても、ほかのカートの処理は続ける (次回の実行で送り直す)
+            console.error(`カートのお知らせメールの送信に失敗しました (${cartId}):`, error);
+        }
+    }
+    return sent;
+};
+
+// 定期実行のジョブ。先にお知らせメールを送ってから、保持期間が過ぎたカートをアーカイブする
+export const runCartJobs = async (now = new Date()): Promise<CartJobResult> => {
+    const reminded = await sendCartReminders(now);
+    const { archived, purged } = await archiveExpiredCarts(now);
+    return { reminded, archived, purged };
+};
+
+// 開発サーバーのホットリロードでタイマーが重複しないよう、globalThis に保持する
+const globalForJobs = globalThis as typeof globalThis & { __cartJobsTimer?: ReturnType<typeof setInterval> };
+
+// サーバー内で runCartJobs を定期実行する (instrumentation.ts から呼び出す)
+export const startCartJobScheduler = (intervalMinutes: number): void => {
+    if (globalForJobs.__cartJobsTimer) {
+        clearInterval(globalForJobs.__cartJobsTimer);
+    }
+    // ログは失敗したときだけ残す
+    globalForJobs.__cartJobsTimer = setInterval(() => {
+        runCartJobs().catch((error) => console.error('カートの定期処理に失敗しました:', error));
+    }, intervalMinutes * 60 * 1000);
+};
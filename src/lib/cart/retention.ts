@@ -0,0 +1,47 @@
+/*
+[概要]
+カートの保持期間の設定。サーバー・ブラウザのどちらからも使う。値は環境変数で変更できる。
+- NEXT_PUBLIC_CART_EXPIRY_HOURS: 最後に変更してからこの時間が過ぎたカートは期限切れとして、アーカイブに移す (既定 24時間)
+- NEXT_PUBLIC_CART_ARCHIVE_DAYS: アーカイブしたカートを「前回のカート」として復元できる期間 (既定 30日)
+- CART_REMINDER_AFTER_HOURS    : ログイン中のお客様のカートが放置されてから、お知らせメールを送るまでの時間 (既定 3時間)
+- CART_RECOVERY_LINK_DAYS      : お知らせメールのカート復元リンクの有効期間 (既定 7日)
+ブラウザで読めるのは NEXT_PUBLIC_ の付いた値だけ。お知らせメールの設定はサーバーでのみ使う。
+*/
+
+export type CartRetentionPolicy = {
+    expiryHours: number;
+    archiveDays: number;
+    reminderAfterHours: number;
+    recoveryLinkDays: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 正の数として読めない値は既定値にする
+const readPositiveNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getCartRetentionPolicy = (): CartRetentionPolicy => ({
+    expiryHours: readPositiveNumber(process.env.NEXT_PUBLIC_CART_EXPIRY_HOURS, 24),
+    archiveDays: readPositiveNumber(process.env.NEXT_PUBLIC_CART_ARCHIVE_DAYS, 30),
+    reminderAfterHours: readPositiveNumber(process.env.CART_REMINDER_AFTER_HOURS, 3),
+    recoveryLinkDays: readPositiveNumber(process.env.CART_RECOVERY_LINK_DAYS, 7),
+});
+
+// 経過時間が hours 以内かどうか。日時として読めない場合 (NaN) は過ぎたものとして扱う
+const isWithinHours = (at: string, hours: number, now: number) =>
+    now - new Date(at).getTime() <= hours * HOUR_MS;
+
+// 最後の変更 (updatedAt / savedAt) から保持期間が過ぎたカート
+export const isCartExpired = (updatedAt: string, policy = getCartRetentionPolicy(), now = Date.now()): boolean =>
+    !isWithinHours(updatedAt, policy.expiryHours, now);
+
+// アーカイブしてから復元できる期間が過ぎたカート
+export const isArchiveExpired = (archivedAt: string, policy = getCartRetentionPolicy(), now = Date.now()): boolean =>
+    !isWithinHours(archivedAt, policy.archiveDays * 24, now);
+
+// お知らせメールを送る頃合いになったカート (最後の変更から reminderAfterHours 以上たっている)
+export const isReminderDue = (updatedAt: string, policy = getCartRetentionPolicy(), now = Date.now()): boolean =>
+    !isWithinHours(updatedAt, policy.reminderAfterHours, now);
@@ -0,0 +1,17 @@
+// サーバーに保存するカートの明細。価格や商品名は持たず、表示時にカタログから解決する
+export type CartLine = {
+    sku: string; // バリエーションのない商品は商品ID
+    quantity: number;
+};
+
+export type StoredCart = {
+    lines: CartLine[];
+    couponCode?: string;
+    updatedAt: string;
+    remindedAt?: string; // 放置されたカートのお知らせメールを送った日時 (カートを変更すると消え、また放置されたら送る)
+};
+
+// 保持期間が過ぎてアーカイブに移したカート。「前回のカート」として復元できる
+export type ArchivedCart = StoredCart & {
+    archivedAt: string;
+};
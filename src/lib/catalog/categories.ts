@@ -0,0 +1,12 @@
+// 商品カテゴリ。Product.category にはこの id を設定する
+export const CATEGORIES = [
+    { id: 'kitchen', label: 'キッチン用品' },
+    { id: 'stationery', label: '文房具' },
+    { id: 'fashion', label: 'ファッション' },
+    { id: 'food', label: '食品' },
+] as const;
+
+export type CategoryId = (typeof CATEGORIES)[number]['id'];
+
+export const findCategoryLabel = (id: string): string =>
+    CATEGORIES.find((category) => category.id === id)?.label ?? id;
@@ -0,0 +1,80 @@
+/*
+[概要]
+CSV (RFC 4180) の読み書き。Excel が出力する形式 (ダブルクォートで囲んだセル内の改行・"" のエスケープ、CRLF) に対応する。
+書き出すセルが = + - @ タブ・CR で始まる場合は、表計算ソフトで数式として実行されないよう先頭に ' を付ける。
+*/
+
+export type CsvRow = {
+    line: number; // 行の開始位置 (1 始まり。セル内の改行があるため、表の行番号とは一致しないことがある)
+    cells: string[];
+};
+
+export const parseCsv = (text: string): CsvRow[] => {
+    const rows: CsvRow[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowStart = 1;
+
+    const endRow = () => {
+        cells.push(cell);
+        // 空行 (Excel が末尾に付けるものを含む) は読み飛ばす
+        if (cells.some((value) => value.trim() !== '')) {
+            rows.push({ line: rowStart, cells });
+        }
+        cells = [];
+        cell = '';
+        rowStart = line;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') {
+                    line++;
+                }
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            line++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || cells.length > 0) {
+        endRow();
+    }
+    return rows;
+};
+
+// 表計算ソフトで数式として扱われる文字で始まるセル (CSV インジェクション対策で、書き出すときに先頭に ' を付ける)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// カンマ・ダブルクォート・改行を含むセルだけを囲む
+const escapeCell = (value: string): string => {
+    const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// 書き出すときに付けた先頭の ' を取り除く (書き出した CSV をそのまま取り込めるようにする)
+export const unescapeFormulaCell = (value: string): string =>
+    value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+export const toCsv = (rows: string[][]): string =>
+    rows.map((cells) => cells.map(escapeCell).join(',')).join('\r\n') + '\r\n';
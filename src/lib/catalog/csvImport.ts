@@ -0,0 +1,200 @@
+/*
+[概要]
+商品 CSV の列の定義と、取り込み内容の検証・反映の計画 (保存はしない)。
+- 1行 = 1商品。商品IDが既存の商品と一致すれば更新、一致しなければ新規登録 (空欄の場合は連番で採番) する
+- CSV にない商品は削除しない。見出しにない列は、更新の場合は今の値のまま残す
+- バリエーション (SKU ごとの価格・在庫) は CSV に含めず、更新しても既存のものをそのまま残す
+- 検証は管理画面と同じ validateProductInput で行い、エラーは行ごとにまとめて返す
+*/
+import { TAX_CATEGORY_LABELS } from '../pricing/tax';
+import { CATEGORIES } from './categories';
+import { CsvRow, unescapeFormulaCell } from './csv';
+import { mergeProductDraft, nextProductId, toNewProduct } from './drafts';
+import { Product, ProductErrors, ProductImportAction, ProductImportRow } from './types';
+import { validateProductInput } from './validation';
+import { listSkus } from './variants';
+
+// 見出しは日本語 (header) と項目名 (key) のどちらでも読み込める。書き出しは日本語
+export const PRODUCT_CSV_COLUMNS = [
+    { key: 'id', header: '商品ID' },
+    { key: 'name', header: '商品名' },
+    { key: 'description', header: '商品説明' },
+    { key: 'category', header: 'カテゴリ' },
+    { key: 'price', header: '価格' },
+    { key: 'taxCategory', header: '税区分' },
+    { key: 'imageUrl', header: 'メイン画像' },
+    { key: 'images', header: '追加の画像' },
+    { key: 'stock', header: '在庫数' },
+    { key: 'maxPerOrder', header: '購入上限数' },
+    { key: 'weight', header: '重量(g)' },
+    { key: 'packageSize', header: '梱包サイズ(cm)' },
+] as const;
+
+type ColumnKey = (typeof PRODUCT_CSV_COLUMNS)[number]['key'];
+
+// 商品IDの列がない場合 (すべて新規登録) に必要な列
+const REQUIRED_COLUMNS: ColumnKey[] = ['name', 'category', 'price', 'taxCategory', 'imageUrl', 'stock'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// 追加の画像は1つのセルに "|" 区切りで入れる
+const IMAGE_SEPARATOR = '|';
+
+const PRODUCT_ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+const headerOf = (key: ColumnKey) => PRODUCT_CSV_COLUMNS.find((column) => column.key === key)?.header ?? key;
+
+export const toProductCsvRows = (products: Product[]): string[][] => [
+    PRODUCT_CSV_COLUMNS.map((column) => column.header),
+    ...products.map((product) => [
+        product.id,
+        product.name,
+        product.description,
+        product.category,
+        String(product.price),
+        product.taxCategory,
+        product.imageUrl,
+        (product.images ?? []).join(IMAGE_SEPARATOR),
+        String(product.stock),
+        product.maxPerOrder === undefined ? '' : String(product.maxPerOrder),
+        product.weight === undefined ? '' : String(product.weight),
+        product.packageSize === undefined ? '' : String(product.packageSize),
+    ]),
+];
+
+// 見出し行から「項目 → 列番号」を作る
+const toColumnIndexes = (headerCells: string[]): Partial<Record<ColumnKey, number>> => {
+    const indexes: Partial<Record<ColumnKey, number>> = {};
+    headerCells.forEach((cell, index) => {
+        const label = cell.trim();
+        const column = PRODUCT_CSV_COLUMNS.find(
+            (candidate) => candidate.header === label || candidate.key.toLowerCase() === label.toLowerCase()
+        );
+        if (column && indexes[column.key] === undefined) {
+            indexes[column.key] = index;
+        }
+    });
+    return indexes;
+};
+
+// "1,200" のような桁区切りも受け付ける。数値として読めない値は文字列のまま渡し、検証でエラーにする
+const toInteger = (value: string): number | string | undefined => {
+    const trimmed = value.trim();
+    if (trimmed === '') {
+        return undefined;
+    }
+    return /^(\d+|\d{1,3}(,\d{3})+)$/.test(trimmed) ? Number(trimmed.replace(/,/g, '')) : trimmed;
+};
+
+// カテゴリ・税区分は ID と表示名のどちらでも受け付ける
+const toCategoryId = (value: string): string =>
+    CATEGORIES.find((category) => category.id === value || category.label === value)?.id ?? value;
+
+const toTaxCategory = (value: string): string =>
+    Object.entries(TAX_CATEGORY_LABELS).find(([id, label]) => id === value || label === value)?.[0] ?? value;
+
+const toProductInput = (cell: (key: ColumnKey) => string): Record<string, unknown> => ({
+    name: cell('name'),
+    description: cell('description'),
+    category: toCategoryId(cell('category').trim()),
+    price: toInteger(cell('price')),
+    taxCategory: toTaxCategory(cell('taxCategory').trim()),
+    imageUrl: cell('imageUrl').trim(),
+    images: cell('images').split(IMAGE_SEPARATOR).map((url) => url.trim()).filter((url) => url !== ''),
+    stock: toInteger(cell('stock')),
+    maxPerOrder: toInteger(cell('maxPerOrder')),
+    weight: toInteger(cell('weight')),
+    packageSize: toInteger(cell('packageSize')),
+});
+
+// 入力値が分かるように、空欄でなければ元の値を添える
+const toErrorMessages = (errors: ProductErrors, cell: (key: ColumnKey) => string): string[] =>
+    Object.entries(errors).map(([key, message]) => {
+        const raw = PRODUCT_CSV_COLUMNS.some((column) => column.key === key) ? cell(key as ColumnKey).trim() : '';
+        return raw === '' || key === 'description' ? message : `${message} (入力値: ${raw})`;
+    });
+
+export type ProductImportPlan =
+    | { rows: ProductImportRow[]; products: Product[]; error: null }
+    | { rows: null; products: null; error: string }; // ファイル全体の誤り (見出しがない・行数が多すぎるなど)
+
+export const planProductImport = (products: Product[], csvRows: CsvRow[], now = new Date()): ProductImportPlan => {
+    const [header, ...dataRows] = csvRows.map((row) => ({ ...row, cells: row.cells.map(unescapeFormulaCell) }));
+    if (!header) {
+        return { rows: null, products: null, error: 'CSV ファイルが空です' };
+    }
+    const indexes = toColumnIndexes(header.cells);
+    // 商品IDの列があれば、価格だけ・在庫だけのような一部の列での更新もできる (新規の行は検証でエラーになる)
+    const missing = indexes.id === undefined ? REQUIRED_COLUMNS.filter((key) => indexes[key] === undefined) : [];
+    if (missing.length > 0) {
+        return { rows: null, products: null, error: `必須の列がありません: ${missing.map(headerOf).join('、')}` };
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+        return { rows: null, products: null, error: `一度に取り込めるのは${MAX_IMPORT_ROWS}行までです` };
+    }
+
+    // 新規登録の商品IDがほかの商品の SKU と重ならないようにする
+    const knownSkus = new Set(products.flatMap((product) => listSkus(product).map((sku) => sku.sku)));
+    const explicitIds = dataRows
+        .map((row) => row.cells[indexes.id ?? -1]?.trim() ?? '')
+        .filter((id) => id !== '');
+    const usedIds = [...products.map((product) => product.id), ...explicitIds];
+    const firstLineById = new Map<string, number>();
+    let next = [...products];
+
+    const rows = dataRows.map(({ line, cells }): ProductImportRow => {
+        const cell = (key: ColumnKey) => (indexes[key] === undefined ? '' : cells[indexes[key]] ?? '');
+        const errors: string[] = [];
+        let id = cell('id').trim();
+        if (id === '') {
+            id = nextProductId(usedIds);
+            usedIds.push(id);
+        } else if (!PRODUCT_ID_PATTERN.test(id)) {
+            errors.push('商品IDは半角英数字・"-"・"_" の40文字以内で入力してください');
+        }
+        const duplicateOf = firstLineById.get(id);
+        if (duplicateOf !== undefined) {
+            errors.push(`商品ID「${id}」が${duplicateOf}行目と重複しています`);
+        } else {
+            firstLineById.set(id, line);
+        }
+
+        const existing = products.find((product) => product.id === id);
+        if (!existing && knownSkus.has(id)) {
+            errors.push(`商品ID「${id}」はほかの商品の SKU として使われています`);
+        }
+        // 見出しにない列は、更新の場合は今の値のまま残す
+        const input = toProductInput(cell);
+        for (const column of PRODUCT_CSV_COLUMNS) {
+            if (existing && indexes[column.key] === undefined && column.key !== 'id') {
+                input[column.key] = existing[column.key];
+            }
+        }
+        const { draft, errors: fieldErrors } = validateProductInput(input, existing);
+        if (fieldErrors) {
+            errors.push(...toErrorMessages(fieldErrors, cell));
+        }
+        const name = indexes.name === undefined ? existing?.name ?? '' : cell('name').trim();
+        if (!draft || errors.length > 0) {
+            return { line, id, name, action: existing ? 'update' : 'create', errors };
+        }
+
+        if (!existing) {
+            next.push(toNewProduct(id, draft, now));
+            return { line, id, name, action: 'create', errors };
+        }
+        const updated = mergeProductDraft(existing, draft);
+        const action: ProductImportAction =
+            JSON.stringify(updated) === JSON.stringify(existing) ? 'unchanged' : 'update';
+        next = next.map((product) => (product.id === id ? updated : product));
+        return { line, id, name, action, errors };
+    });
+
+    return { rows, products: next, error: null };
+};
+
+export const countImportActions = (rows: ProductImportRow[]): Record<ProductImportAction, number> => ({
+    create: rows.filter((row) => row.errors.length === 0 && row.action === 'create').length,
+    update: rows.filter((row) => row.errors.length === 0 && row.action === 'update').length,
+    unchanged: rows.filter((row) => row.errors.length === 0 && row.action === 'unchanged').length,
+});
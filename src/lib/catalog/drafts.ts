@@ -0,0 +1,42 @@
+/*
+[概要]
+検証済みの入力 (ProductDraft) から保存する Product を組み立てる。
+管理画面の登録・更新と CSV の取り込みで同じ規則を使う。
+*/
+import { Product, ProductDraft } from './types';
+
+// 商品IDは連番 ("1", "2", ...) で採番する
+export const nextProductId = (ids: string[]): string =>
+    String(ids.reduce((max, id) => Math.max(max, Number(id) || 0), 0) + 1);
+
+// 空の追加画像・購入上限なし・重量や梱包サイズの未登録は項目ごと省く (保存内容を比べたときに差分にならないように)
+const toFields = (draft: ProductDraft) => ({
+    name: draft.name,
+    description: draft.description,
+    category: draft.category,
+    price: draft.price,
+    taxCategory: draft.taxCategory,
+    imageUrl: draft.imageUrl,
+    images: draft.images && draft.images.length > 0 ? draft.images : undefined,
+    stock: draft.stock,
+    maxPerOrder: draft.maxPerOrder,
+    weight: draft.weight,
+    packageSize: draft.packageSize,
+});
+
+export const toNewProduct = (id: string, draft: ProductDraft, now = new Date()): Product => ({
+    ...toFields(draft),
+    id,
+    soldCount: 0,
+    createdAt: now.toISOString(),
+});
+
+// 販売数・発売日・バリエーションの組み合わせはそのまま残し、既存の SKU の価格・在庫だけを更新する
+export const mergeProductDraft = (existing: Product, draft: ProductDraft): Product => ({
+    ...existing,
+    ...toFields(draft),
+    variants: existing.variants?.map((variant) => {
+        const change = draft.variants?.find((v) => v.sku === variant.sku);
+        return change ? { ...variant, stock: change.stock, price: change.price } : variant;
+    }),
+});
@@ -0,0 +1,113 @@
+/*
+[概要]
+CSV ファイルの文字コードの変換。日本の Excel が出力する Shift_JIS (Windows-31J) と BOM 付き UTF-8 を扱う。
+読み込みは TextDecoder を使い、Shift_JIS への書き出しは TextDecoder から逆引きした変換表で行う
+(TextEncoder は UTF-8 しか出力できないため)。
+*/
+import type { CsvEncoding } from './types';
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+const hasUtf8Bom = (bytes: Uint8Array) => UTF8_BOM.every((byte, index) => bytes[index] === byte);
+
+const tryDecode = (bytes: Uint8Array, encoding: CsvEncoding): string | null => {
+    try {
+        return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    } catch {
+        return null;
+    }
+};
+
+/*
+バイト列を文字列にする。encoding が 'auto' の場合は
+BOM があれば UTF-8、UTF-8 として正しく読めれば UTF-8、それ以外は Shift_JIS として読む。
+どの文字コードでも読めない場合は null。
+*/
+export const decodeCsvBytes = (
+    bytes: Uint8Array,
+    encoding: CsvEncoding | 'auto' = 'auto'
+): { text: string; encoding: CsvEncoding } | null => {
+    const candidates: CsvEncoding[] =
+        encoding !== 'auto' ? [encoding] : hasUtf8Bom(bytes) ? ['utf-8'] : ['utf-8', 'shift_jis'];
+    for (const candidate of candidates) {
+        const text = tryDecode(bytes, candidate);
+        if (text !== null) {
+            return { text, encoding: candidate };
+        }
+    }
+    return null;
+};
+
+// Shift_JIS の2バイト文字の範囲 (第1バイト 0x81-0x9F, 0xE0-0xFC / 第2バイト 0x40-0x7E, 0x80-0xFC)
+const isLeadByte = (byte: number) => (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+const isTrailByte = (byte: number) => (byte >= 0x40 && byte <= 0x7e) || (byte >= 0x80 && byte <= 0xfc);
+
+let shiftJisTable: Map<string, number[]> | null = null;
+
+// 文字 → Shift_JIS のバイト列。同じ文字に複数の符号がある場合 (NEC 選定 IBM 拡張文字など) は小さい方を使う
+const getShiftJisTable = (): Map<string, number[]> => {
+    if (shiftJisTable) {
+        return shiftJisTable;
+    }
+    const decoder = new TextDecoder('shift_jis', { fatal: true });
+    const table = new Map<string, number[]>();
+    // 半角カナ (0xA1-0xDF)
+    for (let byte = 0xa1; byte <= 0xdf; byte++) {
+        table.set(decoder.decode(new Uint8Array([byte])), [byte]);
+    }
+    for (let lead = 0x81; lead <= 0xfc; lead++) {
+        if (!isLeadByte(lead)) {
+            continue;
+        }
+        for (let trail = 0x40; trail <= 0xfc; trail++) {
+            if (!isTrailByte(trail)) {
+                continue;
+            }
+            try {
+                const char = decoder.decode(new Uint8Array([lead, trail]));
+                if (!table.has(char)) {
+                    table.set(char, [lead, trail]);
+                }
+            } catch {
+                // 未定義の符号
+            }
+        }
+    }
+    shiftJisTable = table;
+    return table;
+};
+
+/*
+文字列を Shift_JIS に変換する。Shift_JIS で表せない文字 (絵文字や一部の漢字など) があった場合は
+変換せずにその文字の一覧を返す (黙って "?" に置き換えると、取り込み直したときに商品データが壊れるため)。
+*/
+export const encodeShiftJis = (text: string): { bytes: Uint8Array; unmappable: null } | { bytes: null; unmappable: string[] } => {
+    const table = getShiftJisTable();
+    const bytes: number[] = [];
+    const unmappable = new Set<string>();
+    for (const char of text) {
+        const code = char.codePointAt(0) ?? 0;
+        if (code < 0x80) {
+            bytes.push(code);
+            continue;
+        }
+        const mapped = table.get(char);
+        if (mapped) {
+            bytes.push(...mapped);
+        } else {
+            unmappable.add(char);
+        }
+    }
+    return unmappable.size > 0
+        ? { bytes: null, unmappable: [...unmappable] }
+        : { bytes: Uint8Array.from(bytes), unmappable: null };
+};
+
+// Excel で文字化けしないよう、UTF-8 は BOM を付けて書き出す
+export const encodeUtf8WithBom = (text: string): Uint8Array => {
+    const body = new TextEncoder().encode(text);
+    const bytes = new Uint8Array(UTF8_BOM.length + body.length);
+    bytes.set(UTF8_BOM);
+    bytes.set(body, UTF8_BOM.length);
+    return bytes;
+};
@@ -0,0 +1,26 @@
+/*
+[概要]
+商品画像の URL の種類の判定。サーバー・ブラウザのどちらからも使う。
+- サイト内の画像: public/images/... と、管理画面からアップロードした画像 (/api/images/...)
+- 外部の画像: http(s):// で始まる URL (サイズの変換はせず、そのまま表示する)
+*/
+
+// 画像が登録されていない・見つからない場合に表示する画像
+export const PLACEHOLDER_IMAGE = '/images/placeholder.svg';
+
+// アップロードした画像の配信元 (app/api/images/[file])
+export const UPLOADED_IMAGE_PREFIX = '/api/images/';
+
+// アップロードした画像のファイル名 (UUID.webp と、そのサムネイル UUID-thumb.webp)
+export const UPLOADED_IMAGE_FILE_PATTERN = /^[0-9a-f-]{36}(-thumb)?\.webp$/;
+
+export const isExternalImage = (src: string): boolean => /^https?:\/\//.test(src);
+
+export const isUploadedImage = (src: string): boolean =>
+    src.startsWith(UPLOADED_IMAGE_PREFIX) && UPLOADED_IMAGE_FILE_PATTERN.test(src.slice(UPLOADED_IMAGE_PREFIX.length));
+
+// SVG (代わりの画像など) は next/image で変換できないため、そのまま表示する
+export const isOptimizableImage = (src: string): boolean => !isExternalImage(src) && !src.endsWith('.svg');
+
+export const toThumbnailUrl = (src: string): string =>
+    isUploadedImage(src) && !src.endsWith('-thumb.webp') ? src.replace(/\.webp$/, '-thumb.webp') : src;
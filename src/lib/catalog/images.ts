@@ -0,0 +1,178 @@
+/*
+[概要]
+商品画像の保存と、表示用の情報 (サイズ・ぼかしのプレースホルダー) の取得。サーバー側からのみ利用する。
+- 管理画面からアップロードした画像は、向きを補正して WebP に変換し data/images/ に保存する。
+  ギャラリー用のサムネイル (縮小版) も同時に作り、/api/images/[file] で配信する
+- 画像のサイズとぼかし用の小さな画像 (blurDataURL) は sharp で作る。
+  アップロードした画像は保存時に image-manifest.json に記録し、public/images/ の画像は初めて表示するときに作ってメモリに保持する
+- 見つからない画像は、代わりの画像 (PLACEHOLDER_IMAGE) の情報を返す
+*/
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { OutputInfo, Sharp } from 'sharp';
+import { readJsonFile, resolveDataPath, updateJsonFile } from '../storage/jsonFile';
+import {
+    PLACEHOLDER_IMAGE,
+    UPLOADED_IMAGE_FILE_PATTERN,
+    UPLOADED_IMAGE_PREFIX,
+    isExternalImage,
+    isUploadedImage,
+    toThumbnailUrl,
+} from './imageSources';
+import { CatalogError } from './index';
+import type { ImageMeta, UploadedImage } from './types';
+
+const IMAGE_DIR = 'images';
+const MANIFEST_FILE = 'image-manifest.json';
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+// 保存する画像の長辺の上限と、サムネイル・ぼかし画像の大きさ (px)
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 400;
+const BLUR_SIZE = 16;
+
+type ImageManifestEntry = Required<Pick<ImageMeta, 'width' | 'height' | 'blurDataURL'>>;
+
+// アップロードした画像の URL → サイズ・ぼかし画像
+type ImageManifest = Record<string, ImageManifestEntry>;
+
+// public/images/ の画像の情報 (サーバーを再起動するまで保持する)
+const publicImageCache = new Map<string, Promise<ImageManifestEntry | null | undefined>>();
+
+const PLACEHOLDER_META: ImageMeta = {
+    src: PLACEHOLDER_IMAGE,
+    thumbnailUrl: PLACEHOLDER_IMAGE,
+    isMissing: true,
+};
+
+// sharp (ネイティブのモジュール) は画像を変換するときに読み込む。
+// 利用できない環境でも、ページの表示 (ぼかし画像なし) は続けられるようにする
+const loadSharp = async () => {
+    try {
+        return (await import('sharp')).default;
+    } catch (error) {
+        console.error('画像の変換に使う sharp を読み込めませんでした:', error);
+        throw new CatalogError('画像を変換できない環境です。サーバーの設定を確認してください', 503);
+    }
+};
+
+const toBlurDataUrl = async (image: Sharp): Promise<string> => {
+    const buffer = await image.clone().resize(BLUR_SIZE, BLUR_SIZE, { fit: 'inside' }).webp({ quality: 40 }).toBuffer();
+    return `data:image/webp;base64,${buffer.toString('base64')}`;
+};
+
+const readImageEntry = async (input: Buffer | string): Promise<ImageManifestEntry> => {
+    const image = (await loadSharp())(input).rotate();
+    const { width = 0, height = 0, orientation } = await image.metadata();
+    // EXIF の向き (5〜8) は縦横が入れ替わる
+    const isRotated = orientation !== undefined && orientation >= 5;
+    return {
+        width: isRotated ? height : width,
+        height: isRotated ? width : height,
+        blurDataURL: await toBlurDataUrl(image),
+    };
+};
+
+// 画像を変換して保存する。向きを補正し、長辺を MAX_DIMENSION 以下に縮小する
+export const saveProductImage = async (file: File): Promise<UploadedImage> => {
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+        throw new CatalogError('JPEG・PNG・WebP・GIF・AVIF の画像を選択してください', 400);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+        throw new CatalogError(`画像は${MAX_IMAGE_BYTES / 1024 / 1024}MB以下にしてください`, 413);
+    }
+
+    const id = randomUUID();
+    const url = `${UPLOADED_IMAGE_PREFIX}${id}.webp`;
+    const source = (await loadSharp())(Buffer.from(await file.arrayBuffer())).rotate();
+    let image: { data: Buffer; info: OutputInfo };
+    let thumbnail: Buffer;
+    let blurDataURL: string;
+    try {
+        image = await source.clone()
+            .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+            .webp({ quality: 82 })
+            .toBuffer({ resolveWithObject: true });
+        thumbnail = await source.clone()
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .webp({ quality: 75 })
+            .toBuffer();
+        blurDataURL = await toBlurDataUrl(source);
+    } catch (error) {
+        console.error('画像を変換できませんでした:', error);
+        throw new CatalogError('画像を読み込めませんでした。ファイルが壊れていないか確認してください', 400);
+    }
+
+    await fs.mkdir(resolveDataPath(IMAGE_DIR), { recursive: true });
+    await fs.writeFile(resolveDataPath(path.join(IMAGE_DIR, `${id}.webp`)), image.data);
+    await fs.writeFile(resolveDataPath(path.join(IMAGE_DIR, `${id}-thumb.webp`)), thumbnail);
+
+    const entry = { width: image.info.width, height: image.info.height, blurDataURL };
+    await updateJsonFile<ImageManifest>(MANIFEST_FILE, {}, (manifest) => ({ ...manifest, [url]: entry }));
+
+    return { url, thumbnailUrl: toThumbnailUrl(url), width: entry.width, height: entry.height };
+};
+
+// /api/images/[file] で配信する画像。ファイル名の形式が正しくない・見つからない場合は null
+export const readUploadedImage = async (fileName: string): Promise<Buffer | null> => {
+    if (!UPLOADED_IMAGE_FILE_PATTERN.test(fileName)) {
+        return null;
+    }
+    try {
+        return await fs.readFile(resolveDataPath(path.join(IMAGE_DIR, fileName)));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+};
+
+// public/ 配下の画像の情報。public/ の外を指すパス・見つからない画像は null、サイズ・ぼかし画像を作れない画像は undefined
+const readPublicImageEntry = (src: string): Promise<ImageManifestEntry | null | undefined> => {
+    const cached = publicImageCache.get(src);
+    if (cached) {
+        return cached;
+    }
+    const filePath = path.join(PUBLIC_DIR, decodeURIComponent(src.split(/[?#]/)[0]));
+    const entry = filePath.startsWith(`${PUBLIC_DIR}${path.sep}`)
+        ? fs.stat(filePath).then(
+            // サイズ・ぼかし画像を作れない場合も、画像はそのまま表示する
+            () => readImageEntry(filePath).catch((error): ImageManifestEntry | undefined => {
+                console.error(`画像の情報を取得できませんでした (${src}):`, error);
+                return undefined;
+            }),
+            () => null
+        )
+        : Promise.resolve(null);
+    publicImageCache.set(src, entry);
+    return entry;
+};
+
+export const getImageMeta = async (src: string | undefined): Promise<ImageMeta> => {
+    if (!src) {
+        return PLACEHOLDER_META;
+    }
+    // 外部の画像は存在やサイズを確かめず、そのまま表示する (読み込めない場合はブラウザで代わりの画像に切り替える)
+    if (isExternalImage(src)) {
+        return { src, thumbnailUrl: src };
+    }
+    const entry = isUploadedImage(src)
+        ? (await readJsonFile<ImageManifest>(MANIFEST_FILE, {}))[src] ?? null
+        : await readPublicImageEntry(src);
+    if (entry === null) {
+        return PLACEHOLDER_META;
+    }
+    return { src, thumbnailUrl: toThumbnailUrl(src), ...entry };
+};
+
+// 複数の画像の情報 (src → 情報)
+export const getImageMetas = async (sources: string[]): Promise<Record<string, ImageMeta>> => {
+    const unique = [...new Set(sources)];
+    const metas = await Promise.all(unique.map(getImageMeta));
+    return Object.fromEntries(unique.map((src, index) => [src, metas[index]]));
+};
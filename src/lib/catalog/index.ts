@@ -0,0 +1,190 @@
+/*
+[概要]
+商品カタログのデータ層。data/products.json を唯一のデータソースとし、
+トップページ・商品詳細ページ・API (app/api/products) のすべてがここを経由して商品を取得する。
+data/products.json は実行中に書き換えるファイル (git の管理外) で、まだない場合はリポジトリの初期データ
+(data/products.seed.json) を読み、最初の書き込みでその内容から作成する。
+*/
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { parseCsv, toCsv } from './csv';
+import { countImportActions, planProductImport, toProductCsvRows } from './csvImport';
+import { mergeProductDraft, nextProductId, toNewProduct } from './drafts';
+import { decodeCsvBytes, encodeShiftJis, encodeUtf8WithBom } from './encoding';
+import { CsvEncoding, Product, ProductDraft, ProductErrors, ProductImportResult, Sku } from './types';
+import { validateProductInput } from './validation';
+import { resolveSku } from './variants';
+
+const PRODUCTS_FILE = 'products.json';
+const PRODUCTS_SEED_FILE = 'products.seed.json';
+
+export class CatalogError extends Error {
+    constructor(message: string, public readonly status: number, public readonly details?: ProductErrors) {
+        super(message);
+        this.name = 'CatalogError';
+    }
+}
+
+const readSeedProducts = () => readJsonFile<Product[]>(PRODUCTS_SEED_FILE, []);
+
+export const getProducts = async (): Promise<Product[]> => {
+    const products = await readJsonFile<Product[] | null>(PRODUCTS_FILE, null);
+    return products ?? readSeedProducts();
+};
+
+export const getProductById = async (id: string): Promise<Product | undefined> => {
+    const products = await getProducts();
+    return products.find((product) => product.id === id);
+};
+
+// 商品一覧を読み込んで書き換え、保存する。読み込みから保存までファイルのロック中に行い、同時の更新を上書きしない
+export const updateProducts = async (
+    update: (products: Product[]) => Product[] | Promise<Product[]>
+): Promise<Product[]> => updateJsonFile<Product[]>(PRODUCTS_FILE, await readSeedProducts(), update);
+
+export const getSku = async (sku: string): Promise<Sku | undefined> => {
+    return resolveSku(await getProducts(), sku);
+};
+
+const validateOrThrow = (input: Record<string, unknown>, existing?: Product): ProductDraft => {
+    const { draft, errors } = validateProductInput(input, existing);
+    if (!draft) {
+        throw new CatalogError('入力内容に誤りがあります', 400, errors);
+    }
+    return draft;
+};
+
+// 管理画面から商品を登録する (バリエーションのない商品のみ)
+export const createProduct = async (input: Record<string, unknown>): Promise<Product> => {
+    const draft = validateOrThrow(input);
+    if (draft.variants) {
+        throw new CatalogError('バリエーションのある商品は登録できません', 400);
+    }
+    let product: Product | undefined;
+    await updateProducts((products) => {
+        product = toNewProduct(nextProductId(products.map((item) => item.id)), draft);
+        return [...products, product];
+    });
+    return product as Product;
+};
+
+// 管理画面から商品を更新する
+export const updateProduct = async (id: string, input: Record<string, unknown>): Promise<Product> => {
+    let updated: Product | undefined;
+    await updateProducts((products) => {
+        const existing = products.find((product) => product.id === id);
+        if (!existing) {
+            throw new CatalogError('商品が見つかりません', 404);
+        }
+        const next = mergeProductDraft(existing, validateOrThrow(input, existing));
+        updated = next;
+        return products.map((product) => (product.id === id ? next : product));
+    });
+    return updated as Product;
+};
+
+// 商品を削除する。カートに残っている明細は表示時に取り除かれ、注文の明細 (スナップショット) はそのまま残る
+export const deleteProduct = async (id: string): Promise<void> => {
+    await updateProducts((products) => {
+        if (!products.some((product) => product.id === id)) {
+            throw new CatalogError('商品が見つかりません', 404);
+        }
+        return products.filter((product) => product.id !== id);
+    });
+};
+
+// 商品を CSV に書き出す。Shift_JIS で表せない文字がある場合は書き出さずにエラーにする
+export const exportProductsCsv = async (encoding: CsvEncoding): Promise<Uint8Array> => {
+    const csv = toCsv(toProductCsvRows(await getProducts()));
+    if (encoding === 'utf-8') {
+        return encodeUtf8WithBom(csv);
+    }
+    const { bytes, unmappable } = encodeShiftJis(csv);
+    if (!bytes) {
+        throw new CatalogError(
+            `Shift_JIS で表せない文字が含まれています (${unmappable.join(' ')})。UTF-8 で書き出してください`,
+            422
+        );
+    }
+    return bytes;
+};
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+/*
+CSV を取り込む。dryRun の場合は結果 (行ごとの新規 / 更新 / 変更なし とエラー) だけを返して保存しない。
+1行でもエラーがあれば何も保存せず、すべての行が正しい場合だけ1回の書き込みでまとめて保存する。
+*/
+export const importProductsCsv = async (
+    bytes: Uint8Array,
+    { encoding = 'auto', dryRun }: { encoding?: CsvEncoding | 'auto'; dryRun: boolean }
+): Promise<ProductImportResult> => {
+    if (bytes.length > MAX_IMPORT_BYTES) {
+        throw new CatalogError('ファイルが大きすぎます (2MB まで)', 413);
+    }
+    const decoded = decodeCsvBytes(bytes, encoding);
+    if (!decoded) {
+        throw new CatalogError('文字コードを判定できませんでした。UTF-8 または Shift_JIS で保存してください', 400);
+    }
+    const rows = parseCsv(decoded.text);
+    const toPlan = (products: Product[]) => {
+        const plan = planProductImport(products, rows);
+        if (plan.error !== null) {
+            throw new CatalogError(plan.error, 400);
+        }
+        return plan;
+    };
+    let plan = toPlan(await getProducts());
+    const errorCount = plan.rows.filter((row) => row.errors.length > 0).length;
+    const applied = !dryRun && errorCount === 0;
+    if (applied) {
+        // 確認してから保存するまでに更新された商品を上書きしないよう、保存する直前の一覧で計画し直す
+        await updateProducts((products) => {
+            plan = toPlan(products);
+            if (plan.rows.some((row) => row.errors.length > 0)) {
+                throw new CatalogError('取り込み中に商品が更新されました。もう一度お試しください', 409);
+            }
+            return plan.products;
+        });
+    }
+    return {
+        encoding: decoded.encoding,
+        rows: plan.rows,
+        counts: countImportActions(plan.rows),
+        errorCount,
+        applied,
+    };
+};
+
+export { CATEGORIES, findCategoryLabel } from './categories';
+export type { CategoryId } from './categories';
+export { findVariantByOptions, formatOptions, hasVariants, listSkus, resolveSku } from './variants';
+export { normalizeSearchText } from './normalize';
+export { validateProductInput } from './validation';
+export {
+    PRICE_RANGES,
+    PRODUCTS_PER_PAGE,
+    PRODUCT_SORT_OPTIONS,
+    displayPrice,
+    parseProductSearchParams,
+    searchProducts,
+    toProductSearchParams,
+} from './search';
+export type { SearchParams } from './search';
+export { MAX_IMPORT_ROWS, PRODUCT_CSV_COLUMNS } from './csvImport';
+export type {
+    CsvEncoding,
+    FacetCount,
+    PriceRange,
+    Product,
+    ProductDraft,
+    ProductErrors,
+    ProductImportAction,
+    ProductImportResult,
+    ProductImportRow,
+    ProductOption,
+    ProductSearchQuery,
+    ProductSearchResult,
+    ProductSortKey,
+    ProductVariant,
+    Sku,
+} from './types';
@@ -0,0 +1,25 @@
+/*
+[概要]
+検索用の文字列の正規化。全角・半角、カタカナ・ひらがな、大文字・小文字の違いを吸収して比較できるようにする。
+例: "ＴＳｈｉｒｔ" → "tshirt"、"ﾃｨｰｼｬﾂ" / "ティーシャツ" → "てぃーしゃつ"
+*/
+
+const KATAKANA_START = 0x30a1; // ァ
+const KATAKANA_END = 0x30f6; // ヶ
+const KATAKANA_TO_HIRAGANA_OFFSET = 0x60;
+
+const toHiragana = (text: string): string =>
+    text.replace(/[ァ-ヶ]/g, (char) => {
+        const code = char.charCodeAt(0);
+        return code >= KATAKANA_START && code <= KATAKANA_END
+            ? String.fromCharCode(code - KATAKANA_TO_HIRAGANA_OFFSET)
+            : char;
+    });
+
+// NFKC で全角英数・半角カナをそろえてから、カタカナをひらがなに、英字を小文字にする
+export const normalizeSearchText = (text: string): string =>
+    toHiragana(text.normalize('NFKC')).toLowerCase().replace(/\s+/g, ' ').trim();
+
+// 検索キーワードを空白 (全角スペースを含む) で区切る。すべての語を含む商品をヒットとする
+export const toSearchTerms = (keyword: string): string[] =>
+    normalizeSearchText(keyword).split(' ').filter((term) => term.length > 0);
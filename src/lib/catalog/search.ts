@@ -0,0 +1,162 @@
+/*
+[概要]
+商品一覧 (/products) の検索・絞り込み・並び替え・ページ分割。
+条件はすべて URL のクエリ文字列で表現し、parseProductSearchParams / toProductSearchParams で相互に変換する。
+価格の絞り込みと並び替えは、表示と同じ税込価格 (バリエーションがある場合は最安の SKU) で行う。
+*/
+import { priceWithTax } from '../pricing/tax';
+import { CATEGORIES, CategoryId, findCategoryLabel } from './categories';
+import { normalizeSearchText, toSearchTerms } from './normalize';
+import { PriceRange, Product, ProductSearchQuery, ProductSearchResult, ProductSortKey } from './types';
+import { listSkus } from './variants';
+
+export const PRODUCTS_PER_PAGE = 12;
+
+export const PRODUCT_SORT_OPTIONS: { value: ProductSortKey; label: string }[] = [
+    { value: 'newest', label: '新着順' },
+    { value: 'popular', label: '人気順' },
+    { value: 'price_asc', label: '価格の安い順' },
+    { value: 'price_desc', label: '価格の高い順' },
+];
+
+export const PRICE_RANGES: PriceRange[] = [
+    { min: null, max: 1000, label: '〜1,000円' },
+    { min: 1000, max: 3000, label: '1,000円〜3,000円' },
+    { min: 3000, max: 5000, label: '3,000円〜5,000円' },
+    { min: 5000, max: null, label: '5,000円〜' },
+];
+
+const DEFAULT_SORT: ProductSortKey = 'newest';
+
+// Next.js の searchParams (同じキーが複数ある場合は配列) の形
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+const toArray = (value: string | string[] | undefined): string[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const firstValue = (value: string | string[] | undefined): string => toArray(value)[0] ?? '';
+
+const toPrice = (value: string): number | null => {
+    const price = Number(value);
+    return value !== '' && Number.isInteger(price) && price >= 0 ? price : null;
+};
+
+const isCategoryId = (value: string): value is CategoryId =>
+    CATEGORIES.some((category) => category.id === value);
+
+const isSortKey = (value: string): value is ProductSortKey =>
+    PRODUCT_SORT_OPTIONS.some((option) => option.value === value);
+
+// 不正な値は無視して既定値に戻す (共有されたURLが壊れていても一覧は表示する)
+export const parseProductSearchParams = (params: SearchParams): ProductSearchQuery => {
+    const sort = firstValue(params.sort);
+    const page = Number(firstValue(params.page));
+    return {
+        keyword: firstValue(params.q).trim(),
+        categories: toArray(params.category).filter(isCategoryId),
+        minPrice: toPrice(firstValue(params.minPrice)),
+        maxPrice: toPrice(firstValue(params.maxPrice)),
+        sort: isSortKey(sort) ? sort : DEFAULT_SORT,
+        page: Number.isInteger(page) && page >= 1 ? page : 1,
+    };
+};
+
+// 既定値の条件は省き、共有しやすい短いクエリ文字列にする (先頭の "?" は含まない)
+export const toProductSearchParams = (query: Partial<ProductSearchQuery>): string => {
+    const params = new URLSearchParams();
+    if (query.keyword) {
+        params.set('q', query.keyword);
+    }
+    for (const category of query.categories ?? []) {
+        params.append('category', category);
+    }
+    if (query.minPrice != null) {
+        params.set('minPrice', String(query.minPrice));
+    }
+    if (query.maxPrice != null) {
+        params.set('maxPrice', String(query.maxPrice));
+    }
+    if (query.sort && query.sort !== DEFAULT_SORT) {
+        params.set('sort', query.sort);
+    }
+    if (query.page && query.page > 1) {
+        params.set('page', String(query.page));
+    }
+    return params.toString();
+};
+
+// 一覧に表示する税込価格 (バリエーションがある場合は最安の SKU)
+export const displayPrice = (product: Product): number =>
+    Math.min(...listSkus(product).map((sku) => priceWithTax(sku.price, product.taxCategory)));
+
+const searchableText = (product: Product): string =>
+    normalizeSearchText([
+        product.name,
+        product.description,
+        findCategoryLabel(product.category),
+        ...(product.options ?? []).flatMap((option) => option.values),
+    ].join(' '));
+
+const matchesKeyword = (product: Product, terms: string[]): boolean => {
+    const text = searchableText(product);
+    return terms.every((term) => text.includes(term));
+};
+
+const inPriceRange = (price: number, min: number | null, max: number | null): boolean =>
+    (min === null || price >= min) && (max === null || price < max);
+
+const compareProducts = (sort: ProductSortKey) => (a: Product, b: Product): number => {
+    const newest = b.createdAt.localeCompare(a.createdAt);
+    switch (sort) {
+        case 'popular':
+            return b.soldCount - a.soldCount || newest;
+        case 'price_asc':
+            return displayPrice(a) - displayPrice(b) || newest;
+        case 'price_desc':
+            return displayPrice(b) - displayPrice(a) || newest;
+        default:
+            return newest;
+    }
+};
+
+/*
+件数の集計は「その絞り込み以外の条件」で行う。
+(カテゴリを1つ選んでも、他のカテゴリの件数が 0 にならないようにするため)
+*/
+export const searchProducts = (products: Product[], query: ProductSearchQuery): ProductSearchResult => {
+    const terms = toSearchTerms(query.keyword);
+    const byKeyword = products.filter((product) => matchesKeyword(product, terms));
+    const matchesCategory = (product: Product) =>
+        query.categories.length === 0 || query.categories.includes(product.category);
+    const matchesPrice = (product: Product) =>
+        inPriceRange(displayPrice(product), query.minPrice, query.maxPrice);
+
+    const filtered = byKeyword
+        .filter((product) => matchesCategory(product) && matchesPrice(product))
+        .sort(compareProducts(query.sort));
+    const totalPages = Math.max(1, Math.ceil(filtered.length / PRODUCTS_PER_PAGE));
+    const page = Math.min(query.page, totalPages);
+    const start = (page - 1) * PRODUCTS_PER_PAGE;
+
+    const byPrice = byKeyword.filter(matchesPrice);
+    const byCategory = byKeyword.filter(matchesCategory);
+    return {
+        products: filtered.slice(start, start + PRODUCTS_PER_PAGE),
+        total: filtered.length,
+        page,
+        totalPages,
+        facets: {
+            categories: CATEGORIES.map((category) => ({
+                value: category.id,
+                label: category.label,
+                count: byPrice.filter((product) => product.category === category.id).length,
+            })),
+            priceRanges: PRICE_RANGES.map((range) => ({
+                ...range,
+                count: byCategory.filter((product) =>
+                    inPriceRange(displayPrice(product), range.min, range.max)
+                ).length,
+            })),
+        },
+    };
+};
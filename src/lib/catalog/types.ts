@@ -0,0 +1,145 @@
+import type { TaxCategory } from '../pricing/types';
+import type { CategoryId } from './categories';
+
+// バリエーションの軸 (例: { name: 'サイズ', values: ['S', 'M', 'L'] })
+export type ProductOption = {
+    name: string;
+    values: string[];
+};
+
+// サイズ・カラーなどの組み合わせごとの販売単位 (SKU)
+export type ProductVariant = {
+    sku: string;
+    options: Record<string, string>; // 軸の名前 → 選択値
+    price?: number; // 省略時は商品の price (税抜)
+    stock: number;
+    imageUrl?: string; // 省略時は商品の imageUrl
+};
+
+export type Product = {
+    id: string;
+    name: string;
+    description: string;
+    category: CategoryId;
+    price: number; // 税抜の本体価格 (円)。バリエーションがある場合は基本価格
+    taxCategory: TaxCategory;
+    imageUrl: string; // メイン画像
+    images?: string[]; // 追加の画像 (商品詳細ページに表示する)
+    stock: number; // 在庫数 (支払い完了時に減らす)。バリエーションがある場合は各 variant の stock を使う
+    maxPerOrder?: number; // 1回の注文で購入できる上限数 (SKU ごと)
+    weight?: number; // 1点あたりの重量 (g)。送料の計算に使う (未登録の場合は送料表の既定値)
+    packageSize?: number; // 1点あたりの梱包サイズ (三辺合計 cm)。送料の計算に使う
+    soldCount: number; // 販売数 (人気順の並び替えに使う。支払い完了時に加算する)
+    createdAt: string; // 発売日 (新着順の並び替えに使う)
+    options?: ProductOption[];
+    variants?: ProductVariant[];
+};
+
+// カートや注文で扱う販売単位。バリエーションのない商品は SKU = 商品ID
+export type Sku = {
+    sku: string;
+    product: Product;
+    variant?: ProductVariant;
+    price: number;
+    stock: number;
+    imageUrl: string;
+    options: Record<string, string>;
+};
+
+// 商品一覧の並び順
+export type ProductSortKey = 'newest' | 'popular' | 'price_asc' | 'price_desc';
+
+// 商品一覧の絞り込み条件。URL のクエリ文字列と相互に変換する
+export type ProductSearchQuery = {
+    keyword: string;
+    categories: CategoryId[];
+    minPrice: number | null; // 税込
+    maxPrice: number | null; // 税込
+    sort: ProductSortKey;
+    page: number; // 1 始まり
+};
+
+export type FacetCount<T extends string = string> = {
+    value: T;
+    label: string;
+    count: number;
+};
+
+// 価格帯の絞り込み候補 (税込)。max が null の場合は上限なし
+export type PriceRange = {
+    min: number | null;
+    max: number | null;
+    label: string;
+};
+
+export type ProductSearchResult = {
+    products: Product[];
+    total: number;
+    page: number;
+    totalPages: number;
+    facets: {
+        categories: FacetCount<CategoryId>[];
+        priceRanges: (PriceRange & { count: number })[];
+    };
+};
+
+// 管理画面から作成・更新するときの入力 (検証済み)。ID・販売数・発売日はサーバー側で決める
+// バリエーションの軸や組み合わせは変更できず、既存の SKU の価格・在庫だけを更新できる
+export type ProductDraft = Pick<
+    Product,
+    | 'name'
+    | 'description'
+    | 'category'
+    | 'price'
+    | 'taxCategory'
+    | 'imageUrl'
+    | 'images'
+    | 'stock'
+    | 'maxPerOrder'
+    | 'weight'
+    | 'packageSize'
+> & {
+    variants?: Pick<ProductVariant, 'sku' | 'price' | 'stock'>[];
+};
+
+export type ProductErrors = Partial<Record<keyof ProductDraft, string>>;
+
+// CSV ファイルの文字コード (TextDecoder のラベル)
+export type CsvEncoding = 'utf-8' | 'shift_jis';
+
+// CSV 取り込みでの各行の扱い
+export type ProductImportAction = 'create' | 'update' | 'unchanged';
+
+export type ProductImportRow = {
+    line: number; // CSV ファイルの行番号
+    id: string; // 新規登録で商品IDが空欄の場合は採番する ID
+    name: string;
+    action: ProductImportAction;
+    errors: string[];
+};
+
+export type ProductImportResult = {
+    encoding: CsvEncoding; // 読み込みに使った文字コード
+    rows: ProductImportRow[];
+    counts: Record<ProductImportAction, number>;
+    errorCount: number; // エラーのある行の数。1行でもあればファイル全体を取り込まない
+    applied: boolean; // 保存したかどうか (プレビューでは常に false)
+};
+
+// 画像の表示用の情報。width・height・blurDataURL (読み込み中に表示するぼかし画像) は、サイト内の画像の場合だけある
+export type ImageMeta = {
+    src: string;
+    thumbnailUrl: string; // ギャラリーのサムネイル (アップロードした画像は縮小版、それ以外は src と同じ)
+    width?: number;
+    height?: number;
+    blurDataURL?: string;
+    isMissing?: boolean; // 画像が見つからず、代わりの画像 (PLACEHOLDER_IMAGE) を使う
+};
+
+// 管理画面からアップロードした画像
+export type UploadedImage = {
+    url: string;
+    thumbnailUrl: string;
+    width: number;
+    height: number;
+};
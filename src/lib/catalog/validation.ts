@@ -0,0 +1,126 @@
+/*
+[概要]
+管理画面から送られた商品データの検証。クライアント側の入力チェックとは別に、Route Handler で必ず実行する。
+*/
+import { TAX_RATES } from '../pricing/tax';
+import type { TaxCategory } from '../pricing/types';
+import { CATEGORIES, CategoryId } from './categories';
+import { Product, ProductDraft, ProductErrors } from './types';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_PRICE = 10_000_000;
+const MAX_IMAGES = 10;
+const MAX_WEIGHT = 100_000; // g
+const MAX_PACKAGE_SIZE = 300; // cm
+
+// サイト内のパス (/images/...) か http(s) の URL だけを受け付ける
+const isImageUrl = (value: unknown): value is string =>
+    typeof value === 'string' && /^(\/(?!\/)|https?:\/\/)\S+$/.test(value);
+
+const isNonNegativeInteger = (value: unknown, max = Number.MAX_SAFE_INTEGER): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+const isCategoryId = (value: unknown): value is CategoryId =>
+    CATEGORIES.some((category) => category.id === value);
+
+const isTaxCategory = (value: unknown): value is TaxCategory =>
+    typeof value === 'string' && value in TAX_RATES;
+
+type ProductInput = Record<string, unknown>;
+
+const toVariants = (value: unknown, existing: Product | undefined, errors: ProductErrors) => {
+    if (value === undefined) {
+        return undefined;
+    }
+    const known = existing?.variants ?? [];
+    if (!Array.isArray(value) || known.length === 0) {
+        errors.variants = 'バリエーションは既存の商品の SKU のみ更新できます';
+        return undefined;
+    }
+    const variants: NonNullable<ProductDraft['variants']> = [];
+    for (const item of value as Record<string, unknown>[]) {
+        if (!known.some((variant) => variant.sku === item?.sku)) {
+            errors.variants = `存在しない SKU です: ${String(item?.sku)}`;
+            return undefined;
+        }
+        if (!isNonNegativeInteger(item.stock) || (item.price !== undefined && !isNonNegativeInteger(item.price, MAX_PRICE))) {
+            errors.variants = `SKU ${String(item.sku)} の在庫数・価格は0以上の整数で入力してください`;
+            return undefined;
+        }
+        variants.push({ sku: item.sku as string, stock: item.stock, price: item.price as number | undefined });
+    }
+    return variants;
+};
+
+// 検証に通った場合は draft を、通らなかった場合は項目ごとのエラーを返す
+export const validateProductInput = (
+    input: ProductInput,
+    existing?: Product
+): { draft: ProductDraft; errors: null } | { draft: null; errors: ProductErrors } => {
+    const errors: ProductErrors = {};
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    const description = typeof input.description === 'string' ? input.description.trim() : '';
+
+    if (name === '' || name.length > MAX_NAME_LENGTH) {
+        errors.name = `商品名は1〜${MAX_NAME_LENGTH}文字で入力してください`;
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+        errors.description = `商品説明は${MAX_DESCRIPTION_LENGTH}文字以内で入力してください`;
+    }
+    if (!isCategoryId(input.category)) {
+        errors.category = 'カテゴリを選択してください';
+    }
+    if (!isNonNegativeInteger(input.price, MAX_PRICE)) {
+        errors.price = '価格 (税抜) は0以上の整数で入力してください';
+    }
+    if (!isTaxCategory(input.taxCategory)) {
+        errors.taxCategory = '税区分を選択してください';
+    }
+    if (input.imageUrl === undefined || input.imageUrl === '') {
+        errors.imageUrl = 'メイン画像の URL を入力してください';
+    } else if (!isImageUrl(input.imageUrl)) {
+        errors.imageUrl = '画像は /images/... または http(s):// で始まる URL で入力してください';
+    }
+    const images = input.images ?? [];
+    if (!Array.isArray(images) || images.length > MAX_IMAGES || !images.every(isImageUrl)) {
+        errors.images = `追加の画像は${MAX_IMAGES}件までの URL で入力してください`;
+    }
+    if (!isNonNegativeInteger(input.stock)) {
+        errors.stock = '在庫数は0以上の整数で入力してください';
+    }
+    const maxPerOrder = input.maxPerOrder ?? undefined;
+    if (maxPerOrder !== undefined && (!isNonNegativeInteger(maxPerOrder) || maxPerOrder < 1)) {
+        errors.maxPerOrder = '購入上限数は1以上の整数で入力してください (上限なしの場合は空欄)';
+    }
+    const weight = input.weight ?? undefined;
+    if (weight !== undefined && (!isNonNegativeInteger(weight, MAX_WEIGHT) || weight < 1)) {
+        errors.weight = `重量は1〜${MAX_WEIGHT}gの整数で入力してください (未登録の場合は空欄)`;
+    }
+    const packageSize = input.packageSize ?? undefined;
+    if (packageSize !== undefined && (!isNonNegativeInteger(packageSize, MAX_PACKAGE_SIZE) || packageSize < 1)) {
+        errors.packageSize = `梱包サイズは1〜${MAX_PACKAGE_SIZE}cmの整数で入力してください (未登録の場合は空欄)`;
+    }
+    const variants = toVariants(input.variants, existing, errors);
+
+    if (Object.keys(errors).length > 0) {
+        return { draft: null, errors };
+    }
+    return {
+        draft: {
+            name,
+            description,
+            category: input.category as CategoryId,
+            price: input.price as number,
+            taxCategory: input.taxCategory as TaxCategory,
+            imageUrl: input.imageUrl as string,
+            images: images as string[],
+            stock: input.stock as number,
+            maxPerOrder: maxPerOrder as number | undefined,
+            weight: weight as number | undefined,
+            packageSize: packageSize as number | undefined,
+            variants,
+        },
+        errors: null,
+    };
+};
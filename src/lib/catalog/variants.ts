@@ -0,0 +1,48 @@
+/*
+[概要]
+商品バリエーション (SKU) の解決。バリエーションのない商品は商品IDをそのまま SKU として扱う。
+*/
+import { Product, ProductVariant, Sku } from './types';
+
+export const hasVariants = (product: Product): boolean => (product.variants?.length ?? 0) > 0;
+
+const toSku = (product: Product, variant?: ProductVariant): Sku => ({
+    sku: variant?.sku ?? product.id,
+    product,
+    variant,
+    price: variant?.price ?? product.price,
+    stock: variant?.stock ?? product.stock,
+    imageUrl: variant?.imageUrl ?? product.imageUrl,
+    options: variant?.options ?? {},
+});
+
+// 商品のすべての SKU を返す
+export const listSkus = (product: Product): Sku[] =>
+    hasVariants(product)
+        ? (product.variants ?? []).map((variant) => toSku(product, variant))
+        : [toSku(product)];
+
+export const resolveSku = (products: Product[], sku: string): Sku | undefined => {
+    for (const product of products) {
+        const found = listSkus(product).find((candidate) => candidate.sku === sku);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+};
+
+// 選択中のオプションに一致するバリエーションを探す (すべての軸が選択されている場合のみ)
+export const findVariantByOptions = (
+    product: Product,
+    selected: Record<string, string>
+): ProductVariant | undefined =>
+    product.variants?.find((variant) =>
+        (product.options ?? []).every((option) => variant.options[option.name] === selected[option.name])
+    );
+
+// 例: { サイズ: 'M', カラー: 'ホワイト' } → "サイズ: M / カラー: ホワイト"
+export const formatOptions = (options: Record<string, string>): string =>
+    Object.entries(options)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join(' / ');
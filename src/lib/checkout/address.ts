@@ -0,0 +1,82 @@
+/*
+[概要]
+配送先住所の正規化とバリデーション。チェックアウト画面と注文API の両方で同じルールを使う。
+*/
+import { isPrefecture } from './prefectures';
+import { AddressErrors, ShippingAddress } from './types';
+
+const POSTAL_CODE_PATTERN = /^\d{3}-\d{4}$/;
+const PHONE_PATTERN = /^0\d{9,10}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// 全角数字・全角ハイフンを半角にそろえる
+const toHalfWidthDigits = (value: string) =>
+    value
+        .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+        .replace(/[－ー‐−―]/g, '-');
+
+// "1234567" / "１２３－４５６７" などを "123-4567" にそろえる
+export const normalizePostalCode = (value: string): string => {
+    const halfWidth = toHalfWidthDigits(value).replace(/[\s〒]/g, '');
+    const digits = halfWidth.replace(/-/g, '');
+    if (/^\d{7}$/.test(digits) && /^\d{3}-?\d{4}$/.test(halfWidth)) {
+        return `${digits.slice(0, 3)}-${digits.slice(3)}`;
+    }
+    return halfWidth;
+};
+
+export const isValidPostalCode = (value: string): boolean =>
+    POSTAL_CODE_PATTERN.test(normalizePostalCode(value));
+
+export const normalizePhone = (value: string): string =>
+    toHalfWidthDigits(value).replace(/[-\s()]/g, '');
+
+export const normalizeShippingAddress = (address: ShippingAddress): ShippingAddress => ({
+    ...address,
+    name: address.name.trim(),
+    postalCode: normalizePostalCode(address.postalCode),
+    city: address.city.trim(),
+    addressLine1: address.addressLine1.trim(),
+    addressLine2: address.addressLine2?.trim() || undefined,
+    phone: normalizePhone(address.phone),
+    email: address.email.trim(),
+});
+
+export const validateShippingAddress = (address: Partial<Record<keyof ShippingAddress, unknown>>): AddressErrors => {
+    const errors: AddressErrors = {};
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+    if (!text(address.name)) {
+        errors.name = 'お名前を入力してください';
+    }
+    if (!text(address.postalCode)) {
+        errors.postalCode = '郵便番号を入力してください';
+    } else if (!isValidPostalCode(text(address.postalCode))) {
+        errors.postalCode = '郵便番号は「123-4567」の形式で入力してください';
+    }
+    if (!isPrefecture(text(address.prefecture))) {
+        errors.prefecture = '都道府県を選択してください';
+    }
+    if (!text(address.city)) {
+        errors.city = '市区町村を入力してください';
+    }
+    if (!text(address.addressLine1)) {
+        errors.addressLine1 = '番地を入力してください';
+    }
+    if (address.addressLine2 !== undefined && typeof address.addressLine2 !== 'string') {
+        errors.addressLine2 = '建物名・部屋番号が正しくありません';
+    }
+    if (!text(address.phone)) {
+        errors.phone = '電話番号を入力してください';
+    } else if (!PHONE_PATTERN.test(normalizePhone(text(address.phone)))) {
+        errors.phone = '電話番号は市外局番から半角数字で入力してください';
+    }
+    if (!text(address.email)) {
+        errors.email = 'メールアドレスを入力してください';
+    } else if (!EMAIL_PATTERN.test(text(address.email))) {
+        errors.email = 'メールアドレスの形式が正しくありません';
+    }
+    return errors;
+};
+
+export const hasAddressErrors = (errors: AddressErrors): boolean => Object.keys(errors).length > 0;
@@ -0,0 +1,52 @@
+import type { CartItem } from '../cart/engine';
+import type { Order } from '../orders/types';
+import type { PaymentResult } from '../payments/types';
+import type { DeliverySchedule } from '../shipping/types';
+import { DeliveryMethodId, ShippingAddress } from './types';
+
+// カートの明細 (CartItem[]) から注文を作成する。送るのは商品IDと数量・お届け日時・クーポンコードのみ (送料はサーバーで計算する)
+export const submitOrder = async (
+    items: CartItem[],
+    shippingAddress: ShippingAddress,
+    deliveryMethod: DeliveryMethodId,
+    schedule: DeliverySchedule,
+    couponCode: string | null
+): Promise<Order> => {
+    const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            items: items.map(({ id, quantity }) => ({ id, quantity })),
+            shippingAddress,
+            deliveryMethod,
+            ...schedule,
+            couponCode,
+        }),
+    });
+    const body = await response.json();
+    if (!response.ok) {
+        throw new Error(body?.error ?? '注文の作成に失敗しました');
+    }
+    return body;
+};
+
+const postPayment = async (path: string, body: Record<string, string>): Promise<PaymentResult> => {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new Error(result?.error ?? 'お支払いの処理に失敗しました');
+    }
+    return result;
+};
+
+// 注文の支払いを開始する。金額はサーバー側で注文から決まる
+export const startPayment = (orderId: string, paymentMethodToken: string) =>
+    postPayment('/api/payments', { orderId, paymentMethodToken });
+
+// 3-D Secure の認証結果を送る
+export const confirmPayment = (orderId: string, challengeResponse: string) =>
+    postPayment('/api/payments/confirm', { orderId, challengeResponse });
@@ -0,0 +1,12 @@
+import { DeliveryMethod, DeliveryMethodId } from './types';
+
+export const DELIVERY_METHODS: DeliveryMethod[] = [
+    { id: 'standard', label: '通常配送', description: 'ご注文から3〜5日でお届けします' },
+    { id: 'express', label: 'お急ぎ便', description: 'ご注文の翌日にお届けします (一部地域を除く)' },
+];
+
+export const findDeliveryMethod = (id: string): DeliveryMethod | undefined =>
+    DELIVERY_METHODS.find((method) => method.id === id);
+
+export const isDeliveryMethodId = (id: string): id is DeliveryMethodId =>
+    findDeliveryMethod(id) !== undefined;
@@ -0,0 +1,11 @@
+export { PREFECTURES, isPrefecture } from './prefectures';
+export type { Prefecture } from './prefectures';
+export { DELIVERY_METHODS, findDeliveryMethod, isDeliveryMethodId } from './delivery';
+export {
+    hasAddressErrors,
+    isValidPostalCode,
+    normalizePostalCode,
+    normalizeShippingAddress,
+    validateShippingAddress,
+} from './address';
+export type { AddressErrors, DeliveryMethod, DeliveryMethodId, ShippingAddress } from './types';
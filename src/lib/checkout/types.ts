@@ -0,0 +1,22 @@
+import { Prefecture } from './prefectures';
+
+export type ShippingAddress = {
+    name: string;
+    postalCode: string; // 123-4567 形式
+    prefecture: Prefecture;
+    city: string;
+    addressLine1: string;
+    addressLine2?: string;
+    phone: string;
+    email: string; // 注文確認・発送などのお知らせの送信先
+};
+
+export type AddressErrors = Partial<Record<keyof ShippingAddress, string>>;
+
+export type DeliveryMethodId = 'standard' | 'express';
+
+export type DeliveryMethod = {
+    id: DeliveryMethodId;
+    label: string;
+    description: string;
+};
@@ -0,0 +1,14 @@
+import type { CurrencyCode } from './types';
+
+// 表示通貨を変更する (Cookie に保存される)。変更後の表示はページを再描画して反映する
+export const saveDisplayCurrency = async (currency: CurrencyCode): Promise<void> => {
+    const response = await fetch('/api/currency', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency }),
+    });
+    if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error ?? '処理に失敗しました');
+    }
+};
@@ -0,0 +1,36 @@
+/*
+[概要]
+表示通貨への換算と金額の表示。クライアント・サーバーのどちらからも使う。
+換算した金額はあくまで目安で、請求額は日本円 (formatYen) で表示する。
+*/
+import { CurrencyCode, ExchangeRates } from './types';
+
+export const CURRENCIES: { code: CurrencyCode; label: string }[] = [
+    { code: 'JPY', label: 'JPY (¥)' },
+    { code: 'USD', label: 'USD ($)' },
+    { code: 'EUR', label: 'EUR (€)' },
+];
+
+export const BASE_CURRENCY: CurrencyCode = 'JPY';
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    CURRENCIES.some((currency) => currency.code === value);
+
+// レートが設定されていない通貨は換算できない (日本円で表示する)
+export const canConvert = (currency: CurrencyCode, rates: ExchangeRates): boolean =>
+    currency === BASE_CURRENCY || (rates.rates[currency] ?? 0) > 0;
+
+export const convertFromJpy = (amount: number, currency: CurrencyCode, rates: ExchangeRates): number =>
+    currency === BASE_CURRENCY ? amount : amount * (rates.rates[currency] ?? 0);
+
+// 例: formatMoney(1100, 'USD', 'en', rates) → "$7.37"、formatMoney(1100, 'JPY', 'ja', rates) → "￥1,100"
+export const formatMoney = (
+    amount: number,
+    currency: CurrencyCode,
+    locale: string,
+    rates: ExchangeRates
+): string => {
+    const target = canConvert(currency, rates) ? currency : BASE_CURRENCY;
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: target })
+        .format(convertFromJpy(amount, target, rates));
+};
@@ -0,0 +1,44 @@
+/*
+[概要]
+表示通貨の設定。為替レートは data/exchange-rates.json で管理し (外部のAPIは使わない)、
+選択した通貨は Cookie (ec-currency) に保存する。サーバー側 (Server Component / Route Handler) からのみ利用する。
+*/
+import { cookies } from 'next/headers';
+import type { Locale } from '../i18n/config';
+import { readJsonFile } from '../storage/jsonFile';
+import { isCurrencyCode } from './format';
+import { CurrencyCode, ExchangeRates } from './types';
+
+const RATES_FILE = 'exchange-rates.json';
+
+export const CURRENCY_COOKIE = 'ec-currency';
+const CURRENCY_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// 通貨を選んでいない場合の表示通貨
+const DEFAULT_CURRENCIES: Record<Locale, CurrencyCode> = {
+    ja: 'JPY',
+    en: 'USD',
+};
+
+export const getExchangeRates = (): Promise<ExchangeRates> =>
+    readJsonFile<ExchangeRates>(RATES_FILE, {
+        base: 'JPY',
+        updatedAt: new Date(0).toISOString(),
+        rates: { JPY: 1 },
+    });
+
+export const getDisplayCurrency = async (locale: Locale): Promise<CurrencyCode> => {
+    const value = (await cookies()).get(CURRENCY_COOKIE)?.value;
+    return isCurrencyCode(value) ? value : DEFAULT_CURRENCIES[locale];
+};
+
+export const setDisplayCurrency = async (currency: CurrencyCode): Promise<void> => {
+    (await cookies()).set(CURRENCY_COOKIE, currency, {
+        path: '/',
+        sameSite: 'lax',
+        maxAge: CURRENCY_COOKIE_MAX_AGE,
+    });
+};
+
+export { BASE_CURRENCY, CURRENCIES, canConvert, convertFromJpy, formatMoney, isCurrencyCode } from './format';
+export type { CurrencyCode, ExchangeRates } from './types';
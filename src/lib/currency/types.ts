@@ -0,0 +1,11 @@
+export type CurrencyCode = 'JPY' | 'USD' | 'EUR';
+
+/*
+表示用の為替レート (data/exchange-rates.json)。rates は「1円あたりの各通貨の額」。
+カート・注文・決済の金額は常に日本円で、レートは表示の換算にだけ使う。
+*/
+export type ExchangeRates = {
+    base: 'JPY';
+    updatedAt: string;
+    rates: Partial<Record<CurrencyCode, number>>;
+};
@@ -0,0 +1,141 @@
+/*
+[概要]
+お知らせメールの送信。テンプレート (templates/) から HTML とテキストの本文を作り、送信方法 (transports.ts) に渡す。
+- 送信方法は環境変数 EMAIL_TRANSPORT で切り替える (outbox: 送信箱に保存 (既定) / smtp: SMTP_HOST・SMTP_PORT に送信)
+- 送信元は EMAIL_FROM、メール内のリンクは SITE_URL を基準にした URL にする
+- 注文のメールは注文時の言語で作成し、金額は請求額 (日本円) で記載する
+*/
+import { ComponentType, createElement } from 'react';
+import { getUserById } from '../auth';
+import { BASE_CURRENCY, getExchangeRates } from '../currency';
+import { Locale, createI18n, localizePath } from '../i18n';
+import type { I18n, MessageKey } from '../i18n';
+import type { Order, OrderStatus } from '../orders/types';
+import { toAbsoluteUrl } from '../seo';
+import { renderEmailHtml, renderEmailText } from './render';
+import CartReminderEmail, { CartReminderEmailProps } from './templates/CartReminderEmail';
+import OrderCancelledEmail from './templates/OrderCancelledEmail';
+import OrderConfirmationEmail from './templates/OrderConfirmationEmail';
+import type { OrderEmailProps } from './templates/OrderDetails';
+import OrderRefundedEmail from './templates/OrderRefundedEmail';
+import OrderShippedEmail from './templates/OrderShippedEmail';
+import PaymentReceivedEmail from './templates/PaymentReceivedEmail';
+import { createOutboxTransport, createSmtpTransport } from './transports';
+import { EmailTemplateId, EmailTransport } from './types';
+
+type OrderEmailTemplateId = Exclude<EmailTemplateId, 'cart_reminder'>;
+
+// 注文ステータスごとに送るメール (支払い失敗・お届け済みは送らない)
+const TEMPLATE_BY_STATUS: Partial<Record<OrderStatus, OrderEmailTemplateId>> = {
+    pending: 'order_confirmation',
+    paid: 'payment_received',
+    shipped: 'order_shipped',
+    cancelled: 'order_cancelled',
+    refunded: 'order_refunded',
+};
+
+const ORDER_TEMPLATES: Record<OrderEmailTemplateId, ComponentType<OrderEmailProps>> = {
+    order_confirmation: OrderConfirmationEmail,
+    payment_received: PaymentReceivedEmail,
+    order_shipped: OrderShippedEmail,
+    order_cancelled: OrderCancelledEmail,
+    order_refunded: OrderRefundedEmail,
+};
+
+let transport: EmailTransport | undefined;
+
+export const getEmailTransport = (): EmailTransport => {
+    if (transport) {
+        return transport;
+    }
+
+    const name = process.env.EMAIL_TRANSPORT ?? 'outbox';
+    switch (name) {
+        case 'outbox':
+            transport = createOutboxTransport();
+            return transport;
+        case 'smtp':
+            transport = createSmtpTransport({
+                host: process.env.SMTP_HOST ?? 'localhost',
+                port: Number(process.env.SMTP_PORT ?? 1025),
+                from: process.env.EMAIL_FROM ?? 'no-reply@example.com',
+            });
+            return transport;
+        default:
+            throw new Error(`未対応のメール送信方法です: ${name}`);
+    }
+};
+
+// メール内のリンク (サイトの絶対 URL)。toSiteUrl は言語付きのページ、toAbsoluteUrl (lib/seo) は API などのパスに使う
+export { toAbsoluteUrl };
+
+export const toSiteUrl = (locale: Locale, path: string): string => toAbsoluteUrl(localizePath(locale, path));
+
+const createEmailI18n = async (locale: Locale): Promise<I18n> =>
+    createI18n(locale, BASE_CURRENCY, await getExchangeRates());
+
+const send = async <P extends object>(
+    template: EmailTemplateId,
+    to: string,
+    i18n: I18n,
+    subject: string,
+    component: ComponentType<P>,
+    props: P
+): Promise<void> => {
+    const element = createElement(component, props);
+    const fullSubject = i18n.t('email.subject', { site: i18n.t('site.name'), subject });
+    await getEmailTransport().send({
+        template,
+        to,
+        subject: fullSubject,
+        html: renderEmailHtml(element, { lang: i18n.locale, title: fullSubject }),
+        text: renderEmailText(element),
+    });
+};
+
+// 送信先は注文時に入力されたメールアドレス (以前の注文で未入力の場合はアカウントのメールアドレス)
+const findOrderRecipient = async (order: Order): Promise<string | undefined> =>
+    order.shippingAddress.email || (order.userId ? (await getUserById(order.userId))?.email : undefined);
+
+// 注文ステータスに応じたメールを送る。送信に失敗しても注文の処理 (ステータスの変更など) は止めない
+export const sendOrderStatusEmail = async (order: Order): Promise<void> => {
+    const template = TEMPLATE_BY_STATUS[order.status];
+    if (!template) {
+        return;
+    }
+    try {
+        const to = await findOrderRecipient(order);
+        if (!to) {
+            return;
+        }
+        const i18n = await createEmailI18n(order.locale);
+        const subjectKey: MessageKey = `email.${template}.subject`;
+        await send(template, to, i18n, i18n.t(subjectKey, { orderId: order.id }), ORDER_TEMPLATES[template], {
+            i18n,
+            order,
+            // ゲストの注文は注文履歴がないため、リンクを付けない
+            orderUrl: order.userId ? toSiteUrl(order.locale, `/account/orders/${order.id}`) : null,
+        });
+    } catch (error) {
+        console.error(`メールの送信に失敗しました (${template}, 注文 ${order.id}):`, error);
+    }
+};
+
+// カートに商品が残っているお知らせを送る。cartUrl を省略した場合はカートページへのリンクにする
+export const sendCartReminderEmail = async (
+    to: string,
+    locale: Locale,
+    { cartUrl, ...props }: Omit<CartReminderEmailProps, 'i18n' | 'cartUrl'> & { cartUrl?: string }
+): Promise<void> => {
+    const i18n = await createEmailI18n(locale);
+    await send('cart_reminder', to, i18n, i18n.t('email.cart_reminder.subject'), CartReminderEmail, {
+        ...props,
+        i18n,
+        cartUrl: cartUrl ?? toSiteUrl(locale, '/cart'),
+    });
+};
+
+export { renderEmailHtml, renderEmailText } from './render';
+export { readOutbox } from './transports';
+export type { CartReminderItem } from './templates/CartReminderEmail';
+export type { EmailMessage, EmailTemplateId, EmailTransport, OutboxEmail } from './types';
@@ -0,0 +1,135 @@
+/*
+[概要]
+メールのテンプレート (React コンポーネント) を HTML とテキストに変換する。
+
+App Router のサーバー側では react-dom/server を読み込めないため、要素のツリーを直接たどって文字列にする。
+テンプレートは props から要素を返すだけの関数コンポーネントとし、フックは使わない。
+- HTML   : className → class、style オブジェクト → style 属性 (値は文字列で指定する)。
+           テンプレートは <body> を返し、<html>・<head> (文字コード・件名) はここで付ける
+- テキスト: 段落・表の行ごとに改行し、リンクは「文言 (URL)」、区切り線は罫線にする
+*/
+import { CSSProperties, Fragment, ReactElement, ReactNode, isValidElement } from 'react';
+
+type ElementProps = Record<string, unknown> & { children?: ReactNode };
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+// テキストにしたときに前後で改行する要素
+const BLOCK_TAGS = new Set(['div', 'table', 'ul', 'ol', 'h1', 'h3', 'section']);
+const PARAGRAPH_TAGS = new Set(['p', 'h2']);
+const ATTRIBUTE_NAMES: Record<string, string> = { className: 'class', htmlFor: 'for' };
+const TEXT_RULE = '----------------------------------------';
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toStyleAttribute = (style: CSSProperties) =>
+    Object.entries(style)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([name, value]) => `${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}:${value}`)
+        .join(';');
+
+const toAttributes = (props: ElementProps) =>
+    Object.entries(props)
+        .filter(([name, value]) => name !== 'children' && value !== undefined && value !== null && value !== false)
+        .filter(([, value]) => typeof value !== 'function')
+        .map(([name, value]) => {
+            const attribute = ATTRIBUTE_NAMES[name] ?? name;
+            if (value === true) {
+                return ` ${attribute}`;
+            }
+            const text = name === 'style' ? toStyleAttribute(value as CSSProperties) : String(value);
+            return ` ${attribute}="${escapeHtml(text)}"`;
+        })
+        .join('');
+
+// 関数コンポーネントは呼び出して、HTML の要素・文字列だけのツリーにする
+const visit = (
+    node: ReactNode,
+    renderElement: (tag: string, props: ElementProps, children: string) => string,
+    renderText: (text: string) => string
+): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') {
+        return '';
+    }
+    if (typeof node === 'string' || typeof node === 'number') {
+        return renderText(String(node));
+    }
+    if (Array.isArray(node)) {
+        return node.map((child) => visit(child, renderElement, renderText)).join('');
+    }
+    if (!isValidElement(node)) {
+        throw new Error('メールのテンプレートに使えない値です');
+    }
+    const { type } = node as ReactElement<ElementProps>;
+    const props = node.props as ElementProps;
+    if (type === Fragment) {
+        return visit(props.children, renderElement, renderText);
+    }
+    if (typeof type === 'function') {
+        return visit((type as (props: ElementProps) => ReactNode)(props), renderElement, renderText);
+    }
+    if (typeof type !== 'string') {
+        throw new Error('メールのテンプレートに使えない要素です');
+    }
+    return renderElement(type, props, visit(props.children, renderElement, renderText));
+};
+
+export type EmailDocument = {
+    lang: string;
+    title: string;
+};
+
+export const renderEmailHtml = (element: ReactElement, { lang, title }: EmailDocument): string =>
+    '<!DOCTYPE html>' +
+    `<html lang="${escapeHtml(lang)}">` +
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    visit(
+        element,
+        (tag, props, children) =>
+            VOID_TAGS.has(tag) ? `<${tag}${toAttributes(props)}>` : `<${tag}${toAttributes(props)}>${children}</${tag}>`,
+        escapeHtml
+    ) +
+    '</html>';
+
+const toTextBlock = (tag: string, props: ElementProps, children: string): string => {
+    if (tag === 'style') {
+        return '';
+    }
+    if (tag === 'br') {
+        return '\n';
+    }
+    if (tag === 'hr') {
+        return `\n${TEXT_RULE}\n`;
+    }
+    if (tag === 'img') {
+        return typeof props.alt === 'string' ? props.alt : '';
+    }
+    if (tag === 'a' && typeof props.href === 'string' && children.trim() !== props.href) {
+        return `${children} (${props.href})`;
+    }
+    if (tag === 'li') {
+        return `\n・${children}`;
+    }
+    if (tag === 'tr') {
+        return `${children}\n`;
+    }
+    if (tag === 'td' || tag === 'th') {
+        return `${children}  `;
+    }
+    if (PARAGRAPH_TAGS.has(tag)) {
+        return `\n\n${children}\n\n`;
+    }
+    if (BLOCK_TAGS.has(tag)) {
+        return `\n${children}\n`;
+    }
+    return children;
+};
+
+// 各行の前後の空白を除き、空行は2行以上続けない
+export const renderEmailText = (element: ReactElement): string =>
+    visit(element, toTextBlock, (text) => text)
+        .split('\n')
+        .map((line) => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
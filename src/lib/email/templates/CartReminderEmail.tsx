@@ -0,0 +1,47 @@
+/*
+[概要]
+カートに商品が残っているお知らせ (カゴ落ちメール)。カートの商品と、カートを復元するリンクを記載する。
+*/
+import { formatOptions } from '../../catalog/variants';
+import type { I18n } from '../../i18n/translator';
+import { priceWithTax } from '../../pricing';
+import type { TaxCategory } from '../../pricing/types';
+import EmailLayout, { EMAIL_STYLES } from './EmailLayout';
+
+export type CartReminderItem = {
+    sku: string;
+    name: string;
+    options: Record<string, string>;
+    quantity: number;
+    price: number; // 税抜
+    taxCategory: TaxCategory;
+};
+
+export type CartReminderEmailProps = {
+    i18n: I18n;
+    recipientName: string | null;
+    items: CartReminderItem[];
+    cartUrl: string;
+};
+
+export default function CartReminderEmail({ i18n, recipientName, items, cartUrl }: CartReminderEmailProps) {
+    const { t, formatJpy } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={recipientName}>
+            <p>{t('email.cart_reminder.intro')}</p>
+            <ul>
+                {items.map((item) => (
+                    <li key={item.sku}>
+                        {item.name}
+                        {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+                        {' '}× {item.quantity}
+                        {' '}{t('cart.unitPrice', { price: formatJpy(priceWithTax(item.price, item.taxCategory)) })}
+                    </li>
+                ))}
+            </ul>
+            <p>
+                <a href={cartUrl} style={EMAIL_STYLES.button}>{t('email.cart_reminder.cta')}</a>
+            </p>
+        </EmailLayout>
+    );
+}
@@ -0,0 +1,42 @@
+/*
+[概要]
+メールの共通レイアウト (サイト名の見出し・宛名・送信専用の注意書き)。
+<html>・<head> (文字コード・件名) は renderEmailHtml で付けるため、ここでは <body> だけを返す。
+メールソフトによっては <style> が効かないため、見た目は style 属性で指定する。
+*/
+import type { ReactNode } from 'react';
+import type { I18n } from '../../i18n/translator';
+
+type EmailLayoutProps = {
+    i18n: I18n;
+    recipientName: string | null;
+    children: ReactNode;
+};
+
+export const EMAIL_STYLES = {
+    heading: { fontSize: '18px', margin: '24px 0 8px' },
+    muted: { color: '#6b7280', fontSize: '12px' },
+    button: {
+        display: 'inline-block',
+        padding: '10px 20px',
+        backgroundColor: '#22c55e',
+        color: '#ffffff',
+        textDecoration: 'none',
+        borderRadius: '4px',
+    },
+};
+
+export default function EmailLayout({ i18n, recipientName, children }: EmailLayoutProps) {
+    const { t } = i18n;
+    return (
+        <body style={{ margin: '0', padding: '24px', backgroundColor: '#f3f4f6', color: '#111827', fontFamily: 'sans-serif' }}>
+            <div style={{ maxWidth: '600px', margin: '0 auto', padding: '24px', backgroundColor: '#ffffff' }}>
+                <h1 style={{ fontSize: '20px', margin: '0 0 16px' }}>{t('site.name')}</h1>
+                <p>{recipientName ? t('email.greeting', { name: recipientName }) : t('email.greetingGuest')}</p>
+                {children}
+                <hr />
+                <p style={EMAIL_STYLES.muted}>{t('email.footer')}</p>
+            </div>
+        </body>
+    );
+}
@@ -0,0 +1,18 @@
+/*
+[概要]
+キャンセルのお知らせ。キャンセルした注文の明細を記載する。
+*/
+import EmailLayout from './EmailLayout';
+import { OrderEmailProps, OrderItemsTable, OrderLink, OrderNumber } from './OrderDetails';
+
+export default function OrderCancelledEmail({ i18n, order, orderUrl }: OrderEmailProps) {
+    const { t } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={order.shippingAddress.name}>
+            <p>{t('email.order_cancelled.intro')}</p>
+            <OrderNumber i18n={i18n} order={order} />
+            <OrderItemsTable i18n={i18n} order={order} />
+            <OrderLink i18n={i18n} orderUrl={orderUrl} />
+        </EmailLayout>
+    );
+}
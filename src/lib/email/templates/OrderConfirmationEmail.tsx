@@ -0,0 +1,19 @@
+/*
+[概要]
+注文確認メール。注文の作成時に送り、明細・金額・お届け先をすべて記載する。
+*/
+import EmailLayout from './EmailLayout';
+import { DeliveryDetails, OrderEmailProps, OrderItemsTable, OrderLink, OrderNumber } from './OrderDetails';
+
+export default function OrderConfirmationEmail({ i18n, order, orderUrl }: OrderEmailProps) {
+    const { t } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={order.shippingAddress.name}>
+            <p>{t('email.order_confirmation.intro')}</p>
+            <OrderNumber i18n={i18n} order={order} />
+            <OrderItemsTable i18n={i18n} order={order} />
+            <DeliveryDetails i18n={i18n} order={order} />
+            <OrderLink i18n={i18n} orderUrl={orderUrl} />
+        </EmailLayout>
+    );
+}
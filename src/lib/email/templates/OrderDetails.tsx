@@ -0,0 +1,118 @@
+/*
+[概要]
+注文に関するメールで共通の部品 (注文番号・明細と金額の内訳・お届け先・注文詳細へのリンク)。
+*/
+import { formatOptions } from '../../catalog/variants';
+import type { I18n } from '../../i18n/translator';
+import type { Order } from '../../orders/types';
+import { lineTotalWithTax } from '../../pricing';
+import { EMAIL_STYLES } from './EmailLayout';
+
+export type OrderEmailProps = {
+    i18n: I18n;
+    order: Order;
+    // 注文詳細ページの URL。ゲストの注文はアカウントの注文履歴がないため null
+    orderUrl: string | null;
+};
+
+const CELL = { padding: '4px 0' };
+const AMOUNT_CELL = { padding: '4px 0', textAlign: 'right' as const };
+
+export function OrderNumber({ i18n, order }: Pick<OrderEmailProps, 'i18n' | 'order'>) {
+    return (
+        <p>
+            {i18n.t('order.number')} {order.id}
+            <br />
+            {i18n.t('order.date', { date: i18n.formatDate(order.createdAt, 'datetime') })}
+        </p>
+    );
+}
+
+// 明細と金額の内訳。請求額は日本円で表示する
+export function OrderItemsTable({ i18n, order }: Pick<OrderEmailProps, 'i18n' | 'order'>) {
+    const { t, formatJpy } = i18n;
+    return (
+        <>
+            <h2 style={EMAIL_STYLES.heading}>{t('order.items')}</h2>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                    {order.items.map((item) => (
+                        <tr key={item.sku}>
+                            <td style={CELL}>
+                                {item.name}
+                                {Object.keys(item.options).length > 0 && ` (${formatOptions(item.options)})`}
+                                {' '}× {item.quantity}
+                            </td>
+                            <td style={AMOUNT_CELL}>{formatJpy(lineTotalWithTax(item))}</td>
+                        </tr>
+                    ))}
+                    <tr>
+                        <td style={CELL}>{t('summary.subtotal')}</td>
+                        <td style={AMOUNT_CELL}>{formatJpy(order.subtotal)}</td>
+                    </tr>
+                    {order.discounts.map((discount) => (
+                        <tr key={discount.promotionId}>
+                            <td style={CELL}>{discount.label}</td>
+                            <td style={AMOUNT_CELL}>-{formatJpy(discount.amount)}</td>
+                        </tr>
+                    ))}
+                    <tr>
+                        <td style={CELL}>{t('summary.shipping')}</td>
+                        <td style={AMOUNT_CELL}>
+                            {order.shippingFee === 0 ? t('summary.free') : formatJpy(order.shippingFee)}
+                        </td>
+                    </tr>
+                    {order.taxes.map((breakdown) => (
+                        <tr key={breakdown.taxCategory}>
+                            <td style={CELL}>
+                                {t(`taxCategory.${breakdown.taxCategory}`)} {formatJpy(breakdown.taxableAmount)}
+                            </td>
+                            <td style={AMOUNT_CELL}>{t('summary.tax', { amount: formatJpy(breakdown.tax) })}</td>
+                        </tr>
+                    ))}
+                    <tr>
+                        <td style={{ ...CELL, fontWeight: 'bold' }}>{t('summary.total')}</td>
+                        <td style={{ ...AMOUNT_CELL, fontWeight: 'bold' }}>{formatJpy(order.total)}</td>
+                    </tr>
+                </tbody>
+            </table>
+        </>
+    );
+}
+
+export function DeliveryDetails({ i18n, order }: Pick<OrderEmailProps, 'i18n' | 'order'>) {
+    const { t, formatDate } = i18n;
+    const { shippingAddress } = order;
+    return (
+        <>
+            <h2 style={EMAIL_STYLES.heading}>{t('order.deliverTo')}</h2>
+            <p>
+                {t('address.recipient', { name: shippingAddress.name })}
+                <br />
+                〒{shippingAddress.postalCode}
+                <br />
+                {shippingAddress.prefecture}{shippingAddress.city}{shippingAddress.addressLine1}
+                {shippingAddress.addressLine2 && ` ${shippingAddress.addressLine2}`}
+            </p>
+            <p>
+                {t('order.deliveryMethod', { method: t(`delivery.${order.deliveryMethod}`) })}
+                <br />
+                {t('order.deliverySchedule', {
+                    date: order.deliveryDate ? formatDate(order.deliveryDate, 'day') : t('delivery.earliest'),
+                    slot: t(`deliverySlot.${order.deliveryTimeSlot}`),
+                })}
+            </p>
+        </>
+    );
+}
+
+export function OrderLink({ i18n, orderUrl }: Pick<OrderEmailProps, 'i18n' | 'orderUrl'>) {
+    if (!orderUrl) {
+        return null;
+    }
+    return (
+        <p>
+            <a href={orderUrl} style={EMAIL_STYLES.button}>{i18n.t('email.viewOrder')}</a>
+        </p>
+    );
+}
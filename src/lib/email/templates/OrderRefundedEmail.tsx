@@ -0,0 +1,17 @@
+/*
+[概要]
+返金のお知らせ。決済代行から返金完了の Webhook を受けて「返金済み」になったときに送る。
+*/
+import EmailLayout from './EmailLayout';
+import { OrderEmailProps, OrderLink, OrderNumber } from './OrderDetails';
+
+export default function OrderRefundedEmail({ i18n, order, orderUrl }: OrderEmailProps) {
+    const { t, formatJpy } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={order.shippingAddress.name}>
+            <p>{t('email.order_refunded.intro', { amount: formatJpy(order.total) })}</p>
+            <OrderNumber i18n={i18n} order={order} />
+            <OrderLink i18n={i18n} orderUrl={orderUrl} />
+        </EmailLayout>
+    );
+}
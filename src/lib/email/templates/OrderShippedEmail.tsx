@@ -0,0 +1,23 @@
+/*
+[概要]
+発送のお知らせ。管理画面で「発送済み」にしたときに、登録した伝票番号を記載して送る。
+*/
+import EmailLayout from './EmailLayout';
+import { DeliveryDetails, OrderEmailProps, OrderLink, OrderNumber } from './OrderDetails';
+
+export default function OrderShippedEmail({ i18n, order, orderUrl }: OrderEmailProps) {
+    const { t } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={order.shippingAddress.name}>
+            <p>{t('email.order_shipped.intro')}</p>
+            {order.trackingNumber && (
+                <p style={{ fontWeight: 'bold' }}>
+                    {t('email.order_shipped.trackingNumber', { trackingNumber: order.trackingNumber })}
+                </p>
+            )}
+            <OrderNumber i18n={i18n} order={order} />
+            <DeliveryDetails i18n={i18n} order={order} />
+            <OrderLink i18n={i18n} orderUrl={orderUrl} />
+        </EmailLayout>
+    );
+}
@@ -0,0 +1,17 @@
+/*
+[概要]
+お支払い完了のメール。決済の Webhook で注文が「支払い済み」になったときに送る。
+*/
+import EmailLayout from './EmailLayout';
+import { OrderEmailProps, OrderLink, OrderNumber } from './OrderDetails';
+
+export default function PaymentReceivedEmail({ i18n, order, orderUrl }: OrderEmailProps) {
+    const { t, formatJpy } = i18n;
+    return (
+        <EmailLayout i18n={i18n} recipientName={order.shippingAddress.name}>
+            <p>{t('email.payment_received.intro', { amount: formatJpy(order.total) })}</p>
+            <OrderNumber i18n={i18n} order={order} />
+            <OrderLink i18n={i18n} orderUrl={orderUrl} />
+        </EmailLayout>
+    );
+}
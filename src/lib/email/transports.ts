@@ -0,0 +1,118 @@
+/*
+[概要]
+メールの送信方法。
+- outbox: 実際には送信せず、送信箱 (data/email-outbox.json) に保存する (開発環境の既定)。管理画面の「メール」で確認できる
+- smtp  : SMTP サーバーに送信する。開発用のローカルの SMTP サーバー (Mailpit など) を想定し、認証・TLS には対応しない
+*/
+import { randomUUID } from 'crypto';
+import { createConnection } from 'net';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { EmailMessage, EmailTransport, OutboxEmail } from './types';
+
+const OUTBOX_FILE = 'email-outbox.json';
+// 送信箱に残す件数 (古いものから削除する)
+const OUTBOX_LIMIT = 200;
+
+export const readOutbox = async (): Promise<OutboxEmail[]> => readJsonFile<OutboxEmail[]>(OUTBOX_FILE, []);
+
+export const createOutboxTransport = (): EmailTransport => ({
+    name: 'outbox',
+    send: async (message) => {
+        const email: OutboxEmail = { ...message, id: randomUUID(), sentAt: new Date().toISOString() };
+        await updateJsonFile<OutboxEmail[]>(OUTBOX_FILE, [], (outbox) => [...outbox, email].slice(-OUTBOX_LIMIT));
+    },
+});
+
+export type SmtpTransportOptions = {
+    host: string;
+    port: number;
+    from: string;
+    timeoutMs?: number;
+};
+
+// 76文字ごとに改行した base64 (MIME の本文)
+const toBase64Lines = (value: string) =>
+    (Buffer.from(value, 'utf-8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+
+// 件名などのヘッダーは日本語を含むため、UTF-8 の B エンコードにする
+const encodeHeader = (value: string) => `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+// テキストと HTML の両方を含む multipart/alternative のメール
+const toMime = (from: string, message: EmailMessage) => {
+    const boundary = `=_${randomUUID()}`;
+    const part = (contentType: string, body: string) => [
+        `--${boundary}`,
+        `Content-Type: ${contentType}; charset=UTF-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        toBase64Lines(body),
+    ];
+    return [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${from.split('@')[1] ?? 'localhost'}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        ...part('text/plain', message.text),
+        ...part('text/html', message.html),
+        `--${boundary}--`,
+    ].join('\r\n');
+};
+
+export const createSmtpTransport = ({ host, port, from, timeoutMs = 10_000 }: SmtpTransportOptions): EmailTransport => ({
+    name: 'smtp',
+    send: (message) =>
+        new Promise<void>((resolve, reject) => {
+            // 送るコマンドと、期待する応答コード (最初の 220 は接続時の挨拶)
+            const steps: { command?: string; expect: number }[] = [
+                { expect: 220 },
+                { command: 'EHLO localhost', expect: 250 },
+                { command: `MAIL FROM:<${from}>`, expect: 250 },
+                { command: `RCPT TO:<${message.to}>`, expect: 250 },
+                { command: 'DATA', expect: 354 },
+                { command: `${toMime(from, message)}\r\n.`, expect: 250 },
+                { command: 'QUIT', expect: 221 },
+            ];
+            let step = 0;
+            let buffer = '';
+            const socket = createConnection({ host, port });
+            const fail = (error: Error) => {
+                socket.destroy();
+                reject(error);
+            };
+
+            socket.setEncoding('utf-8');
+            socket.setTimeout(timeoutMs, () => fail(new Error('SMTP サーバーの応答がありません')));
+            socket.on('error', fail);
+            // すべての応答を受け取る前に接続が切れた場合も失敗にする (Promise が解決されないままにしない)
+            socket.on('close', () => {
+                if (step < steps.length) {
+                    fail(new Error('SMTP サーバーとの接続が途中で切れました'));
+                }
+            });
+            socket.on('data', (chunk: string) => {
+                buffer += chunk;
+                // 複数行の応答 (250-...) は、最後の行 (250 ...) が届くまで待つ
+                const lines = buffer.split('\r\n').filter((line) => line !== '');
+                const last = lines[lines.length - 1];
+                if (!buffer.endsWith('\r\n') || !last || /^\d{3}-/.test(last)) {
+                    return;
+                }
+                buffer = '';
+                if (Number(last.slice(0, 3)) !== steps[step].expect) {
+                    fail(new Error(`SMTP サーバーがメールを受け付けませんでした: ${last}`));
+                    return;
+                }
+                step += 1;
+                if (step === steps.length) {
+                    socket.end();
+                    resolve();
+                    return;
+                }
+                socket.write(`${steps[step].command}\r\n`);
+            });
+        }),
+});
@@ -0,0 +1,29 @@
+// メールの種類
+export type EmailTemplateId =
+    | 'order_confirmation' // 注文の受付 (注文の作成時)
+    | 'payment_received' // お支払いの完了
+    | 'order_shipped' // 発送 (伝票番号付き)
+    | 'order_cancelled' // キャンセル
+    | 'order_refunded' // 返金
+    | 'cart_reminder'; // カートに商品が残っているお知らせ
+
+// 送信するメール。本文は同じテンプレートから HTML とテキストの両方を作る
+export type EmailMessage = {
+    template: EmailTemplateId;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+};
+
+// 送信方法 (送信箱のファイル・SMTP)。環境変数 EMAIL_TRANSPORT で切り替える
+export type EmailTransport = {
+    name: string;
+    send: (message: EmailMessage) => Promise<void>;
+};
+
+// 送信箱 (data/email-outbox.json) に保存したメール
+export type OutboxEmail = EmailMessage & {
+    id: string;
+    sentAt: string;
+};
@@ -0,0 +1,54 @@
+/*
+[概要]
+表示言語の設定と、言語付きの URL (/ja/products, /en/cart など) の組み立て。クライアント・サーバーのどちらからも使う。
+URL の先頭の言語は middleware.ts で取り除いてから各ページに渡すため、ページのファイルは言語ごとに分けていない。
+*/
+
+export const LOCALES = ['ja', 'en'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+// 最後に表示した言語。言語の付いていない URL を開いたときに使う
+export const LOCALE_COOKIE = 'ec-locale';
+
+// middleware から各ページに言語を伝えるリクエストヘッダー
+export const LOCALE_HEADER = 'x-locale';
+
+// Intl (数値・日付の表示) に渡すロケール
+export const INTL_LOCALES: Record<Locale, string> = {
+    ja: 'ja-JP',
+    en: 'en-US',
+};
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+    ja: '日本語',
+    en: 'English',
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+    LOCALES.some((locale) => locale === value);
+
+// "/en/products?page=2" → { locale: 'en', path: '/products?page=2' }。言語がない場合は locale: null
+export const splitLocale = (path: string): { locale: Locale | null; path: string } => {
+    const match = /^\/([^/?#]+)(.*)$/.exec(path);
+    if (match && isLocale(match[1])) {
+        return { locale: match[1], path: match[2] === '' || /^[?#]/.test(match[2]) ? `/${match[2]}` : match[2] };
+    }
+    return { locale: null, path };
+};
+
+// サイト内のパスに言語を付ける。"/" → "/en"、"/cart" → "/en/cart"
+export const localizePath = (locale: Locale, path: string): string => {
+    const { path: bare } = splitLocale(path);
+    return bare === '/' ? `/${locale}` : /^\/[?#]/.test(bare) ? `/${locale}${bare.slice(1)}` : `/${locale}${bare}`;
+};
+
+// Accept-Language ヘッダーから、対応している言語を選ぶ (なければ既定の言語)
+export const pickLocale = (acceptLanguage: string | null): Locale => {
+    const preferred = (acceptLanguage ?? '')
+        .split(',')
+        .map((part) => part.split(';')[0].trim().slice(0, 2).toLowerCase());
+    return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+};
@@ -0,0 +1,50 @@
+/*
+[概要]
+サーバー側 (Server Component) で表示言語・表示通貨を取得する。
+言語は middleware.ts が URL の先頭 (/ja, /en) から読み取り、リクエストヘッダー (x-locale) で渡す。
+middleware を通らないページ (管理画面) は言語の指定がないため、日本語・日本円で表示する。
+*/
+import { cache } from 'react';
+import { cookies, headers } from 'next/headers';
+import { BASE_CURRENCY, getDisplayCurrency, getExchangeRates } from '../currency';
+import { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_HEADER, Locale, isLocale } from './config';
+import { I18n, createI18n } from './translator';
+
+// URL で指定された言語 (指定がない場合は null)
+export const getRequestLocale = async (): Promise<Locale | null> => {
+    const value = (await headers()).get(LOCALE_HEADER);
+    return isLocale(value) ? value : null;
+};
+
+export const getLocale = async (): Promise<Locale> => (await getRequestLocale()) ?? DEFAULT_LOCALE;
+
+// 最後に表示した言語 (Cookie)。言語の付いた URL を通らない API (注文の作成など) で使う
+export const getPreferredLocale = async (): Promise<Locale> => {
+    const value = (await cookies()).get(LOCALE_COOKIE)?.value;
+    return isLocale(value) ? value : DEFAULT_LOCALE;
+};
+
+// 1回の描画の中で何度呼んでも、Cookie と為替レートの読み込みは1回にする
+export const getI18n = cache(async (): Promise<I18n> => {
+    const requested = await getRequestLocale();
+    const locale = requested ?? DEFAULT_LOCALE;
+    const currency = requested ? await getDisplayCurrency(locale) : BASE_CURRENCY;
+    return createI18n(locale, currency, await getExchangeRates());
+});
+
+export {
+    DEFAULT_LOCALE,
+    INTL_LOCALES,
+    LOCALES,
+    LOCALE_COOKIE,
+    LOCALE_HEADER,
+    LOCALE_LABELS,
+    isLocale,
+    localizePath,
+    pickLocale,
+    splitLocale,
+} from './config';
+export { createI18n, interpolate } from './translator';
+export type { Locale } from './config';
+export type { MessageKey } from './messages/ja';
+export type { I18n, MessageParams } from './translator';
@@ -0,0 +1,288 @@
+/*
+[概要]
+画面の文言 (英語)。キーは ja.ts と同じで、足りないキーがあると型チェックでエラーになる。
+*/
+import type { MessageKey } from './ja';
+
+export const en: Record<MessageKey, string> = {
+    'site.name': 'EC Site',
+    'site.header': 'EC Site',
+    'nav.products': 'Products',
+    'nav.wishlist': 'Wishlist',
+    'nav.cart': 'Cart',
+    'nav.account': 'Account',
+    'preferences.language': 'Language',
+    'preferences.currency': 'Currency',
+
+    'common.loading': 'Loading...',
+    'common.back': 'Back',
+    'common.delete': 'Remove',
+    'common.taxIncluded': '(tax incl.)',
+    'common.priceFrom': 'from {price}',
+    'common.browseProducts': 'Browse products',
+    'common.viewCart': 'View cart',
+    'common.failed': 'Something went wrong',
+    'common.dismiss': 'Dismiss notification',
+    'currency.chargeNote': 'You will be charged in Japanese yen ({amount}). {currency} amounts are approximate.',
+
+    'home.viewAll': 'View all products',
+
+    'search.placeholder': 'Search by keyword',
+    'search.keyword': 'Keyword',
+    'search.submit': 'Search',
+
+    'products.title': 'Products',
+    'products.resultsFor': 'Results for "{keyword}"',
+    'products.count': '{count} items',
+    'products.empty': 'No products match your filters.',
+    'products.clearFilters': 'Clear filters',
+    'sort.label': 'Sort',
+    'sort.newest': 'Newest',
+    'sort.popular': 'Most popular',
+    'sort.price_asc': 'Price: low to high',
+    'sort.price_desc': 'Price: high to low',
+    'facets.label': 'Filters',
+    'facets.category': 'Category',
+    'facets.price': 'Price (tax incl.)',
+    'facets.priceUnder': 'Under {max}',
+    'facets.priceBetween': '{min} – {max}',
+    'facets.priceOver': '{min} and up',
+    'category.kitchen': 'Kitchen',
+    'category.stationery': 'Stationery',
+    'category.fashion': 'Fashion',
+    'category.food': 'Food',
+    'pagination.label': 'Pagination',
+    'pagination.prev': 'Previous',
+    'pagination.next': 'Next',
+
+    'product.notFound': 'Product not found',
+    'product.taxExcluded': '{price} excl. tax',
+    'product.unavailableCombination': 'This combination is not available',
+    'product.remaining': '(only {count} left)',
+    'product.addToCart': 'Add to cart',
+    'product.added': 'Added to your cart',
+    'gallery.zoomIn': 'Zoom in on image',
+    'gallery.zoomOut': 'Zoom out',
+    'gallery.thumbnails': 'Product images',
+    'gallery.show': 'Show image {index} of {count}',
+    'stock.in_stock': 'In stock',
+    'stock.low_stock': 'Low stock',
+    'stock.out_of_stock': 'Out of stock',
+
+    'reviews.title': 'Reviews',
+    'reviews.count': '{count} reviews',
+    'reviews.ratingLabel': '{rating} out of 5',
+    'reviews.stars': '{stars} stars',
+    'reviews.empty': 'No reviews yet',
+    'reviews.loadFailed': 'Could not load reviews',
+    'reviews.sort.newest': 'Newest',
+    'reviews.sort.highest': 'Highest rated',
+    'reviews.sort.lowest': 'Lowest rated',
+    'reviews.verified': 'Verified purchase',
+    'reviews.anonymous': 'Anonymous',
+    'reviews.write': 'Write a review',
+    'reviews.rating': 'Rating',
+    'reviews.reviewTitle': 'Title (optional)',
+    'reviews.body': 'Review',
+    'reviews.submit': 'Submit review',
+    'reviews.thanks': 'Thanks! Your review will appear once it has been approved.',
+    'reviews.ineligible.login': 'Log in to write a review.',
+    'reviews.ineligible.not_purchased': 'Only customers who bought this product can review it.',
+    'reviews.ineligible.already_reviewed': 'You have already reviewed this product.',
+
+    'wishlist.title': 'Wishlist',
+    'wishlist.empty': 'Your wishlist is empty',
+    'wishlist.emptyHint': 'Tap the heart (♡) on a product to save it here',
+    'wishlist.add': 'Add to wishlist',
+    'wishlist.remove': 'Remove from wishlist',
+    'wishlist.addNamed': 'Add {name} to wishlist',
+    'wishlist.removeNamed': 'Remove {name} from wishlist',
+    'wishlist.moveToCart': 'Move to cart',
+    'wishlist.chooseOptions': 'Choose options',
+
+    'cart.title': 'Your cart',
+    'cart.empty': 'Your cart is empty',
+    'cart.emptyHint': 'Add some products to get started',
+    'cart.unitPrice': 'Price: {price} (tax incl.)',
+    'cart.lineTotal': 'Subtotal: {price} (tax incl.)',
+    'cart.outOfStock': 'Out of stock',
+    'cart.maxQuantity': 'You can buy up to {count}',
+    'cart.saveForLater': 'Save for later',
+    'cart.removeItem': 'Remove {name} from cart',
+    'cart.removed': 'Removed {name} from your cart',
+    'cart.undo': 'Undo',
+    'cart.summary.title': 'Order summary',
+    'cart.summary.itemCount': '{count} items',
+    'cart.freeShipping': 'Free shipping promotion applied',
+    'cart.checkout': 'Proceed to checkout',
+    'cart.restore.title': 'Restore your previous cart?',
+    'cart.restore.description': 'Your cart saved on {date} has {count} item(s).',
+    'cart.restore.more': 'and {count} more',
+    'cart.restore.accept': 'Restore',
+    'cart.restore.dismiss': 'Discard',
+    'cart.recovered': 'Your cart has been restored from the email link',
+    'cart.recoveryInvalid': 'The cart link is invalid or has expired',
+    'miniCart.title': 'Cart',
+    'miniCart.open': 'Open cart ({count} items)',
+    'miniCart.close': 'Close cart',
+    'miniCart.added': 'Added {name} to your cart',
+    'quantity.label': 'Quantity of {name}',
+    'quantity.decrease': 'Decrease quantity of {name}',
+    'quantity.increase': 'Increase quantity of {name}',
+    'quantity.invalid': 'Enter a whole number from 1 to {max} (0 removes the item)',
+    'coupon.applied': 'Coupon:',
+    'coupon.remove': 'Remove',
+    'coupon.label': 'Coupon code',
+    'coupon.apply': 'Apply',
+
+    'shipping.estimate': 'Estimate shipping',
+    'shipping.calculate': 'Calculate',
+    'shipping.destination': 'Delivery to {prefecture}',
+    'shipping.untilFree': 'Add {amount} more (excl. tax) to get free shipping',
+    'shipping.freeApplied': 'Your order qualifies for free shipping',
+    'shipping.remoteSurcharge': 'Includes a remote-area surcharge of {amount} (excl. tax)',
+    'shipping.expressFee': 'Includes an express fee of {amount} (excl. tax)',
+    'shipping.expressUnavailable': 'Express delivery is not available for this address',
+    'shipping.fee': 'Shipping {amount} (excl. tax)',
+
+    'summary.subtotal': 'Subtotal (excl. tax)',
+    'summary.tax': 'Tax {amount}',
+    'summary.shipping': 'Shipping (excl. tax)',
+    'summary.shippingPending': 'Calculated from your address',
+    'summary.free': 'Free',
+    'summary.total': 'Total (tax incl.)',
+    'taxCategory.standard': '10% items',
+    'taxCategory.reduced': '8% items (reduced rate)',
+
+    'checkout.title': 'Checkout',
+    'checkout.step.address': 'Address',
+    'checkout.step.delivery': 'Delivery',
+    'checkout.step.payment': 'Payment',
+    'checkout.step.review': 'Review',
+    'checkout.backToProducts': 'Back to products',
+    'checkout.orderFailed': 'Could not create your order',
+    'checkout.paymentFailed': 'Could not process your payment',
+    'checkout.toDelivery': 'Continue to delivery',
+    'checkout.toReview': 'Review your order',
+    'checkout.orderedItems': 'Items',
+    'checkout.shippingAddress': 'Shipping address',
+    'checkout.deliveryMethod': 'Delivery method',
+    'checkout.paymentMethod': 'Payment method',
+    'checkout.submitting': 'Submitting...',
+    'checkout.placeOrder': 'Place order',
+    'decline.card_declined': 'Your card issuer declined the payment. Please try another card.',
+    'decline.insufficient_funds': 'Your card has insufficient funds. Please try another card.',
+    'decline.authentication_failed': 'Card authentication failed. Please try again.',
+    'address.name': 'Full name',
+    'address.name.placeholder': 'Taro Yamada',
+    'address.postalCode': 'Postal code',
+    'address.postalCode.placeholder': '123-4567',
+    'address.prefecture': 'Prefecture',
+    'address.prefecture.placeholder': 'Select',
+    'address.city': 'City',
+    'address.city.placeholder': 'Chiyoda, Chiyoda-ku',
+    'address.addressLine1': 'Street address',
+    'address.addressLine1.placeholder': '1-1',
+    'address.addressLine2': 'Building / room (optional)',
+    'address.addressLine2.placeholder': 'EC Mansion 101',
+    'address.phone': 'Phone number',
+    'address.phone.placeholder': '03-1234-5678',
+    'address.email': 'Email',
+    'address.email.placeholder': 'taro@example.com',
+    'address.recipient': '{name}',
+    'delivery.standard': 'Standard delivery',
+    'delivery.standard.description': 'Arrives in 3–5 days',
+    'delivery.express': 'Express delivery',
+    'delivery.express.description': 'Arrives the next day (some areas excluded)',
+    'delivery.date': 'Delivery date',
+    'delivery.earliest': 'As soon as possible',
+    'delivery.timeSlot': 'Delivery time',
+    'deliverySlot.unspecified': 'Any time',
+    'deliverySlot.morning': 'Morning (until noon)',
+    'deliverySlot.14-16': '2pm – 4pm',
+    'deliverySlot.16-18': '4pm – 6pm',
+    'deliverySlot.18-20': '6pm – 8pm',
+    'deliverySlot.19-21': '7pm – 9pm',
+    'paymentCard.tok_mock_success': 'Test card (succeeds)',
+    'paymentCard.tok_mock_declined': 'Test card (declined by issuer)',
+    'paymentCard.tok_mock_insufficient_funds': 'Test card (insufficient funds)',
+    'paymentCard.tok_mock_3ds': 'Test card (requires 3-D Secure)',
+    'threeDSecure.title': 'Card authentication (3-D Secure)',
+    'threeDSecure.description': 'Your card issuer requires authentication (test environment).',
+    'threeDSecure.fail': 'Fail authentication',
+    'threeDSecure.pass': 'Authenticate',
+
+    'complete.title': 'Thank you for your order',
+    'complete.paymentStatus': 'Payment status:',
+    'complete.paid': 'Paid',
+    'complete.confirming': 'Confirming your payment',
+    'complete.backToTop': 'Back to home',
+    'order.number': 'Order number:',
+    'order.date': 'Ordered at: {date}',
+    'order.items': 'Order summary',
+    'order.deliverTo': 'Deliver to',
+    'order.deliveryMethod': 'Delivery method: {method}',
+    'order.deliverySchedule': 'Requested delivery: {date}, {slot}',
+    'order.trackingNumber': 'Tracking number: {trackingNumber}',
+    'order.status': 'Status',
+    'orderStatus.pending': 'Awaiting payment',
+    'orderStatus.paid': 'Paid',
+    'orderStatus.failed': 'Payment failed',
+    'orderStatus.shipped': 'Shipped',
+    'orderStatus.delivered': 'Delivered',
+    'orderStatus.cancelled': 'Cancelled',
+    'orderStatus.refunded': 'Refunded',
+
+    'account.title': 'Account',
+    'account.name': 'Name',
+    'account.nameUnset': '(not set)',
+    'account.email': 'Email',
+    'account.createdAt': 'Member since',
+    'account.orders': 'Order history',
+    'account.admin': 'Admin',
+    'account.logout': 'Log out',
+    'account.logoutFailed': 'Could not log out. Please try again.',
+    'orders.title': 'Order history',
+    'orders.empty': 'You have no orders yet.',
+    'orders.andMore': ' and {count} more',
+    'orders.total': 'Total {amount} (tax incl.)',
+    'orders.backToAccount': 'Back to account',
+    'orders.detailTitle': 'Order details',
+    'orders.backToHistory': 'Back to order history',
+    'reorder.button': 'Buy again',
+    'reorder.added': 'Added {count} items to your cart.',
+    'reorder.unavailable': 'Could not add these items',
+    'reorder.discontinued': 'No longer available',
+    'reorder.repriced': 'Prices changed since your order (tax incl.)',
+
+    'email.subject': '[{site}] {subject}',
+    'email.greeting': 'Dear {name},',
+    'email.greetingGuest': 'Hello,',
+    'email.footer': 'This email was sent from a send-only address. Replies to this message are not monitored.',
+    'email.viewOrder': 'View your order',
+    'email.order_confirmation.subject': 'Thank you for your order (order {orderId})',
+    'email.order_confirmation.intro': 'Thank you for shopping with us. We have received your order below and will start preparing it once your payment is confirmed.',
+    'email.payment_received.subject': 'Payment received (order {orderId})',
+    'email.payment_received.intro': 'We have received your payment of {amount}. We will email you again when your order ships.',
+    'email.order_shipped.subject': 'Your order has shipped (order {orderId})',
+    'email.order_shipped.intro': 'Good news: your order is on its way.',
+    'email.order_shipped.trackingNumber': 'Tracking number: {trackingNumber}',
+    'email.order_cancelled.subject': 'Your order has been cancelled (order {orderId})',
+    'email.order_cancelled.intro': 'The order below has been cancelled. We hope to see you again soon.',
+    'email.order_refunded.subject': 'Your order has been refunded (order {orderId})',
+    'email.order_refunded.intro': 'We have refunded {amount} for your order. It may take a few days to appear on your card statement.',
+    'email.cart_reminder.subject': 'You left items in your cart',
+    'email.cart_reminder.intro': 'The items you were looking at are still in your cart. Stock is limited, so check out soon to make sure you get them.',
+    'email.cart_reminder.cta': 'View your cart',
+
+    'auth.login': 'Log in',
+    'auth.loginHint': 'Log in to save your cart to your account and use it on any device.',
+    'auth.newHere': 'New here?',
+    'auth.register': 'Create an account',
+    'auth.registered': 'Already have an account?',
+    'auth.name': 'Name (optional)',
+    'auth.email': 'Email',
+    'auth.password': 'Password',
+    'auth.passwordHint': 'At least 8 characters',
+    'auth.submitRegister': 'Create account',
+};
@@ -0,0 +1,291 @@
+/*
+[概要]
+画面の文言 (日本語)。キーは「画面・部品の名前.用途」の形にする。
+{name} のように波括弧で囲んだ部分には、表示するときに値を埋め込む。
+このファイルのキーが基準で、英語 (en.ts) は同じキーをすべて持つ必要がある。
+*/
+
+export const ja = {
+    'site.name': 'ECサイト',
+    'site.header': 'ECサイトヘッダー',
+    'nav.products': '商品一覧',
+    'nav.wishlist': 'お気に入り',
+    'nav.cart': 'カート',
+    'nav.account': 'アカウント',
+    'preferences.language': '言語',
+    'preferences.currency': '表示通貨',
+
+    'common.loading': '読み込み中...',
+    'common.back': '戻る',
+    'common.delete': '削除',
+    'common.taxIncluded': '(税込)',
+    'common.priceFrom': '{price}〜',
+    'common.browseProducts': '商品を探す',
+    'common.viewCart': 'カートを見る',
+    'common.failed': '処理に失敗しました',
+    'common.dismiss': '通知を閉じる',
+    'currency.chargeNote': 'お支払いは日本円 ({amount}) です。{currency} の金額は目安です。',
+
+    'home.viewAll': 'すべての商品を見る',
+
+    'search.placeholder': 'キーワードで探す',
+    'search.keyword': 'キーワード',
+    'search.submit': '検索',
+
+    'products.title': '商品一覧',
+    'products.resultsFor': '「{keyword}」の検索結果',
+    'products.count': '{count}件',
+    'products.empty': '条件に一致する商品が見つかりませんでした。',
+    'products.clearFilters': '条件をクリア',
+    'sort.label': '並び替え',
+    'sort.newest': '新着順',
+    'sort.popular': '人気順',
+    'sort.price_asc': '価格の安い順',
+    'sort.price_desc': '価格の高い順',
+    'facets.label': '絞り込み',
+    'facets.category': 'カテゴリ',
+    'facets.price': '価格 (税込)',
+    'facets.priceUnder': '〜{max}',
+    'facets.priceBetween': '{min}〜{max}',
+    'facets.priceOver': '{min}〜',
+    'category.kitchen': 'キッチン用品',
+    'category.stationery': '文房具',
+    'category.fashion': 'ファッション',
+    'category.food': '食品',
+    'pagination.label': 'ページ送り',
+    'pagination.prev': '前へ',
+    'pagination.next': '次へ',
+
+    'product.notFound': '商品が見つかりません',
+    'product.taxExcluded': '税抜 {price}',
+    'product.unavailableCombination': 'この組み合わせは取り扱いがありません',
+    'product.remaining': '(残り{count}点)',
+    'product.addToCart': 'カートに追加',
+    'product.added': 'カートに追加しました',
+    'gallery.zoomIn': '画像を拡大する',
+    'gallery.zoomOut': '画像の拡大をやめる',
+    'gallery.thumbnails': '商品画像の一覧',
+    'gallery.show': '画像 {index} / {count} を表示',
+    'stock.in_stock': '在庫あり',
+    'stock.low_stock': '残りわずか',
+    'stock.out_of_stock': '在庫切れ',
+
+    'reviews.title': 'レビュー',
+    'reviews.count': '{count}件のレビュー',
+    'reviews.ratingLabel': '5段階中{rating}',
+    'reviews.stars': '星{stars}',
+    'reviews.empty': 'まだレビューはありません',
+    'reviews.loadFailed': 'レビューを読み込めませんでした',
+    'reviews.sort.newest': '新しい順',
+    'reviews.sort.highest': '評価の高い順',
+    'reviews.sort.lowest': '評価の低い順',
+    'reviews.verified': '購入者のレビュー',
+    'reviews.anonymous': '匿名',
+    'reviews.write': 'レビューを書く',
+    'reviews.rating': '評価',
+    'reviews.reviewTitle': 'タイトル (任意)',
+    'reviews.body': '本文',
+    'reviews.submit': '投稿する',
+    'reviews.thanks': 'レビューを投稿しました。確認後に公開されます。',
+    'reviews.ineligible.login': 'レビューを書くにはログインしてください。',
+    'reviews.ineligible.not_purchased': 'レビューを書けるのは、この商品を購入した方だけです。',
+    'reviews.ineligible.already_reviewed': 'この商品のレビューは投稿済みです。',
+
+    'wishlist.title': 'お気に入り',
+    'wishlist.empty': 'お気に入りはまだありません',
+    'wishlist.emptyHint': '商品のハート (♡) を押すと、ここに保存されます',
+    'wishlist.add': 'お気に入りに追加',
+    'wishlist.remove': 'お気に入りから外す',
+    'wishlist.addNamed': '{name}をお気に入りに追加',
+    'wishlist.removeNamed': '{name}をお気に入りから外す',
+    'wishlist.moveToCart': 'カートに移す',
+    'wishlist.chooseOptions': '組み合わせを選ぶ',
+
+    'cart.title': 'カートの中身',
+    'cart.empty': 'カートは空です',
+    'cart.emptyHint': '商品を追加してください',
+    'cart.unitPrice': '価格: {price} (税込)',
+    'cart.lineTotal': '小計: {price} (税込)',
+    'cart.outOfStock': '在庫切れです',
+    'cart.maxQuantity': '購入できるのは{count}点までです',
+    'cart.saveForLater': 'あとで買う',
+    'cart.removeItem': '{name}をカートから削除',
+    'cart.removed': '{name}をカートから削除しました',
+    'cart.undo': '元に戻す',
+    'cart.summary.title': '注文内容',
+    'cart.summary.itemCount': '商品 {count} 点',
+    'cart.freeShipping': '送料無料キャンペーンが適用されます',
+    'cart.checkout': 'レジに進む',
+    'cart.restore.title': '前回のカートを復元しますか?',
+    'cart.restore.description': '{date} に保存したカートに商品が {count} 点あります。',
+    'cart.restore.more': 'ほか {count} 点',
+    'cart.restore.accept': '復元する',
+    'cart.restore.dismiss': '破棄する',
+    'cart.recovered': 'メールのリンクからカートを復元しました',
+    'cart.recoveryInvalid': 'カートの復元リンクが正しくないか、有効期限が切れています',
+    'miniCart.title': 'カート',
+    'miniCart.open': 'カートを開く (商品 {count} 点)',
+    'miniCart.close': 'カートを閉じる',
+    'miniCart.added': '{name}をカートに追加しました',
+    'quantity.label': '{name}の数量',
+    'quantity.decrease': '{name}の数量を減らす',
+    'quantity.increase': '{name}の数量を増やす',
+    'quantity.invalid': '数量は1〜{max}の整数で入力してください (0 で削除)',
+    'coupon.applied': 'クーポン:',
+    'coupon.remove': '解除する',
+    'coupon.label': 'クーポンコード',
+    'coupon.apply': '適用',
+
+    'shipping.estimate': '送料の目安',
+    'shipping.calculate': '計算する',
+    'shipping.destination': '{prefecture}へのお届け',
+    'shipping.untilFree': 'あと{amount} (税抜) のお買い上げで送料無料になります',
+    'shipping.freeApplied': '送料無料の対象です',
+    'shipping.remoteSurcharge': '離島・遠隔地料金 {amount} (税抜) を含みます',
+    'shipping.expressFee': 'お急ぎ便料金 {amount} (税抜) を含みます',
+    'shipping.expressUnavailable': 'この配送先にはお急ぎ便をご利用いただけません',
+    'shipping.fee': '送料 {amount} (税抜)',
+
+    'summary.subtotal': '小計 (税抜)',
+    'summary.tax': '消費税 {amount}',
+    'summary.shipping': '送料 (税抜)',
+    'summary.shippingPending': '配送先の入力後に計算します',
+    'summary.free': '無料',
+    'summary.total': '合計金額 (税込)',
+    'taxCategory.standard': '10%対象',
+    'taxCategory.reduced': '8%対象 (軽減税率)',
+
+    'checkout.title': 'ご購入手続き',
+    'checkout.step.address': '配送先',
+    'checkout.step.delivery': '配送方法',
+    'checkout.step.payment': 'お支払い',
+    'checkout.step.review': '確認',
+    'checkout.backToProducts': '商品一覧へ戻る',
+    'checkout.orderFailed': '注文の作成に失敗しました',
+    'checkout.paymentFailed': 'お支払いの処理に失敗しました',
+    'checkout.toDelivery': '配送方法の選択へ',
+    'checkout.toReview': '注文内容の確認へ',
+    'checkout.orderedItems': 'ご注文商品',
+    'checkout.shippingAddress': '配送先',
+    'checkout.deliveryMethod': '配送方法',
+    'checkout.paymentMethod': 'お支払い方法',
+    'checkout.submitting': '送信中...',
+    'checkout.placeOrder': '注文を確定する',
+    'decline.card_declined': 'カード会社によりお支払いが承認されませんでした。別のカードをお試しください。',
+    'decline.insufficient_funds': 'ご利用可能額が不足しています。別のカードをお試しください。',
+    'decline.authentication_failed': '本人認証に失敗しました。もう一度お試しください。',
+    'address.name': 'お名前',
+    'address.name.placeholder': '山田 太郎',
+    'address.postalCode': '郵便番号',
+    'address.postalCode.placeholder': '123-4567',
+    'address.prefecture': '都道府県',
+    'address.prefecture.placeholder': '選択してください',
+    'address.city': '市区町村',
+    'address.city.placeholder': '千代田区千代田',
+    'address.addressLine1': '番地',
+    'address.addressLine1.placeholder': '1-1',
+    'address.addressLine2': '建物名・部屋番号 (任意)',
+    'address.addressLine2.placeholder': 'ECマンション101',
+    'address.phone': '電話番号',
+    'address.phone.placeholder': '03-1234-5678',
+    'address.email': 'メールアドレス',
+    'address.email.placeholder': 'taro@example.com',
+    'address.recipient': '{name} 様',
+    'delivery.standard': '通常配送',
+    'delivery.standard.description': 'ご注文から3〜5日でお届けします',
+    'delivery.express': 'お急ぎ便',
+    'delivery.express.description': 'ご注文の翌日にお届けします (一部地域を除く)',
+    'delivery.date': 'お届け希望日',
+    'delivery.earliest': '最短でお届け',
+    'delivery.timeSlot': 'お届け時間帯',
+    'deliverySlot.unspecified': '指定なし',
+    'deliverySlot.morning': '午前中',
+    'deliverySlot.14-16': '14〜16時',
+    'deliverySlot.16-18': '16〜18時',
+    'deliverySlot.18-20': '18〜20時',
+    'deliverySlot.19-21': '19〜21時',
+    'paymentCard.tok_mock_success': 'テストカード (決済成功)',
+    'paymentCard.tok_mock_declined': 'テストカード (カード会社により拒否)',
+    'paymentCard.tok_mock_insufficient_funds': 'テストカード (残高不足)',
+    'paymentCard.tok_mock_3ds': 'テストカード (3-D Secure 認証あり)',
+    'threeDSecure.title': '本人認証 (3-D Secure)',
+    'threeDSecure.description': 'カード会社による本人認証が必要です (テスト環境)。',
+    'threeDSecure.fail': '認証に失敗する',
+    'threeDSecure.pass': '認証する',
+
+    'complete.title': 'ご注文ありがとうございました',
+    'complete.paymentStatus': 'お支払い状況:',
+    'complete.paid': 'お支払い済み',
+    'complete.confirming': 'お支払いを確認しています',
+    'complete.backToTop': 'トップページへ戻る',
+    'order.number': '注文番号:',
+    'order.date': '注文日時: {date}',
+    'order.items': 'ご注文内容',
+    'order.deliverTo': 'お届け先',
+    'order.deliveryMethod': '配送方法: {method}',
+    'order.deliverySchedule': 'お届け希望: {date} {slot}',
+    'order.trackingNumber': 'お問い合わせ伝票番号: {trackingNumber}',
+    'order.status': 'ステータス',
+    'orderStatus.pending': 'お支払い待ち',
+    'orderStatus.paid': 'お支払い済み',
+    'orderStatus.failed': 'お支払い失敗',
+    'orderStatus.shipped': '発送済み',
+    'orderStatus.delivered': 'お届け済み',
+    'orderStatus.cancelled': 'キャンセル',
+    'orderStatus.refunded': '返金済み',
+
+    'account.title': 'アカウント',
+    'account.name': 'お名前',
+    'account.nameUnset': '(未設定)',
+    'account.email': 'メールアドレス',
+    'account.createdAt': '登録日',
+    'account.orders': '注文履歴',
+    'account.admin': '管理画面',
+    'account.logout': 'ログアウト',
+    'account.logoutFailed': 'ログアウトできませんでした。もう一度お試しください',
+    'orders.title': '注文履歴',
+    'orders.empty': 'まだ注文がありません。',
+    'orders.andMore': ' ほか{count}点',
+    'orders.total': '合計 {amount} (税込)',
+    'orders.backToAccount': 'アカウントに戻る',
+    'orders.detailTitle': '注文詳細',
+    'orders.backToHistory': '注文履歴に戻る',
+    'reorder.button': 'もう一度購入する',
+    'reorder.added': '{count}件の商品をカートに追加しました。',
+    'reorder.unavailable': 'カートに追加できなかった商品',
+    'reorder.discontinued': '販売を終了しました',
+    'reorder.repriced': 'ご注文時から価格が変わった商品 (税込)',
+
+    'email.subject': '【{site}】{subject}',
+    'email.greeting': '{name} 様',
+    'email.greetingGuest': 'お客様',
+    'email.footer': 'このメールは送信専用のアドレスからお送りしています。ご返信いただいてもお答えできませんのでご了承ください。',
+    'email.viewOrder': 'ご注文内容を確認する',
+    'email.order_confirmation.subject': 'ご注文ありがとうございます (注文番号: {orderId})',
+    'email.order_confirmation.intro': 'このたびはご注文いただきありがとうございます。以下の内容でご注文を承りました。お支払いの確認後、商品の準備を始めます。',
+    'email.payment_received.subject': 'お支払いを確認しました (注文番号: {orderId})',
+    'email.payment_received.intro': 'ご注文のお支払い ({amount}) を確認しました。発送の準備ができ次第、あらためてご連絡いたします。',
+    'email.order_shipped.subject': 'ご注文の商品を発送しました (注文番号: {orderId})',
+    'email.order_shipped.intro': 'ご注文の商品を発送しました。お届けまで今しばらくお待ちください。',
+    'email.order_shipped.trackingNumber': 'お問い合わせ伝票番号: {trackingNumber}',
+    'email.order_cancelled.subject': 'ご注文をキャンセルしました (注文番号: {orderId})',
+    'email.order_cancelled.intro': '以下のご注文をキャンセルしました。またのご利用をお待ちしております。',
+    'email.order_refunded.subject': 'ご注文の代金を返金しました (注文番号: {orderId})',
+    'email.order_refunded.intro': 'ご注文の代金 {amount} を返金しました。カード会社によっては、ご利用明細に反映されるまでお時間がかかる場合があります。',
+    'email.cart_reminder.subject': 'カートに商品が残っています',
+    'email.cart_reminder.intro': 'ご覧いただいていた商品がカートに残っています。在庫には限りがありますので、お早めにご購入手続きをお願いいたします。',
+    'email.cart_reminder.cta': 'カートを確認する',
+
+    'auth.login': 'ログイン',
+    'auth.loginHint': 'ログインすると、カートの中身がアカウントに保存され、他の端末でも同じカートを使えます。',
+    'auth.newHere': 'はじめての方は',
+    'auth.register': '会員登録',
+    'auth.registered': '登録済みの方は',
+    'auth.name': 'お名前 (任意)',
+    'auth.email': 'メールアドレス',
+    'auth.password': 'パスワード',
+    'auth.passwordHint': '8文字以上',
+    'auth.submitRegister': '登録する',
+};
+
+export type MessageKey = keyof typeof ja;
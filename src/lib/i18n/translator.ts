@@ -0,0 +1,66 @@
+/*
+[概要]
+文言の翻訳と、言語・表示通貨に合わせた金額・日付の表示。クライアント・サーバーのどちらからも使う。
+サーバーでは getI18n (lib/i18n)、クライアントでは useI18n (context/i18n) から同じ関数を受け取る。
+*/
+import { BASE_CURRENCY, canConvert, formatMoney } from '../currency/format';
+import type { CurrencyCode, ExchangeRates } from '../currency/types';
+import { INTL_LOCALES, Locale, localizePath } from './config';
+import { en } from './messages/en';
+import { ja, MessageKey } from './messages/ja';
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { ja, en };
+
+export type MessageParams = Record<string, string | number>;
+
+export type I18n = {
+    locale: Locale;
+    currency: CurrencyCode;
+    rates: ExchangeRates;
+    // 表示通貨が日本円以外 (金額が目安) の場合は true
+    isConverted: boolean;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    // 日本円の金額を表示通貨に換算して表示する
+    formatPrice: (amount: number) => string;
+    // 請求額など、表示通貨にかかわらず日本円で表示する
+    formatJpy: (amount: number) => string;
+    formatDate: (iso: string, style?: 'date' | 'datetime' | 'day') => string;
+    localizePath: (path: string) => string;
+};
+
+// "{count}件" の {count} を値で置き換える (値のないものはそのまま残す)
+export const interpolate = (message: string, params: MessageParams = {}): string =>
+    message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+    );
+
+export const createI18n = (locale: Locale, currency: CurrencyCode, rates: ExchangeRates): I18n => {
+    const intlLocale = INTL_LOCALES[locale];
+    const displayCurrency = canConvert(currency, rates) ? currency : BASE_CURRENCY;
+    return {
+        locale,
+        currency: displayCurrency,
+        rates,
+        isConverted: displayCurrency !== BASE_CURRENCY,
+        t: (key, params) => interpolate(MESSAGES[locale][key], params),
+        formatPrice: (amount) => formatMoney(amount, displayCurrency, intlLocale, rates),
+        formatJpy: (amount) => formatMoney(amount, BASE_CURRENCY, intlLocale, rates),
+        // 注文日時などは日本時間で表示する。day はお届け日の選択肢などに使う月日と曜日 (例: 10/21(水))
+        formatDate: (iso, style = 'date') => {
+            switch (style) {
+                case 'datetime':
+                    return new Date(iso).toLocaleString(intlLocale, { timeZone: 'Asia/Tokyo' });
+                case 'day':
+                    return new Date(iso).toLocaleDateString(intlLocale, {
+                        timeZone: 'Asia/Tokyo',
+                        month: 'numeric',
+                        day: 'numeric',
+                        weekday: 'short',
+                    });
+                default:
+                    return new Date(iso).toLocaleDateString(intlLocale, { timeZone: 'Asia/Tokyo' });
+            }
+        },
+        localizePath: (path) => localizePath(locale, path),
+    };
+};
@@ -0,0 +1,171 @@
+/*
+[概要]
+在庫管理。在庫数はカタログ (data/products.json) の stock (バリエーションがある場合は variant ごと)、
+チェックアウト中の引当は data/stock-reservations.json に保存する。在庫は SKU 単位で扱う。
+
+- 注文作成時に reserveStock で在庫を引き当てる (RESERVATION_TTL_MINUTES で期限切れ)
+- 支払い完了時に commitReservation で在庫数を減らす
+- 支払い失敗・キャンセル時に releaseReservation で引当を解除する
+- 発送前に返金したときは restock で在庫数を戻す
+*/
+import { Product, Sku, formatOptions, getProducts, listSkus, resolveSku, updateProducts } from '../catalog';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { checkPurchasableQuantity, toAvailability } from './rules';
+import { Availability, ProductWithAvailability, StockReservation } from './types';
+
+const RESERVATIONS_FILE = 'stock-reservations.json';
+export const RESERVATION_TTL_MINUTES = 15;
+
+export class InventoryError extends Error {
+    constructor(message: string, public readonly sku: string) {
+        super(message);
+        this.name = 'InventoryError';
+    }
+}
+
+type StockLine = StockReservation['lines'][number];
+
+// 期限切れの引当は読み込み時に取り除く
+const withoutExpired = (reservations: StockReservation[]) => {
+    const now = Date.now();
+    return reservations.filter((reservation) => new Date(reservation.expiresAt).getTime() > now);
+};
+
+const readReservations = async (): Promise<StockReservation[]> =>
+    withoutExpired(await readJsonFile<StockReservation[]>(RESERVATIONS_FILE, []));
+
+// 同じ SKU の明細を1行にまとめる (別々の行に分けて購入上限・在庫数の確認をすり抜けられないようにする)
+const mergeLines = (lines: StockLine[]): StockLine[] => {
+    const merged = new Map<string, number>();
+    for (const line of lines) {
+        merged.set(line.sku, (merged.get(line.sku) ?? 0) + line.quantity);
+    }
+    return [...merged].map(([sku, quantity]) => ({ sku, quantity }));
+};
+
+const reservedQuantities = (reservations: StockReservation[], excludeOrderId?: string) => {
+    const reserved = new Map<string, number>();
+    for (const reservation of reservations) {
+        if (reservation.orderId === excludeOrderId) {
+            continue;
+        }
+        for (const line of reservation.lines) {
+            reserved.set(line.sku, (reserved.get(line.sku) ?? 0) + line.quantity);
+        }
+    }
+    return reserved;
+};
+
+const skuAvailability = (sku: Sku, reserved: Map<string, number>): Availability =>
+    toAvailability(sku.stock - (reserved.get(sku.sku) ?? 0), sku.product.maxPerOrder);
+
+// エラーメッセージ用の表示名 (例: "Tシャツ (サイズ: M / カラー: ホワイト)")
+const skuLabel = (sku: Sku) =>
+    sku.variant ? `${sku.product.name} (${formatOptions(sku.options)})` : sku.product.name;
+
+export const withAvailability = async (products: Product[]): Promise<ProductWithAvailability[]> => {
+    const reserved = reservedQuantities(await readReservations());
+    return products.map((product) => {
+        const bySku = Object.fromEntries(
+            listSkus(product).map((sku) => [sku.sku, skuAvailability(sku, reserved)])
+        );
+        const available = Object.values(bySku).reduce((total, a) => total + a.available, 0);
+        return {
+            ...product,
+            availability: toAvailability(available, product.maxPerOrder),
+            skuAvailability: bySku,
+        };
+    });
+};
+
+export const getAvailability = async (sku: Sku): Promise<Availability> => {
+    return skuAvailability(sku, reservedQuantities(await readReservations()));
+};
+
+// 数量が購入可能か確認し、できない場合は InventoryError を投げる
+export const assertPurchasable = async (sku: Sku, quantity: number): Promise<void> => {
+    const message = checkPurchasableQuantity(quantity, await getAvailability(sku), sku.product.maxPerOrder);
+    if (message) {
+        throw new InventoryError(`${skuLabel(sku)}: ${message}`, sku.sku);
+    }
+};
+
+// 在庫の確認から引当の保存までを引当ファイルのロック中に行い、同時に注文された分を二重に引き当てない
+export const reserveStock = async (orderId: string, lines: StockLine[]): Promise<StockReservation> => {
+    const merged = mergeLines(lines);
+    const reservation: StockReservation = {
+        orderId,
+        lines: merged,
+        expiresAt: new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000).toISOString(),
+    };
+    await updateJsonFile<StockReservation[]>(RESERVATIONS_FILE, [], async (stored) => {
+        const reservations = withoutExpired(stored);
+        const products = await getProducts();
+        const reserved = reservedQuantities(reservations, orderId);
+
+        for (const line of merged) {
+            const sku = resolveSku(products, line.sku);
+            if (!sku) {
+                throw new InventoryError('商品が見つかりません', line.sku);
+            }
+            const message = checkPurchasableQuantity(
+                line.quantity,
+                skuAvailability(sku, reserved),
+                sku.product.maxPerOrder
+            );
+            if (message) {
+                throw new InventoryError(`${skuLabel(sku)}: ${message}`, sku.sku);
+            }
+        }
+        return [...reservations.filter((r) => r.orderId !== orderId), reservation];
+    });
+    return reservation;
+};
+
+export const releaseReservation = async (orderId: string): Promise<void> => {
+    await updateJsonFile<StockReservation[]>(RESERVATIONS_FILE, [], (stored) =>
+        withoutExpired(stored).filter((r) => r.orderId !== orderId)
+    );
+};
+
+// 在庫数を増減する (delta: 1 で戻す / -1 で差し引く)。販売数 (soldCount) は逆向きに増減する
+const adjustStock = async (lines: StockLine[], delta: 1 | -1): Promise<void> => {
+    const quantityOf = (sku: string) =>
+        lines.filter((line) => line.sku === sku).reduce((total, line) => total + line.quantity, 0);
+    const adjust = (stock: number, sku: string) => Math.max(0, stock + delta * quantityOf(sku));
+    const adjustSold = (product: Product) => {
+        const sold = listSkus(product).reduce((total, sku) => total + quantityOf(sku.sku), 0);
+        return Math.max(0, product.soldCount - delta * sold);
+    };
+
+    await updateProducts((products) => products.map((product) =>
+        product.variants?.length
+            ? {
+                ...product,
+                soldCount: adjustSold(product),
+                variants: product.variants.map((variant) => ({
+                    ...variant,
+                    stock: adjust(variant.stock, variant.sku),
+                })),
+            }
+            : { ...product, soldCount: adjustSold(product), stock: adjust(product.stock, product.id) }
+    ));
+};
+
+// 支払いが完了した注文の数量を在庫から差し引き、引当を解除する
+export const commitReservation = async (orderId: string, lines: StockLine[]): Promise<void> => {
+    await adjustStock(lines, -1);
+    await releaseReservation(orderId);
+};
+
+// 支払い済みの注文がキャンセルされたときに在庫を戻す
+export const restock = (lines: StockLine[]): Promise<void> => adjustStock(lines, 1);
+
+export {
+    LOW_STOCK_THRESHOLD,
+    STOCK_STATUS_LABELS,
+    checkPurchasableQuantity,
+    toAvailability,
+    toStockStatus,
+} from './rules';
+export type { Availability, ProductWithAvailability, StockReservation, StockStatus } from './types';
@@ -0,0 +1,44 @@
+import { Availability, StockStatus } from './types';
+
+// 販売可能数がこの数以下になったら「残りわずか」と表示する
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+    in_stock: '在庫あり',
+    low_stock: '残りわずか',
+    out_of_stock: '在庫切れ',
+};
+
+export const toStockStatus = (available: number): StockStatus => {
+    if (available <= 0) {
+        return 'out_of_stock';
+    }
+    return available <= LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock';
+};
+
+export const toAvailability = (available: number, maxPerOrder?: number): Availability => {
+    const clamped = Math.max(0, available);
+    return {
+        available: clamped,
+        maxQuantity: maxPerOrder === undefined ? clamped : Math.min(clamped, maxPerOrder),
+        status: toStockStatus(clamped),
+    };
+};
+
+// 購入数量が在庫・購入上限を超えていないか確認し、超えている場合はメッセージを返す
+export const checkPurchasableQuantity = (
+    quantity: number,
+    availability: Availability,
+    maxPerOrder?: number
+): string | undefined => {
+    if (availability.status === 'out_of_stock') {
+        return '在庫切れのため購入できません';
+    }
+    if (maxPerOrder !== undefined && quantity > maxPerOrder) {
+        return `この商品は1回のご注文につき${maxPerOrder}点までです`;
+    }
+    if (quantity > availability.available) {
+        return `在庫が不足しています (残り${availability.available}点)`;
+    }
+    return undefined;
+};
@@ -0,0 +1,23 @@
+import type { Product } from '../catalog/types';
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+// SKU ごとの販売可能数。available = 在庫数 - チェックアウト中の引当数
+export type Availability = {
+    available: number;
+    maxQuantity: number; // 1回の注文で購入できる数 (販売可能数と購入上限の小さい方)
+    status: StockStatus;
+};
+
+// チェックアウト中の注文が確保している在庫
+export type StockReservation = {
+    orderId: string;
+    lines: { sku: string; quantity: number }[];
+    expiresAt: string;
+};
+
+// availability は商品全体 (全 SKU の合計)、skuAvailability は SKU ごとの在庫状況
+export type ProductWithAvailability = Product & {
+    availability: Availability;
+    skuAvailability: Record<string, Availability>;
+};
@@ -0,0 +1,322 @@
+/*
+[概要]
+注文データの作成・取得。注文は data/orders.json に保存する。
+明細の商品名・単価は注文作成時にカタログから取得し、スナップショットとして保持する。
+送料も注文作成時に配送先・配送方法から計算し直す (クライアントが表示していた金額は使わない)。
+注文の作成・ステータスの変更時には、お客様にお知らせメールを送る (lifecycle.ts)。
+*/
+import { randomUUID } from 'crypto';
+import { Sku, getProducts, resolveSku } from '../catalog';
+import {
+    hasAddressErrors,
+    isDeliveryMethodId,
+    normalizeShippingAddress,
+    validateShippingAddress,
+} from '../checkout';
+import type { ShippingAddress } from '../checkout';
+import { DEFAULT_LOCALE } from '../i18n/config';
+import type { Locale } from '../i18n/config';
+import { InventoryError, reserveStock } from '../inventory';
+import { calculateInvoice } from '../pricing';
+import { evaluateCart, toPromotionLine } from '../promotions';
+import type { PromotionEvaluation } from '../promotions/types';
+import { DEFAULT_DELIVERY_SCHEDULE, ShippingError, quoteShipping, validateDeliverySchedule } from '../shipping';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { handleOrderCreated, handleOrderStatusChange, toStockLines } from './lifecycle';
+import { CreateOrderInput, Order, OrderLineItem, OrderPage, OrderPayment, OrderStatus } from './types';
+
+const ORDERS_FILE = 'orders.json';
+
+// 1明細あたりの数量の上限 (商品ごとの購入上限とは別に、極端な数量の注文を受け付けない)
+export const MAX_LINE_QUANTITY = 999;
+
+export class OrderError extends Error {
+    constructor(message: string, public readonly status: number, public readonly details?: unknown) {
+        super(message);
+        this.name = 'OrderError';
+    }
+}
+
+// 各ステータスから遷移できるステータス
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['paid', 'failed', 'cancelled'],
+    failed: ['paid', 'cancelled'], // 別のカードで再決済できる
+    paid: ['shipped', 'refunded'], // 支払い済みの注文の取り消しは返金で行う (代金を返さずにキャンセルしない)
+    shipped: ['delivered', 'refunded'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+};
+
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus): boolean =>
+    ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+// 送料・お届け日時・伝票番号・言語がなかった頃の注文は、送料なし・指定なし・日本語として読み込む
+// 配送先にメールアドレスがない注文は空文字とする (お知らせはアカウントのメールアドレスに送る)
+type MigratedKey = 'shippingFee' | 'deliveryDate' | 'deliveryTimeSlot' | 'trackingNumber' | 'locale';
+type LegacyOrder = Omit<Order, MigratedKey | 'shippingAddress'> & Partial<Omit<Order, 'shippingAddress'>> & {
+    shippingAddress: Omit<ShippingAddress, 'email'> & { email?: string };
+};
+
+const migrateOrder = (order: LegacyOrder): Order => ({
+    ...DEFAULT_DELIVERY_SCHEDULE,
+    shippingFee: 0,
+    trackingNumber: null,
+    locale: DEFAULT_LOCALE,
+    ...order,
+    shippingAddress: { ...order.shippingAddress, email: order.shippingAddress.email ?? '' },
+});
+
+const readOrders = async () => (await readJsonFile<LegacyOrder[]>(ORDERS_FILE, [])).map(migrateOrder);
+
+// 注文の一覧を書き換えて保存する。読み込みから保存までファイルのロック中に行い、同時の更新を上書きしない
+const updateOrders = (update: (orders: Order[]) => Order[]) =>
+    updateJsonFile<LegacyOrder[]>(ORDERS_FILE, [], (stored) => update(stored.map(migrateOrder)));
+
+// 注文を1件書き換えて保存し、書き換えた注文を返す
+const updateOrder = async (id: string, update: (order: Order) => Order): Promise<Order> => {
+    let updated: Order | undefined;
+    await updateOrders((orders) => {
+        const order = orders.find((o) => o.id === id);
+        if (!order) {
+            throw new OrderError('注文が見つかりません', 404);
+        }
+        const next = update(order);
+        updated = next;
+        return orders.map((o) => (o.id === id ? next : o));
+    });
+    return updated as Order;
+};
+
+// 例: ORD-20261018-1A2B3C
+const generateOrderId = (now: Date) => {
+    const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase();
+    return `ORD-${date}-${suffix}`;
+};
+
+// 注文の明細 (id は SKU) をカタログの商品・バリエーションと対応付ける
+const matchSkus = async (items: CreateOrderInput['items']) => {
+    const products = await getProducts();
+    return items.map(({ id, quantity }) => {
+        const sku = resolveSku(products, id);
+        if (!sku) {
+            throw new OrderError(`商品が見つかりません (ID: ${id})`, 404);
+        }
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+            throw new OrderError(`数量が正しくありません (ID: ${id})`, 400);
+        }
+        return { sku, quantity };
+    });
+};
+
+// 送料を計算し、お届け日時の指定を確認する
+const quoteOrderShipping = async (
+    matched: Awaited<ReturnType<typeof matchSkus>>,
+    input: CreateOrderInput,
+    promotion: PromotionEvaluation
+) => {
+    try {
+        const quote = await quoteShipping(matched, input.shippingAddress.prefecture, input.deliveryMethod, promotion);
+        return { fee: quote.fee, schedule: validateDeliverySchedule(quote, input) };
+    } catch (error) {
+        if (error instanceof ShippingError) {
+            throw new OrderError(error.message, error.status);
+        }
+        throw error;
+    }
+};
+
+const toLineItem = (sku: Sku, quantity: number): OrderLineItem => ({
+    productId: sku.product.id,
+    sku: sku.sku,
+    name: sku.product.name,
+    options: sku.options,
+    unitPrice: sku.price,
+    taxCategory: sku.product.taxCategory,
+    quantity,
+    lineTotal: sku.price * quantity,
+    imageUrl: sku.imageUrl,
+});
+
+export const createOrder = async (
+    sessionId: string,
+    input: CreateOrderInput,
+    userId: string | null = null,
+    locale: Locale = DEFAULT_LOCALE
+): Promise<Order> => {
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+        throw new OrderError('カートに商品がありません', 400);
+    }
+    const addressErrors = validateShippingAddress(input.shippingAddress ?? {});
+    if (hasAddressErrors(addressErrors)) {
+        throw new OrderError('配送先住所に誤りがあります', 400, addressErrors);
+    }
+    if (!isDeliveryMethodId(input.deliveryMethod)) {
+        throw new OrderError('配送方法を選択してください', 400);
+    }
+
+    const matched = await matchSkus(input.items);
+    const items = matched.map(({ sku, quantity }) => toLineItem(sku, quantity));
+
+    // 割引はカートと同じくサーバー側で計算し直す
+    const promotion = await evaluateCart(
+        matched.map(({ sku, quantity }) => toPromotionLine(sku, quantity)),
+        input.couponCode ?? null
+    );
+    if (promotion.couponRejection) {
+        throw new OrderError(promotion.couponRejection.message, 400);
+    }
+    const shipping = await quoteOrderShipping(matched, input, promotion);
+    const { subtotal, discountTotal, taxes, totalTax, total } = calculateInvoice(items, {
+        discounts: promotion.discounts.map((discount) => discount.allocations),
+        shipping: shipping.fee,
+    });
+    const now = new Date();
+    const order: Order = {
+        id: generateOrderId(now),
+        sessionId,
+        userId,
+        status: 'pending',
+        items,
+        subtotal,
+        discounts: promotion.discounts,
+        discountTotal,
+        shippingFee: shipping.fee,
+        couponCode: promotion.couponCode,
+        appliedPromotionIds: promotion.appliedPromotionIds,
+        taxes,
+        tax: totalTax,
+        total,
+        shippingAddress: normalizeShippingAddress(input.shippingAddress as ShippingAddress),
+        deliveryMethod: input.deliveryMethod,
+        ...shipping.schedule,
+        trackingNumber: null,
+        locale,
+        statusHistory: [{ status: 'pending', at: now.toISOString() }],
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+    };
+
+    // 支払いが終わるまでの間、在庫を引き当てておく
+    try {
+        await reserveStock(order.id, toStockLines(order));
+    } catch (error) {
+        if (error instanceof InventoryError) {
+            throw new OrderError(error.message, 409);
+        }
+        throw error;
+    }
+
+    await updateOrders((orders) => [...orders, order]);
+    handleOrderCreated(order);
+    return order;
+};
+
+export const getOrder = async (id: string): Promise<Order | undefined> => {
+    const orders = await readOrders();
+    return orders.find((order) => order.id === id);
+};
+
+export const ORDERS_PER_PAGE = 10;
+
+// 新しい順に並べてページに分ける (page は 1 始まり。範囲外の場合は最後のページ)
+const toOrderPage = (orders: Order[], page: number): OrderPage => {
+    const sorted = [...orders].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const totalPages = Math.max(1, Math.ceil(sorted.length / ORDERS_PER_PAGE));
+    const current = Math.min(Math.max(1, page), totalPages);
+    const start = (current - 1) * ORDERS_PER_PAGE;
+    return {
+        orders: sorted.slice(start, start + ORDERS_PER_PAGE),
+        total: sorted.length,
+        page: current,
+        totalPages,
+    };
+};
+
+// アカウントの注文 (注文履歴)
+export const listOrdersByUser = async (userId: string, page = 1): Promise<OrderPage> => {
+    const orders = await readOrders();
+    return toOrderPage(orders.filter((order) => order.userId === userId), page);
+};
+
+// すべての注文 (管理画面)。status を指定するとそのステータスの注文だけを返す
+export const listOrders = async ({ status, page = 1 }: { status?: OrderStatus; page?: number } = {}): Promise<OrderPage> => {
+    const orders = await readOrders();
+    return toOrderPage(status ? orders.filter((order) => order.status === status) : orders, page);
+};
+
+// 売上集計用にすべての注文を返す
+export const getAllOrders = (): Promise<Order[]> => readOrders();
+
+// お支払いの手続きの受付時間。これを過ぎても支払いが終わらない (3-D Secure を中断したなど) 場合は、もう一度支払える
+export const PAYMENT_LOCK_MINUTES = 15;
+
+export const isPaymentInProgress = (order: Pick<Order, 'paymentStartedAt'>, now = new Date()): boolean =>
+    !!order.paymentStartedAt
+    && now.getTime() - new Date(order.paymentStartedAt).getTime() < PAYMENT_LOCK_MINUTES * 60 * 1000;
+
+// お支払いの手続きを始める。ステータスの確認と手続き中の記録を1回の書き込みで行い、同時に届いた支払いの二重決済を防ぐ
+export const beginOrderPayment = (id: string, now = new Date()): Promise<Order> =>
+    updateOrder(id, (order) => {
+        if (order.status !== 'pending' && order.status !== 'failed') {
+            throw new OrderError('この注文はお支払い済み、またはお支払いできない状態です', 409);
+        }
+        if (isPaymentInProgress(order, now)) {
+            throw new OrderError('お支払いの手続き中です。しばらくしてからお試しください', 409);
+        }
+        return { ...order, paymentStartedAt: now.toISOString(), updatedAt: now.toISOString() };
+    });
+
+// 支払いが失敗・中断したときに手続き中の記録を消し、もう一度支払えるようにする
+export const endOrderPayment = (id: string): Promise<Order> =>
+    updateOrder(id, (order) => ({ ...order, paymentStartedAt: null, updatedAt: new Date().toISOString() }));
+
+export const attachPayment = (id: string, payment: OrderPayment): Promise<Order> =>
+    updateOrder(id, (order) => ({ ...order, payment, updatedAt: new Date().toISOString() }));
+
+// ステータスを変更し、履歴に追加する。同じステータスへの変更は何もしない (Webhook の再送対策)
+// 発送 (shipped) の場合は伝票番号も一緒に保存する。在庫やお知らせメールなどの後続処理は lifecycle.ts で行う
+// 今のステータスの確認と変更は1回の書き込みで行い、同時に届いた Webhook でも後続処理は1回だけ実行する
+export const updateOrderStatus = async (
+    id: string,
+    status: OrderStatus,
+    changes: Partial<Pick<Order, 'trackingNumber'>> = {}
+): Promise<Order> => {
+    let previous: OrderStatus | undefined;
+    const updated = await updateOrder(id, (order) => {
+        if (order.status === status) {
+            return order;
+        }
+        if (!canTransitionOrder(order.status, status)) {
+            throw new OrderError(`注文ステータスを ${order.status} から ${status} に変更できません`, 409);
+        }
+        previous = order.status;
+        const now = new Date().toISOString();
+        return {
+            ...order,
+            ...changes,
+            status,
+            paymentStartedAt: null,
+            statusHistory: [...order.statusHistory, { status, at: now }],
+            updatedAt: now,
+        };
+    });
+    if (previous !== undefined) {
+        await handleOrderStatusChange(updated, previous);
+    }
+    return updated;
+};
+
+export { toStockLines };
+export { ORDER_STATUS_LABELS, isOrderStatus } from './status';
+
+export type {
+    CreateOrderInput,
+    Order,
+    OrderLineItem,
+    OrderPage,
+    OrderPayment,
+    OrderStatus,
+    OrderStatusChange,
+} from './types';
@@ -0,0 +1,44 @@
+/*
+[概要]
+注文の作成・ステータスが変わったときの後続処理 (在庫の確定・解除、クーポン利用回数の加算、お知らせメールの送信)。
+createOrder・updateOrderStatus から呼び出す。
+メールは送信の完了を待たずに返す (SMTP サーバーの応答が遅くても注文の処理・レスポンスを待たせない)。
+送信の失敗は sendOrderStatusEmail の中でログに残す。
+*/
+import { sendOrderStatusEmail } from '../email';
+import { commitReservation, releaseReservation, restock } from '../inventory';
+import { recordPromotionUsage } from '../promotions';
+import { Order, OrderStatus } from './types';
+
+// 在庫の引当・戻しに使う SKU ごとの数量
+export const toStockLines = (order: Pick<Order, 'items'>) =>
+    order.items.map(({ sku, quantity }) => ({ sku, quantity }));
+
+// 注文確認メールを送る
+export const handleOrderCreated = (order: Order): void => {
+    void sendOrderStatusEmail(order);
+};
+
+export const handleOrderStatusChange = async (order: Order, previous: OrderStatus): Promise<void> => {
+    switch (order.status) {
+        case 'paid':
+            await commitReservation(order.id, toStockLines(order));
+            // クーポンの利用回数は、支払いが完了した時点で数える
+            await recordPromotionUsage(order.appliedPromotionIds);
+            break;
+        case 'failed':
+            await releaseReservation(order.id);
+            break;
+        case 'cancelled':
+            await releaseReservation(order.id);
+            break;
+        case 'refunded':
+            // 発送前の返金は在庫に戻す。発送後の返品は商品が戻ってから管理画面で在庫を直す
+            if (previous === 'paid') {
+                await restock(toStockLines(order));
+            }
+            break;
+    }
+    // 支払い完了・発送・キャンセル・返金はお客様にメールでお知らせする
+    void sendOrderStatusEmail(order);
+};
@@ -0,0 +1,15 @@
+import { OrderStatus } from './types';
+
+// 注文ステータスの表示名 (注文履歴・注文詳細で使用する)
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    pending: 'お支払い待ち',
+    paid: 'お支払い済み',
+    failed: 'お支払い失敗',
+    shipped: '発送済み',
+    delivered: 'お届け済み',
+    cancelled: 'キャンセル',
+    refunded: '返金済み',
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+    typeof value === 'string' && value in ORDER_STATUS_LABELS;
@@ -0,0 +1,84 @@
+import type { DeliveryMethodId, ShippingAddress } from '../checkout/types';
+import type { Locale } from '../i18n/config';
+import type { TaxBreakdown, TaxCategory } from '../pricing/types';
+import type { AppliedDiscount } from '../promotions/types';
+import type { DeliveryTimeSlot } from '../shipping/types';
+
+export type OrderStatus =
+    | 'pending'
+    | 'paid'
+    | 'failed'
+    | 'shipped'
+    | 'delivered'
+    | 'cancelled'
+    | 'refunded';
+
+export type OrderStatusChange = {
+    status: OrderStatus;
+    at: string;
+};
+
+// 決済プロバイダー側の決済ID。Webhook が現在の決済に対するものかを確認するために保存する
+export type OrderPayment = {
+    provider: string;
+    paymentId: string;
+};
+
+// 注文時点の商品名・単価を保存する (後からカタログが変わっても注文内容は変わらない)
+export type OrderLineItem = {
+    productId: string;
+    sku: string; // バリエーションのない商品は productId と同じ
+    name: string;
+    options: Record<string, string>; // 選択したバリエーション (例: { サイズ: 'M' })
+    unitPrice: number; // 税抜
+    taxCategory: TaxCategory;
+    quantity: number;
+    lineTotal: number; // 税抜 (unitPrice × quantity)
+    imageUrl?: string;
+};
+
+export type Order = {
+    id: string;
+    sessionId: string;
+    userId: string | null; // ログイン中に注文した場合のアカウント (注文履歴に表示する)
+    status: OrderStatus;
+    items: OrderLineItem[];
+    subtotal: number; // 税抜合計 (値引き前)
+    discounts: AppliedDiscount[];
+    discountTotal: number;
+    shippingFee: number; // 送料 (税抜。標準税率の課税対象として taxes に含む)
+    couponCode: string | null;
+    appliedPromotionIds: string[]; // 支払い完了時に利用回数を加算する
+    taxes: TaxBreakdown[]; // 税率ごとの対象額と消費税額
+    tax: number;
+    total: number; // 税込合計 (請求額)
+    shippingAddress: ShippingAddress;
+    deliveryMethod: DeliveryMethodId;
+    deliveryDate: string | null; // お届け希望日 (YYYY-MM-DD)。null は指定なし
+    deliveryTimeSlot: DeliveryTimeSlot;
+    trackingNumber: string | null; // 発送時に登録するお問い合わせ伝票番号
+    locale: Locale; // 注文時の表示言語。お知らせメールの言語に使う
+    payment?: OrderPayment;
+    // お支払いの手続き (与信〜売上確定) を始めた日時。手続き中は次のお支払いを受け付けない。ステータスが変わったら null に戻す
+    paymentStartedAt?: string | null;
+    statusHistory: OrderStatusChange[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+// 注文作成時にクライアントから受け取る内容 (価格は受け取らない)
+export type CreateOrderInput = {
+    items: { id: string; quantity: number }[];
+    shippingAddress: ShippingAddress;
+    deliveryMethod: DeliveryMethodId;
+    deliveryDate?: string | null;
+    deliveryTimeSlot?: DeliveryTimeSlot;
+    couponCode?: string | null;
+};
+
+export type OrderPage = {
+    orders: Order[];
+    total: number;
+    page: number;
+    totalPages: number;
+};
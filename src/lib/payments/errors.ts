@@ -0,0 +1,6 @@
+export class PaymentError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'PaymentError';
+    }
+}
@@ -0,0 +1,126 @@
+/*
+[概要]
+決済処理の入口。注文と決済プロバイダーをつなぎ、金額は必ずサーバー側の注文から取得する。
+プロバイダーは環境変数 PAYMENT_PROVIDER で切り替える (現在は mock のみ)。
+*/
+import { InventoryError, reserveStock } from '../inventory';
+import {
+    Order,
+    OrderError,
+    attachPayment,
+    beginOrderPayment,
+    endOrderPayment,
+    getOrder,
+    isPaymentInProgress,
+    toStockLines,
+} from '../orders';
+import { PaymentError } from './errors';
+import { createMockPaymentProvider } from './mockProvider';
+import { PaymentProvider, PaymentResult } from './types';
+
+let provider: PaymentProvider | undefined;
+
+export const getPaymentProvider = (): PaymentProvider => {
+    if (provider) {
+        return provider;
+    }
+
+    const name = process.env.PAYMENT_PROVIDER ?? 'mock';
+    switch (name) {
+        case 'mock':
+            provider = createMockPaymentProvider({
+                webhookSecret: process.env.MOCK_PAYMENT_WEBHOOK_SECRET ?? 'whsec_mock',
+                webhookDelayMs: Number(process.env.MOCK_PAYMENT_WEBHOOK_DELAY_MS ?? 1000),
+                // モックの Webhook は HTTP を経由せず、Route Handler と同じ処理に直接渡す
+                deliver: async (rawBody, signature) => {
+                    const { handlePaymentWebhook } = await import('./webhook');
+                    await handlePaymentWebhook(rawBody, signature);
+                },
+            });
+            return provider;
+        default:
+            throw new Error(`未対応の決済プロバイダーです: ${name}`);
+    }
+};
+
+// お支払いの手続きを始める (手続き中・支払い済みの注文は 409)。引き当て直せない場合は手続きを取り消す
+const startPayment = async (orderId: string): Promise<Order> => {
+    const order = await beginOrderPayment(orderId);
+    // 引当は期限切れ (RESERVATION_TTL_MINUTES) や支払いの失敗で解除されているかもしれないため、与信の前に必ず引き当て直す。
+    // 引当が残っていれば期限が延びるだけで、解除されていれば今の在庫で買えるかを確かめ直す (売り越しを防ぐ)
+    try {
+        await reserveStock(order.id, toStockLines(order));
+    } catch (error) {
+        await endOrderPayment(order.id);
+        if (error instanceof InventoryError) {
+            throw new PaymentError(error.message, 409);
+        }
+        throw error;
+    }
+    return order;
+};
+
+// 与信が取れたらそのまま売上確定する。注文の paid への変更は Webhook で行う
+const captureIfAuthorized = async (result: PaymentResult): Promise<PaymentResult> => {
+    if (result.status !== 'authorized') {
+        return result;
+    }
+    return getPaymentProvider().capture(result.paymentId);
+};
+
+// 拒否された場合は手続き中の記録を消し、別のカードで支払い直せるようにする
+// (売上確定した場合は paid への変更で、追加認証待ちの場合は認証の結果を受け取った後に記録が消える)
+const releaseIfDeclined = async (orderId: string, result: PaymentResult): Promise<PaymentResult> => {
+    if (result.status === 'declined') {
+        await endOrderPayment(orderId);
+    }
+    return result;
+};
+
+export const payForOrder = async (orderId: string, paymentMethodToken: string): Promise<PaymentResult> => {
+    const order = await startPayment(orderId);
+    const paymentProvider = getPaymentProvider();
+    try {
+        const result = await paymentProvider.authorize({
+            orderId: order.id,
+            amount: order.total,
+            currency: 'JPY',
+            paymentMethodToken,
+        });
+        await attachPayment(order.id, { provider: paymentProvider.name, paymentId: result.paymentId });
+        return releaseIfDeclined(order.id, await captureIfAuthorized(result));
+    } catch (error) {
+        await endOrderPayment(order.id);
+        throw error;
+    }
+};
+
+// 追加認証の結果を送る。手続き中 (payForOrder で追加認証待ちになった) の注文だけを受け付ける
+export const confirmOrderPayment = async (orderId: string, challengeResponse: string): Promise<PaymentResult> => {
+    const order = await getOrder(orderId);
+    if (!order) {
+        throw new OrderError('注文が見つかりません', 404);
+    }
+    if (!order.payment || !isPaymentInProgress(order)) {
+        throw new PaymentError('決済が開始されていません', 409);
+    }
+    const result = await getPaymentProvider().confirm(order.payment.paymentId, challengeResponse);
+    return releaseIfDeclined(order.id, await captureIfAuthorized(result));
+};
+
+export const refundOrderPayment = async (orderId: string): Promise<PaymentResult> => {
+    const order = await getOrder(orderId);
+    if (!order?.payment) {
+        throw new PaymentError('返金できる決済がありません', 409);
+    }
+    return getPaymentProvider().refund(order.payment.paymentId);
+};
+
+export { PaymentError } from './errors';
+export type {
+    AuthorizeRequest,
+    PaymentProvider,
+    PaymentResult,
+    PaymentStatus,
+    PaymentWebhookEvent,
+} from './types';
@@ -0,0 +1,166 @@
+/*
+[概要]
+プロセス内で完結するモック決済プロバイダー。外部の決済代行サービスに接続せずに
+与信・売上確定・返金・3-D Secure・遅延 Webhook を再現する。
+
+- 決済結果はカードトークン (testCards.ts) で決まる
+- Webhook は webhookDelayMs 後に HMAC-SHA256 で署名した本文として deliver に渡される
+*/
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentError } from './errors';
+import { MOCK_3DS_PASS } from './testCards';
+import {
+    AuthorizeRequest,
+    DeclineCode,
+    PaymentProvider,
+    PaymentResult,
+    PaymentWebhookEvent,
+    PaymentWebhookEventType,
+} from './types';
+
+type MockPayment = PaymentResult & {
+    orderId: string;
+    refundedAmount: number;
+};
+
+export type MockPaymentProviderOptions = {
+    webhookSecret: string;
+    webhookDelayMs: number;
+    deliver: (rawBody: string, signature: string) => Promise<void>;
+};
+
+const DECLINING_TOKENS: Record<string, DeclineCode> = {
+    tok_mock_declined: 'card_declined',
+    tok_mock_insufficient_funds: 'insufficient_funds',
+};
+
+// 開発サーバーのホットリロードで決済状態が消えないよう、globalThis に保持する
+const globalForMock = globalThis as typeof globalThis & { __mockPayments?: Map<string, MockPayment> };
+const payments = (globalForMock.__mockPayments ??= new Map<string, MockPayment>());
+
+const sign = (secret: string, rawBody: string) =>
+    createHmac('sha256', secret).update(rawBody).digest('hex');
+
+export const createMockPaymentProvider = (options: MockPaymentProviderOptions): PaymentProvider => {
+    const findPayment = (paymentId: string): MockPayment => {
+        const payment = payments.get(paymentId);
+        if (!payment) {
+            throw new PaymentError('決済が見つかりません', 404);
+        }
+        return payment;
+    };
+
+    const update = (payment: MockPayment, changes: Partial<MockPayment>): PaymentResult => {
+        const next = { ...payment, ...changes };
+        payments.set(next.paymentId, next);
+        const { paymentId, status, amount, nextAction, declineCode } = next;
+        return { paymentId, status, amount, nextAction, declineCode };
+    };
+
+    // 実際の決済代行サービスと同じく、Webhook は API の応答より遅れて届く
+    const emit = (type: PaymentWebhookEventType, payment: MockPayment, amount = payment.amount) => {
+        const event: PaymentWebhookEvent = {
+            id: `evt_${randomUUID()}`,
+            type,
+            paymentId: payment.paymentId,
+            orderId: payment.orderId,
+            amount,
+            createdAt: new Date().toISOString(),
+        };
+        const rawBody = JSON.stringify(event);
+        setTimeout(() => {
+            options.deliver(rawBody, sign(options.webhookSecret, rawBody)).catch((error) => {
+                console.error('モック決済の Webhook 送信に失敗しました:', error);
+            });
+        }, options.webhookDelayMs);
+    };
+
+    const decline = (payment: MockPayment, declineCode: DeclineCode) => {
+        const result = update(payment, { status: 'declined', declineCode, nextAction: undefined });
+        emit('payment.failed', findPayment(payment.paymentId));
+        return result;
+    };
+
+    return {
+        name: 'mock',
+        signatureHeader: 'x-mock-signature',
+
+        async authorize(request: AuthorizeRequest) {
+            const payment: MockPayment = {
+                paymentId: `pay_${randomUUID()}`,
+                orderId: request.orderId,
+                status: 'authorized',
+                amount: request.amount,
+                refundedAmount: 0,
+            };
+            payments.set(payment.paymentId, payment);
+
+            const declineCode = DECLINING_TOKENS[request.paymentMethodToken];
+            if (declineCode) {
+                return decline(payment, declineCode);
+            }
+            if (request.paymentMethodToken === 'tok_mock_3ds') {
+                return update(payment, {
+                    status: 'requires_action',
+                    nextAction: { type: 'three_d_secure', challengeId: `3ds_${randomUUID()}` },
+                });
+            }
+            return update(payment, {});
+        },
+
+        async confirm(paymentId: string, challengeResponse: string) {
+            const payment = findPayment(paymentId);
+            if (payment.status !== 'requires_action') {
+                throw new PaymentError('追加認証が必要な決済ではありません', 409);
+            }
+            if (challengeResponse !== MOCK_3DS_PASS) {
+                return decline(payment, 'authentication_failed');
+            }
+            return update(payment, { status: 'authorized', nextAction: undefined });
+        },
+
+        async capture(paymentId: string, amount?: number) {
+            const payment = findPayment(paymentId);
+            if (payment.status !== 'authorized') {
+                throw new PaymentError('与信が完了していない決済は売上確定できません', 409);
+            }
+            const captured = amount ?? payment.amount;
+            if (captured > payment.amount) {
+                throw new PaymentError('与信額を超える金額は売上確定できません', 400);
+            }
+            const result = update(payment, { status: 'captured', amount: captured });
+            emit('payment.succeeded', findPayment(paymentId));
+            return result;
+        },
+
+        async refund(paymentId: string, amount?: number) {
+            const payment = findPayment(paymentId);
+            if (payment.status !== 'captured') {
+                throw new PaymentError('売上確定済みの決済のみ返金できます', 409);
+            }
+            const refunded = amount ?? payment.amount - payment.refundedAmount;
+            if (refunded <= 0 || payment.refundedAmount + refunded > payment.amount) {
+                throw new PaymentError('返金額が正しくありません', 400);
+            }
+            const refundedAmount = payment.refundedAmount + refunded;
+            // 全額返金した時点で決済を refunded にし、Webhook を送る (一部返金は captured のまま)
+            const result = update(payment, {
+                refundedAmount,
+                status: refundedAmount === payment.amount ? 'refunded' : 'captured',
+            });
+            if (result.status === 'refunded') {
+                emit('payment.refunded', findPayment(paymentId), refundedAmount);
+            }
+            return result;
+        },
+
+        verifyWebhook(rawBody: string, signature: string | null) {
+            const expected = Buffer.from(sign(options.webhookSecret, rawBody));
+            const received = Buffer.from(signature ?? '');
+            if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+                throw new PaymentError('Webhook の署名が正しくありません', 401);
+            }
+            return JSON.parse(rawBody) as PaymentWebhookEvent;
+        },
+    };
+};
@@ -0,0 +1,10 @@
+// モック決済で使えるテスト用カード。トークンごとに決済結果が決まる
+export const MOCK_TEST_CARDS = [
+    { token: 'tok_mock_success', label: 'テストカード (決済成功)' },
+    { token: 'tok_mock_declined', label: 'テストカード (カード会社により拒否)' },
+    { token: 'tok_mock_insufficient_funds', label: 'テストカード (残高不足)' },
+    { token: 'tok_mock_3ds', label: 'テストカード (3-D Secure 認証あり)' },
+] as const;
+
+// 3-D Secure のテスト認証で「認証成功」とみなす応答
+export const MOCK_3DS_PASS = 'pass';
@@ -0,0 +1,59 @@
+export type PaymentStatus =
+    | 'authorized'
+    | 'requires_action'
+    | 'captured'
+    | 'declined'
+    | 'refunded';
+
+export type DeclineCode = 'card_declined' | 'insufficient_funds' | 'authentication_failed';
+
+// 3-D Secure などの追加認証が必要なときに返す情報
+export type PaymentNextAction = {
+    type: 'three_d_secure';
+    challengeId: string;
+};
+
+export type PaymentResult = {
+    paymentId: string;
+    status: PaymentStatus;
+    amount: number;
+    nextAction?: PaymentNextAction;
+    declineCode?: DeclineCode;
+};
+
+export type AuthorizeRequest = {
+    orderId: string;
+    amount: number; // 円 (税込)
+    currency: 'JPY';
+    paymentMethodToken: string;
+};
+
+export type PaymentWebhookEventType = 'payment.succeeded' | 'payment.failed' | 'payment.refunded';
+
+export type PaymentWebhookEvent = {
+    id: string;
+    type: PaymentWebhookEventType;
+    paymentId: string;
+    orderId: string;
+    amount: number;
+    createdAt: string;
+};
+
+/*
+[決済プロバイダーのインターフェース]
+実際の決済代行サービスを追加する場合も、この型を実装して getPaymentProvider() から返す。
+- authorize     : 与信 (オーソリ) を取る
+- confirm       : 3-D Secure などの追加認証の結果を送って与信を完了する
+- capture       : 与信済みの金額を売上確定する
+- refund        : 返金する
+- verifyWebhook : Webhook の署名を検証し、イベントに変換する (不正な場合は PaymentError)
+*/
+export type PaymentProvider = {
+    readonly name: string;
+    readonly signatureHeader: string;
+    authorize: (request: AuthorizeRequest) => Promise<PaymentResult>;
+    confirm: (paymentId: string, challengeResponse: string) => Promise<PaymentResult>;
+    capture: (paymentId: string, amount?: number) => Promise<PaymentResult>;
+    refund: (paymentId: string, amount?: number) => Promise<PaymentResult>;
+    verifyWebhook: (rawBody: string, signature: string | null) => PaymentWebhookEvent;
+};
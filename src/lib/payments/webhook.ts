@@ -0,0 +1,31 @@
+/*
+[概要]
+決済 Webhook の処理。署名を検証し、イベントに応じて注文ステータスを変更する。
+- payment.succeeded → paid
+- payment.failed    → failed
+- payment.refunded  → refunded
+*/
+import { Order, OrderStatus, getOrder, updateOrderStatus } from '../orders';
+import { PaymentError } from './errors';
+import { getPaymentProvider } from './index';
+import { PaymentWebhookEventType } from './types';
+
+const STATUS_BY_EVENT: Record<PaymentWebhookEventType, OrderStatus> = {
+    'payment.succeeded': 'paid',
+    'payment.failed': 'failed',
+    'payment.refunded': 'refunded',
+};
+
+export const handlePaymentWebhook = async (rawBody: string, signature: string | null): Promise<Order> => {
+    const event = getPaymentProvider().verifyWebhook(rawBody, signature);
+
+    const order = await getOrder(event.orderId);
+    if (!order) {
+        throw new PaymentError('Webhook に対応する注文が見つかりません', 404);
+    }
+    // 再決済後に古い決済の失敗通知が遅れて届いた場合などは無視する
+    if (order.payment?.paymentId !== event.paymentId) {
+        return order;
+    }
+    return updateOrderStatus(order.id, STATUS_BY_EVENT[event.type]);
+};
@@ -0,0 +1,10 @@
+const yenFormatter = new Intl.NumberFormat('ja-JP', {
+    style: 'currency',
+    currency: 'JPY',
+});
+
+// 例: 1100 → "￥1,100"
+export const formatYen = (amount: number): string => yenFormatter.format(amount);
+
+// 例: 0.08 → "8%"
+export const formatTaxRate = (rate: number): string => `${Math.round(rate * 100)}%`;
@@ -0,0 +1,20 @@
+export {
+    DEFAULT_ROUNDING,
+    TAX_CATEGORY_LABELS,
+    TAX_RATES,
+    calculateInvoice,
+    lineSubtotal,
+    lineTotalWithTax,
+    priceWithTax,
+    roundYen,
+} from './tax';
+export { formatTaxRate, formatYen } from './format';
+export type {
+    DiscountAllocations,
+    InvoiceOptions,
+    PriceSummary,
+    PricedLine,
+    RoundingMode,
+    TaxBreakdown,
+    TaxCategory,
+} from './types';
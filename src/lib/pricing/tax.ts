@@ -0,0 +1,98 @@
+/*
+[概要]
+消費税の計算。適格請求書等保存方式 (インボイス制度) に合わせ、
+消費税は明細ごとではなく「1つの請求書 (注文) につき税率ごとに1回」端数処理する。
+値引きがある場合は、税率ごとの対象額から値引き額を差し引いてから消費税を計算する。
+送料は標準税率 (10%) の課税対象として、値引き後の対象額に加える。
+*/
+import {
+    InvoiceOptions,
+    PricedLine,
+    PriceSummary,
+    RoundingMode,
+    TaxBreakdown,
+    TaxCategory,
+} from './types';
+
+export const TAX_RATES: Record<TaxCategory, number> = {
+    standard: 0.1,
+    reduced: 0.08,
+};
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+    standard: '10%対象',
+    reduced: '8%対象 (軽減税率)',
+};
+
+export const DEFAULT_ROUNDING: RoundingMode = 'floor';
+
+export const roundYen = (amount: number, mode: RoundingMode = DEFAULT_ROUNDING): number => {
+    // 浮動小数点の誤差 (例: 1100 * 0.1 = 110.00000000000001) を吸収してから丸める
+    const normalized = Math.round(amount * 1e6) / 1e6;
+    switch (mode) {
+        case 'round':
+            return Math.round(normalized);
+        case 'ceil':
+            return Math.ceil(normalized);
+        default:
+            return Math.floor(normalized);
+    }
+};
+
+// 商品ページ・カートに表示する税込単価
+export const priceWithTax = (
+    unitPrice: number,
+    taxCategory: TaxCategory,
+    mode: RoundingMode = DEFAULT_ROUNDING
+): number => unitPrice + roundYen(unitPrice * TAX_RATES[taxCategory], mode);
+
+export const lineSubtotal = (line: PricedLine): number => line.unitPrice * line.quantity;
+
+// 明細の税込小計 (表示用。請求額の計算には calculateInvoice を使う)
+export const lineTotalWithTax = (line: PricedLine, mode: RoundingMode = DEFAULT_ROUNDING): number =>
+    lineSubtotal(line) + roundYen(lineSubtotal(line) * TAX_RATES[line.taxCategory], mode);
+
+export const calculateInvoice = (
+    lines: PricedLine[],
+    { rounding: mode = DEFAULT_ROUNDING, discounts = [], shipping = null }: InvoiceOptions = {}
+): PriceSummary => {
+    const taxableByCategory = new Map<TaxCategory, number>();
+    for (const line of lines) {
+        taxableByCategory.set(
+            line.taxCategory,
+            (taxableByCategory.get(line.taxCategory) ?? 0) + lineSubtotal(line)
+        );
+    }
+    const subtotal = [...taxableByCategory.values()].reduce((total, amount) => total + amount, 0);
+
+    for (const allocations of discounts) {
+        for (const [category, amount] of Object.entries(allocations) as [TaxCategory, number][]) {
+            const taxable = taxableByCategory.get(category) ?? 0;
+            taxableByCategory.set(category, Math.max(0, taxable - amount));
+        }
+    }
+    const discountedTotal = [...taxableByCategory.values()].reduce((total, amount) => total + amount, 0);
+    if (shipping) {
+        taxableByCategory.set('standard', (taxableByCategory.get('standard') ?? 0) + shipping);
+    }
+
+    // 標準税率 → 軽減税率の順に並べる
+    const taxes: TaxBreakdown[] = (Object.keys(TAX_RATES) as TaxCategory[])
+        .filter((category) => taxableByCategory.has(category))
+        .map((category) => {
+            const taxableAmount = taxableByCategory.get(category) ?? 0;
+            const rate = TAX_RATES[category];
+            return { taxCategory: category, rate, taxableAmount, tax: roundYen(taxableAmount * rate, mode) };
+        });
+
+    const taxableTotal = taxes.reduce((total, breakdown) => total + breakdown.taxableAmount, 0);
+    const totalTax = taxes.reduce((total, breakdown) => total + breakdown.tax, 0);
+    return {
+        subtotal,
+        discountTotal: subtotal - discountedTotal,
+        shipping,
+        taxes,
+        totalTax,
+        total: taxableTotal + totalTax,
+    };
+};
@@ -0,0 +1,38 @@
+// 消費税の区分。standard: 標準税率 (10%) / reduced: 軽減税率 (8%)
+export type TaxCategory = 'standard' | 'reduced';
+
+// 1円未満の端数処理 (切り捨て / 四捨五入 / 切り上げ)
+export type RoundingMode = 'floor' | 'round' | 'ceil';
+
+// 計算対象の明細。unitPrice は税抜の本体価格
+export type PricedLine = {
+    unitPrice: number;
+    quantity: number;
+    taxCategory: TaxCategory;
+};
+
+// 税率ごとの対象額と消費税額 (適格請求書の記載事項)
+export type TaxBreakdown = {
+    taxCategory: TaxCategory;
+    rate: number;
+    taxableAmount: number; // 税抜の対象額 (値引き後)
+    tax: number;
+};
+
+// 税率ごとの値引き額 (税抜)
+export type DiscountAllocations = Partial<Record<TaxCategory, number>>;
+
+export type InvoiceOptions = {
+    rounding?: RoundingMode;
+    discounts?: DiscountAllocations[];
+    shipping?: number | null; // 送料 (税抜)。省略・null は未計算
+};
+
+export type PriceSummary = {
+    subtotal: number; // 税抜合計 (値引き前)
+    discountTotal: number; // 値引き合計 (税抜)
+    shipping: number | null; // 送料 (税抜)。null は未計算 (配送先が決まっていない)
+    taxes: TaxBreakdown[];
+    totalTax: number;
+    total: number; // 税込合計
+};
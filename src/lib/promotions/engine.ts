@@ -0,0 +1,224 @@
+/*
+[概要]
+クーポン・キャンペーンの割引計算。副作用のない純粋な関数で、サーバー (カートAPI・注文作成) から呼び出す。
+
+- 割引額は税抜価格を基準に計算し、対象明細の税率ごとに按分する
+- 自動適用のキャンペーンとクーポン (1枚まで) を重ねて適用できる
+- 割引の合計は税抜小計を超えない
+*/
+import { formatYen } from '../pricing/format';
+import type { TaxCategory } from '../pricing/types';
+import {
+    AppliedDiscount,
+    Promotion,
+    PromotionEvaluation,
+    PromotionLine,
+    PromotionRejection,
+} from './types';
+
+export type PromotionContext = {
+    lines: PromotionLine[];
+    promotions: Promotion[];
+    couponCode?: string | null;
+    now?: Date;
+    usage?: Record<string, number>; // プロモーションIDごとの利用回数
+};
+
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+export const findPromotionByCode = (promotions: Promotion[], code: string): Promotion | undefined =>
+    promotions.find((promotion) => promotion.code && normalizeCouponCode(promotion.code) === normalizeCouponCode(code));
+
+const isTargetLine = (promotion: Promotion, line: PromotionLine): boolean => {
+    const { target } = promotion;
+    if (!target) {
+        return true;
+    }
+    return Boolean(
+        target.productIds?.includes(line.productId) || target.categories?.includes(line.category)
+    );
+};
+
+const lineAmount = (line: PromotionLine) => line.unitPrice * line.quantity;
+
+const sumLines = (lines: PromotionLine[]) => lines.reduce((total, line) => total + lineAmount(line), 0);
+
+// 金額を税率ごとの重み (金額) の比で按分する。端数は最後の税率に寄せる
+const splitByCategory = (
+    amount: number,
+    weights: Partial<Record<TaxCategory, number>>
+): Partial<Record<TaxCategory, number>> => {
+    const entries = Object.entries(weights) as [TaxCategory, number][];
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    const allocations: Partial<Record<TaxCategory, number>> = {};
+    let remaining = amount;
+    entries.forEach(([category, weight], index) => {
+        const share = index === entries.length - 1 ? remaining : Math.floor((amount * weight) / total);
+        allocations[category] = share;
+        remaining -= share;
+    });
+    return allocations;
+};
+
+// 割引額を対象明細の税率ごとに按分する
+const allocate = (amount: number, lines: PromotionLine[]): Partial<Record<TaxCategory, number>> => {
+    const byCategory: Partial<Record<TaxCategory, number>> = {};
+    for (const line of lines) {
+        byCategory[line.taxCategory] = (byCategory[line.taxCategory] ?? 0) + lineAmount(line);
+    }
+    return splitByCategory(amount, byCategory);
+};
+
+// N点購入で M点無料: 対象商品を価格の高い順に並べ、(N+M)点ごとに安い M点を無料にする
+// 数量を1点ずつ展開せず、並べたときの位置から各明細のうち無料になる点数を数える
+const buyXGetYDiscount = (lines: PromotionLine[], buyQuantity: number, getQuantity: number) => {
+    const sorted = [...lines].sort((a, b) => b.unitPrice - a.unitPrice);
+    const groupSize = buyQuantity + getQuantity;
+    const totalUnits = sorted.reduce((sum, line) => sum + line.quantity, 0);
+    const eligibleUnits = Math.floor(totalUnits / groupSize) * groupSize;
+    // 先頭から position 点目までに含まれる無料の点数
+    const freeBefore = (position: number) => {
+        const capped = Math.min(position, eligibleUnits);
+        return Math.floor(capped / groupSize) * getQuantity + Math.max(0, (capped % groupSize) - buyQuantity);
+    };
+    const freeLines: PromotionLine[] = [];
+    let start = 0;
+    for (const line of sorted) {
+        const end = start + line.quantity;
+        const quantity = freeBefore(end) - freeBefore(start);
+        if (quantity > 0) {
+            freeLines.push({ ...line, quantity });
+        }
+        start = end;
+    }
+    return { amount: sumLines(freeLines), lines: freeLines };
+};
+
+// 期間・利用回数・最低金額・対象商品を確認し、適用できない場合は理由を返す
+export const checkEligibility = (
+    promotion: Promotion,
+    lines: PromotionLine[],
+    now: Date,
+    usage: Record<string, number>
+): PromotionRejection | undefined => {
+    if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+        return { reason: 'not_started', message: 'このクーポンはまだご利用いただけません' };
+    }
+    if (promotion.endsAt && now > new Date(promotion.endsAt)) {
+        return { reason: 'expired', message: 'このクーポンは有効期限が切れています' };
+    }
+    if (promotion.usageLimit !== undefined && (usage[promotion.id] ?? 0) >= promotion.usageLimit) {
+        return { reason: 'usage_limit_reached', message: 'このクーポンは利用上限に達しました' };
+    }
+    const targetLines = lines.filter((line) => isTargetLine(promotion, line));
+    if (targetLines.length === 0) {
+        return { reason: 'not_applicable', message: 'カート内に対象商品がありません' };
+    }
+    if (promotion.minimumSubtotal !== undefined && sumLines(targetLines) < promotion.minimumSubtotal) {
+        return {
+            reason: 'minimum_not_met',
+            message: `対象商品の合計が${formatYen(promotion.minimumSubtotal)} (税抜) 以上で利用できます`,
+        };
+    }
+    if (promotion.type === 'buy_x_get_y') {
+        const count = targetLines.reduce((total, line) => total + line.quantity, 0);
+        if (count < promotion.buyQuantity + promotion.getQuantity) {
+            return {
+                reason: 'not_applicable',
+                message: `対象商品を${promotion.buyQuantity + promotion.getQuantity}点以上カートに入れてください`,
+            };
+        }
+    }
+    return undefined;
+};
+
+const computeDiscount = (promotion: Promotion, lines: PromotionLine[]): AppliedDiscount | undefined => {
+    const targetLines = lines.filter((line) => isTargetLine(promotion, line));
+    const targetSubtotal = sumLines(targetLines);
+
+    let amount = 0;
+    let allocationLines = targetLines;
+    switch (promotion.type) {
+        case 'percentage':
+            amount = Math.floor((targetSubtotal * promotion.percent) / 100);
+            break;
+        case 'fixed_amount':
+            amount = Math.min(promotion.amount, targetSubtotal);
+            break;
+        case 'buy_x_get_y': {
+            const free = buyXGetYDiscount(targetLines, promotion.buyQuantity, promotion.getQuantity);
+            amount = free.amount;
+            allocationLines = free.lines;
+            break;
+        }
+        case 'free_shipping':
+            return undefined;
+    }
+    if (amount <= 0) {
+        return undefined;
+    }
+    return {
+        promotionId: promotion.id,
+        label: promotion.label,
+        amount,
+        allocations: allocate(amount, allocationLines),
+    };
+};
+
+export const evaluatePromotions = ({
+    lines,
+    promotions,
+    couponCode = null,
+    now = new Date(),
+    usage = {},
+}: PromotionContext): PromotionEvaluation => {
+    const candidates = promotions.filter((promotion) => !promotion.code);
+    let couponRejection: PromotionRejection | undefined;
+
+    if (couponCode) {
+        const coupon = findPromotionByCode(promotions, couponCode);
+        if (!coupon) {
+            couponRejection = { reason: 'not_found', message: 'クーポンコードが正しくありません' };
+        } else {
+            couponRejection = checkEligibility(coupon, lines, now, usage);
+            if (!couponRejection) {
+                candidates.push(coupon);
+            }
+        }
+    }
+
+    const applicable = candidates.filter((promotion) => !checkEligibility(promotion, lines, now, usage));
+    const subtotal = sumLines(lines);
+    const discounts: AppliedDiscount[] = [];
+    let discountTotal = 0;
+    for (const promotion of applicable) {
+        const discount = computeDiscount(promotion, lines);
+        if (!discount) {
+            continue;
+        }
+        // 割引の合計が小計を超える場合は、超えた分を切り詰める。
+        // 切り詰めた額は、その割引の対象明細の税率ごとの割合 (allocations) のまま按分し直す
+        const amount = Math.min(discount.amount, subtotal - discountTotal);
+        if (amount <= 0) {
+            break;
+        }
+        discounts.push(
+            amount === discount.amount
+                ? discount
+                : { ...discount, amount, allocations: splitByCategory(amount, discount.allocations) }
+        );
+        discountTotal += amount;
+    }
+
+    const freeShippingIds = applicable
+        .filter((promotion) => promotion.type === 'free_shipping')
+        .map((promotion) => promotion.id);
+    return {
+        couponCode: couponCode ? normalizeCouponCode(couponCode) : null,
+        discounts,
+        discountTotal,
+        freeShipping: freeShippingIds.length > 0,
+        appliedPromotionIds: [...discounts.map((discount) => discount.promotionId), ...freeShippingIds],
+        couponRejection,
+    };
+};
@@ -0,0 +1,70 @@
+/*
+[概要]
+プロモーション (クーポン・キャンペーン) のデータ層。
+定義は data/promotions.json、利用回数は data/promotion-usage.json に保存する。
+*/
+import type { Sku } from '../catalog';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { evaluatePromotions, findPromotionByCode, checkEligibility } from './engine';
+import { Promotion, PromotionEvaluation, PromotionLine, PromotionRejection } from './types';
+
+const PROMOTIONS_FILE = 'promotions.json';
+const USAGE_FILE = 'promotion-usage.json';
+
+export const getPromotions = () => readJsonFile<Promotion[]>(PROMOTIONS_FILE, []);
+
+const readUsage = () => readJsonFile<Record<string, number>>(USAGE_FILE, {});
+
+// 対象商品の判定は商品ID・カテゴリで行い、価格は SKU (バリエーション) の価格を使う
+export const toPromotionLine = (sku: Sku, quantity: number): PromotionLine => ({
+    productId: sku.product.id,
+    category: sku.product.category,
+    unitPrice: sku.price,
+    quantity,
+    taxCategory: sku.product.taxCategory,
+});
+
+export const evaluateCart = async (
+    lines: PromotionLine[],
+    couponCode: string | null
+): Promise<PromotionEvaluation> => {
+    const [promotions, usage] = await Promise.all([getPromotions(), readUsage()]);
+    return evaluatePromotions({ lines, promotions, couponCode, usage });
+};
+
+// クーポンをカートに登録する前の確認。適用できない場合は理由を返す
+export const validateCoupon = async (
+    lines: PromotionLine[],
+    code: string
+): Promise<PromotionRejection | undefined> => {
+    const [promotions, usage] = await Promise.all([getPromotions(), readUsage()]);
+    const coupon = findPromotionByCode(promotions, code);
+    if (!coupon) {
+        return { reason: 'not_found', message: 'クーポンコードが正しくありません' };
+    }
+    return checkEligibility(coupon, lines, new Date(), usage);
+};
+
+// 注文が確定したときに、適用されたプロモーションの利用回数を加算する
+export const recordPromotionUsage = async (promotionIds: string[]): Promise<void> => {
+    if (promotionIds.length === 0) {
+        return;
+    }
+    await updateJsonFile<Record<string, number>>(USAGE_FILE, {}, (usage) => {
+        const next = { ...usage };
+        for (const id of promotionIds) {
+            next[id] = (next[id] ?? 0) + 1;
+        }
+        return next;
+    });
+};
+
+export { evaluatePromotions, normalizeCouponCode } from './engine';
+export type {
+    AppliedDiscount,
+    Promotion,
+    PromotionEvaluation,
+    PromotionLine,
+    PromotionRejection,
+    PromotionRejectionReason,
+} from './types';
@@ -0,0 +1,66 @@
+import type { TaxCategory } from '../pricing/types';
+
+// 割引の対象を絞り込む条件。省略時はカート内のすべての商品が対象
+export type PromotionTarget = {
+    productIds?: string[];
+    categories?: string[];
+};
+
+type PromotionBase = {
+    id: string;
+    code?: string; // クーポンコード。省略した場合は自動適用のキャンペーン
+    label: string;
+    startsAt?: string;
+    endsAt?: string;
+    usageLimit?: number; // 全体での利用回数の上限
+    minimumSubtotal?: number; // 対象商品の税抜小計の下限
+    target?: PromotionTarget;
+};
+
+export type Promotion = PromotionBase & (
+    | { type: 'percentage'; percent: number }
+    | { type: 'fixed_amount'; amount: number }
+    | { type: 'buy_x_get_y'; buyQuantity: number; getQuantity: number }
+    | { type: 'free_shipping' }
+);
+
+export type PromotionType = Promotion['type'];
+
+export type PromotionRejectionReason =
+    | 'not_found'
+    | 'not_started'
+    | 'expired'
+    | 'usage_limit_reached'
+    | 'minimum_not_met'
+    | 'not_applicable';
+
+export type PromotionRejection = {
+    reason: PromotionRejectionReason;
+    message: string;
+};
+
+// 割引計算の対象となるカート明細 (価格は税抜)
+export type PromotionLine = {
+    productId: string;
+    category: string;
+    unitPrice: number;
+    quantity: number;
+    taxCategory: TaxCategory;
+};
+
+export type AppliedDiscount = {
+    promotionId: string;
+    label: string;
+    amount: number; // 税抜の割引額
+    // 税率ごとの割引額の内訳 (インボイス制度では値引きも税率ごとに区分する)
+    allocations: Partial<Record<TaxCategory, number>>;
+};
+
+export type PromotionEvaluation = {
+    couponCode: string | null;
+    discounts: AppliedDiscount[];
+    discountTotal: number;
+    freeShipping: boolean;
+    appliedPromotionIds: string[];
+    couponRejection?: PromotionRejection; // クーポンが現在のカートに適用できない理由
+};
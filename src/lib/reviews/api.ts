@@ -0,0 +1,34 @@
+import type { ProductReviewPage, ReviewErrors, ReviewInput, ReviewSortKey } from './types';
+
+// レビューAPIのエラー。入力内容の誤りは details に項目ごとのメッセージが入る
+export class ReviewApiError extends Error {
+    constructor(message: string, public readonly details?: ReviewErrors) {
+        super(message);
+        this.name = 'ReviewApiError';
+    }
+}
+
+export const fetchProductReviews = async (
+    productId: string,
+    sort: ReviewSortKey,
+    page: number
+): Promise<ProductReviewPage> => {
+    const params = new URLSearchParams({ sort, page: String(page) });
+    const response = await fetch(`/api/products/${productId}/reviews?${params}`);
+    if (!response.ok) {
+        throw new ReviewApiError('レビューの取得に失敗しました');
+    }
+    return response.json();
+};
+
+export const postReview = async (productId: string, input: ReviewInput): Promise<void> => {
+    const response = await fetch(`/api/products/${productId}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new ReviewApiError(result?.error ?? '処理に失敗しました', result?.details);
+    }
+};
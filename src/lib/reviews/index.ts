@@ -0,0 +1,227 @@
+/*
+[概要]
+商品レビューの投稿・表示・管理。レビューは data/reviews.json に保存する。
+- 投稿できるのは、その商品を購入した (お支払い済み以降の注文がある) アカウントだけ。1商品につき1件まで
+- 投稿されたレビューは承認待ちになり、管理者が承認したものだけを商品ページと一覧の評価に反映する
+*/
+import { randomUUID } from 'crypto';
+import type { User } from '../auth/types';
+import { getProducts } from '../catalog';
+import { getAllOrders } from '../orders';
+import type { OrderStatus } from '../orders/types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { REVIEW_MODERATION_ACTIONS, compareReviews, summarizeReviews } from './rules';
+import {
+    ProductReviewPage,
+    PublicReview,
+    Review,
+    ReviewEligibility,
+    ReviewErrors,
+    ReviewIneligibleReason,
+    ReviewInput,
+    ReviewModerationAction,
+    ReviewModerationPage,
+    ReviewSortKey,
+    ReviewStatus,
+    ReviewSummary,
+} from './types';
+import { validateReviewInput } from './validation';
+
+const REVIEWS_FILE = 'reviews.json';
+
+export const REVIEWS_PER_PAGE = 5;
+export const MODERATION_REVIEWS_PER_PAGE = 20;
+
+// 購入済みとみなす注文のステータス (キャンセル・返金・未払いは含めない)
+const PURCHASED_STATUSES: OrderStatus[] = ['paid', 'shipped', 'delivered'];
+
+export class ReviewError extends Error {
+    constructor(message: string, public readonly status: number, public readonly details?: ReviewErrors) {
+        super(message);
+        this.name = 'ReviewError';
+    }
+}
+
+// 投稿できない理由ごとのエラー
+const INELIGIBLE_ERRORS: Record<ReviewIneligibleReason, { message: string; status: number }> = {
+    login: { message: 'レビューを投稿するにはログインしてください', status: 401 },
+    not_purchased: { message: 'レビューを投稿できるのは、この商品を購入した方だけです', status: 403 },
+    already_reviewed: { message: 'この商品のレビューは投稿済みです', status: 409 },
+};
+
+const readReviews = () => readJsonFile<Review[]>(REVIEWS_FILE, []);
+
+const toPublicReview = (review: Review): PublicReview => ({
+    id: review.id,
+    productId: review.productId,
+    authorName: review.authorName,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    verifiedPurchase: review.verifiedPurchase,
+    createdAt: review.createdAt,
+});
+
+const paginate = <T>(items: T[], page: number, perPage: number) => {
+    const totalPages = Math.max(1, Math.ceil(items.length / perPage));
+    const current = Math.min(Math.max(1, page), totalPages);
+    const start = (current - 1) * perPage;
+    return { items: items.slice(start, start + perPage), page: current, totalPages };
+};
+
+const hasPurchased = async (userId: string, productId: string): Promise<boolean> =>
+    (await getAllOrders()).some((order) =>
+        order.userId === userId
+        && PURCHASED_STATUSES.includes(order.status)
+        && order.items.some((item) => item.productId === productId)
+    );
+
+export const getReviewEligibility = async (
+    user: User | undefined,
+    productId: string
+): Promise<ReviewEligibility> => {
+    if (!user) {
+        return { canReview: false, reason: 'login' };
+    }
+    if ((await readReviews()).some((review) => review.userId === user.id && review.productId === productId)) {
+        return { canReview: false, reason: 'already_reviewed' };
+    }
+    if (!(await hasPurchased(user.id, productId))) {
+        return { canReview: false, reason: 'not_purchased' };
+    }
+    return { canReview: true };
+};
+
+// 商品ごとの公開中のレビューの集計 (商品一覧のカードに表示する)
+export const getReviewSummaries = async (): Promise<Record<string, ReviewSummary>> => {
+    const byProduct = new Map<string, Review[]>();
+    for (const review of await readReviews()) {
+        if (review.status === 'approved') {
+            byProduct.set(review.productId, [...(byProduct.get(review.productId) ?? []), review]);
+        }
+    }
+    return Object.fromEntries([...byProduct].map(([productId, reviews]) => [productId, summarizeReviews(reviews)]));
+};
+
+export const listProductReviews = async (
+    productId: string,
+    { sort = 'newest', page = 1, user }: { sort?: ReviewSortKey; page?: number; user?: User } = {}
+): Promise<ProductReviewPage> => {
+    const approved = (await readReviews())
+        .filter((review) => review.productId === productId && review.status === 'approved')
+        .sort(compareReviews(sort));
+    const result = paginate(approved, page, REVIEWS_PER_PAGE);
+    return {
+        reviews: result.items.map(toPublicReview),
+        summary: summarizeReviews(approved),
+        sort,
+        page: result.page,
+        totalPages: result.totalPages,
+        eligibility: await getReviewEligibility(user, productId),
+    };
+};
+
+export const createReview = async (
+    user: User | undefined,
+    productId: string,
+    body: Partial<Record<keyof ReviewInput, unknown>> | null
+): Promise<Review> => {
+    if (!(await getProducts()).some((product) => product.id === productId)) {
+        throw new ReviewError('商品が見つかりません', 404);
+    }
+    const eligibility = await getReviewEligibility(user, productId);
+    if (!user || !eligibility.canReview) {
+        const { message, status } = INELIGIBLE_ERRORS[eligibility.canReview ? 'login' : eligibility.reason];
+        throw new ReviewError(message, status);
+    }
+
+    const { input, errors } = validateReviewInput(body);
+    if (!input) {
+        throw new ReviewError('入力内容に誤りがあります', 400, errors);
+    }
+    const review: Review = {
+        id: randomUUID(),
+        productId,
+        userId: user.id,
+        authorName: user.name,
+        ...input,
+        verifiedPurchase: true,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+    };
+    // 確認してから保存するまでに同じ商品のレビューが投稿されていないか、ロック中にもう一度確かめる
+    await updateJsonFile<Review[]>(REVIEWS_FILE, [], (reviews) => {
+        if (reviews.some((existing) => existing.userId === user.id && existing.productId === productId)) {
+            const { message, status } = INELIGIBLE_ERRORS.already_reviewed;
+            throw new ReviewError(message, status);
+        }
+        return [...reviews, review];
+    });
+    return review;
+};
+
+// 管理画面のレビュー一覧 (古いものから順に確認する)
+export const listReviewsForModeration = async (
+    { status, page = 1 }: { status?: ReviewStatus; page?: number } = {}
+): Promise<ReviewModerationPage> => {
+    const products = await getProducts();
+    const reviews = (await readReviews())
+        .filter((review) => !status || review.status === status)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const result = paginate(reviews, page, MODERATION_REVIEWS_PER_PAGE);
+    return {
+        reviews: result.items.map((review) => ({
+            ...review,
+            productName: products.find((product) => product.id === review.productId)?.name ?? review.productId,
+        })),
+        page: result.page,
+        totalPages: result.totalPages,
+    };
+};
+
+export const countPendingReviews = async (): Promise<number> =>
+    (await readReviews()).filter((review) => review.status === 'pending').length;
+
+export const moderateReview = async (id: string, action: ReviewModerationAction): Promise<Review> => {
+    let moderated: Review | undefined;
+    await updateJsonFile<Review[]>(REVIEWS_FILE, [], (reviews) => {
+        const review = reviews.find((candidate) => candidate.id === id);
+        if (!review) {
+            throw new ReviewError('レビューが見つかりません', 404);
+        }
+        const next: Review = {
+            ...review,
+            status: REVIEW_MODERATION_ACTIONS[action].status,
+            moderatedAt: new Date().toISOString(),
+        };
+        moderated = next;
+        return reviews.map((candidate) => (candidate.id === id ? next : candidate));
+    });
+    return moderated as Review;
+};
+
+export {
+    REVIEW_MODERATION_ACTIONS,
+    REVIEW_RATINGS,
+    REVIEW_SORT_KEYS,
+    REVIEW_STATUS_LABELS,
+    isReviewModerationAction,
+    isReviewSortKey,
+    isReviewStatus,
+    summarizeReviews,
+} from './rules';
+export type {
+    ProductReviewPage,
+    PublicReview,
+    Review,
+    ReviewEligibility,
+    ReviewErrors,
+    ReviewIneligibleReason,
+    ReviewInput,
+    ReviewModerationAction,
+    ReviewModerationPage,
+    ReviewRating,
+    ReviewSortKey,
+    ReviewStatus,
+    ReviewSummary,
+} from './types';
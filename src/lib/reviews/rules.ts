@@ -0,0 +1,58 @@
+/*
+[概要]
+レビューの集計・並び替え・表示名。クライアント・サーバーのどちらからも使う。
+*/
+import { Review, ReviewModerationAction, ReviewRating, ReviewSortKey, ReviewStatus, ReviewSummary } from './types';
+
+export const REVIEW_RATINGS: ReviewRating[] = [5, 4, 3, 2, 1];
+
+export const REVIEW_SORT_KEYS: ReviewSortKey[] = ['newest', 'highest', 'lowest'];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+    pending: '承認待ち',
+    approved: '公開中',
+    rejected: '却下',
+    flagged: '要確認',
+};
+
+// 管理画面の操作と、操作後の状態
+export const REVIEW_MODERATION_ACTIONS: Record<ReviewModerationAction, { status: ReviewStatus; label: string }> = {
+    approve: { status: 'approved', label: '承認する' },
+    reject: { status: 'rejected', label: '却下する' },
+    flag: { status: 'flagged', label: '要確認にする' },
+};
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+    typeof value === 'string' && value in REVIEW_STATUS_LABELS;
+
+export const isReviewModerationAction = (value: unknown): value is ReviewModerationAction =>
+    typeof value === 'string' && value in REVIEW_MODERATION_ACTIONS;
+
+export const isReviewSortKey = (value: unknown): value is ReviewSortKey =>
+    REVIEW_SORT_KEYS.some((key) => key === value);
+
+// 平均は小数第1位に丸める (例: 4.25 → 4.3)
+export const summarizeReviews = (reviews: Pick<Review, 'rating'>[]): ReviewSummary => {
+    const distribution: ReviewSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const review of reviews) {
+        distribution[review.rating] += 1;
+    }
+    const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+    return {
+        average: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+        count: reviews.length,
+        distribution,
+    };
+};
+
+export const compareReviews = (sort: ReviewSortKey) => (a: Review, b: Review): number => {
+    const newest = b.createdAt.localeCompare(a.createdAt);
+    switch (sort) {
+        case 'highest':
+            return b.rating - a.rating || newest;
+        case 'lowest':
+            return a.rating - b.rating || newest;
+        default:
+            return newest;
+    }
+};
@@ -0,0 +1,68 @@
+/*
+レビューの状態
+- pending : 投稿直後。管理者が確認するまで公開しない
+- approved: 公開中
+- rejected: 非公開 (掲載しないと判断したもの)
+- flagged : 要確認として一旦非公開にしたもの (公開後に問題が見つかった場合など)
+*/
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+export type ReviewModerationAction = 'approve' | 'reject' | 'flag';
+
+export type ReviewRating = 1 | 2 | 3 | 4 | 5;
+
+export type Review = {
+    id: string;
+    productId: string;
+    userId: string;
+    authorName: string; // 投稿時のアカウント名 (未設定の場合は空文字)
+    rating: ReviewRating;
+    title: string;
+    body: string;
+    verifiedPurchase: boolean;
+    status: ReviewStatus;
+    createdAt: string;
+    moderatedAt?: string;
+};
+
+// 商品ページ・一覧に表示する公開用のレビュー (アカウントIDは含めない)
+export type PublicReview = Omit<Review, 'userId' | 'status' | 'moderatedAt'>;
+
+export type ReviewInput = {
+    rating: ReviewRating;
+    title: string;
+    body: string;
+};
+
+export type ReviewErrors = Partial<Record<keyof ReviewInput, string>>;
+
+// 公開中のレビューの集計。distribution は星の数ごとの件数
+export type ReviewSummary = {
+    average: number;
+    count: number;
+    distribution: Record<ReviewRating, number>;
+};
+
+export type ReviewSortKey = 'newest' | 'highest' | 'lowest';
+
+export type ReviewIneligibleReason = 'login' | 'not_purchased' | 'already_reviewed';
+
+// 閲覧中のアカウントがこの商品にレビューを投稿できるか (できない場合は理由)
+export type ReviewEligibility =
+    | { canReview: true }
+    | { canReview: false; reason: ReviewIneligibleReason };
+
+export type ProductReviewPage = {
+    reviews: PublicReview[];
+    summary: ReviewSummary;
+    sort: ReviewSortKey;
+    page: number;
+    totalPages: number;
+    eligibility: ReviewEligibility;
+};
+
+export type ReviewModerationPage = {
+    reviews: (Review & { productName: string })[];
+    page: number;
+    totalPages: number;
+};
@@ -0,0 +1,36 @@
+import { ReviewErrors, ReviewInput, ReviewRating } from './types';
+
+export const REVIEW_TITLE_MAX_LENGTH = 100;
+export const REVIEW_BODY_MAX_LENGTH = 2000;
+
+const isRating = (value: unknown): value is ReviewRating =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// 投稿内容を確認し、前後の空白を取り除いた値を返す。誤りがある場合は input: null
+export const validateReviewInput = (
+    body: Partial<Record<keyof ReviewInput, unknown>> | null
+): { input: ReviewInput | null; errors: ReviewErrors } => {
+    const errors: ReviewErrors = {};
+    const rating = body?.rating;
+    const title = text(body?.title);
+    const reviewBody = text(body?.body);
+
+    if (!isRating(rating)) {
+        errors.rating = '評価を1〜5の星で選んでください';
+    }
+    if (title.length > REVIEW_TITLE_MAX_LENGTH) {
+        errors.title = `タイトルは${REVIEW_TITLE_MAX_LENGTH}文字以内で入力してください`;
+    }
+    if (!reviewBody) {
+        errors.body = 'レビューの本文を入力してください';
+    } else if (reviewBody.length > REVIEW_BODY_MAX_LENGTH) {
+        errors.body = `本文は${REVIEW_BODY_MAX_LENGTH}文字以内で入力してください`;
+    }
+
+    if (!isRating(rating) || Object.keys(errors).length > 0) {
+        return { input: null, errors };
+    }
+    return { input: { rating, title, body: reviewBody }, errors };
+};
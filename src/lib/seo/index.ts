@@ -0,0 +1,33 @@
+/*
+[概要]
+検索エンジン・SNS 向けの情報 (サイトの絶対 URL、言語ごとの URL、Open Graph の言語)。
+- サイトの URL は環境変数 SITE_URL で指定する (メールのリンク・canonical・sitemap.xml で共通)
+- 同じページの言語違い (/ja/..., /en/...) は alternates で互いに関連付け、言語のない URL からは既定の言語に案内する
+*/
+import { DEFAULT_LOCALE, LOCALES, Locale, localizePath } from '../i18n/config';
+
+// Open Graph (og:locale) の言語
+export const OG_LOCALES: Record<Locale, string> = {
+    ja: 'ja_JP',
+    en: 'en_US',
+};
+
+export const getSiteUrl = (): string => (process.env.SITE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+
+// サイトの絶対 URL。path は "/" から始まるパス
+export const toAbsoluteUrl = (path: string): string => `${getSiteUrl()}${path}`;
+
+// 言語ごとの URL (hreflang)。x-default は言語を判別できない場合の URL
+export const toLanguageAlternates = (path: string): Record<string, string> => ({
+    ...Object.fromEntries(LOCALES.map((locale) => [locale, localizePath(locale, path)])),
+    'x-default': localizePath(DEFAULT_LOCALE, path),
+});
+
+// generateMetadata の alternates (表示中の言語の URL を canonical にする)
+export const buildAlternates = (locale: Locale, path: string) => ({
+    canonical: localizePath(locale, path),
+    languages: toLanguageAlternates(path),
+});
+
+export { serializeJsonLd, toProductJsonLd } from './structuredData';
+export type { ProductJsonLd } from './structuredData';
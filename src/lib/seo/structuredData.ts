@@ -0,0 +1,78 @@
+/*
+[概要]
+構造化データ (JSON-LD, schema.org) の作成。商品詳細ページに Product / Offer を埋め込み、検索結果に価格・在庫・評価を表示できるようにする。
+価格は店頭の表示に合わせて税込 (日本円) で記載する。バリエーションのある商品は SKU ごとに Offer を並べる。
+*/
+import { listSkus } from '../catalog/variants';
+import type { ProductWithAvailability, StockStatus } from '../inventory/types';
+import { priceWithTax } from '../pricing';
+import type { ReviewSummary } from '../reviews/types';
+
+type OfferJsonLd = {
+    '@type': 'Offer';
+    sku: string;
+    url: string;
+    price: number;
+    priceCurrency: 'JPY';
+    availability: string;
+    itemCondition: string;
+};
+
+export type ProductJsonLd = {
+    '@context': 'https://schema.org';
+    '@type': 'Product';
+    productID: string;
+    name: string;
+    description: string;
+    image: string[];
+    url: string;
+    offers: OfferJsonLd[];
+    aggregateRating?: {
+        '@type': 'AggregateRating';
+        ratingValue: number;
+        reviewCount: number;
+    };
+};
+
+const SCHEMA_AVAILABILITY: Record<StockStatus, string> = {
+    in_stock: 'https://schema.org/InStock',
+    low_stock: 'https://schema.org/LimitedAvailability',
+    out_of_stock: 'https://schema.org/OutOfStock',
+};
+
+// url は商品詳細ページの絶対 URL、toAbsolute は画像のパスを絶対 URL にする関数
+export const toProductJsonLd = (
+    product: ProductWithAvailability,
+    { url, rating, toAbsolute }: { url: string; rating?: ReviewSummary; toAbsolute: (path: string) => string }
+): ProductJsonLd => {
+    const skus = listSkus(product);
+    const images = [product.imageUrl, ...(product.images ?? []), ...skus.map((sku) => sku.imageUrl)];
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        productID: product.id,
+        name: product.name,
+        description: product.description,
+        image: [...new Set(images)].map((image) => (image.startsWith('/') ? toAbsolute(image) : image)),
+        url,
+        offers: skus.map((sku) => ({
+            '@type': 'Offer',
+            sku: sku.sku,
+            url,
+            price: priceWithTax(sku.price, product.taxCategory),
+            priceCurrency: 'JPY',
+            availability: SCHEMA_AVAILABILITY[product.skuAvailability[sku.sku]?.status ?? 'out_of_stock'],
+            itemCondition: 'https://schema.org/NewCondition',
+        })),
+        ...(rating && rating.count > 0 ? {
+            aggregateRating: {
+                '@type': 'AggregateRating',
+                ratingValue: rating.average,
+                reviewCount: rating.count,
+            },
+        } : {}),
+    };
+};
+
+// <script type="application/ld+json"> に埋め込む文字列 (説明文の "</script>" などでタグが閉じないよう "<" をエスケープする)
+export const serializeJsonLd = (data: object): string => JSON.stringify(data).replace(/</g, '\\u003c');
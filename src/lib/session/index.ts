@@ -0,0 +1,129 @@
+/*
+[概要]
+Cookie によるセッションを扱う。Route Handler / Server Component から呼び出す。
+- カートセッション (ec-cart-session): ゲストのカートを識別する。Cookie がない・UUID でない場合は新しいIDを発行する
+- ログインセッション (ec-auth-session): ログイン中のアカウントを識別する。トークンの検証は lib/auth で行う
+- 管理者の確認: Route Handler は assertAdmin、管理画面のページは requireAdmin を使う
+*/
+import { randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { AuthError, PublicUser, User, createAuthSession, getUserBySessionToken, isAdmin, toPublicUser } from '../auth';
+import { mergeCarts } from '../cart';
+import type { Order } from '../orders/types';
+import { mergeWishlists } from '../wishlist';
+
+export const CART_SESSION_COOKIE = 'ec-cart-session';
+const CART_SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30日
+
+export const AUTH_SESSION_COOKIE = 'ec-auth-session';
+
+const cookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+} as const;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Cookie のカートセッションID。発行した形式 (UUID) でない値は、他のカート (user:... など) を指さないよう無視する
+const readCartSessionId = (cookieStore: Awaited<ReturnType<typeof cookies>>): string | undefined => {
+    const value = cookieStore.get(CART_SESSION_COOKIE)?.value;
+    return value !== undefined && UUID_PATTERN.test(value) ? value : undefined;
+};
+
+export const getCartSessionId = async (): Promise<string> => {
+    const cookieStore = await cookies();
+    const existing = readCartSessionId(cookieStore);
+    if (existing) {
+        return existing;
+    }
+
+    const sessionId = randomUUID();
+    cookieStore.set(CART_SESSION_COOKIE, sessionId, { ...cookieOptions, maxAge: CART_SESSION_MAX_AGE });
+    return sessionId;
+};
+
+export const setAuthSessionCookie = async (token: string, expiresAt: Date): Promise<void> => {
+    const cookieStore = await cookies();
+    cookieStore.set(AUTH_SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt });
+};
+
+// Cookie を削除し、削除前のトークンを返す (サーバー側のセッションの削除に使う)
+export const clearAuthSessionCookie = async (): Promise<string | undefined> => {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(AUTH_SESSION_COOKIE)?.value;
+    cookieStore.delete(AUTH_SESSION_COOKIE);
+    return token;
+};
+
+// ログイン中のアカウント (未ログイン・期限切れの場合は undefined)
+export const getCurrentUser = async (): Promise<User | undefined> => {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(AUTH_SESSION_COOKIE)?.value;
+    return token ? getUserBySessionToken(token) : undefined;
+};
+
+// 管理者としてログインしていることを確認する (Route Handler 用)。未ログインは 401、管理者でなければ 403
+export const assertAdmin = async (): Promise<User> => {
+    const user = await getCurrentUser();
+    if (!user) {
+        throw new AuthError('ログインしてください', 401);
+    }
+    if (!isAdmin(user)) {
+        throw new AuthError('この操作を行う権限がありません', 403);
+    }
+    return user;
+};
+
+// 管理者としてログインしていることを確認する (管理画面の Server Component 用)。
+// 未ログインはログインページへ移動し、管理者以外には管理画面の存在を見せないよう 404 にする
+export const requireAdmin = async (): Promise<User> => {
+    const user = await getCurrentUser();
+    if (!user) {
+        redirect('/login?next=/admin');
+    }
+    if (!isAdmin(user)) {
+        notFound();
+    }
+    return user;
+};
+
+// 注文をしたブラウザ (カートセッション) か、注文したアカウントでログインしている場合だけ true。
+// 注文の詳細 (お届け先など) を表示・操作する前に確かめる。Cookie がなくても新しいIDは発行しない (Server Component からも呼べる)
+export const isOrderOwner = async (order: Pick<Order, 'sessionId' | 'userId'>): Promise<boolean> => {
+    const sessionId = readCartSessionId(await cookies());
+    if (sessionId !== undefined && sessionId === order.sessionId) {
+        return true;
+    }
+    const user = order.userId ? await getCurrentUser() : undefined;
+    return user !== undefined && user.id === order.userId;
+};
+
+// ゲストのカートのキー (= カートセッションID。getCartSessionId で UUID であることを確かめたもの)
+export const toGuestCartId = (sessionId: string): string => sessionId;
+
+// アカウントに紐づくカートのキー。どの端末からログインしても同じカートになる
+export const toUserCartId = (userId: string): string => `user:${userId}`;
+
+// アカウントに紐づくカートのキーからアカウントIDを取り出す (ゲストのカートは null)
+// ゲストのキーは UUID に限っているので、user: で始まるキーはアカウントのカートだけになる
+export const fromUserCartId = (cartId: string): string | null =>
+    cartId.startsWith('user:') ? cartId.slice('user:'.length) : null;
+
+// カートの保存キー。ログイン中はアカウント、未ログインはカートセッションごとのカートを使う
+export const getCartId = async (): Promise<string> => {
+    const user = await getCurrentUser();
+    return user ? toUserCartId(user.id) : toGuestCartId(await getCartSessionId());
+};
+
+// ログインセッションを発行して Cookie に保存し、このブラウザのゲストのカート・お気に入りをアカウントのものにまとめる
+export const signIn = async (user: User): Promise<PublicUser> => {
+    const { token, expiresAt } = await createAuthSession(user.id);
+    await setAuthSessionCookie(token, expiresAt);
+    const guestCartId = toGuestCartId(await getCartSessionId());
+    await mergeCarts(guestCartId, toUserCartId(user.id));
+    await mergeWishlists(guestCartId, toUserCartId(user.id));
+    return toPublicUser(user);
+};
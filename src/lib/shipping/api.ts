@@ -0,0 +1,17 @@
+import type { Prefecture } from '../checkout/prefectures';
+import type { DeliveryMethodId } from '../checkout/types';
+import type { ShippingQuote } from './types';
+
+// 現在のカートの送料を見積もる。配送先は郵便番号 (都道府県を推定) か都道府県で指定する
+export const fetchShippingQuote = async (
+    destination: { postalCode: string } | { prefecture: Prefecture },
+    deliveryMethod: DeliveryMethodId = 'standard'
+): Promise<ShippingQuote> => {
+    const params = new URLSearchParams({ ...destination, deliveryMethod });
+    const response = await fetch(`/api/cart/shipping?${params}`);
+    const body = await response.json();
+    if (!response.ok) {
+        throw new Error(body?.error ?? '送料の計算に失敗しました');
+    }
+    return body;
+};
@@ -0,0 +1,96 @@
+/*
+[概要]
+送料の計算。副作用のない純粋な関数で、サーバー (カートの送料の目安・注文作成) から呼び出す。
+
+- 荷物の大きさは、商品ごとの梱包サイズ (三辺合計) を立方体とみなして体積を合計し、まとめた荷物の三辺合計として求める
+- 合計重量・大きさが最大の区分に収まらない場合は、同じ大きさの荷物に分けて送る (送料は個数分)
+- 商品の合計 (税抜・値引き後) が送料無料の基準以上、または送料無料キャンペーンの対象なら地域・大きさの送料を無料にする
+  (離島・遠隔地の追加料金とお急ぎ便の追加料金は送料無料の場合もかかる)
+*/
+import type { Prefecture } from '../checkout/prefectures';
+import type { DeliveryMethodId } from '../checkout/types';
+import { addDays, toJapanDate } from './schedule';
+import { Parcel, ShippingLine, ShippingQuote, ShippingRateTable, ShippingRegion } from './types';
+
+export type ShippingContext = {
+    lines: ShippingLine[];
+    prefecture: Prefecture;
+    deliveryMethod: DeliveryMethodId;
+    merchandiseTotal: number; // 商品の合計 (税抜・値引き後)
+    promotionFreeShipping: boolean;
+    table: ShippingRateTable;
+    now?: Date;
+};
+
+// 三辺合計 (cm) ⇔ 立方体とみなしたときの体積
+const toVolume = (size: number) => (size / 3) ** 3;
+// 浮動小数点の誤差 (例: 60.00000000001) で1つ上の区分にならないよう、丸めてから切り上げる
+const toSize = (volume: number) => Math.ceil(Math.round(Math.cbrt(volume) * 3 * 1e6) / 1e6);
+
+export const findShippingRegion = (table: ShippingRateTable, prefecture: Prefecture): ShippingRegion | undefined =>
+    table.regions.find((region) => region.prefectures.includes(prefecture));
+
+export const packParcel = (lines: ShippingLine[], table: ShippingRateTable): Parcel => {
+    const { defaultItem, sizes } = table;
+    const weight = lines.reduce((total, line) => total + (line.weight ?? defaultItem.weight) * line.quantity, 0);
+    const volume = lines.reduce(
+        (total, line) => total + toVolume(line.packageSize ?? defaultItem.packageSize) * line.quantity,
+        0
+    );
+    const largest = sizes[sizes.length - 1];
+    const count = Math.max(
+        1,
+        Math.ceil(weight / largest.maxWeight),
+        Math.ceil(volume / toVolume(largest.maxSize))
+    );
+    const size = toSize(volume / count);
+    const matched = sizes.find((candidate) => size <= candidate.maxSize && weight / count <= candidate.maxWeight);
+    return { size: (matched ?? largest).id, count, weight };
+};
+
+// お届け日として選べる日 (最短のお届け日から selectableDays 日分)
+export const listDeliveryDates = (
+    table: ShippingRateTable,
+    region: ShippingRegion,
+    deliveryMethod: DeliveryMethodId,
+    now: Date = new Date()
+): string[] => {
+    const earliest = addDays(toJapanDate(now), table.leadDays[deliveryMethod] + (region.extraDays ?? 0));
+    return Array.from({ length: table.selectableDays }, (_, index) => addDays(earliest, index));
+};
+
+export const calculateShipping = ({
+    lines,
+    prefecture,
+    deliveryMethod,
+    merchandiseTotal,
+    promotionFreeShipping,
+    table,
+    now = new Date(),
+}: ShippingContext): ShippingQuote => {
+    const region = findShippingRegion(table, prefecture);
+    if (!region) {
+        throw new Error(`送料の設定がない都道府県です: ${prefecture}`);
+    }
+    const parcel = packParcel(lines, table);
+    const baseFee = (region.fees[parcel.size] ?? 0) * parcel.count;
+    const remoteSurcharge = (region.remoteSurcharge ?? 0) * parcel.count;
+    const expressFee = deliveryMethod === 'express' ? table.expressFee : 0;
+    const freeShipping = promotionFreeShipping
+        ? 'promotion'
+        : merchandiseTotal >= table.freeShippingThreshold ? 'threshold' : null;
+
+    return {
+        prefecture,
+        deliveryMethod,
+        parcel,
+        baseFee,
+        remoteSurcharge,
+        expressFee,
+        freeShipping,
+        fee: (freeShipping ? 0 : baseFee) + remoteSurcharge + expressFee,
+        amountToFreeShipping: freeShipping ? null : table.freeShippingThreshold - merchandiseTotal,
+        expressAvailable: region.expressAvailable !== false,
+        deliveryDates: listDeliveryDates(table, region, deliveryMethod, now),
+    };
+};
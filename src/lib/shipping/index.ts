@@ -0,0 +1,98 @@
+/*
+[概要]
+送料・お届け日時のデータ層。送料表は data/shipping-rates.json で管理する。
+商品の重量・梱包サイズはカタログ (Product の weight / packageSize) から取得する。
+*/
+import type { Sku } from '../catalog';
+import type { Prefecture } from '../checkout/prefectures';
+import type { DeliveryMethodId } from '../checkout/types';
+import type { PromotionEvaluation } from '../promotions/types';
+import { readJsonFile } from '../storage/jsonFile';
+import { calculateShipping } from './calculator';
+import { DEFAULT_DELIVERY_SCHEDULE, isDeliveryTimeSlot } from './schedule';
+import { DeliverySchedule, ShippingLine, ShippingQuote, ShippingRateTable } from './types';
+
+const RATES_FILE = 'shipping-rates.json';
+
+export class ShippingError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ShippingError';
+    }
+}
+
+export const getShippingRates = async (): Promise<ShippingRateTable> => {
+    const table = await readJsonFile<ShippingRateTable | null>(RATES_FILE, null);
+    if (!table) {
+        throw new Error(`送料表 (data/${RATES_FILE}) がありません`);
+    }
+    return table;
+};
+
+export const toShippingLine = (sku: Sku, quantity: number): ShippingLine => ({
+    weight: sku.product.weight,
+    packageSize: sku.product.packageSize,
+    quantity,
+});
+
+// カート・注文の明細と割引の計算結果から送料を見積もる
+export const quoteShipping = async (
+    items: { sku: Sku; quantity: number }[],
+    prefecture: Prefecture,
+    deliveryMethod: DeliveryMethodId,
+    promotion: Pick<PromotionEvaluation, 'discountTotal' | 'freeShipping'>
+): Promise<ShippingQuote> => {
+    if (items.length === 0) {
+        throw new ShippingError('カートに商品がありません', 400);
+    }
+    const subtotal = items.reduce((total, { sku, quantity }) => total + sku.price * quantity, 0);
+    return calculateShipping({
+        lines: items.map(({ sku, quantity }) => toShippingLine(sku, quantity)),
+        prefecture,
+        deliveryMethod,
+        merchandiseTotal: subtotal - promotion.discountTotal,
+        promotionFreeShipping: promotion.freeShipping,
+        table: await getShippingRates(),
+    });
+};
+
+// 注文で指定されたお届け日時を確認する。お届け日は見積もりの候補 (deliveryDates) の中から選ぶ
+export const validateDeliverySchedule = (
+    quote: ShippingQuote,
+    input: { deliveryDate?: unknown; deliveryTimeSlot?: unknown }
+): DeliverySchedule => {
+    if (quote.deliveryMethod === 'express' && !quote.expressAvailable) {
+        throw new ShippingError('この配送先にはお急ぎ便をご利用いただけません', 400);
+    }
+    const deliveryDate = input.deliveryDate ?? DEFAULT_DELIVERY_SCHEDULE.deliveryDate;
+    if (deliveryDate !== null && !quote.deliveryDates.some((date) => date === deliveryDate)) {
+        throw new ShippingError('お届け日は選択肢の中から選んでください', 400);
+    }
+    const deliveryTimeSlot = input.deliveryTimeSlot ?? DEFAULT_DELIVERY_SCHEDULE.deliveryTimeSlot;
+    if (!isDeliveryTimeSlot(deliveryTimeSlot)) {
+        throw new ShippingError('お届け時間帯を選択してください', 400);
+    }
+    return { deliveryDate: deliveryDate as string | null, deliveryTimeSlot };
+};
+
+export { calculateShipping, findShippingRegion, listDeliveryDates, packParcel } from './calculator';
+export { prefectureFromPostalCode } from './postalCodes';
+export {
+    DEFAULT_DELIVERY_SCHEDULE,
+    DELIVERY_TIME_SLOTS,
+    addDays,
+    findDeliveryTimeSlotLabel,
+    isDeliveryTimeSlot,
+    toJapanDate,
+} from './schedule';
+export type {
+    DeliverySchedule,
+    DeliveryTimeSlot,
+    FreeShippingReason,
+    Parcel,
+    ParcelSize,
+    ShippingLine,
+    ShippingQuote,
+    ShippingRateTable,
+    ShippingRegion,
+} from './types';
@@ -0,0 +1,69 @@
+/*
+[概要]
+郵便番号から都道府県を推定する (カートページの送料の目安に使う)。
+郵便番号の先頭3桁の範囲で判定するため、県境付近の一部の地域では外れることがある。
+注文時の送料は、配送先住所で選んだ都道府県で計算する。
+*/
+import { isValidPostalCode, normalizePostalCode } from '../checkout/address';
+import type { Prefecture } from '../checkout/prefectures';
+
+// [先頭3桁の下限, 上限, 都道府県]
+const POSTAL_CODE_RANGES: [number, number, Prefecture][] = [
+    [1, 9, '北海道'],
+    [10, 19, '秋田県'],
+    [20, 29, '岩手県'],
+    [30, 39, '青森県'],
+    [40, 99, '北海道'],
+    [100, 208, '東京都'],
+    [209, 259, '神奈川県'],
+    [260, 299, '千葉県'],
+    [300, 319, '茨城県'],
+    [320, 329, '栃木県'],
+    [330, 369, '埼玉県'],
+    [370, 379, '群馬県'],
+    [380, 399, '長野県'],
+    [400, 409, '山梨県'],
+    [410, 439, '静岡県'],
+    [440, 499, '愛知県'],
+    [500, 509, '岐阜県'],
+    [510, 519, '三重県'],
+    [520, 529, '滋賀県'],
+    [530, 599, '大阪府'],
+    [600, 629, '京都府'],
+    [630, 639, '奈良県'],
+    [640, 649, '和歌山県'],
+    [650, 679, '兵庫県'],
+    [680, 689, '鳥取県'],
+    [690, 699, '島根県'],
+    [700, 719, '岡山県'],
+    [720, 739, '広島県'],
+    [740, 759, '山口県'],
+    [760, 769, '香川県'],
+    [770, 779, '徳島県'],
+    [780, 789, '高知県'],
+    [790, 799, '愛媛県'],
+    [800, 839, '福岡県'],
+    [840, 849, '佐賀県'],
+    [850, 859, '長崎県'],
+    [860, 869, '熊本県'],
+    [870, 879, '大分県'],
+    [880, 889, '宮崎県'],
+    [890, 899, '鹿児島県'],
+    [900, 909, '沖縄県'],
+    [910, 919, '福井県'],
+    [920, 929, '石川県'],
+    [930, 939, '富山県'],
+    [940, 959, '新潟県'],
+    [960, 979, '福島県'],
+    [980, 989, '宮城県'],
+    [990, 999, '山形県'],
+];
+
+// 住所の入力と同じく全角数字・ハイフンなしも受け付ける。判定できない場合は undefined
+export const prefectureFromPostalCode = (postalCode: string): Prefecture | undefined => {
+    if (!isValidPostalCode(postalCode)) {
+        return undefined;
+    }
+    const prefix = Number(normalizePostalCode(postalCode).slice(0, 3));
+    return POSTAL_CODE_RANGES.find(([min, max]) => prefix >= min && prefix <= max)?.[2];
+};
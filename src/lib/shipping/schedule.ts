@@ -0,0 +1,36 @@
+/*
+[概要]
+お届け日・時間帯の指定。クライアント・サーバーのどちらからも使う。
+日付は日本時間の YYYY-MM-DD で扱う。
+*/
+import { DeliverySchedule, DeliveryTimeSlot } from './types';
+
+export const DELIVERY_TIME_SLOTS: { id: DeliveryTimeSlot; label: string }[] = [
+    { id: 'unspecified', label: '指定なし' },
+    { id: 'morning', label: '午前中' },
+    { id: '14-16', label: '14〜16時' },
+    { id: '16-18', label: '16〜18時' },
+    { id: '18-20', label: '18〜20時' },
+    { id: '19-21', label: '19〜21時' },
+];
+
+export const DEFAULT_DELIVERY_SCHEDULE: DeliverySchedule = {
+    deliveryDate: null,
+    deliveryTimeSlot: 'unspecified',
+};
+
+export const isDeliveryTimeSlot = (value: unknown): value is DeliveryTimeSlot =>
+    DELIVERY_TIME_SLOTS.some((slot) => slot.id === value);
+
+export const findDeliveryTimeSlotLabel = (id: DeliveryTimeSlot): string =>
+    DELIVERY_TIME_SLOTS.find((slot) => slot.id === id)?.label ?? id;
+
+// 日本時間の日付 (YYYY-MM-DD)
+export const toJapanDate = (date: Date): string =>
+    date.toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' });
+
+export const addDays = (isoDate: string, days: number): string => {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
@@ -0,0 +1,71 @@
+import type { Prefecture } from '../checkout/prefectures';
+import type { DeliveryMethodId } from '../checkout/types';
+
+// お届け時間帯の指定
+export type DeliveryTimeSlot = 'unspecified' | 'morning' | '14-16' | '16-18' | '18-20' | '19-21';
+
+// お届け日時の指定。deliveryDate は YYYY-MM-DD (日本時間)、null は指定なし (最短でお届け)
+export type DeliverySchedule = {
+    deliveryDate: string | null;
+    deliveryTimeSlot: DeliveryTimeSlot;
+};
+
+// 荷物の大きさの区分 (例: 60サイズ = 三辺合計60cm・2kgまで)
+export type ParcelSize = {
+    id: string;
+    maxSize: number; // 三辺合計 (cm)
+    maxWeight: number; // 重量 (g)
+};
+
+// 送料の地域区分。fees は荷物の大きさの区分 (ParcelSize の id) ごとの送料 (税抜)
+export type ShippingRegion = {
+    id: string;
+    label: string;
+    prefectures: Prefecture[];
+    fees: Record<string, number>;
+    remoteSurcharge?: number; // 離島・遠隔地の追加料金 (荷物1個あたり・税抜)。送料無料の場合もかかる
+    extraDays?: number; // お届けまでに余分にかかる日数
+    expressAvailable?: boolean; // false の場合はお急ぎ便を選べない
+};
+
+// data/shipping-rates.json の内容
+export type ShippingRateTable = {
+    freeShippingThreshold: number; // 商品の合計 (税抜・値引き後) がこの金額以上なら送料無料
+    expressFee: number; // お急ぎ便の追加料金 (税抜)
+    leadDays: Record<DeliveryMethodId, number>; // 注文日からお届けまでの最短日数
+    selectableDays: number; // 最短のお届け日から何日分をお届け日として選べるか
+    defaultItem: { weight: number; packageSize: number }; // 重量・梱包サイズが未登録の商品の値
+    sizes: ParcelSize[]; // 小さい順
+    regions: ShippingRegion[];
+};
+
+// 送料計算の対象となる明細。重量 (g)・梱包サイズ (三辺合計 cm) は商品1点あたり
+export type ShippingLine = {
+    weight?: number;
+    packageSize?: number;
+    quantity: number;
+};
+
+// まとめて梱包した荷物。最大の区分に収まらない場合は count 個に分ける
+export type Parcel = {
+    size: string;
+    count: number;
+    weight: number; // 合計重量 (g)
+};
+
+export type FreeShippingReason = 'threshold' | 'promotion';
+
+// 送料の見積もり。金額はすべて税抜 (送料は標準税率の課税対象)
+export type ShippingQuote = {
+    prefecture: Prefecture;
+    deliveryMethod: DeliveryMethodId;
+    parcel: Parcel;
+    baseFee: number; // 地域・大きさで決まる送料 (送料無料の場合も元の金額)
+    remoteSurcharge: number;
+    expressFee: number;
+    freeShipping: FreeShippingReason | null;
+    fee: number; // 請求する送料
+    amountToFreeShipping: number | null; // あといくらで送料無料になるか。送料無料の場合は null
+    expressAvailable: boolean;
+    deliveryDates: string[]; // お届け日として選べる日 (YYYY-MM-DD)
+};
@@ -0,0 +1,73 @@
+/*
+[概要]
+data/ ディレクトリ配下の JSON ファイルを簡易データベースとして読み書きするヘルパー。
+サーバー側 (Route Handler / Server Component) からのみ利用する。
+書き込みは updateJsonFile で行う。読み込み・書き換え・書き込みをファイルごとのロック中にまとめて行い、
+同時に届いたリクエストが互いの変更を上書きしないようにする。
+*/
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), 'data');
+
+// data/ 配下のファイルのパス (JSON 以外のファイル (アップロードした画像など) の保存にも使う)
+export const resolveDataPath = (fileName: string) => path.join(DATA_DIR, fileName);
+
+export const readJsonFile = async <T>(fileName: string, fallback: T): Promise<T> => {
+    try {
+        const raw = await fs.readFile(resolveDataPath(fileName), 'utf-8');
+        return JSON.parse(raw) as T;
+    } catch (error) {
+        // ファイルが未作成の場合は初期値を返す
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return fallback;
+        }
+        throw error;
+    }
+};
+
+// ファイルごとのロック。前の処理の完了 (成功・失敗を問わない) を待ってから次の処理を始める
+// 開発サーバーのホットリロードでロックが分かれないよう、globalThis に保持する
+const globalForLocks = globalThis as typeof globalThis & { __jsonFileLocks?: Map<string, Promise<void>> };
+const fileLocks = (globalForLocks.__jsonFileLocks ??= new Map<string, Promise<void>>());
+
+export const withFileLock = <T>(fileName: string, task: () => Promise<T>): Promise<T> => {
+    const previous = fileLocks.get(fileName) ?? Promise.resolve();
+    const result = previous.then(task);
+    const done = result.then(() => undefined, () => undefined);
+    fileLocks.set(fileName, done);
+    void done.then(() => {
+        if (fileLocks.get(fileName) === done) {
+            fileLocks.delete(fileName);
+        }
+    });
+    return result;
+};
+
+const writeUnlocked = async <T>(fileName: string, data: T): Promise<void> => {
+    const filePath = resolveDataPath(fileName);
+    // 同時に書き込んでも一時ファイルが重ならないよう、書き込みごとに別の名前にする
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // 書き込み途中のファイルを読まれないよう、一時ファイルに書いてから置き換える
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+};
+
+// 読み込み・書き換え・書き込みをロックしたまま行い、書き込んだ内容を返す。update が例外を投げた場合は書き込まない
+export const updateJsonFile = <T>(
+    fileName: string,
+    fallback: T,
+    update: (current: T) => T | Promise<T>
+): Promise<T> =>
+    withFileLock(fileName, async () => {
+        const data = await update(await readJsonFile(fileName, fallback));
+        await writeUnlocked(fileName, data);
+        return data;
+    });
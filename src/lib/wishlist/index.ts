@@ -0,0 +1,157 @@
+/*
+[概要]
+サーバー側のお気に入り (あとで買う) ストア。カートと同じID (lib/session の getCartId。ゲストはカートセッション、
+ログイン中はアカウント) ごとに、保存した SKU と日時だけを data/wishlists.json に保存する。
+商品名・価格・在庫状況は表示のたびにカタログから取り直し、販売終了した商品は表示しない。
+*/
+import { Product, getProducts, hasVariants, resolveSku } from '../catalog';
+import { ProductWithAvailability, withAvailability } from '../inventory';
+import { readJsonFile, updateJsonFile } from '../storage/jsonFile';
+import { StoredWishlist, WishlistItem, WishlistLine, WishlistView } from './types';
+
+const WISHLISTS_FILE = 'wishlists.json';
+const MAX_WISHLIST_ITEMS = 100;
+
+export class WishlistError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'WishlistError';
+    }
+}
+
+type StoredWishlists = Record<string, StoredWishlist>;
+
+const readWishlists = () => readJsonFile<StoredWishlists>(WISHLISTS_FILE, {});
+
+const readLines = async (wishlistId: string): Promise<WishlistLine[]> =>
+    (await readWishlists())[wishlistId]?.lines ?? [];
+
+// 明細を書き換えた一覧 (空になったお気に入りは削除する)
+const withLines = (wishlists: StoredWishlists, wishlistId: string, lines: WishlistLine[]): StoredWishlists => {
+    const others = Object.fromEntries(Object.entries(wishlists).filter(([id]) => id !== wishlistId));
+    return lines.length === 0 ? others : { ...others, [wishlistId]: { lines, updatedAt: new Date().toISOString() } };
+};
+
+// お気に入りの明細を書き換えて保存し、保存した明細を返す。読み込みから保存までファイルのロック中に行う
+const updateLines = async (wishlistId: string, update: (lines: WishlistLine[]) => WishlistLine[]) => {
+    let next: WishlistLine[] = [];
+    await updateJsonFile<StoredWishlists>(WISHLISTS_FILE, {}, (wishlists) => {
+        next = update(wishlists[wishlistId]?.lines ?? []);
+        return withLines(wishlists, wishlistId, next);
+    });
+    return next;
+};
+
+// id が SKU ならその SKU、バリエーションのある商品の商品IDなら「組み合わせ未選択」として解決する
+const toWishlistItem = (
+    products: ProductWithAvailability[],
+    line: WishlistLine
+): WishlistItem | null => {
+    const sku = resolveSku(products, line.id);
+    if (sku) {
+        const product = products.find((candidate) => candidate.id === sku.product.id) ?? null;
+        return product && {
+            id: line.id,
+            productId: product.id,
+            sku: sku.sku,
+            name: product.name,
+            options: sku.options,
+            price: sku.price,
+            taxCategory: product.taxCategory,
+            imageUrl: sku.imageUrl,
+            stockStatus: product.skuAvailability[sku.sku]?.status ?? 'out_of_stock',
+            addedAt: line.addedAt,
+        };
+    }
+    const product = products.find((candidate) => candidate.id === line.id);
+    if (!product) {
+        return null;
+    }
+    return {
+        id: line.id,
+        productId: product.id,
+        sku: null,
+        name: product.name,
+        options: {},
+        price: product.price,
+        taxCategory: product.taxCategory,
+        imageUrl: product.imageUrl,
+        stockStatus: product.availability.status,
+        addedAt: line.addedAt,
+    };
+};
+
+// 新しく保存したものから順に表示する
+const buildView = async (lines: WishlistLine[]): Promise<WishlistView> => {
+    const products = await withAvailability(await getProducts());
+    return {
+        items: lines
+            .flatMap((line) => toWishlistItem(products, line) ?? [])
+            .sort((a, b) => b.addedAt.localeCompare(a.addedAt)),
+    };
+};
+
+const isSavableId = (products: Product[], id: string): boolean =>
+    resolveSku(products, id) !== undefined
+    || products.some((product) => product.id === id && hasVariants(product));
+
+export const getWishlist = async (wishlistId: string): Promise<WishlistView> => {
+    return buildView(await readLines(wishlistId));
+};
+
+// 保存済みの場合は何もしない (ハートを何度押しても1件のまま)
+export const addWishlistItem = async (wishlistId: string, id: unknown): Promise<WishlistView> => {
+    if (typeof id !== 'string' || !isSavableId(await getProducts(), id)) {
+        throw new WishlistError('商品が見つかりません', 404);
+    }
+    const lines = await updateLines(wishlistId, (current) => {
+        if (current.some((line) => line.id === id)) {
+            return current;
+        }
+        if (current.length >= MAX_WISHLIST_ITEMS) {
+            throw new WishlistError(`お気に入りに保存できるのは${MAX_WISHLIST_ITEMS}件までです`, 409);
+        }
+        return [...current, { id, addedAt: new Date().toISOString() }];
+    });
+    return buildView(lines);
+};
+
+export const removeWishlistItem = async (wishlistId: string, id: string): Promise<WishlistView> => {
+    const lines = await updateLines(wishlistId, (current) => current.filter((line) => line.id !== id));
+    return buildView(lines);
+};
+
+// 商品のすべての組み合わせ (と組み合わせ未選択のもの) をまとめて外す
+export const removeWishlistProduct = async (wishlistId: string, productId: string): Promise<WishlistView> => {
+    const products = await getProducts();
+    const lines = await updateLines(wishlistId, (current) => current.filter((line) => {
+        const owner = resolveSku(products, line.id)?.product.id ?? line.id;
+        return owner !== productId;
+    }));
+    return buildView(lines);
+};
+
+/*
+ログイン時に、ゲストのお気に入りをアカウントのお気に入りにまとめる。
+同じものがどちらにもある場合は、先に保存した日時を残す。まとめた後、ゲストのお気に入りは削除する。
+*/
+export const mergeWishlists = async (guestId: string, userId: string): Promise<void> => {
+    if (guestId === userId || (await readLines(guestId)).length === 0) {
+        return;
+    }
+    await updateJsonFile<StoredWishlists>(WISHLISTS_FILE, {}, (wishlists) => {
+        const guest = wishlists[guestId]?.lines ?? [];
+        const merged = [...(wishlists[userId]?.lines ?? [])];
+        for (const line of guest) {
+            const index = merged.findIndex((existing) => existing.id === line.id);
+            if (index === -1) {
+                merged.push(line);
+            } else if (line.addedAt < merged[index].addedAt) {
+                merged[index] = line;
+            }
+        }
+        return withLines(withLines(wishlists, userId, merged.slice(-MAX_WISHLIST_ITEMS)), guestId, []);
+    });
+};
+
+export type { StoredWishlist, WishlistItem, WishlistLine, WishlistView } from './types';
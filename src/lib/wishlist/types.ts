@@ -0,0 +1,35 @@
+import type { StockStatus } from '../inventory/types';
+import type { TaxCategory } from '../pricing/types';
+
+// サーバーに保存するお気に入りの1件。商品名や価格は持たず、表示時にカタログから解決する
+export type WishlistLine = {
+    id: string; // SKU、または組み合わせを選んでいない場合は商品ID
+    addedAt: string;
+};
+
+export type StoredWishlist = {
+    lines: WishlistLine[];
+    updatedAt: string;
+};
+
+/*
+表示用のお気に入り。name / price / imageUrl はサーバーがカタログから解決した値
+id は SKU か、バリエーションのある商品で組み合わせを選ばずに保存した場合は商品ID (sku は null)
+*/
+export type WishlistItem = {
+    id: string;
+    productId: string;
+    sku: string | null;
+    name: string;
+    options: Record<string, string>;
+    price: number; // 税抜の本体価格 (組み合わせを選んでいない場合は基本価格)
+    taxCategory: TaxCategory;
+    imageUrl: string;
+    stockStatus: StockStatus; // 組み合わせを選んでいない場合は商品全体の在庫状況
+    addedAt: string;
+};
+
+// お気に入りAPI (/api/wishlist) のレスポンス
+export type WishlistView = {
+    items: WishlistItem[];
+};
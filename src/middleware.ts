@@ -0,0 +1,42 @@
+/*
+[概要]
+言語付きの URL (/ja/products, /en/cart など) の振り分け。
+- 言語付きの URL: 言語を取り除いたパスに書き換え (rewrite)、言語をリクエストヘッダー (x-locale) で各ページに渡す。
+  最後に表示した言語として Cookie (ec-locale) にも保存する
+- 言語のない URL: Cookie (なければ Accept-Language) の言語を付けた URL にリダイレクトする
+API・静的ファイル・管理画面 (日本語のみ) は対象外。
+*/
+import { NextRequest, NextResponse } from 'next/server';
+import { LOCALE_COOKIE, LOCALE_HEADER, isLocale, localizePath, pickLocale, splitLocale } from './lib/i18n/config';
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export function middleware(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+    const { locale, path } = splitLocale(pathname);
+
+    if (!locale) {
+        const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+        const preferred = isLocale(saved) ? saved : pickLocale(request.headers.get('accept-language'));
+        return NextResponse.redirect(new URL(localizePath(preferred, `${pathname}${search}`), request.url));
+    }
+
+    // 管理画面は日本語のみ (言語の付いた URL で開いた場合は言語を外す)
+    if (/^\/admin(\/|$)/.test(path)) {
+        return NextResponse.redirect(new URL(`${path}${search}`, request.url));
+    }
+
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set(LOCALE_HEADER, locale);
+    const response = NextResponse.rewrite(new URL(`${path}${search}`, request.url), {
+        request: { headers: requestHeaders },
+    });
+    if (request.cookies.get(LOCALE_COOKIE)?.value !== locale) {
+        response.cookies.set(LOCALE_COOKIE, locale, { path: '/', maxAge: LOCALE_COOKIE_MAX_AGE, sameSite: 'lax' });
+    }
+    return response;
+}
+
+export const config = {
+    matcher: ['/((?!api|_next|__nextjs|admin|favicon.ico|.*\\..*).*)'],
+};